@@ -0,0 +1,125 @@
+/**
+ * Bounded concurrency and retries for the parsers
+ *
+ * Docs are parsed, and images transferred, in small worker pools instead of
+ * one at a time. Google APIs and image downloads that answer 429 (rate
+ * limited) or 5xx are retried with exponential backoff. Pools return
+ * results in input order, so parallel runs publish the same output as
+ * serial ones.
+ */
+
+// ─── Worker Pools ────────────────────────────────────────────────────────────
+
+/** Runs a task once a pool slot is free */
+export type Limiter = <T>(task: () => Promise<T>) => Promise<T>;
+
+/** Docs parsed at the same time by parse:all */
+export const DEFAULT_DOC_CONCURRENCY = 3;
+/** Images transferred at the same time per doc */
+export const DEFAULT_IMAGE_CONCURRENCY = 4;
+
+export function createLimiter(concurrency: number): Limiter {
+  const max = Math.max(1, Math.floor(concurrency) || 1);
+  const queue: Array<() => void> = [];
+  let active = 0;
+
+  const next = () => {
+    if (active >= max || queue.length === 0) return;
+    active++;
+    queue.shift()!();
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      Promise.resolve()
+        .then(task)
+        .then(resolve, reject)
+        .then(() => {
+          active--;
+          next();
+        });
+    });
+    next();
+  });
+}
+
+/** Map `items` through `fn` with at most `concurrency` calls in flight; results keep input order */
+export function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const limit = createLimiter(concurrency);
+  return Promise.all(items.map((item, index) => limit(() => fn(item, index))));
+}
+
+// ─── Retries ─────────────────────────────────────────────────────────────────
+
+export interface RetryOptions {
+  /** Retries after the first attempt */
+  retries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  /** What is being retried, for logs */
+  label?: string;
+}
+
+const DEFAULT_RETRIES = 5;
+const DEFAULT_BASE_DELAY_MS = 1000;
+const DEFAULT_MAX_DELAY_MS = 32000;
+const RETRYABLE_NETWORK_CODES = ['ECONNRESET', 'ETIMEDOUT', 'EAI_AGAIN', 'ECONNREFUSED', 'EPIPE'];
+
+/** HTTP status of a googleapis (Gaxios), Cloud Storage or download error */
+export function getErrorStatus(error: any): number | undefined {
+  const status = error?.response?.status ?? error?.status ?? error?.code;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/** Rate limits, server errors and dropped connections are worth retrying */
+export function isRetryableError(error: any): boolean {
+  const status = getErrorStatus(error);
+  if (status === undefined) return RETRYABLE_NETWORK_CODES.includes(error?.code);
+  return status === 429 || status >= 500;
+}
+
+/**
+ * Delay before retry number `attempt` (0-based): doubles each time up to
+ * `maxDelayMs`, with the upper half randomized so parallel workers spread out.
+ */
+export function backoffDelay(
+  attempt: number,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  random: () => number = Math.random,
+): number {
+  const ceiling = Math.min(maxDelayMs, baseDelayMs * Math.pow(2, attempt));
+  return Math.round(ceiling / 2 + random() * (ceiling / 2));
+}
+
+/** Wait the API asked for in a Retry-After header (ms), 0 without one */
+function getRetryAfterMs(error: any): number {
+  const header = error?.response?.headers?.['retry-after'];
+  const seconds = Number(Array.isArray(header) ? header[0] : header);
+  return Number.isFinite(seconds) && seconds > 0 ? seconds * 1000 : 0;
+}
+
+/** Run `task`, retrying retryable failures with exponential backoff */
+export async function withRetry<T>(task: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+  const retries = options.retries ?? DEFAULT_RETRIES;
+
+  for (let attempt = 0; ; attempt++) {
+    try {
+      return await task();
+    } catch (error: any) {
+      if (attempt >= retries || !isRetryableError(error)) throw error;
+
+      const delay = Math.max(
+        backoffDelay(attempt, options.baseDelayMs, options.maxDelayMs),
+        getRetryAfterMs(error),
+      );
+      const reason = getErrorStatus(error) ?? error?.code;
+      console.warn(`   ⏳ ${options.label ?? 'Request'} failed (${reason}), retry ${attempt + 1}/${retries} in ${delay}ms`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+}
@@ -0,0 +1,288 @@
+/**
+ * Where parsed content gets published
+ *
+ * The parsers never talk to Firebase Storage directly; they read and write
+ * through a ContentStore so the same publish flow can target:
+ *
+ *   - BucketContentStore  → the Firebase Storage bucket (default)
+ *   - LocalContentStore   → a local directory with the same bucket layout
+ *   - DryRunContentStore  → reads from another store, records writes/deletes
+ *                           as planned changes without touching anything
+ *   - PrefixedContentStore → another store under a path prefix, used for
+ *                           content channels (`channels/<name>/...`)
+ *
+ * Paths are always bucket-relative (e.g. `courses/<id>/course-detail.json`).
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { ensureFirebaseAdminInitialized } from './runtimeConfig';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface WriteOptions {
+  contentType: string;
+  cacheControl: string;
+  /** Make the object publicly readable (bucket only) */
+  public?: boolean;
+}
+
+/** A write or delete that a DryRunContentStore would have performed */
+export interface PlannedChange {
+  action: 'upload' | 'delete';
+  path: string;
+  bytes?: number;
+}
+
+export interface ContentStore {
+  /** Human-readable target, for logs */
+  readonly description: string;
+  /** Public URL the app will load `storagePath` from */
+  publicUrl(storagePath: string): string;
+  /** Read and parse a JSON file; null when it doesn't exist or can't be parsed */
+  readJson<T = any>(storagePath: string): Promise<T | null>;
+  writeFile(storagePath: string, content: Buffer | string, options: WriteOptions): Promise<string>;
+  /** List all file paths under a prefix */
+  listFiles(prefix: string): Promise<string[]>;
+  deleteFiles(storagePaths: string[]): Promise<void>;
+  /** Copy a file within the store, keeping its content type and cache headers; returns the copy's public URL */
+  copyFile(fromPath: string, toPath: string, options?: { public?: boolean }): Promise<string>;
+}
+
+/** Serialize and write a JSON document, returns its public URL */
+export function writeJson(
+  store: ContentStore,
+  storagePath: string,
+  data: any,
+  options: { cacheControl: string; public?: boolean },
+): Promise<string> {
+  return store.writeFile(storagePath, JSON.stringify(data, null, 2), {
+    contentType: 'application/json',
+    ...options,
+  });
+}
+
+// ─── Firebase Storage ────────────────────────────────────────────────────────
+
+export class BucketContentStore implements ContentStore {
+  get description(): string {
+    return `bucket ${this.bucket().name}`;
+  }
+
+  private bucket() {
+    ensureFirebaseAdminInitialized();
+    return admin.storage().bucket();
+  }
+
+  publicUrl(storagePath: string): string {
+    return `https://storage.googleapis.com/${this.bucket().name}/${storagePath}`;
+  }
+
+  async readJson<T = any>(storagePath: string): Promise<T | null> {
+    try {
+      const file = this.bucket().file(storagePath);
+      const [exists] = await file.exists();
+      if (!exists) return null;
+
+      const [content] = await file.download();
+      return JSON.parse(content.toString());
+    } catch {
+      return null;
+    }
+  }
+
+  async writeFile(storagePath: string, content: Buffer | string, options: WriteOptions): Promise<string> {
+    await this.bucket().file(storagePath).save(content, {
+      metadata: { contentType: options.contentType, cacheControl: options.cacheControl },
+      public: options.public,
+    });
+    return this.publicUrl(storagePath);
+  }
+
+  async listFiles(prefix: string): Promise<string[]> {
+    const [files] = await this.bucket().getFiles({ prefix });
+    return files.map((f: any) => f.name);
+  }
+
+  async deleteFiles(storagePaths: string[]): Promise<void> {
+    const bucket = this.bucket();
+    await Promise.all(storagePaths.map(p => bucket.file(p).delete()));
+  }
+
+  async copyFile(fromPath: string, toPath: string, options: { public?: boolean } = {}): Promise<string> {
+    const bucket = this.bucket();
+    await bucket.file(fromPath).copy(bucket.file(toPath));
+    if (options.public) await bucket.file(toPath).makePublic();
+    return this.publicUrl(toPath);
+  }
+}
+
+// ─── Local Directory ─────────────────────────────────────────────────────────
+
+export class LocalContentStore implements ContentStore {
+  /**
+   * @param rootDir  directory that plays the role of the bucket root
+   * @param baseUrl  prefix for public URLs; bucket-relative paths when omitted
+   */
+  constructor(private readonly rootDir: string, private readonly baseUrl?: string) {}
+
+  get description(): string {
+    return `directory ${this.rootDir}`;
+  }
+
+  private resolve(storagePath: string): string {
+    return path.join(this.rootDir, storagePath);
+  }
+
+  publicUrl(storagePath: string): string {
+    return this.baseUrl ? `${this.baseUrl.replace(/\/+$/, '')}/${storagePath}` : storagePath;
+  }
+
+  async readJson<T = any>(storagePath: string): Promise<T | null> {
+    try {
+      return JSON.parse(fs.readFileSync(this.resolve(storagePath), 'utf8'));
+    } catch {
+      return null;
+    }
+  }
+
+  async writeFile(storagePath: string, content: Buffer | string): Promise<string> {
+    const target = this.resolve(storagePath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.writeFileSync(target, content);
+    return this.publicUrl(storagePath);
+  }
+
+  async listFiles(prefix: string): Promise<string[]> {
+    const walk = (dir: string): string[] => {
+      if (!fs.existsSync(dir)) return [];
+      return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+        const entryPath = path.join(dir, entry.name);
+        return entry.isDirectory() ? walk(entryPath) : [entryPath];
+      });
+    };
+
+    return walk(this.rootDir)
+      .map(file => path.relative(this.rootDir, file).split(path.sep).join('/'))
+      .filter(file => file.startsWith(prefix))
+      .sort();
+  }
+
+  async deleteFiles(storagePaths: string[]): Promise<void> {
+    for (const storagePath of storagePaths) {
+      fs.rmSync(this.resolve(storagePath), { force: true });
+    }
+  }
+
+  async copyFile(fromPath: string, toPath: string): Promise<string> {
+    const target = this.resolve(toPath);
+    fs.mkdirSync(path.dirname(target), { recursive: true });
+    fs.copyFileSync(this.resolve(fromPath), target);
+    return this.publicUrl(toPath);
+  }
+}
+
+// ─── Dry Run ─────────────────────────────────────────────────────────────────
+
+export class DryRunContentStore implements ContentStore {
+  readonly plannedChanges: PlannedChange[] = [];
+  /** Writes are kept in memory so later reads in the same run see them */
+  private readonly pendingWrites = new Map<string, Buffer | string>();
+
+  constructor(private readonly source: ContentStore) {}
+
+  get description(): string {
+    return `dry run against ${this.source.description}`;
+  }
+
+  publicUrl(storagePath: string): string {
+    return this.source.publicUrl(storagePath);
+  }
+
+  async readJson<T = any>(storagePath: string): Promise<T | null> {
+    const pending = this.pendingWrites.get(storagePath);
+    if (pending !== undefined) {
+      try {
+        return JSON.parse(pending.toString());
+      } catch {
+        return null;
+      }
+    }
+    return this.source.readJson<T>(storagePath);
+  }
+
+  async writeFile(storagePath: string, content: Buffer | string): Promise<string> {
+    this.pendingWrites.set(storagePath, content);
+    this.plannedChanges.push({ action: 'upload', path: storagePath, bytes: Buffer.byteLength(content) });
+    return this.publicUrl(storagePath);
+  }
+
+  async listFiles(prefix: string): Promise<string[]> {
+    return this.source.listFiles(prefix);
+  }
+
+  async deleteFiles(storagePaths: string[]): Promise<void> {
+    for (const storagePath of storagePaths) {
+      this.plannedChanges.push({ action: 'delete', path: storagePath });
+    }
+  }
+
+  async copyFile(fromPath: string, toPath: string): Promise<string> {
+    const pending = this.pendingWrites.get(fromPath);
+    if (pending !== undefined) this.pendingWrites.set(toPath, pending);
+    this.plannedChanges.push({ action: 'upload', path: toPath });
+    return this.publicUrl(toPath);
+  }
+}
+
+// ─── Channels ────────────────────────────────────────────────────────────────
+
+export class PrefixedContentStore implements ContentStore {
+  constructor(private readonly inner: ContentStore, private readonly prefix: string) {}
+
+  get description(): string {
+    return `${this.inner.description} under ${this.prefix}`;
+  }
+
+  publicUrl(storagePath: string): string {
+    return this.inner.publicUrl(this.prefix + storagePath);
+  }
+
+  readJson<T = any>(storagePath: string): Promise<T | null> {
+    return this.inner.readJson<T>(this.prefix + storagePath);
+  }
+
+  writeFile(storagePath: string, content: Buffer | string, options: WriteOptions): Promise<string> {
+    return this.inner.writeFile(this.prefix + storagePath, content, options);
+  }
+
+  async listFiles(prefix: string): Promise<string[]> {
+    const files = await this.inner.listFiles(this.prefix + prefix);
+    return files.map(file => file.slice(this.prefix.length));
+  }
+
+  deleteFiles(storagePaths: string[]): Promise<void> {
+    return this.inner.deleteFiles(storagePaths.map(p => this.prefix + p));
+  }
+
+  copyFile(fromPath: string, toPath: string, options?: { public?: boolean }): Promise<string> {
+    return this.inner.copyFile(this.prefix + fromPath, this.prefix + toPath, options);
+  }
+}
+
+/** Path prefix of a content channel, e.g. `channels/staging/` */
+export function channelPrefix(channel: string): string {
+  if (!/^[a-z0-9-]+$/.test(channel)) {
+    throw new Error(`Invalid channel "${channel}" (use lowercase letters, digits and dashes)`);
+  }
+  return `channels/${channel}/`;
+}
+
+/**
+ * The store a channel publishes to: the bucket layout under
+ * `channels/<channel>/`, or `store` itself for production (no channel).
+ */
+export function channelStore(store: ContentStore, channel?: string): ContentStore {
+  return channel ? new PrefixedContentStore(store, channelPrefix(channel)) : store;
+}
@@ -0,0 +1,209 @@
+/**
+ * Soft-delete for orphaned courses
+ *
+ * When a course's doc disappears from the Drive folder, parse:all doesn't
+ * delete the course. It moves everything under courses/<id>/ to
+ * archive/courses/<id>/ (not public), drops it from the doc-mapping and
+ * the course index, and records it in archive/index.json:
+ *
+ *   { "<courseId>": { courseId, docId, mappingEntry, archivedAt } }
+ *
+ * A translation is archived on its own under its content ID
+ * (`<courseId>/<language>`, see courseTranslations.ts); archiving a course
+ * moves its translations' files along with it.
+ *
+ * Archived files are deleted for good once the grace period (days since
+ * `archivedAt`) is over. It is measured in time, not runs: parse:all also
+ * runs every hour on the schedule and for publish API calls. If the doc
+ * shows up again before that, the course is restored as it was (see
+ * restoreCourse.ts for doing it by hand).
+ */
+
+import { ContentStore, writeJson } from './contentStore';
+import { contentId } from './courseTranslations';
+import type { DocMappingEntry } from './parseAllDocs';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ArchivedCourse {
+  courseId: string;
+  /** Google Doc the course was parsed from */
+  docId: string;
+  /** Doc-mapping entry at archive time, put back on restore */
+  mappingEntry: DocMappingEntry;
+  archivedAt: string;
+}
+
+/** courseId → ArchivedCourse */
+export type ArchiveIndex = Record<string, ArchivedCourse>;
+
+/** Days an orphaned course stays in the archive before deletion */
+export const DEFAULT_ARCHIVE_GRACE_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ARCHIVE_INDEX_PATH = 'archive/index.json';
+
+export function archiveDir(courseId: string): string {
+  return `archive/courses/${courseId}/`;
+}
+
+// ─── Archive Index ───────────────────────────────────────────────────────────
+
+export async function readArchiveIndex(store: ContentStore): Promise<ArchiveIndex> {
+  return (await store.readJson<ArchiveIndex>(ARCHIVE_INDEX_PATH)) || {};
+}
+
+export async function saveArchiveIndex(store: ContentStore, index: ArchiveIndex): Promise<void> {
+  await writeJson(store, ARCHIVE_INDEX_PATH, index, { cacheControl: 'private, max-age=0' });
+}
+
+/** Archived course IDs whose grace period is over at `now` */
+export function selectExpiredArchives(index: ArchiveIndex, graceDays: number, now: number = Date.now()): string[] {
+  return Object.values(index)
+    .filter(archived => Date.parse(archived.archivedAt) + graceDays * DAY_MS <= now)
+    .map(archived => archived.courseId);
+}
+
+// ─── Moving Files ────────────────────────────────────────────────────────────
+
+/**
+ * Whether a restored course file is made public again. Everything the
+ * publish path writes under courses/<id>/ is public except the parse reports
+ * (of the course and its translations).
+ */
+function isPublicCourseFile(path: string): boolean {
+  return !path.endsWith('/parse-report.json');
+}
+
+/**
+ * Copy every file under `fromPrefix` to `toPrefix`, then delete the
+ * originals. Copies are public where `isPublic` says so.
+ */
+async function moveFiles(
+  store: ContentStore,
+  fromPrefix: string,
+  toPrefix: string,
+  isPublic: (path: string) => boolean = () => false,
+): Promise<number> {
+  const files = await store.listFiles(fromPrefix);
+  for (const file of files) {
+    const target = toPrefix + file.slice(fromPrefix.length);
+    await store.copyFile(file, target, { public: isPublic(target) });
+  }
+  if (files.length > 0) await store.deleteFiles(files);
+  return files.length;
+}
+
+/**
+ * Move a course to the archive and record it in `index` (the caller saves
+ * the index). An older archive of the same course ID is replaced.
+ */
+export async function archiveCourse(
+  store: ContentStore,
+  index: ArchiveIndex,
+  docId: string,
+  mappingEntry: DocMappingEntry,
+): Promise<{ archived: ArchivedCourse; fileCount: number }> {
+  const courseId = contentId(mappingEntry);
+  if (index[courseId]) await purgeArchivedCourse(store, index, courseId);
+
+  const fileCount = await moveFiles(store, `courses/${courseId}/`, archiveDir(courseId));
+  const archived: ArchivedCourse = { courseId, docId, mappingEntry, archivedAt: new Date().toISOString() };
+  index[courseId] = archived;
+  return { archived, fileCount };
+}
+
+/**
+ * Move an archived course back to courses/<id>/ and drop it from `index`.
+ * Returns the archive record so the caller can restore the doc-mapping
+ * entry and the course index.
+ */
+export async function restoreArchivedCourse(
+  store: ContentStore,
+  index: ArchiveIndex,
+  courseId: string,
+): Promise<{ archived: ArchivedCourse; fileCount: number }> {
+  const archived = index[courseId];
+  if (!archived) throw new Error(`${courseId} is not in the archive`);
+
+  const fileCount = await moveFiles(store, archiveDir(courseId), `courses/${courseId}/`, isPublicCourseFile);
+  delete index[courseId];
+  return { archived, fileCount };
+}
+
+/** Delete an archived course's files and drop it from `index` */
+export async function purgeArchivedCourse(store: ContentStore, index: ArchiveIndex, courseId: string): Promise<number> {
+  const files = await store.listFiles(archiveDir(courseId));
+  if (files.length > 0) await store.deleteFiles(files);
+  delete index[courseId];
+  return files.length;
+}
+
+// ─── parse:all ───────────────────────────────────────────────────────────────
+
+export interface UpdateArchiveOptions {
+  /** Days an archived course is kept (defaults to DEFAULT_ARCHIVE_GRACE_DAYS) */
+  graceDays?: number;
+  /** Delete all archived courses now */
+  purge?: boolean;
+  now?: number;
+}
+
+/**
+ * The archive step of a parse:all run: restore courses whose doc is back in
+ * the folder, archive courses whose doc is gone from it, and delete archives
+ * whose grace period is over. Updates `docMapping` in place and saves the
+ * archive index.
+ */
+export async function updateArchive(
+  store: ContentStore,
+  docMapping: Record<string, DocMappingEntry>,
+  driveDocIds: Set<string>,
+  options: UpdateArchiveOptions = {},
+): Promise<void> {
+  const graceDays = options.graceDays ?? DEFAULT_ARCHIVE_GRACE_DAYS;
+  const purge = options.purge ?? false;
+  const archiveIndex = await readArchiveIndex(store);
+  const hadArchive = Object.keys(archiveIndex).length > 0;
+
+  for (const archived of Object.values(archiveIndex)) {
+    if (!driveDocIds.has(archived.docId) || docMapping[archived.docId]) continue;
+    console.log(`♻️  Restoring ${archived.courseId}: doc ${archived.docId} is back in the folder`);
+    const { fileCount } = await restoreArchivedCourse(store, archiveIndex, archived.courseId);
+    docMapping[archived.docId] = archived.mappingEntry;
+    console.log(`      Moved ${fileCount} file(s) back to courses/${archived.courseId}/\n`);
+  }
+
+  const orphanedDocIds = Object.keys(docMapping).filter(id => !driveDocIds.has(id));
+
+  if (orphanedDocIds.length > 0) {
+    console.log(`📦 Found ${orphanedDocIds.length} orphaned course(s) (doc no longer in the folder):\n`);
+
+    for (const orphanDocId of orphanedDocIds) {
+      const entry = docMapping[orphanDocId];
+      console.log(`   📦 Archiving: ${contentId(entry)} (doc ${orphanDocId})`);
+
+      try {
+        const { fileCount } = await archiveCourse(store, archiveIndex, orphanDocId, entry);
+        delete docMapping[orphanDocId];
+        console.log(`      Moved ${fileCount} file(s) to ${archiveDir(contentId(entry))}`);
+      } catch (error: any) {
+        // Keep the mapping entry so the next run tries again
+        console.error(`      ⚠️  Error archiving ${contentId(entry)}: ${error.message}`);
+      }
+    }
+    console.log(`   Restore with \`npm run restore -- <courseId>\`; deleted after ${graceDays} day(s)\n`);
+  }
+
+  const expired = purge ? Object.keys(archiveIndex) : selectExpiredArchives(archiveIndex, graceDays, options.now);
+  for (const courseId of expired) {
+    const fileCount = await purgeArchivedCourse(store, archiveIndex, courseId);
+    console.log(`🗑️  Deleted archived ${courseId} (${fileCount} file(s))${purge ? '' : ' after the grace period'}`);
+  }
+  if (expired.length > 0) console.log();
+
+  if (hadArchive || Object.keys(archiveIndex).length > 0) {
+    await saveArchiveIndex(store, archiveIndex);
+  }
+}
@@ -0,0 +1,202 @@
+/**
+ * Versioned course publishing
+ *
+ * Every publish writes the course JSON into its own release directory and
+ * only then switches a small manifest to it:
+ *
+ *   courses/<id>/releases/<releaseId>/course-summary.json
+ *   courses/<id>/releases/<releaseId>/course-detail.json
+ *   courses/<id>/manifest.json      ← current release + history, written last
+ *
+ * A run that stops before the manifest write leaves the live release as it
+ * was. After the switch, course-summary.json / course-detail.json at the
+ * course root are refreshed as copies for app builds that read them
+ * directly, and releases beyond the retention count are deleted (never the
+ * current one).
+ *
+ * Images are not part of a release: they keep their stable paths and are
+ * cache-busted with `?v=<version>`, so a rolled-back release shows the
+ * current bytes of an image that was replaced since.
+ */
+
+import * as crypto from 'crypto';
+import { ContentStore, writeJson } from './contentStore';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface CourseRelease {
+  releaseId: string;
+  publishedAt: string;
+}
+
+export interface CourseManifest {
+  courseId: string;
+  currentRelease: string;
+  /** Bucket-relative paths of the current release's files */
+  summaryPath: string;
+  detailPath: string;
+  updatedAt: string;
+  /** Releases still in storage, newest first */
+  releases: CourseRelease[];
+}
+
+/** Releases kept per course, the current one included */
+export const DEFAULT_RELEASE_RETENTION = 5;
+
+const RELEASE_CACHE_CONTROL = 'public, max-age=31536000, immutable';
+const MANIFEST_CACHE_CONTROL = 'public, max-age=60';
+const LEGACY_CACHE_CONTROL = 'public, max-age=3600';
+
+// ─── Paths ───────────────────────────────────────────────────────────────────
+
+export function manifestPath(courseId: string): string {
+  return `courses/${courseId}/manifest.json`;
+}
+
+export function releaseDir(courseId: string, releaseId: string): string {
+  return `courses/${courseId}/releases/${releaseId}/`;
+}
+
+/**
+ * Sortable, unique release ID: publish time (UTC, to the second) plus the
+ * start of the published JSON's hash, e.g. `20261019T101500Z-1a2b3c4d`.
+ */
+export function createReleaseId(now: Date, content: any): string {
+  const stamp = now.toISOString().replace(/\.\d+Z$/, 'Z').replace(/[-:]/g, '');
+  const hash = crypto.createHash('sha256').update(JSON.stringify(content)).digest('hex');
+  return `${stamp}-${hash.slice(0, 8)}`;
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────────────
+
+export async function readCourseManifest(store: ContentStore, courseId: string): Promise<CourseManifest | null> {
+  const manifest = await store.readJson<CourseManifest>(manifestPath(courseId));
+  return manifest?.currentRelease ? manifest : null;
+}
+
+/**
+ * The published summary and detail: the manifest's current release, or the
+ * files at the course root for courses published before releases existed.
+ */
+export async function readPublishedCourse(
+  store: ContentStore,
+  courseId: string,
+): Promise<{ summary: any | null; detail: any | null }> {
+  const manifest = await readCourseManifest(store, courseId);
+  const [summary, detail] = await Promise.all([
+    store.readJson(manifest?.summaryPath ?? `courses/${courseId}/course-summary.json`),
+    store.readJson(manifest?.detailPath ?? `courses/${courseId}/course-detail.json`),
+  ]);
+  return { summary, detail };
+}
+
+// ─── Publishing ──────────────────────────────────────────────────────────────
+
+/**
+ * Release IDs to delete so at most `retention` remain: the current release
+ * (after a rollback it isn't the newest) plus the newest others.
+ */
+export function selectReleasesToPrune(
+  releases: CourseRelease[],
+  currentRelease: string,
+  retention: number,
+): string[] {
+  const keep = releases
+    .filter(r => r.releaseId !== currentRelease)
+    .slice(0, Math.max(1, retention) - 1)
+    .map(r => r.releaseId);
+  keep.push(currentRelease);
+  return releases.filter(r => !keep.includes(r.releaseId)).map(r => r.releaseId);
+}
+
+/** Point the manifest at `releaseId` and refresh the root copies */
+async function switchRelease(
+  store: ContentStore,
+  courseId: string,
+  releaseId: string,
+  releases: CourseRelease[],
+  files: { summary: any; detail: any },
+): Promise<CourseManifest> {
+  const dir = releaseDir(courseId, releaseId);
+  const manifest: CourseManifest = {
+    courseId,
+    currentRelease: releaseId,
+    summaryPath: `${dir}course-summary.json`,
+    detailPath: `${dir}course-detail.json`,
+    updatedAt: new Date().toISOString(),
+    releases,
+  };
+
+  await writeJson(store, manifestPath(courseId), manifest, { cacheControl: MANIFEST_CACHE_CONTROL, public: true });
+  await writeJson(store, `courses/${courseId}/course-summary.json`, files.summary, { cacheControl: LEGACY_CACHE_CONTROL, public: true });
+  await writeJson(store, `courses/${courseId}/course-detail.json`, files.detail, { cacheControl: LEGACY_CACHE_CONTROL, public: true });
+  return manifest;
+}
+
+async function deleteReleases(store: ContentStore, courseId: string, releaseIds: string[]): Promise<void> {
+  for (const releaseId of releaseIds) {
+    const files = await store.listFiles(releaseDir(courseId, releaseId));
+    if (files.length > 0) await store.deleteFiles(files);
+  }
+}
+
+/**
+ * Publish a course as a new release: upload its files, switch the manifest,
+ * then prune old releases. Returns the new release and the public URLs.
+ */
+export async function publishCourseRelease(
+  store: ContentStore,
+  courseId: string,
+  files: { summary: any; detail: any },
+  options: { retention?: number; now?: Date } = {},
+): Promise<{ releaseId: string; summaryUrl: string; detailUrl: string; pruned: string[] }> {
+  const now = options.now ?? new Date();
+  const retention = options.retention ?? DEFAULT_RELEASE_RETENTION;
+  const releaseId = createReleaseId(now, files);
+  const dir = releaseDir(courseId, releaseId);
+
+  const summaryUrl = await writeJson(store, `${dir}course-summary.json`, files.summary, { cacheControl: RELEASE_CACHE_CONTROL, public: true });
+  const detailUrl = await writeJson(store, `${dir}course-detail.json`, files.detail, { cacheControl: RELEASE_CACHE_CONTROL, public: true });
+
+  const previous = await readCourseManifest(store, courseId);
+  const releases = [
+    { releaseId, publishedAt: now.toISOString() },
+    ...(previous?.releases ?? []).filter(r => r.releaseId !== releaseId),
+  ];
+  const pruned = selectReleasesToPrune(releases, releaseId, retention);
+
+  await switchRelease(store, courseId, releaseId, releases.filter(r => !pruned.includes(r.releaseId)), files);
+  await deleteReleases(store, courseId, pruned);
+
+  return { releaseId, summaryUrl, detailUrl, pruned };
+}
+
+/**
+ * Make an earlier release current again. Without `releaseId`, goes back one
+ * release from the current one. Later releases stay in storage, so rolling
+ * forward is another rollback to their ID.
+ */
+export async function rollbackCourseRelease(
+  store: ContentStore,
+  courseId: string,
+  releaseId?: string,
+): Promise<CourseManifest> {
+  const manifest = await readCourseManifest(store, courseId);
+  if (!manifest) throw new Error(`No manifest for ${courseId}; it was published before releases existed`);
+
+  const currentIndex = manifest.releases.findIndex(r => r.releaseId === manifest.currentRelease);
+  const target = releaseId ?? manifest.releases[currentIndex + 1]?.releaseId;
+  if (!target) throw new Error(`${courseId} has no release older than ${manifest.currentRelease}`);
+  if (!manifest.releases.some(r => r.releaseId === target)) {
+    throw new Error(`Unknown release "${target}" for ${courseId}. Available: ${manifest.releases.map(r => r.releaseId).join(', ')}`);
+  }
+
+  const dir = releaseDir(courseId, target);
+  const [summary, detail] = await Promise.all([
+    store.readJson(`${dir}course-summary.json`),
+    store.readJson(`${dir}course-detail.json`),
+  ]);
+  if (!summary || !detail) throw new Error(`Release ${target} of ${courseId} is incomplete in storage`);
+
+  return switchRelease(store, courseId, target, manifest.releases, { summary, detail });
+}
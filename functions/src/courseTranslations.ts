@@ -0,0 +1,78 @@
+/**
+ * Translated courses
+ *
+ * A doc with `Translation Of: <courseId>` and `Language: <code>` is not a
+ * course of its own but a language variant of that (canonical) course. It
+ * is published inside the canonical course's folder, with the canonical
+ * lesson IDs, so progress, rewards and certificates are shared between
+ * languages:
+ *
+ *   courses/<courseId>/manifest.json               canonical course
+ *   courses/<courseId>/<language>/manifest.json    translation, same release layout
+ *   courses/<courseId>/<language>/lessons/...      its images
+ *
+ * Storage code addresses a translation by its content ID `<courseId>/<language>`
+ * wherever it takes a course ID (releases, reports, archive). The course
+ * index lists the languages each course is available in besides its own:
+ *
+ *   courses/index.json  { "courses": [...], "translations": { "<courseId>": ["es"] } }
+ *
+ * How translated lessons are matched to the canonical ones is in
+ * parseGoogleDoc.ts (matchTranslatedLessons).
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** courses/index.json */
+export interface CourseIndex {
+  courses?: string[];
+  /** courseId → translation languages */
+  translations?: Record<string, string[]>;
+  lastUpdated?: string;
+}
+
+/** A published course or translation */
+export interface ContentRef {
+  courseId: string;
+  /** Set for translations */
+  language?: string;
+}
+
+/** `en`, `es`, `pt-br`: a language with optional region/script subtags */
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+// ─── IDs ─────────────────────────────────────────────────────────────────────
+
+/** Lowercased language code (`pt_BR` → `pt-br`), or null when it isn't one */
+export function normalizeLanguage(value: string | undefined): string | null {
+  const language = (value || '').trim().toLowerCase().replace(/_/g, '-');
+  return LANGUAGE_CODE.test(language) ? language : null;
+}
+
+/** Where a course or translation lives under courses/ */
+export function contentId(ref: ContentRef): string {
+  return ref.language ? `${ref.courseId}/${ref.language}` : ref.courseId;
+}
+
+/** `farming-101/es` → { courseId: 'farming-101', language: 'es' } */
+export function parseContentId(id: string): ContentRef {
+  const [courseId, language] = id.split('/');
+  return language ? { courseId, language } : { courseId };
+}
+
+// ─── Course Index ────────────────────────────────────────────────────────────
+
+/**
+ * The `translations` map of the course index: languages of the published
+ * translations, sorted, for courses in `courseIds` only.
+ */
+export function collectTranslations(refs: ContentRef[], courseIds: string[]): Record<string, string[]> {
+  const translations: Record<string, string[]> = {};
+  for (const { courseId, language } of refs) {
+    if (!language || !courseIds.includes(courseId)) continue;
+    const languages = translations[courseId] || (translations[courseId] = []);
+    if (!languages.includes(language)) languages.push(language);
+  }
+  Object.values(translations).forEach(languages => languages.sort());
+  return translations;
+}
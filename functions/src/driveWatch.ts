@@ -0,0 +1,322 @@
+/**
+ * Automatic republishing: on a schedule and when Drive reports changes
+ *
+ * Two paths, both queuing publish jobs (see publishJobs.ts), so each run
+ * leaves a job document in publishJobs/ to inspect and never overlaps an
+ * API publish:
+ *
+ *   - runScheduledPublish() queues an incremental `all` job (parse:all:
+ *     unmodified docs are skipped unread) and keeps the Drive watch alive
+ *   - Drive `changes.watch` notifications hit handleDriveNotification(),
+ *     which only marks the watch dirty. processDriveChanges(), run every
+ *     minute, lists the changes, remembers each changed doc with its Drive
+ *     modifiedTime, and queues a `changes` job for the docs nobody has
+ *     edited for the debounce period. A burst of edits keeps pushing
+ *     modifiedTime forward, so the doc is published once, after the last one.
+ *
+ * Watch state lives in one Firestore document:
+ *
+ *   driveWatch/state
+ *     { channelId, resourceId, token, expiration, pageToken, dirty,
+ *       lastNotificationAt, pendingDocs: { <docId>: <modifiedTime> } }
+ */
+
+import * as admin from 'firebase-admin';
+import * as crypto from 'crypto';
+import { withRetry } from './concurrency';
+import { initializeDriveClient } from './parseAllDocs';
+import { secretsMatch } from './publishApi';
+import { JobStore, PublishJob, PublishJobRequest, queuePublishJob } from './publishJobs';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface DriveWatchState {
+  /** Notification channel registered with changes.watch */
+  channelId?: string;
+  resourceId?: string;
+  /** Secret Drive echoes in X-Goog-Channel-Token */
+  token?: string;
+  /** When the channel expires (ms since epoch) */
+  expiration?: number;
+  /** changes.list position: changes after this are new */
+  pageToken?: string;
+  /** A notification arrived since the changes were last listed */
+  dirty?: boolean;
+  lastNotificationAt?: string;
+  /** Changed docs waiting for the debounce period: docId → Drive modifiedTime */
+  pendingDocs?: Record<string, string>;
+}
+
+export interface WatchStateStore {
+  get(): Promise<DriveWatchState>;
+  /** Replaces the given top-level fields */
+  update(patch: Partial<DriveWatchState>): Promise<void>;
+}
+
+/** One entry from Drive changes.list */
+export interface DriveChange {
+  fileId: string;
+  removed?: boolean;
+  file?: {
+    mimeType?: string;
+    modifiedTime?: string;
+    parents?: string[];
+    trashed?: boolean;
+  };
+}
+
+/** The Drive calls the watch needs; replaced in tests */
+export interface DriveChangesClient {
+  getStartPageToken(): Promise<string>;
+  /** All changes after `pageToken`, and the token to continue from */
+  listChanges(pageToken: string): Promise<{ changes: DriveChange[]; newStartPageToken: string }>;
+  watch(pageToken: string, channel: { id: string; token: string; address: string; expiration: number }): Promise<{
+    resourceId: string;
+    expiration: number;
+  }>;
+  stop(channelId: string, resourceId: string): Promise<void>;
+}
+
+/** No edits for this long before a changed doc is republished */
+export const DEFAULT_DEBOUNCE_MS = 2 * 60 * 1000;
+/** Drive keeps a changes channel for at most a week */
+const WATCH_LIFETIME_MS = 7 * 24 * 60 * 60 * 1000;
+/** Renew the channel when it has less than this left */
+const WATCH_RENEW_MS = 24 * 60 * 60 * 1000;
+
+const GOOGLE_DOC_MIME_TYPE = 'application/vnd.google-apps.document';
+
+// ─── Firestore and Drive ─────────────────────────────────────────────────────
+
+export class FirestoreWatchStateStore implements WatchStateStore {
+  private doc() {
+    return admin.firestore().collection('driveWatch').doc('state');
+  }
+
+  async get(): Promise<DriveWatchState> {
+    const snapshot = await this.doc().get();
+    return (snapshot.data() as DriveWatchState | undefined) || {};
+  }
+
+  async update(patch: Partial<DriveWatchState>): Promise<void> {
+    // mergeFields replaces maps like pendingDocs instead of merging keys into them
+    await this.doc().set(patch, { mergeFields: Object.keys(patch) });
+  }
+}
+
+export async function createDriveChangesClient(): Promise<DriveChangesClient> {
+  const drive = await initializeDriveClient();
+
+  return {
+    async getStartPageToken() {
+      const { data } = await withRetry(() => drive.changes.getStartPageToken({}), { label: 'Drive API changes.getStartPageToken' });
+      return data.startPageToken!;
+    },
+
+    async listChanges(pageToken) {
+      const changes: DriveChange[] = [];
+      let next: string | undefined = pageToken;
+      for (;;) {
+        const { data }: { data: any } = await withRetry(() => drive.changes.list({
+          pageToken: next,
+          fields: 'nextPageToken, newStartPageToken, changes(fileId, removed, file(mimeType, modifiedTime, parents, trashed))',
+          pageSize: 1000,
+        }), { label: 'Drive API changes.list' });
+        changes.push(...(data.changes || []));
+        if (data.newStartPageToken) return { changes, newStartPageToken: data.newStartPageToken };
+        next = data.nextPageToken;
+      }
+    },
+
+    async watch(pageToken, channel) {
+      const { data } = await withRetry(() => drive.changes.watch({
+        pageToken,
+        requestBody: { ...channel, type: 'web_hook', expiration: String(channel.expiration) },
+      }), { label: 'Drive API changes.watch' });
+      return { resourceId: data.resourceId!, expiration: Number(data.expiration) };
+    },
+
+    async stop(channelId, resourceId) {
+      await drive.channels.stop({ requestBody: { id: channelId, resourceId } });
+    },
+  };
+}
+
+// ─── Debounce ────────────────────────────────────────────────────────────────
+
+/**
+ * Add changed Google Docs in the folder to `pending` (with their Drive
+ * modifiedTime). Removed, trashed and moved-away docs are left to the next
+ * scheduled run, which archives their courses.
+ */
+export function recordDriveChanges(
+  pending: Record<string, string>,
+  changes: DriveChange[],
+  folderId: string,
+): Record<string, string> {
+  const next = { ...pending };
+  for (const change of changes) {
+    const file = change.file;
+    const inFolder = !change.removed && file && !file.trashed
+      && file.mimeType === GOOGLE_DOC_MIME_TYPE && (file.parents || []).includes(folderId);
+    if (inFolder && file.modifiedTime) next[change.fileId] = file.modifiedTime;
+    else delete next[change.fileId];
+  }
+  return next;
+}
+
+/** Pending docs last edited at least `debounceMs` ago */
+export function selectSettledDocs(pending: Record<string, string>, now: number, debounceMs: number): string[] {
+  return Object.keys(pending).filter(docId => now - new Date(pending[docId]).getTime() >= debounceMs);
+}
+
+// ─── Notifications ───────────────────────────────────────────────────────────
+
+/** The parts of an Express request/response the notification handler uses */
+export interface NotificationRequest {
+  method: string;
+  get(header: string): string | undefined;
+}
+
+export interface NotificationResponse {
+  status(code: number): NotificationResponse;
+  send(body?: string): void;
+}
+
+/**
+ * Drive push notification endpoint. Notifications carry no file IDs, only
+ * "something changed", so this marks the watch dirty and returns right away.
+ */
+export async function handleDriveNotification(
+  req: NotificationRequest,
+  res: NotificationResponse,
+  state: WatchStateStore,
+): Promise<void> {
+  if (req.method !== 'POST') {
+    res.status(405).send();
+    return;
+  }
+
+  const current = await state.get();
+  const channelId = req.get('x-goog-channel-id');
+  const token = req.get('x-goog-channel-token') || '';
+  if (!current.token || channelId !== current.channelId || !secretsMatch(token, current.token)) {
+    res.status(403).send();
+    return;
+  }
+
+  // `sync` is sent once when the channel is created
+  if (req.get('x-goog-resource-state') !== 'sync') {
+    await state.update({ dirty: true, lastNotificationAt: new Date().toISOString() });
+  }
+  res.status(200).send();
+}
+
+// ─── Runs ────────────────────────────────────────────────────────────────────
+
+export interface AutoPublishDeps {
+  jobs: JobStore;
+  state: WatchStateStore;
+  drive: DriveChangesClient;
+  folderId: string;
+  /** Content channel automatic publishes go to; production when omitted */
+  channel?: string;
+}
+
+function jobRequest(deps: AutoPublishDeps, request: PublishJobRequest): PublishJobRequest {
+  const withFolder: PublishJobRequest = { ...request, folderId: deps.folderId };
+  if (deps.channel) withFolder.channel = deps.channel;
+  return withFolder;
+}
+
+/**
+ * (Re-)register the changes.watch channel when there is none or it expires
+ * within a day. Without a webhook address there is nothing to register.
+ */
+export async function ensureDriveWatch(deps: AutoPublishDeps, address: string | undefined, now = Date.now()): Promise<void> {
+  if (!address) return;
+  const current = await deps.state.get();
+  if (current.channelId && current.expiration && current.expiration - now > WATCH_RENEW_MS) return;
+
+  const pageToken = current.pageToken || await deps.drive.getStartPageToken();
+  const channel = {
+    id: crypto.randomUUID(),
+    token: crypto.randomBytes(24).toString('hex'),
+    address,
+    expiration: now + WATCH_LIFETIME_MS,
+  };
+  const { resourceId, expiration } = await deps.drive.watch(pageToken, channel);
+  await deps.state.update({ channelId: channel.id, resourceId, token: channel.token, expiration, pageToken });
+  console.log(`👀 Watching Drive changes until ${new Date(expiration).toISOString()} (channel ${channel.id})`);
+
+  if (current.channelId && current.resourceId) {
+    try {
+      await deps.drive.stop(current.channelId, current.resourceId);
+    } catch (error: any) {
+      console.warn(`⚠️  Could not stop old channel ${current.channelId}: ${error.message}`);
+    }
+  }
+}
+
+/** Queue an incremental publish of the whole folder, unless a publish is running */
+export async function runScheduledPublish(
+  deps: AutoPublishDeps,
+  watchAddress?: string,
+): Promise<PublishJob | null> {
+  try {
+    await ensureDriveWatch(deps, watchAddress);
+  } catch (error: any) {
+    // Publishing on the schedule still works without push notifications
+    console.error(`❌ Drive watch renewal failed: ${error.message}`);
+  }
+
+  const { created, active } = await queuePublishJob(deps.jobs, jobRequest(deps, { type: 'all' }), 'schedule');
+  if (active) {
+    console.log(`⏭️  Skipping scheduled publish: job ${active.jobId} is ${active.status}`);
+    return null;
+  }
+  return created;
+}
+
+/**
+ * Pick up Drive changes and queue a job for the changed docs that have
+ * settled. Docs stay pending while a publish is running and are tried on
+ * the next call.
+ */
+export async function processDriveChanges(
+  deps: AutoPublishDeps,
+  options: { now?: number; debounceMs?: number } = {},
+): Promise<PublishJob | null> {
+  const current = await deps.state.get();
+  if (!current.pageToken) return null;
+  let pending = current.pendingDocs || {};
+
+  if (current.dirty) {
+    // Cleared together with the new pageToken, so a failed listing is retried
+    // on the next call. A notification that arrived during the listing keeps
+    // the watch dirty: its change may be after newStartPageToken was taken.
+    const { changes, newStartPageToken } = await deps.drive.listChanges(current.pageToken);
+    pending = recordDriveChanges(pending, changes, deps.folderId);
+    const latest = await deps.state.get();
+    const notifiedDuringListing = latest.lastNotificationAt !== current.lastNotificationAt;
+    await deps.state.update({ pageToken: newStartPageToken, pendingDocs: pending, dirty: notifiedDuringListing });
+  }
+
+  const settled = selectSettledDocs(pending, options.now ?? Date.now(), options.debounceMs ?? DEFAULT_DEBOUNCE_MS);
+  if (settled.length === 0) return null;
+
+  const { created: job, active } = await queuePublishJob(
+    deps.jobs,
+    jobRequest(deps, { type: 'changes', docIds: settled }),
+    'drive-change',
+  );
+  if (active) {
+    console.log(`⏭️  ${settled.length} changed doc(s) wait for job ${active.jobId}`);
+    return null;
+  }
+
+  const remaining = { ...pending };
+  settled.forEach(docId => delete remaining[docId]);
+  await deps.state.update({ pendingDocs: remaining });
+  return job;
+}
@@ -0,0 +1,189 @@
+/**
+ * Image type detection and responsive variants
+ *
+ * Every lesson image is published at its original size (the block's `src`)
+ * plus resized WebP and JPEG copies next to it:
+ *
+ *   lessons/<lessonId>/image-1.png          original
+ *   lessons/<lessonId>/image-1-480w.webp    variants, at most 1920px wide
+ *   lessons/<lessonId>/image-1-480w.jpg
+ *   lessons/<lessonId>/image-1-960w.webp
+ *   lessons/<lessonId>/image-1-960w.jpg
+ *
+ * The image block lists the variants with their size and format, and the
+ * app picks the smallest one that covers the screen; JPEG is there for
+ * clients that can't decode WebP. Variants are never wider than the
+ * original; animated GIFs get none (resizing would keep only one frame).
+ */
+
+import * as crypto from 'crypto';
+import sharp from 'sharp';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type ImageVariantFormat = 'webp' | 'jpeg';
+
+export interface ImageVariant {
+  src: string;
+  width: number;
+  height: number;
+  format: ImageVariantFormat;
+}
+
+export interface ImageType {
+  contentType: string;
+  extension: 'png' | 'jpg' | 'gif' | 'webp';
+}
+
+/** A rendered variant before upload */
+export interface RenderedVariant {
+  width: number;
+  height: number;
+  format: ImageVariantFormat;
+  buffer: Buffer;
+}
+
+/** Variant widths in px; the app chooses by screen width × pixel ratio */
+export const IMAGE_VARIANT_WIDTHS = [480, 960, 1920];
+
+/** Formats rendered at each width, in the order they are listed */
+export const IMAGE_VARIANT_FORMATS: ImageVariantFormat[] = ['webp', 'jpeg'];
+
+const WEBP_QUALITY = 80;
+const JPEG_QUALITY = 80;
+
+/** JPEG has no transparency; transparent pixels become this */
+const JPEG_BACKGROUND = '#ffffff';
+
+const VARIANT_FILE_TYPES: Record<ImageVariantFormat, { extension: string; contentType: string }> = {
+  webp: { extension: 'webp', contentType: 'image/webp' },
+  jpeg: { extension: 'jpg', contentType: 'image/jpeg' },
+};
+
+/** Extensions an uploaded original can have */
+export const IMAGE_FILE_EXTENSIONS: ImageType['extension'][] = ['png', 'jpg', 'gif', 'webp'];
+
+// ─── Detection ───────────────────────────────────────────────────────────────
+
+const IMAGE_TYPES: Record<ImageType['extension'], ImageType> = {
+  png: { contentType: 'image/png', extension: 'png' },
+  jpg: { contentType: 'image/jpeg', extension: 'jpg' },
+  gif: { contentType: 'image/gif', extension: 'gif' },
+  webp: { contentType: 'image/webp', extension: 'webp' },
+};
+
+/**
+ * The image type from the file's first bytes, falling back to the
+ * Content-Type header. Null when neither is a supported image type.
+ */
+export function detectImageType(buffer: Buffer, contentTypeHeader?: string): ImageType | null {
+  if (buffer.length >= 8 && buffer.readUInt32BE(0) === 0x89504e47) return IMAGE_TYPES.png;
+  if (buffer.length >= 3 && buffer[0] === 0xff && buffer[1] === 0xd8 && buffer[2] === 0xff) return IMAGE_TYPES.jpg;
+  if (buffer.length >= 6 && buffer.toString('ascii', 0, 4) === 'GIF8') return IMAGE_TYPES.gif;
+  if (buffer.length >= 12 && buffer.toString('ascii', 0, 4) === 'RIFF' && buffer.toString('ascii', 8, 12) === 'WEBP') {
+    return IMAGE_TYPES.webp;
+  }
+
+  const header = (contentTypeHeader || '').split(';')[0].trim().toLowerCase();
+  return Object.values(IMAGE_TYPES).find(type => type.contentType === header) ?? null;
+}
+
+// ─── Variants ────────────────────────────────────────────────────────────────
+
+/** Widths to render for an image `width` px wide: smaller presets, plus the original (capped) */
+export function variantWidths(width: number, widths: number[] = IMAGE_VARIANT_WIDTHS): number[] {
+  const largest = Math.min(width, Math.max(...widths));
+  return [...widths.filter(w => w < largest), largest];
+}
+
+export function variantPath(storageBasePath: string, width: number, format: ImageVariantFormat): string {
+  return `${storageBasePath}-${width}w.${VARIANT_FILE_TYPES[format].extension}`;
+}
+
+/** Size of an image as displayed (after EXIF rotation) */
+export async function readImageSize(buffer: Buffer): Promise<{ width: number; height: number; pages: number }> {
+  const metadata = await sharp(buffer).metadata();
+  const rotated = (metadata.orientation ?? 1) >= 5;
+  const width = (rotated ? metadata.height : metadata.width) ?? 0;
+  const height = (rotated ? metadata.width : metadata.height) ?? 0;
+  if (!width || !height) throw new Error('Could not read the image size');
+  return { width, height, pages: metadata.pages ?? 1 };
+}
+
+/** Resized copies of an image `width` px wide, in each format per width */
+export async function renderImageVariants(buffer: Buffer, width: number): Promise<RenderedVariant[]> {
+  const variants: RenderedVariant[] = [];
+  for (const variantWidth of variantWidths(width)) {
+    for (const format of IMAGE_VARIANT_FORMATS) {
+      const resized = sharp(buffer).rotate().resize({ width: variantWidth, withoutEnlargement: true });
+      const encoded = format === 'webp'
+        ? resized.webp({ quality: WEBP_QUALITY })
+        : resized.flatten({ background: JPEG_BACKGROUND }).jpeg({ quality: JPEG_QUALITY });
+      const { data, info } = await encoded.toBuffer({ resolveWithObject: true });
+      variants.push({ width: info.width, height: info.height, format, buffer: data });
+    }
+  }
+  return variants;
+}
+
+/** Width / height, rounded for stable JSON */
+export function aspectRatioOf(width: number, height: number): number {
+  return Math.round((width / height) * 10000) / 10000;
+}
+
+// ─── Publishing ──────────────────────────────────────────────────────────────
+
+export interface ImageFile {
+  path: string;
+  buffer: Buffer;
+  contentType: string;
+}
+
+/** Everything to publish for one image; resolvers turn the paths into URLs */
+export interface PreparedImage {
+  /** The original first, then its variants */
+  files: ImageFile[];
+  /** Storage path of the original */
+  path: string;
+  sha256: string;
+  aspectRatio: number;
+  /** `src` is the variant's storage path */
+  variants: ImageVariant[];
+}
+
+/**
+ * Detect the type of an image, stored as `storageBasePath` + extension, and
+ * render its variants (unless `variants` is false, e.g. for thumbnails).
+ * Throws when the bytes aren't a supported image.
+ */
+export async function prepareImage(
+  buffer: Buffer,
+  storageBasePath: string,
+  options: { contentTypeHeader?: string; variants?: boolean } = {},
+): Promise<PreparedImage> {
+  const type = detectImageType(buffer, options.contentTypeHeader);
+  if (!type) throw new Error(`Not a supported image (${options.contentTypeHeader || 'unknown type'})`);
+
+  const { width, height, pages } = await readImageSize(buffer);
+  const animated = type.extension === 'gif' && pages > 1;
+  const rendered = options.variants === false || animated ? [] : await renderImageVariants(buffer, width);
+  const variantFiles: ImageFile[] = rendered.map(variant => ({
+    path: variantPath(storageBasePath, variant.width, variant.format),
+    buffer: variant.buffer,
+    contentType: VARIANT_FILE_TYPES[variant.format].contentType,
+  }));
+  const original: ImageFile = { path: `${storageBasePath}.${type.extension}`, buffer, contentType: type.contentType };
+
+  return {
+    files: [original, ...variantFiles],
+    path: original.path,
+    sha256: crypto.createHash('sha256').update(buffer).digest('hex'),
+    aspectRatio: aspectRatioOf(width, height),
+    variants: rendered.map((variant, i) => ({
+      src: variantFiles[i].path,
+      width: variant.width,
+      height: variant.height,
+      format: variant.format,
+    })),
+  };
+}
@@ -1,20 +1,73 @@
 import * as functions from 'firebase-functions';
 import * as admin from 'firebase-admin';
+import {
+  AutoPublishDeps,
+  createDriveChangesClient,
+  FirestoreWatchStateStore,
+  handleDriveNotification,
+  processDriveChanges,
+  runScheduledPublish,
+} from './driveWatch';
+import { createPublishApiHandler } from './publishApi';
+import { executePublishJob, FirestoreJobStore, PUBLISH_JOBS_COLLECTION, PublishJob } from './publishJobs';
+import { resolveGoogleDriveFolderId } from './runtimeConfig';
 
 admin.initializeApp();
 
+const jobs = new FirestoreJobStore();
+const watchState = new FirestoreWatchStateStore();
+
+async function autoPublishDeps(): Promise<AutoPublishDeps> {
+  return {
+    jobs,
+    state: watchState,
+    drive: await createDriveChangesClient(),
+    folderId: resolveGoogleDriveFolderId(),
+    channel: process.env.AUTO_PUBLISH_CHANNEL || undefined,
+  };
+}
+
+/**
+ * HTTP Cloud Function serving the publish API (see publishApi.ts):
+ * POST /publish/{docId}, POST /publish-all and GET /status/{jobId}.
+ * Requests only queue jobs; runPublishJob does the parsing.
+ */
+export const parseGoogleDoc = functions
+  .runWith({ secrets: ['PUBLISH_API_SECRET'] })
+  .https.onRequest((req, res) => createPublishApiHandler({
+    jobs,
+    sharedSecret: process.env.PUBLISH_API_SECRET,
+    verifyIdToken: token => admin.auth().verifyIdToken(token),
+  })(req, res));
+
 /**
- * HTTP Cloud Function to parse Google Docs and generate course JSON
- * 
- * To be implemented:
- * - Fetch Google Doc content
- * - Parse structure and content blocks
- * - Generate course-summary and course-detail JSON
- * - Upload to Firebase Storage
+ * Runs a queued publish job: fetches the doc(s), parses and publishes to
+ * Storage, writing progress to the job document.
  */
-export const parseGoogleDoc = functions.https.onRequest(async (req, res) => {
-  res.status(200).json({ 
-    message: 'Parser function placeholder',
-    status: 'Not yet implemented'
+export const runPublishJob = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB', secrets: ['GOOGLE_SERVICE_ACCOUNT_JSON'] })
+  .firestore.document(`${PUBLISH_JOBS_COLLECTION}/{jobId}`)
+  .onCreate(snapshot => executePublishJob(snapshot.data() as PublishJob, jobs));
+
+/**
+ * Hourly incremental publish of the whole folder (see driveWatch.ts); also
+ * renews the Drive changes watch when DRIVE_WATCH_URL is set.
+ */
+export const scheduledPublish = functions
+  .runWith({ timeoutSeconds: 540, memory: '1GB', secrets: ['GOOGLE_SERVICE_ACCOUNT_JSON'] })
+  .pubsub.schedule('every 60 minutes')
+  .onRun(async () => {
+    await runScheduledPublish(await autoPublishDeps(), process.env.DRIVE_WATCH_URL);
+  });
+
+/** Drive push notification endpoint (the DRIVE_WATCH_URL) */
+export const driveChanges = functions.https.onRequest((req, res) =>
+  handleDriveNotification(req, res, watchState));
+
+/** Queues a publish of changed docs once they have had no edits for a while */
+export const processDriveChangesJob = functions
+  .runWith({ secrets: ['GOOGLE_SERVICE_ACCOUNT_JSON'], maxInstances: 1 })
+  .pubsub.schedule('every 1 minutes')
+  .onRun(async () => {
+    await processDriveChanges(await autoPublishDeps());
   });
-});
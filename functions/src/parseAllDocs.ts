@@ -7,49 +7,143 @@
  *
  * How it works:
  *   1. List all Google Docs in the Drive folder
- *   2. For each doc, check if it needs re-parsing (timestamp comparison)
- *   3. Parse changed docs → courseId comes from parseGoogleDoc() return value
- *   4. Skipped docs → courseId comes from doc-mapping.json (saved in Storage)
- *   5. Build course index purely from those courseIds
+ *   2. Docs whose Drive modifiedTime matches the last run are skipped unread
+ *   3. Other docs are fetched and hashed; parseGoogleDoc() only re-publishes
+ *      when the normalized content hash differs (comments, suggestions and
+ *      style-only edits don't), and only re-uploads images of changed lessons
+ *   4. courseId comes from parseGoogleDoc(), or from doc-mapping.json
+ *      (saved in Storage) for skipped docs and for docs that failed (their
+ *      last release stays live)
+ *   5. Build course index purely from those courseIds, listing translations
+ *      (docs with `Translation Of:`, see courseTranslations.ts) per course
+ *   6. Rebuild the search index from the published courses (searchIndex.ts)
  *
- * doc-mapping.json maps Google Doc IDs → courseIds, so we never need to
- * guess the courseId from the filename.
+ * doc-mapping.json maps Google Doc IDs → courseId plus the content hashes of
+ * the last parse, so we never need to guess the courseId from the filename.
+ *
+ * Every parsed course also gets a parse-report.json; the findings from all
+ * docs are printed as one table at the end. With --strict, a course with
+ * parse errors is not published (its last release stays listed) and the run
+ * exits non-zero.
+ *
+ * Output modes:
+ *   (default)      publish to the Firebase Storage bucket
+ *   --dry-run      read the bucket, print planned uploads/deletions/index
+ *                  changes, write nothing
+ *   --out <dir>    write the full bucket layout to a local directory instead
+ *                  (image URLs are bucket-relative unless --base-url is given)
+ *
+ * Each course is published as a release (see courseReleases.ts);
+ * --keep-releases <n> sets how many releases per course are kept.
+ *
+ * --channel <name> publishes everything under channels/<name>/ instead
+ * (e.g. `staging`, for previewing in the app); see promoteCourse.ts.
+ *
+ * Docs are parsed a few at a time (--concurrency <n>, see concurrency.ts),
+ * and Drive/Docs calls are retried with backoff on 429 and 5xx. The summary
+ * lists docs in folder order with the time each took.
+ *
+ * Courses whose doc left the folder are archived, not deleted (see
+ * courseArchive.ts). --archive-days <n> sets the grace period in days;
+ * --purge deletes everything in the archive now.
+ *
+ * parseChangedDocs() runs the same per-doc checks (parseFolderDoc()) for a
+ * few docs only; Drive-triggered republishing uses it (see driveWatch.ts).
  *
  * Usage:
- *   npm run parse:all -- <folder-id>
+ *   npm run parse:all -- [--force] [--strict] [--keep-releases <n>] [--channel <name>] [--archive-days <n>] [--purge] [--concurrency <n>] [--dry-run | --out <dir> [--base-url <url>]] [<folder-id>]
  */
 
+import * as path from 'path';
 import { google } from 'googleapis';
-import { parseGoogleDoc } from './parseGoogleDoc';
+import { ContentHashes, parseGoogleDoc, PARSER_VERSION } from './parseGoogleDoc';
+import { ParseDiagnostic, ParseDiagnostics, formatDiagnosticsTable } from './parseDiagnostics';
+import { DEFAULT_DOC_CONCURRENCY, getErrorStatus, mapWithConcurrency, withRetry } from './concurrency';
 import { parseHomeDoc } from './parseHomeDoc';
+import { getGoogleServiceAccount, resolveGoogleDriveFolderId } from './runtimeConfig';
 import {
-  ensureFirebaseAdminInitialized,
-  getGoogleServiceAccount,
-  resolveGoogleDriveFolderId,
-} from './runtimeConfig';
+  BucketContentStore,
+  channelStore,
+  ContentStore,
+  DryRunContentStore,
+  LocalContentStore,
+  PlannedChange,
+  writeJson,
+} from './contentStore';
+import { updateArchive } from './courseArchive';
+import { collectTranslations, contentId, ContentRef, CourseIndex, parseContentId } from './courseTranslations';
+import { writeSearchIndex } from './searchIndex';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
-interface GoogleDoc {
+export interface GoogleDoc {
   id: string;
   name: string;
   modifiedTime: string;
 }
 
-interface ParseResult {
+export interface ParseResult {
   name: string;
   courseId?: string;
+  /** Set when the doc is a translation of `courseId` */
+  language?: string;
   success: boolean;
   skipped: boolean;
   error?: string;
+  diagnostics?: ParseDiagnostic[];
+  /** Wall time spent on the doc (it may have overlapped with others) */
+  durationMs: number;
+}
+
+/** What the last run recorded for one doc */
+export interface DocMappingEntry extends Partial<ContentHashes> {
+  courseId: string;
+  /** Set for translations (published under courses/<courseId>/<language>/) */
+  language?: string;
+  /** Drive modifiedTime when the doc was last read */
+  modifiedTime?: string;
+}
+
+/** Maps Google Doc ID → DocMappingEntry. Stored in Firebase Storage. */
+type DocMapping = Record<string, DocMappingEntry>;
+
+export interface ParseAllDocsOptions {
+  /** Re-parse and re-publish every doc, ignoring timestamps and content hashes */
+  force?: boolean;
+  /** Don't publish courses with parse errors, and exit non-zero */
+  strict?: boolean;
+  /** Where to read previous state from and publish to (defaults to the bucket) */
+  store?: ContentStore;
+  /** Releases to keep per course (defaults to DEFAULT_RELEASE_RETENTION) */
+  releaseRetention?: number;
+  /** Days an orphaned course stays archived (defaults to DEFAULT_ARCHIVE_GRACE_DAYS) */
+  archiveGraceDays?: number;
+  /** Delete all archived courses now instead of waiting for the grace period */
+  purge?: boolean;
+  /** Docs parsed at the same time (defaults to DEFAULT_DOC_CONCURRENCY) */
+  concurrency?: number;
+  /** Called once the docs are listed and after each doc (in finish order) */
+  onProgress?: (progress: ParseAllDocsProgress) => void | Promise<void>;
+}
+
+export interface ParseAllDocsProgress {
+  total: number;
+  done: number;
+  /** Doc that just finished */
+  lastDoc?: ParseResult;
 }
 
-/** Maps Google Doc ID → courseId. Stored in Firebase Storage. */
-type DocMapping = Record<string, string>;
+export interface ParseAllDocsResult {
+  /** One entry per doc, in folder order */
+  results: ParseResult[];
+  /** Courses in the index after the run (translations not included) */
+  courseIds: string[];
+  failureCount: number;
+}
 
 // ─── Google Drive API ────────────────────────────────────────────────────────
 
-async function initializeDriveClient() {
+export async function initializeDriveClient() {
   const serviceAccount = getGoogleServiceAccount();
 
   const auth = new google.auth.JWT({
@@ -69,11 +163,11 @@ async function listDocsInFolder(folderId: string): Promise<GoogleDoc[]> {
 
   console.log(`🔍 Scanning folder for course documents...\n`);
 
-  const response = await drive.files.list({
-    q: `'${folderId}' in parents and mimeType='application/vnd.google-apps.document' and trashed=false`,
+  const response = await withRetry(() => drive.files.list({
+    q: `'${folderId}' in parents and mimeType='${GOOGLE_DOC_MIME_TYPE}' and trashed=false`,
     fields: 'files(id, name, modifiedTime)',
     orderBy: 'name',
-  });
+  }), { label: 'Drive API files.list' });
 
   const files = response.data.files || [];
 
@@ -84,104 +178,155 @@ async function listDocsInFolder(folderId: string): Promise<GoogleDoc[]> {
   }));
 }
 
-// ─── Firebase Storage Helpers ────────────────────────────────────────────────
+const GOOGLE_DOC_MIME_TYPE = 'application/vnd.google-apps.document';
 
-function getAdminBucket() {
-  const admin = require('firebase-admin');
-  return admin.storage().bucket();
+/** A doc's Drive metadata, or null when it isn't a Google Doc in the folder (any more) */
+export async function getDocInFolder(folderId: string, docId: string): Promise<GoogleDoc | null> {
+  const drive = await initializeDriveClient();
+  try {
+    const { data: file } = await withRetry(() => drive.files.get({
+      fileId: docId,
+      fields: 'id, name, mimeType, modifiedTime, parents, trashed',
+    }), { label: `Drive API files.get ${docId}` });
+    if (file.trashed || file.mimeType !== GOOGLE_DOC_MIME_TYPE || !file.parents?.includes(folderId)) return null;
+    return { id: file.id!, name: file.name!, modifiedTime: file.modifiedTime! };
+  } catch (error: any) {
+    if (getErrorStatus(error) === 404) return null;
+    throw error;
+  }
 }
 
+// ─── Storage Helpers ─────────────────────────────────────────────────────────
+
 /**
- * Read the doc-mapping.json from Firebase Storage.
+ * Read the doc-mapping.json from the content store.
  * This maps Google Doc IDs → courseIds so we know which courseId
  * belongs to which doc without parsing it again.
  */
-async function readDocMapping(): Promise<DocMapping> {
-  try {
-    const bucket = getAdminBucket();
-    const file = bucket.file('courses/doc-mapping.json');
-    const [exists] = await file.exists();
-    if (!exists) return {};
+export async function readDocMapping(store: ContentStore): Promise<DocMapping> {
+  return normalizeDocMapping(await store.readJson('courses/doc-mapping.json'));
+}
 
-    const [content] = await file.download();
-    return JSON.parse(content.toString());
-  } catch {
-    return {};
+/** Older runs stored a bare courseId per doc; read those as entries without hashes */
+export function normalizeDocMapping(raw: Record<string, string | DocMappingEntry> | null): DocMapping {
+  const mapping: DocMapping = {};
+  for (const [docId, entry] of Object.entries(raw || {})) {
+    if (typeof entry === 'string') mapping[docId] = { courseId: entry };
+    else if (entry && typeof entry.courseId === 'string') mapping[docId] = entry;
   }
+  return mapping;
 }
 
-/** Save the doc-mapping.json to Firebase Storage */
-async function saveDocMapping(mapping: DocMapping): Promise<void> {
-  const bucket = getAdminBucket();
-  const file = bucket.file('courses/doc-mapping.json');
-  await file.save(JSON.stringify(mapping, null, 2), {
-    metadata: { contentType: 'application/json', cacheControl: 'private, max-age=0' },
-  });
+/** Save the doc-mapping.json to the content store */
+export async function saveDocMapping(mapping: DocMapping, store: ContentStore): Promise<void> {
+  await writeJson(store, 'courses/doc-mapping.json', mapping, { cacheControl: 'private, max-age=0' });
 }
 
-// ─── Timestamp Checks ────────────────────────────────────────────────────────
-
 /**
- * Check if a course doc needs re-parsing.
- * Uses the doc-mapping to find the existing courseId, then checks the
- * summary's lastUpdated against the doc's modifiedTime.
+ * Drop the per-section hashes of a course after a rollback. The published
+ * JSON no longer matches them, so images must not be reused from it; the
+ * content hash stays, so an unchanged doc doesn't re-publish over the rollback.
  */
-async function checkCourseNeedsUpdate(
-  doc: GoogleDoc,
-  docMapping: DocMapping,
-): Promise<{ needsUpdate: boolean; courseId?: string }> {
-  // Look up courseId from previous parse
-  const courseId = docMapping[doc.id];
-  if (!courseId) {
-    console.log(`   📝 New course (not in doc-mapping), will parse`);
-    return { needsUpdate: true };
+export async function clearSectionHashes(store: ContentStore, courseId: string): Promise<void> {
+  const mapping = await readDocMapping(store);
+  let changed = false;
+  for (const entry of Object.values(mapping)) {
+    if (entry.courseId !== courseId || (!entry.metadataHash && !entry.lessonHashes)) continue;
+    delete entry.metadataHash;
+    delete entry.lessonHashes;
+    changed = true;
   }
+  if (changed) await saveDocMapping(mapping, store);
+}
 
+/**
+ * Add a course, or a translation by its content ID (`<courseId>/<language>`),
+ * to courses/index.json (after a promote or restore); no-op when listed
+ */
+export async function addCourseToIndex(store: ContentStore, id: string): Promise<void> {
+  const { courseId, language } = parseContentId(id);
+  const index = await store.readJson<CourseIndex>('courses/index.json');
+  const courseIds = index?.courses || [];
+  const translations = index?.translations || {};
+  const languages = translations[courseId] || [];
+  if (language ? languages.includes(language) : courseIds.includes(courseId)) return;
+
+  await writeCourseIndex(
+    store,
+    language ? courseIds : [...courseIds, courseId],
+    language ? { ...translations, [courseId]: [...languages, language].sort() } : translations,
+  );
+}
+
+async function writeCourseIndex(store: ContentStore, courseIds: string[], translations: Record<string, string[]>): Promise<void> {
+  const index: CourseIndex = { courses: courseIds };
+  if (Object.keys(translations).length > 0) index.translations = translations;
+  index.lastUpdated = new Date().toISOString();
+  await writeJson(store, 'courses/index.json', index, { cacheControl: 'public, max-age=300', public: true });
+}
+
+/** `850ms`, `12.3s` */
+export function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+/** Course IDs added to / removed from courses/index.json between two runs */
+export function diffCourseIndex(previous: string[], next: string[]): { added: string[]; removed: string[] } {
+  return {
+    added: next.filter(id => !previous.includes(id)),
+    removed: previous.filter(id => !next.includes(id)),
+  };
+}
+
+/** A failed progress report (e.g. a job document write) doesn't stop the run */
+async function reportProgress(options: ParseAllDocsOptions, progress: ParseAllDocsProgress): Promise<void> {
   try {
-    const bucket = getAdminBucket();
-    const file = bucket.file(`courses/${courseId}/course-summary.json`);
-    const [exists] = await file.exists();
+    await options.onProgress?.(progress);
+  } catch (error: any) {
+    console.warn(`⚠️  Progress report failed: ${error.message}`);
+  }
+}
 
-    if (!exists) {
-      console.log(`   📝 Summary file missing for ${courseId}, will parse`);
-      return { needsUpdate: true };
-    }
+/** Print the uploads/deletions a dry run would have made */
+function printPlannedChanges(changes: PlannedChange[]): void {
+  const uploads = changes.filter(c => c.action === 'upload');
+  const deletions = changes.filter(c => c.action === 'delete');
 
-    const [content] = await file.download();
-    const summary = JSON.parse(content.toString());
+  console.log('='.repeat(60));
+  console.log('🧪 DRY RUN — PLANNED CHANGES (nothing was written)');
+  console.log('='.repeat(60) + '\n');
 
-    if (!summary.lastUpdated) {
-      console.log(`   ⚠️  No lastUpdated in summary, will parse`);
-      return { needsUpdate: true };
-    }
+  console.log(`📤 Uploads (${uploads.length}):`);
+  uploads.forEach(c => console.log(`   + ${c.path} (${c.bytes} bytes)`));
+  console.log();
 
-    const docModifiedTime = new Date(doc.modifiedTime).getTime();
-    const lastUploadTime = new Date(summary.lastUpdated).getTime();
+  console.log(`🗑️  Deletions (${deletions.length}):`);
+  deletions.forEach(c => console.log(`   - ${c.path}`));
+  console.log();
+}
 
-    if (docModifiedTime > lastUploadTime) {
-      console.log(`   🔄 Doc updated since last upload, will parse`);
-      console.log(`      Doc modified: ${doc.modifiedTime}`);
-      console.log(`      Last upload:  ${summary.lastUpdated}`);
-      return { needsUpdate: true, courseId };
-    }
+// ─── Change Checks ───────────────────────────────────────────────────────────
 
-    return { needsUpdate: false, courseId };
-  } catch (error: any) {
-    console.log(`   ⚠️  Error checking (${error.message}), will parse`);
-    return { needsUpdate: true, courseId };
-  }
+/**
+ * Whether a course doc can be skipped without fetching it: Drive reports the
+ * same modifiedTime as when it was last read and hashed by this parser
+ * version. Anything else is fetched and left to the content hash comparison
+ * in parseGoogleDoc().
+ */
+export function isDocUnmodified(doc: { modifiedTime: string }, entry: DocMappingEntry | undefined): boolean {
+  return !!entry?.contentHash && entry.parserVersion === PARSER_VERSION && entry.modifiedTime === doc.modifiedTime;
+}
+
+/** The home screen doc is recognized by name; every other doc is a course */
+export function isHomeDocName(name: string): boolean {
+  return name.toLowerCase().includes('home');
 }
 
 /** Check if the home doc needs re-parsing */
-async function checkHomeNeedsUpdate(doc: GoogleDoc): Promise<boolean> {
+export async function checkHomeNeedsUpdate(doc: GoogleDoc, store: ContentStore): Promise<boolean> {
   try {
-    const bucket = getAdminBucket();
-    const file = bucket.file('home/home.json');
-    const [exists] = await file.exists();
-    if (!exists) return true;
-
-    const [content] = await file.download();
-    const data = JSON.parse(content.toString());
+    const data = await store.readJson('home/home.json');
+    if (!data) return true;
     if (!data.lastUpdated) return true;
 
     const docModifiedTime = new Date(doc.modifiedTime).getTime();
@@ -197,15 +342,104 @@ async function checkHomeNeedsUpdate(doc: GoogleDoc): Promise<boolean> {
   }
 }
 
+// ─── Parsing One Doc ─────────────────────────────────────────────────────────
+
+/** State shared by the docs of one run; parseFolderDoc() updates `docMapping` */
+export interface FolderDocContext {
+  store: ContentStore;
+  docMapping: DocMapping;
+  force?: boolean;
+  strict?: boolean;
+  releaseRetention?: number;
+}
+
+/**
+ * Parse one doc from the folder if it changed since the last run: the home
+ * doc via checkHomeNeedsUpdate(), course docs via isDocUnmodified() and the
+ * content hashes. Never throws; failures are returned as results.
+ */
+export async function parseFolderDoc(doc: GoogleDoc, context: FolderDocContext): Promise<ParseResult> {
+  const { store, docMapping, force = false, strict = false } = context;
+  const diagnostics = new ParseDiagnostics();
+  const startedAt = Date.now();
+  const elapsed = () => Date.now() - startedAt;
+
+  try {
+    if (isHomeDocName(doc.name)) {
+      // ── Home document ──
+      const needsUpdate = force || await checkHomeNeedsUpdate(doc, store);
+
+      if (!needsUpdate) {
+        console.log(`⏭️  Skipping (up-to-date): ${doc.name}\n`);
+        return { name: doc.name, success: true, skipped: true, durationMs: elapsed() };
+      }
+
+      console.log('🏠 Parsing home document...\n');
+      await parseHomeDoc(doc.id, store);
+      console.log(`✅ Done: ${doc.name}\n`);
+      return { name: doc.name, success: true, skipped: false, durationMs: elapsed() };
+    }
+
+    // ── Course document ──
+    const entry = docMapping[doc.id];
+
+    if (!force && isDocUnmodified(doc, entry)) {
+      console.log(`⏭️  Skipping (not modified since ${doc.modifiedTime}): ${doc.name}`);
+      console.log(`   Course ID: ${contentId(entry)}\n`);
+      return { name: doc.name, courseId: entry.courseId, language: entry.language, success: true, skipped: true, durationMs: elapsed() };
+    }
+
+    console.log('📚 Parsing course document...\n');
+    const { summary, hashes, changed, language } = await parseGoogleDoc(doc.id, store, {
+      strict,
+      diagnostics,
+      previousHashes: force ? undefined : entry,
+      releaseRetention: context.releaseRetention,
+    });
+
+    // courseId comes from inside the doc, not the filename
+    const courseId = summary.courseId;
+    docMapping[doc.id] = { courseId, ...(language ? { language } : {}), modifiedTime: doc.modifiedTime, ...hashes }; // Update mapping for next run
+    console.log(`✅ Done: ${doc.name}\n`);
+    return { name: doc.name, courseId, language, success: true, skipped: !changed, diagnostics: diagnostics.items, durationMs: elapsed() };
+  } catch (error: any) {
+    console.error(`❌ Failed: ${doc.name} — ${error.message}\n`);
+    // The release from the last run stays live, so the failed doc keeps its course listed
+    const entry = docMapping[doc.id];
+    return {
+      name: doc.name,
+      ...(entry ? { courseId: entry.courseId, ...(entry.language ? { language: entry.language } : {}) } : {}),
+      success: false,
+      skipped: false,
+      error: error.message,
+      diagnostics: diagnostics.items,
+      durationMs: elapsed(),
+    };
+  }
+}
+
+/**
+ * Courses and translations to list in the index: the ones parsed now, and
+ * the ones whose re-parse failed but whose last release is still live
+ */
+export function listedContent(results: ParseResult[]): ContentRef[] {
+  return results.filter(r => r.courseId) as ContentRef[];
+}
+
 // ─── Main ────────────────────────────────────────────────────────────────────
 
-async function parseAllDocs(folderId: string, force = false) {
-  console.log('📚 Parse All Course Documents' + (force ? ' (FORCE re-parse)' : '') + '\n');
+async function parseAllDocs(folderId: string, options: ParseAllDocsOptions = {}): Promise<ParseAllDocsResult> {
+  const force = options.force ?? false;
+  const strict = options.strict ?? false;
+  const store = options.store ?? new BucketContentStore();
+  const purge = options.purge ?? false;
+  const concurrency = options.concurrency ?? DEFAULT_DOC_CONCURRENCY;
+
+  console.log('📚 Parse All Course Documents' + (force ? ' (FORCE re-parse)' : '') + (strict ? ' (STRICT)' : '') + (purge ? ' (PURGE archive)' : '') + '\n');
+  console.log(`🎯 Target: ${store.description}\n`);
   console.log('='.repeat(60) + '\n');
 
   try {
-    ensureFirebaseAdminInitialized();
-
     // List all documents in folder
     const docs = await listDocsInFolder(folderId);
 
@@ -215,7 +449,7 @@ async function parseAllDocs(folderId: string, force = false) {
       console.log('1. The folder ID is correct');
       console.log('2. The service account has access to the folder');
       console.log('3. The folder contains Google Docs\n');
-      return;
+      return { results: [], courseIds: [], failureCount: 0 };
     }
 
     console.log(`✅ Found ${docs.length} document(s):\n`);
@@ -223,104 +457,39 @@ async function parseAllDocs(folderId: string, force = false) {
     console.log();
 
     // Load doc-mapping from previous runs (Google Doc ID → courseId)
-    const docMapping = await readDocMapping();
+    const docMapping = await readDocMapping(store);
     console.log(`📋 Loaded doc-mapping: ${Object.keys(docMapping).length} entries\n`);
 
-    // ── Cleanup: remove orphaned courses (doc deleted from Drive) ──
-
-    const driveDocIds = new Set(docs.map(d => d.id));
-    const orphanedDocIds = Object.keys(docMapping).filter(id => !driveDocIds.has(id));
-
-    if (orphanedDocIds.length > 0) {
-      console.log(`🧹 Found ${orphanedDocIds.length} orphaned course(s) (doc deleted from Drive):\n`);
-      const bucket = getAdminBucket();
-
-      for (const orphanDocId of orphanedDocIds) {
-        const courseId = docMapping[orphanDocId];
-        console.log(`   🗑️  Removing: ${courseId} (doc ${orphanDocId})`);
-
-        try {
-          // Delete course files from Storage
-          const prefix = `courses/${courseId}/`;
-          const [files] = await bucket.getFiles({ prefix });
-
-          if (files.length > 0) {
-            await Promise.all(files.map((f: any) => f.delete()));
-            console.log(`      Deleted ${files.length} file(s) from ${prefix}`);
-          } else {
-            console.log(`      No files found at ${prefix}`);
-          }
-
-          // Remove from doc-mapping
-          delete docMapping[orphanDocId];
-          console.log(`      Removed from doc-mapping`);
-        } catch (error: any) {
-          console.error(`      ⚠️  Error cleaning up ${courseId}: ${error.message}`);
-          // Still remove from mapping so it doesn't keep failing
-          delete docMapping[orphanDocId];
-        }
-      }
-      console.log();
-    }
+    // ── Archive: restore returning docs, soft-delete orphans, expire old archives ──
 
-    // ── Parse each document ──
+    await updateArchive(store, docMapping, new Set(docs.map(d => d.id)), {
+      graceDays: options.archiveGraceDays,
+      purge,
+    });
 
-    const results: ParseResult[] = [];
+    // ── Parse each document ──
 
-    for (let i = 0; i < docs.length; i++) {
-      const doc = docs[i];
-      console.log('='.repeat(60));
+    const context: FolderDocContext = { store, docMapping, force, strict, releaseRetention: options.releaseRetention };
+    const parseDoc = (doc: GoogleDoc, i: number) => {
       console.log(`\n📄 ${i + 1}/${docs.length}: ${doc.name}\n`);
-      console.log('='.repeat(60) + '\n');
-
-      try {
-        const isHomeDoc = doc.name.toLowerCase().includes('home');
-
-        if (isHomeDoc) {
-          // ── Home document ──
-          const needsUpdate = force || await checkHomeNeedsUpdate(doc);
-
-          if (!needsUpdate) {
-            console.log(`⏭️  Skipping (up-to-date): ${doc.name}\n`);
-            results.push({ name: doc.name, success: true, skipped: true });
-            continue;
-          }
-
-          console.log('🏠 Parsing home document...\n');
-          await parseHomeDoc(doc.id);
-          results.push({ name: doc.name, success: true, skipped: false });
-        } else {
-          // ── Course document ──
-          const check = force
-            ? { needsUpdate: true, courseId: docMapping[doc.id] }
-            : await checkCourseNeedsUpdate(doc, docMapping);
-
-          if (!check.needsUpdate && check.courseId) {
-            console.log(`⏭️  Skipping (up-to-date): ${doc.name}`);
-            console.log(`   Course ID: ${check.courseId}\n`);
-            results.push({ name: doc.name, courseId: check.courseId, success: true, skipped: true });
-            continue;
-          }
-
-          console.log('📚 Parsing course document...\n');
-          const { summary } = await parseGoogleDoc(doc.id);
-
-          // courseId comes from inside the doc, not the filename
-          const courseId = summary.courseId;
-          docMapping[doc.id] = courseId; // Update mapping for next run
-          results.push({ name: doc.name, courseId, success: true, skipped: false });
-        }
-
-        console.log(`✅ Done: ${doc.name}\n`);
-      } catch (error: any) {
-        results.push({ name: doc.name, success: false, skipped: false, error: error.message });
-        console.error(`❌ Failed: ${doc.name} — ${error.message}\n`);
-      }
-    }
+      return parseFolderDoc(doc, context);
+    };
+
+    let done = 0;
+    await reportProgress(options, { total: docs.length, done });
+
+    // Docs run in a small pool; results keep folder order, so the summary,
+    // mapping and index come out the same as a serial run
+    const results: ParseResult[] = await mapWithConcurrency(docs, concurrency, async (doc, i) => {
+      const result = await parseDoc(doc, i);
+      done++;
+      await reportProgress(options, { total: docs.length, done, lastDoc: result });
+      return result;
+    });
 
     // ── Save updated doc-mapping ──
 
-    await saveDocMapping(docMapping);
+    await saveDocMapping(docMapping, store);
     console.log(`💾 Saved doc-mapping (${Object.keys(docMapping).length} entries)\n`);
 
     // ── Print summary ──
@@ -335,61 +504,188 @@ async function parseAllDocs(folderId: string, force = false) {
 
     results.forEach((r, i) => {
       const icon = r.success ? '✅' : '❌';
-      const tag = r.skipped ? ' (skipped)' : '';
-      console.log(`${i + 1}. ${icon} ${r.name}${tag}`);
-      if (r.courseId) console.log(`      → ${r.courseId}`);
+      const tag = r.skipped ? ' (unchanged)' : '';
+      console.log(`${i + 1}. ${icon} ${r.name}${tag} — ${formatDuration(r.durationMs)}`);
+      if (r.courseId) console.log(`      → ${contentId({ courseId: r.courseId, language: r.language })}`);
       if (r.error) console.log(`      Error: ${r.error}`);
     });
     console.log();
 
+    // ── Print parse findings ──
+
+    const diagnosticRows = results.flatMap(r =>
+      (r.diagnostics || []).map(diagnostic => ({ document: r.courseId || r.name, diagnostic })),
+    );
+    if (diagnosticRows.length > 0) {
+      const errorCount = diagnosticRows.filter(row => row.diagnostic.severity === 'error').length;
+      console.log('='.repeat(60));
+      console.log(`🔎 PARSE FINDINGS (${errorCount} error(s), ${diagnosticRows.length - errorCount} other)`);
+      console.log('='.repeat(60) + '\n');
+      console.log(formatDiagnosticsTable(diagnosticRows) + '\n');
+      if (errorCount > 0 && !strict) {
+        console.log('💡 Re-run with --strict to block publishing courses that have errors.\n');
+      }
+    }
+
     // ── Generate course index from courseIds (from inside docs) ──
 
-    const courseIds = results.filter(r => r.success && r.courseId).map(r => r.courseId!);
+    const listed = listedContent(results);
+    const courseIds = listed.filter(r => !r.language).map(r => r.courseId);
 
     if (courseIds.length > 0) {
       console.log('📝 Generating course index...');
-      const bucket = getAdminBucket();
+      const previousIndex = await store.readJson<CourseIndex>('courses/index.json');
+      const { added, removed } = diffCourseIndex(previousIndex?.courses || [], courseIds);
+      const translations = collectTranslations(listed, courseIds);
 
-      const indexFile = bucket.file('courses/index.json');
-      await indexFile.save(JSON.stringify({ courses: courseIds, lastUpdated: new Date().toISOString() }, null, 2), {
-        metadata: { contentType: 'application/json', cacheControl: 'public, max-age=300' },
-        public: true,
-      });
+      await writeCourseIndex(store, courseIds, translations);
 
-      console.log(`✅ Index: ${courseIds.join(', ')}\n`);
+      console.log(`✅ Index: ${courseIds.join(', ')}`);
+      for (const [courseId, languages] of Object.entries(translations)) {
+        console.log(`   🌐 ${courseId}: ${languages.join(', ')}`);
+      }
+      if (added.length > 0) console.log(`   + Added: ${added.join(', ')}`);
+      if (removed.length > 0) console.log(`   - Removed: ${removed.join(', ')}`);
+      console.log();
+
+      const searchIndex = await writeSearchIndex(store);
+      console.log(`🔍 Search index: ${searchIndex.entries.length} entries from ${searchIndex.courses.length} course(s)\n`);
+    }
+
+    if (store instanceof DryRunContentStore) {
+      printPlannedChanges(store.plannedChanges);
     }
 
     if (failureCount > 0) {
       console.log('⚠️  Some documents failed. Check errors above.\n');
-      process.exit(1);
     } else {
       console.log('🎉 All documents parsed successfully!\n');
     }
 
+    return { results, courseIds, failureCount };
   } catch (error: any) {
     console.error('\n❌ Fatal error:', error.message);
-    console.error(error);
-    process.exit(1);
+    throw error;
+  }
+}
+
+/**
+ * Re-parse only some docs of the folder, e.g. the ones Drive reported as
+ * changed (see driveWatch.ts). Each doc gets the same checks as in a full
+ * run; docs that left the folder are ignored here and archived by the next
+ * full run. Successful courses are added to the index if they are new, and
+ * the search index is rebuilt.
+ */
+async function parseChangedDocs(
+  folderId: string,
+  docIds: string[],
+  options: ParseAllDocsOptions = {},
+): Promise<ParseAllDocsResult> {
+  const store = options.store ?? new BucketContentStore();
+  console.log(`📚 Parse Changed Documents (${docIds.length})\n`);
+  console.log(`🎯 Target: ${store.description}\n`);
+
+  const docs: GoogleDoc[] = [];
+  for (const docId of docIds) {
+    const doc = await getDocInFolder(folderId, docId);
+    if (doc) docs.push(doc);
+    else console.log(`⏭️  Ignoring ${docId}: not a Google Doc in the folder`);
+  }
+
+  const docMapping = await readDocMapping(store);
+  const context: FolderDocContext = {
+    store,
+    docMapping,
+    force: options.force,
+    strict: options.strict,
+    releaseRetention: options.releaseRetention,
+  };
+
+  let done = 0;
+  await reportProgress(options, { total: docs.length, done });
+  const results = await mapWithConcurrency(docs, options.concurrency ?? DEFAULT_DOC_CONCURRENCY, async doc => {
+    console.log(`\n📄 ${doc.name}\n`);
+    const result = await parseFolderDoc(doc, context);
+    done++;
+    await reportProgress(options, { total: docs.length, done, lastDoc: result });
+    return result;
+  });
+
+  if (docs.length > 0) await saveDocMapping(docMapping, store);
+
+  const listed = listedContent(results);
+  for (const ref of listed) {
+    await addCourseToIndex(store, contentId(ref));
   }
+  if (listed.length > 0) await writeSearchIndex(store);
+
+  return {
+    results,
+    courseIds: listed.filter(r => !r.language).map(r => r.courseId),
+    failureCount: results.filter(r => !r.success).length,
+  };
 }
 
 // ─── CLI ─────────────────────────────────────────────────────────────────────
 
 async function main() {
   const args = process.argv.slice(2);
-  const force = args.includes('--force');
-  const positional = args.filter(a => !a.startsWith('--'));
-  const explicitFolderId = positional[0];
+  let force = false;
+  let strict = false;
+  let dryRun = false;
+  let outDir: string | undefined;
+  let baseUrl: string | undefined;
+  let releaseRetention: number | undefined;
+  let channel: string | undefined;
+  let archiveGraceDays: number | undefined;
+  let purge = false;
+  let concurrency: number | undefined;
+  let explicitFolderId: string | undefined;
+  let folderId: string;
+  let options: ParseAllDocsOptions;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--force') force = true;
+    else if (args[i] === '--strict') strict = true;
+    else if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--out') outDir = args[++i];
+    else if (args[i] === '--base-url') baseUrl = args[++i];
+    else if (args[i] === '--keep-releases') releaseRetention = parseInt(args[++i], 10);
+    else if (args[i] === '--channel') channel = args[++i];
+    else if (args[i] === '--archive-days') archiveGraceDays = parseInt(args[++i], 10);
+    else if (args[i] === '--purge') purge = true;
+    else if (args[i] === '--concurrency') concurrency = parseInt(args[++i], 10);
+    else if (!args[i].startsWith('--')) explicitFolderId = args[i];
+  }
 
   try {
-    const folderId = resolveGoogleDriveFolderId(explicitFolderId);
+    if (releaseRetention !== undefined && !(releaseRetention >= 1)) {
+      throw new Error('--keep-releases needs a number of 1 or more');
+    }
+    if (archiveGraceDays !== undefined && !(archiveGraceDays >= 1)) {
+      throw new Error('--archive-days needs a number of 1 or more');
+    }
+    if (concurrency !== undefined && !(concurrency >= 1)) {
+      throw new Error('--concurrency needs a number of 1 or more');
+    }
+    folderId = resolveGoogleDriveFolderId(explicitFolderId);
     console.log(`📁 Using folder: ${folderId}\n`);
-    await parseAllDocs(folderId, force);
+
+    const root: ContentStore = outDir
+      ? new LocalContentStore(path.resolve(outDir), baseUrl)
+      : new BucketContentStore();
+    const target = channelStore(root, channel);
+    const store = dryRun ? new DryRunContentStore(target) : target;
+
+    options = { force, strict, store, releaseRetention, archiveGraceDays, purge, concurrency };
   } catch (error: any) {
     console.error(`❌ ${error.message}\n`);
-    console.error('Usage: npm run parse:all -- [--force] [<folder-id>]\n');
+    console.error('Usage: npm run parse:all -- [--force] [--strict] [--keep-releases <n>] [--channel <name>] [--archive-days <n>] [--purge] [--concurrency <n>] [--dry-run | --out <dir> [--base-url <url>]] [<folder-id>]\n');
     process.exit(1);
   }
+
+  const { failureCount } = await parseAllDocs(folderId, options);
+  if (failureCount > 0) process.exit(1);
 }
 
 if (require.main === module) {
@@ -399,4 +695,4 @@ if (require.main === module) {
   });
 }
 
-export { parseAllDocs };
+export { parseAllDocs, parseChangedDocs };
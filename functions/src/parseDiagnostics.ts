@@ -0,0 +1,173 @@
+/**
+ * Structured parse findings
+ *
+ * Every problem the parser notices (merged decks, missing answers, failed
+ * images, unknown metadata keys...) is recorded on a ParseDiagnostics
+ * collector with a rule code and where it happened. The collector still logs
+ * each finding as it's added, and at the end of a parse becomes the
+ * `parse-report.json` published next to the course JSON.
+ *
+ * Paragraph indexes refer to the normalized paragraph list (blank paragraphs
+ * and section breaks are already dropped, a whole table or code block counts
+ * as one), counted from 0.
+ */
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info';
+
+export type DiagnosticCode =
+  | 'unknown-metadata-key'
+  | 'unknown-prerequisite'
+  | 'image-failed'
+  | 'incomplete-flashcard'
+  | 'empty-cloze'
+  | 'unknown-callout-variant'
+  | 'unmatched-callout-end'
+  | 'merged-flashcards'
+  | 'merged-quiz'
+  | 'split-quiz-section'
+  | 'quiz-missing-answer'
+  | 'duplicate-question-id'
+  | 'question-id-changed'
+  | 'unmatched-translation-lesson'
+  | 'untranslated-lesson'
+  | 'invalid-glossary-entry'
+  | 'duplicate-glossary-term'
+  | 'unused-glossary-term';
+
+/** Where a finding points to in the source document */
+export interface DiagnosticLocation {
+  lessonId?: string;
+  paragraphIndex?: number;
+  /** Source text the finding refers to (truncated) */
+  excerpt?: string;
+}
+
+export interface ParseDiagnostic extends DiagnosticLocation {
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  message: string;
+}
+
+/** Contents of `courses/<courseId>/parse-report.json` */
+export interface ParseReport {
+  courseId: string;
+  /** Google Doc ID or local path the course was parsed from */
+  source: string;
+  generatedAt: string;
+  counts: Record<DiagnosticSeverity, number>;
+  diagnostics: ParseDiagnostic[];
+}
+
+const EXCERPT_MAX_LENGTH = 80;
+
+const SEVERITY_ICONS: Record<DiagnosticSeverity, string> = {
+  error: '❌',
+  warning: '⚠️ ',
+  info: 'ℹ️ ',
+};
+
+export function truncateExcerpt(text: string): string {
+  const singleLine = text.replace(/\s+/g, ' ').trim();
+  return singleLine.length > EXCERPT_MAX_LENGTH
+    ? `${singleLine.slice(0, EXCERPT_MAX_LENGTH - 1)}…`
+    : singleLine;
+}
+
+// ─── Collector ───────────────────────────────────────────────────────────────
+
+export class ParseDiagnostics {
+  readonly items: ParseDiagnostic[] = [];
+
+  /**
+   * Record a finding. `position` inserts it at that index instead of at the
+   * end, for findings that are only known later (e.g. parallel image
+   * uploads) but belong where they happened in the document.
+   */
+  add(diagnostic: ParseDiagnostic, position?: number): void {
+    const item = diagnostic.excerpt !== undefined
+      ? { ...diagnostic, excerpt: truncateExcerpt(diagnostic.excerpt) }
+      : diagnostic;
+    if (position === undefined) this.items.push(item);
+    else this.items.splice(position, 0, item);
+
+    const where = [
+      item.lessonId,
+      item.paragraphIndex !== undefined ? `¶${item.paragraphIndex}` : undefined,
+    ].filter(Boolean).join(' ');
+    const line = `  ${SEVERITY_ICONS[item.severity]} [${item.code}]${where ? ` ${where}:` : ''} ${item.message}`;
+    if (item.severity === 'info') console.log(line);
+    else console.warn(line);
+  }
+
+  error(code: DiagnosticCode, message: string, location: DiagnosticLocation = {}): void {
+    this.add({ severity: 'error', code, message, ...location });
+  }
+
+  warning(code: DiagnosticCode, message: string, location: DiagnosticLocation = {}): void {
+    this.add({ severity: 'warning', code, message, ...location });
+  }
+
+  info(code: DiagnosticCode, message: string, location: DiagnosticLocation = {}): void {
+    this.add({ severity: 'info', code, message, ...location });
+  }
+
+  counts(): Record<DiagnosticSeverity, number> {
+    const counts = { error: 0, warning: 0, info: 0 };
+    for (const item of this.items) counts[item.severity]++;
+    return counts;
+  }
+
+  get hasErrors(): boolean {
+    return this.items.some(item => item.severity === 'error');
+  }
+
+  toReport(courseId: string, source: string): ParseReport {
+    return {
+      courseId,
+      source,
+      generatedAt: new Date().toISOString(),
+      counts: this.counts(),
+      diagnostics: this.items,
+    };
+  }
+}
+
+// ─── Table Output ────────────────────────────────────────────────────────────
+
+/**
+ * Format findings from one or more documents as a fixed-width table, errors
+ * first. Returns an empty string when there is nothing to report.
+ */
+export function formatDiagnosticsTable(
+  rows: Array<{ document: string; diagnostic: ParseDiagnostic }>,
+): string {
+  if (rows.length === 0) return '';
+
+  const severityOrder: Record<DiagnosticSeverity, number> = { error: 0, warning: 1, info: 2 };
+  const sorted = [...rows].sort((a, b) => severityOrder[a.diagnostic.severity] - severityOrder[b.diagnostic.severity]);
+
+  const header = ['SEVERITY', 'CODE', 'DOCUMENT', 'LESSON', '¶', 'MESSAGE'];
+  const cells = sorted.map(({ document, diagnostic: d }) => [
+    d.severity,
+    d.code,
+    document,
+    d.lessonId || '-',
+    d.paragraphIndex !== undefined ? String(d.paragraphIndex) : '-',
+    d.excerpt ? `${d.message} — "${d.excerpt}"` : d.message,
+  ]);
+
+  // The last column is left unpadded so long messages don't widen the table
+  const widths = header.slice(0, -1).map((title, col) =>
+    Math.max(title.length, ...cells.map(row => row[col].length)),
+  );
+  const formatRow = (row: string[]) =>
+    row.map((cell, col) => (col < widths.length ? cell.padEnd(widths[col]) : cell)).join('  ');
+
+  return [
+    formatRow(header),
+    formatRow(widths.map(w => '-'.repeat(w)).concat('-'.repeat(header[header.length - 1].length))),
+    ...cells.map(formatRow),
+  ].join('\n');
+}
@@ -11,14 +11,20 @@
  * HOW IT WORKS:
  *   Raw Google Docs elements
  *       ↓
- *   normalizeParagraph()    ← detects GDocs styles OR markdown, outputs uniform format
+ *   normalizeBodyContent()  ← tables and code blocks, then normalizeParagraph() for
+ *                             the rest: detects GDocs styles OR markdown, uniform format
  *       ↓
  *   NormalizedParagraph[]   ← clean array: headingLevel, richText, isBullet, etc.
  *       ↓
  *   parseCourseMetadata()   ← reads Course Summary key:value pairs
  *   parseLessons()          ← main loop: walks paragraphs, builds blocks
+ *   parseGlossary()         ← "Term: definition" lines, linked from lesson text
  *       ↓
- *   JSON output → Firebase Storage
+ *   JSON output → ContentStore (Firebase Storage by default), published as a
+ *                 release under courses/<id>/releases/ (see courseReleases.ts)
+ *
+ * A doc with "Translation Of: <courseId>" is published as that course's
+ * translation under courses/<id>/<language>/ (see courseTranslations.ts).
  *
  * Usage:
  *   npm run parse -- <doc-id>
@@ -27,8 +33,13 @@
 import { google } from 'googleapis';
 import * as https from 'https';
 import * as crypto from 'crypto';
-import * as admin from 'firebase-admin';
-import { ensureFirebaseAdminInitialized, getGoogleServiceAccount } from './runtimeConfig';
+import { getGoogleServiceAccount } from './runtimeConfig';
+import { BucketContentStore, ContentStore, writeJson } from './contentStore';
+import { publishCourseRelease, readPublishedCourse } from './courseReleases';
+import { contentId, normalizeLanguage } from './courseTranslations';
+import { createLimiter, DEFAULT_IMAGE_CONCURRENCY, Limiter, withRetry } from './concurrency';
+import { ParseDiagnostics, ParseReport } from './parseDiagnostics';
+import { IMAGE_FILE_EXTENSIONS, ImageVariant, prepareImage } from './imageVariants';
 
 // ─── Types ───────────────────────────────────────────────────────────────────
 
@@ -38,6 +49,19 @@ export interface TextSpan {
   bold: boolean;
   italic: boolean;
   link?: string;
+  /** Inline code (markdown backticks or a monospace font in the doc) */
+  code?: boolean;
+  /** A course glossary term (see annotateGlossaryTerms) */
+  glossaryTermId?: string;
+}
+
+/** One term of the course glossary (CourseDetail.glossary) */
+export interface GlossaryEntry {
+  termId: string;
+  term: string;
+  definition: string;
+  /** Other names linked to the same definition, e.g. an abbreviation */
+  aliases?: string[];
 }
 
 /** Normalized representation of one paragraph from Google Docs */
@@ -50,13 +74,41 @@ export interface NormalizedParagraph {
   richText: TextSpan[];
   /** Whether this is a bullet / list item */
   isBullet: boolean;
+  /** List items only: numbered or bulleted */
+  listStyle?: ListStyle;
+  /** List items only: 0 = top level, 1 = first sub-level, ... */
+  nestingLevel?: number;
+  /** List items only: Google Docs list ID (consecutive items of one list share it) */
+  listId?: string;
   /** Whether this paragraph contains an inline image */
   hasImage: boolean;
   /** Google Docs inline object ID for the image (if any) */
   imageObjectId?: string;
+  /** The image's Docs alt text (description, else title), when it has one */
+  imageAltText?: string;
+  /** Set when this entry is a whole Docs table rather than a paragraph */
+  table?: NormalizedTable;
+  /** Set when this entry is a whole code block (``` fences or monospace paragraphs) */
+  code?: { language?: string; text: string };
+}
+
+export interface NormalizedTable {
+  /** rows → cells → rich text of the cell (paragraphs joined with newlines) */
+  rows: TextSpan[][][];
+  /** First row is a header (pinned header row in Docs, or all bold) */
+  hasHeader: boolean;
 }
 
-export type QuizType = 'mcq' | 'true_false' | 'short_answer';
+export type ListStyle = 'bullet' | 'ordered';
+
+export type QuizType = 'mcq' | 'multi_select' | 'ordering' | 'true_false' | 'short_answer';
+
+/** How the learner fills cloze gaps: type the word, or pick it from a word bank */
+export type ClozeMode = 'type' | 'pick';
+
+export type CalloutVariant = 'info' | 'warning' | 'tip' | 'success' | 'exam';
+
+export const CALLOUT_VARIANTS: CalloutVariant[] = ['info', 'warning', 'tip', 'success', 'exam'];
 
 // ─── Slugify ─────────────────────────────────────────────────────────────────
 
@@ -89,64 +141,107 @@ async function initializeDocsClient() {
   return google.docs({ version: 'v1', auth });
 }
 
-// ─── Firebase Storage Helpers ────────────────────────────────────────────────
+// ─── Storage Helpers ─────────────────────────────────────────────────────────
 
 /** Upload an image from a URL to Firebase Storage, returns public URL */
-interface UploadedImageInfo {
+export interface UploadedImageInfo {
   publicUrl: string;
   sha256: string;
   version: string;
+  /** Width / height of the image */
+  aspectRatio?: number;
+  /** Resized copies (see imageVariants.ts); `src` is a public URL */
+  variants?: ImageVariant[];
 }
 
-/** Upload an image from a URL to Firebase Storage, returns public URL + hash/version */
-async function uploadImageToStorage(url: string, storagePath: string): Promise<UploadedImageInfo> {
-  return new Promise((resolve, reject) => {
-    const bucket = admin.storage().bucket();
-    const file = bucket.file(storagePath);
-
-    https.get(url, (response) => {
-      const chunks: Buffer[] = [];
-
-      response.on('data', (chunk) => chunks.push(chunk));
+export interface ResolveImageOptions {
+  /** Render resized variants (default true); thumbnails don't need them */
+  variants?: boolean;
+}
 
-      response.on('end', async () => {
-        try {
-          const buffer = Buffer.concat(chunks);
-          const contentType = response.headers['content-type'] || 'image/jpeg';
-          const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
-          const version = sha256.slice(0, 12);
+/**
+ * Resolves an image reference (Google Docs inline object ID, local file path…)
+ * and stores it under `storageBasePath` + extension, with its variants.
+ * Returns null when the reference can't be resolved to image bytes.
+ */
+export type ImageResolver = (
+  imageRef: string,
+  storageBasePath: string,
+  options?: ResolveImageOptions,
+) => Promise<UploadedImageInfo | null>;
 
-          await file.save(buffer, {
-            metadata: { contentType, cacheControl: 'public, max-age=31536000, immutable' },
-            public: true,
-          });
+/** Redirects an image download follows before it gives up */
+const MAX_IMAGE_REDIRECTS = 5;
 
-          resolve({
-            publicUrl: `https://storage.googleapis.com/${bucket.name}/${storagePath}`,
-            sha256,
-            version,
-          });
-        } catch (err) {
-          reject(err);
+/**
+ * Download an image, following up to MAX_IMAGE_REDIRECTS redirects. HTTP
+ * errors reject with `status` so they can be retried
+ */
+function downloadImage(url: string, redirectsLeft = MAX_IMAGE_REDIRECTS): Promise<{ buffer: Buffer; contentType: string }> {
+  return new Promise((resolve, reject) => {
+    https.get(url, (response) => {
+      const status = response.statusCode || 0;
+      const location = response.headers.location;
+      if (status >= 300 && status < 400 && location) {
+        response.resume();
+        if (redirectsLeft <= 0) {
+          reject(new Error(`Image download failed: more than ${MAX_IMAGE_REDIRECTS} redirects`));
+          return;
         }
-      });
+        downloadImage(new URL(location, url).toString(), redirectsLeft - 1).then(resolve, reject);
+        return;
+      }
+      if (status >= 400) {
+        response.resume();
+        reject(Object.assign(new Error(`Image download failed with HTTP ${status}`), { status }));
+        return;
+      }
 
+      const chunks: Buffer[] = [];
+      response.on('data', (chunk) => chunks.push(chunk));
+      response.on('end', () => resolve({
+        buffer: Buffer.concat(chunks),
+        contentType: response.headers['content-type'] || 'image/jpeg',
+      }));
       response.on('error', (err) => reject(err));
     }).on('error', (err) => reject(err));
   });
 }
 
-/** Upload a JSON object to Firebase Storage, returns public URL */
-async function uploadJsonToStorage(data: any, storagePath: string): Promise<string> {
-  const bucket = admin.storage().bucket();
-  const file = bucket.file(storagePath);
-
-  await file.save(JSON.stringify(data, null, 2), {
-    metadata: { contentType: 'application/json', cacheControl: 'public, max-age=3600' },
-    public: true,
-  });
+/**
+ * Upload an image from a URL to the content store as `storageBasePath` plus
+ * the extension of its detected type, with its resized variants. Returns
+ * public URLs + hash/version.
+ */
+async function uploadImageToStorage(
+  url: string,
+  storageBasePath: string,
+  store: ContentStore,
+  options: ResolveImageOptions = {},
+): Promise<UploadedImageInfo> {
+  return withRetry(async () => {
+    const { buffer, contentType } = await downloadImage(url);
+    const image = await prepareImage(buffer, storageBasePath, { contentTypeHeader: contentType, variants: options.variants });
+
+    for (const file of image.files) {
+      await store.writeFile(file.path, file.buffer, {
+        contentType: file.contentType,
+        cacheControl: 'public, max-age=31536000, immutable',
+        public: true,
+      });
+    }
 
-  return `https://storage.googleapis.com/${bucket.name}/${storagePath}`;
+    const uploaded: UploadedImageInfo = {
+      publicUrl: store.publicUrl(image.path),
+      sha256: image.sha256,
+      version: image.sha256.slice(0, 12),
+      aspectRatio: image.aspectRatio,
+    };
+    if (image.variants.length > 0) {
+      uploaded.variants = image.variants.map(variant => ({ ...variant, src: store.publicUrl(variant.src) }));
+    }
+    return uploaded;
+  }, { label: `Image ${storageBasePath}` });
 }
 
 // ─── Normalization Layer ─────────────────────────────────────────────────────
@@ -161,11 +256,33 @@ async function uploadJsonToStorage(data: any, storagePath: string): Promise<stri
 //   2. Markdown syntax fallback (# heading, **bold**, - bullet)
 // ─────────────────────────────────────────────────────────────────────────────
 
+/** Markdown list item: "- ", "* ", "+ " or "1. ", indented two spaces per level */
+const MARKDOWN_LIST_ITEM = /^([ \t]*)([-*+]|\d+\.)\s+/;
+
+/** Docs glyph types that number their items (everything else is a bullet glyph) */
+const ORDERED_GLYPH_TYPES = new Set(['DECIMAL', 'ZERO_DECIMAL', 'ALPHA', 'UPPER_ALPHA', 'ROMAN', 'UPPER_ROMAN']);
+
+/**
+ * Style of one nesting level of a Google Docs list, from the document's
+ * `lists` map. Lists missing from the map are treated as bullets.
+ */
+export function getDocsListStyle(lists: any, listId: string | undefined, nestingLevel: number): ListStyle {
+  const glyphType = listId ? lists?.[listId]?.listProperties?.nestingLevels?.[nestingLevel]?.glyphType : undefined;
+  return ORDERED_GLYPH_TYPES.has(glyphType) ? 'ordered' : 'bullet';
+}
+
 /**
  * Convert one raw Google Docs body element into a NormalizedParagraph.
  * Returns null for non-paragraph elements and empty paragraphs.
+ * `lists` is the document's `lists` map, used to tell numbered lists from bullets.
+ * With `markdownNumbered: false`, a "1. " prefix stays text (see normalizeBodyContent).
  */
-export function normalizeParagraph(element: any): NormalizedParagraph | null {
+export function normalizeParagraph(
+  element: any,
+  lists?: any,
+  inlineObjects?: any,
+  options: { markdownNumbered?: boolean } = {},
+): NormalizedParagraph | null {
   if (!element.paragraph) return null;
 
   const para = element.paragraph;
@@ -185,7 +302,8 @@ export function normalizeParagraph(element: any): NormalizedParagraph | null {
     }
   }
 
-  const joinedText = rawRuns.map(r => r.text).join('').trim();
+  const rawText = rawRuns.map(r => r.text).join('');
+  const joinedText = rawText.trim();
 
   // Skip completely empty paragraphs (unless they contain an image)
   if (joinedText === '' && !imageObjectId) return null;
@@ -197,7 +315,9 @@ export function normalizeParagraph(element: any): NormalizedParagraph | null {
   // ── Step 3: Detect bullet (GDocs bullet property first, then markdown) ──
 
   const isGDocsBullet = !!para.bullet;
-  const isMarkdownBullet = !isGDocsBullet && headingLevel === 0 && /^[-*+]\s+/.test(joinedText);
+  let markdownListMatch = !isGDocsBullet && headingLevel === 0 ? rawText.match(MARKDOWN_LIST_ITEM) : null;
+  if (markdownListMatch && options.markdownNumbered === false && /\d/.test(markdownListMatch[2])) markdownListMatch = null;
+  const isMarkdownBullet = !!markdownListMatch;
   const isBullet = isGDocsBullet || isMarkdownBullet;
 
   // ── Step 4: Clean the text (strip markdown prefixes we already detected) ──
@@ -209,13 +329,13 @@ export function normalizeParagraph(element: any): NormalizedParagraph | null {
     cleanText = joinedText.replace(/^#{1,6}\s+/, '');
   }
   if (isMarkdownBullet) {
-    // Bullet came from markdown — strip the leading "- " / "* " / "+ "
-    cleanText = joinedText.replace(/^[-*+]\s+/, '');
+    // Bullet came from markdown — strip the leading "- " / "* " / "+ " / "1. "
+    cleanText = joinedText.replace(/^([-*+]|\d+\.)\s+/, '');
   }
 
   // ── Step 5: Build rich text spans ──
 
-  const hasGDocsFormatting = rawRuns.some(r => r.style.bold || r.style.italic || r.style.link?.url);
+  const hasGDocsFormatting = rawRuns.some(r => r.style.bold || r.style.italic || r.style.link?.url || isMonospaceStyle(r.style));
   let richText: TextSpan[];
 
   if (hasGDocsFormatting) {
@@ -226,7 +346,28 @@ export function normalizeParagraph(element: any): NormalizedParagraph | null {
     richText = parseMarkdownInline(cleanText);
   }
 
-  return { headingLevel, plainText: cleanText, richText, isBullet, hasImage: !!imageObjectId, imageObjectId };
+  const normalized: NormalizedParagraph = { headingLevel, plainText: cleanText, richText, isBullet, hasImage: !!imageObjectId, imageObjectId };
+
+  if (imageObjectId) {
+    const embedded = inlineObjects?.[imageObjectId]?.inlineObjectProperties?.embeddedObject;
+    const altText = (embedded?.description || embedded?.title || '').trim();
+    if (altText) normalized.imageAltText = altText;
+  }
+
+  // ── Step 6: List style and nesting level ──
+
+  if (isGDocsBullet) {
+    const nestingLevel: number = para.bullet.nestingLevel || 0;
+    normalized.nestingLevel = nestingLevel;
+    normalized.listId = para.bullet.listId;
+    normalized.listStyle = getDocsListStyle(lists, para.bullet.listId, nestingLevel);
+  } else if (markdownListMatch) {
+    const indentWidth = markdownListMatch[1].replace(/\t/g, '  ').length;
+    normalized.nestingLevel = Math.floor(indentWidth / 2);
+    normalized.listStyle = /\d/.test(markdownListMatch[2]) ? 'ordered' : 'bullet';
+  }
+
+  return normalized;
 }
 
 /**
@@ -246,9 +387,15 @@ export function detectHeadingLevel(gdocsStyle: string, plainText: string): numbe
   return 0;
 }
 
+/** Whether a Google Docs textStyle uses a monospace font (rendered as inline code) */
+export function isMonospaceStyle(style: any): boolean {
+  const fontFamily: string = style?.weightedFontFamily?.fontFamily || '';
+  return /mono|courier|consolas/i.test(fontFamily);
+}
+
 /**
  * Build TextSpan[] from Google Docs native textRun styles.
- * Used when Google Docs already provides bold/italic/link info.
+ * Used when Google Docs already provides bold/italic/link/monospace info.
  */
 export function buildSpansFromGDocs(runs: Array<{ text: string; style: any }>): TextSpan[] {
   const spans: TextSpan[] = [];
@@ -257,12 +404,14 @@ export function buildSpansFromGDocs(runs: Array<{ text: string; style: any }>):
     const text = run.text.replace(/\n/g, '');
     if (!text.trim()) continue;
 
-    spans.push({
+    const span: TextSpan = {
       text,
       bold: run.style.bold || false,
       italic: run.style.italic || false,
       link: run.style.link?.url || undefined,
-    });
+    };
+    if (isMonospaceStyle(run.style)) span.code = true;
+    spans.push(span);
   }
 
   return spans;
@@ -276,6 +425,7 @@ export function buildSpansFromGDocs(runs: Array<{ text: string; style: any }>):
  *   **bold text**      →  { bold: true }
  *   *italic text*      →  { italic: true }
  *   [text](url)        →  { link: url }
+ *   `code`             →  { code: true }
  *   plain text         →  { bold: false, italic: false }
  */
 export function parseMarkdownInline(text: string): TextSpan[] {
@@ -283,8 +433,8 @@ export function parseMarkdownInline(text: string): TextSpan[] {
 
   const spans: TextSpan[] = [];
 
-  // Match: ***bold+italic***, **bold**, *italic*, [link](url), or plain text between them
-  const tokenRegex = /(\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)]+)\))/g;
+  // Match: `code`, ***bold+italic***, **bold**, *italic*, [link](url), or plain text between them
+  const tokenRegex = /(`([^`]+)`|\*\*\*(.+?)\*\*\*|\*\*(.+?)\*\*|\*(.+?)\*|\[([^\]]+)\]\(([^)]+)\))/g;
 
   let lastIndex = 0;
   let match: RegExpExecArray | null;
@@ -296,13 +446,15 @@ export function parseMarkdownInline(text: string): TextSpan[] {
     }
 
     if (match[2]) {
-      spans.push({ text: match[2], bold: true, italic: true });       // ***bold italic***
+      spans.push({ text: match[2], bold: false, italic: false, code: true }); // `code`
     } else if (match[3]) {
-      spans.push({ text: match[3], bold: true, italic: false });      // **bold**
+      spans.push({ text: match[3], bold: true, italic: true });       // ***bold italic***
     } else if (match[4]) {
-      spans.push({ text: match[4], bold: false, italic: true });      // *italic*
-    } else if (match[5] && match[6]) {
-      spans.push({ text: match[5], bold: false, italic: false, link: match[6] }); // [text](url)
+      spans.push({ text: match[4], bold: true, italic: false });      // **bold**
+    } else if (match[5]) {
+      spans.push({ text: match[5], bold: false, italic: true });      // *italic*
+    } else if (match[6] && match[7]) {
+      spans.push({ text: match[6], bold: false, italic: false, link: match[7] }); // [text](url)
     }
 
     lastIndex = match.index + match[0].length;
@@ -321,7 +473,173 @@ export function parseMarkdownInline(text: string): TextSpan[] {
   return spans;
 }
 
-// ─── YouTube Helpers ─────────────────────────────────────────────────────────
+// ─── Tables and Code Blocks ──────────────────────────────────────────────────
+//
+// Tables and code need the raw body elements (cells, untrimmed lines, blank
+// lines inside code), so they are grouped here before paragraph normalization.
+// Each table or code block becomes one NormalizedParagraph carrying `table` /
+// `code`, with a plain-text copy in `plainText` for excerpts.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const CODE_FENCE_OPEN = /^```\s*([A-Za-z0-9_+#.-]*)\s*$/;
+const CODE_FENCE_CLOSE = /^```\s*$/;
+
+/** Paragraph text exactly as written: untrimmed, soft line breaks as `\n` */
+function rawParagraphText(element: any): string {
+  const runs: any[] = element.paragraph?.elements || [];
+  return runs
+    .map(el => el.textRun?.content || '')
+    .join('')
+    .replace(/\n$/, '')
+    .replace(/\u000b/g, '\n');
+}
+
+/** Every run with visible text is in a monospace font (and there is some text) */
+function isMonospaceParagraph(element: any): boolean {
+  const para = element.paragraph;
+  if (!para || para.bullet) return false;
+  if ((para.paragraphStyle?.namedStyleType || '').startsWith('HEADING_')) return false;
+
+  const runs = (para.elements || []).filter((el: any) => el.inlineObjectElement || el.textRun?.content?.trim());
+  return runs.length > 0 && runs.every((el: any) => el.textRun && isMonospaceStyle(el.textRun.textStyle));
+}
+
+function isBlankParagraph(element: any): boolean {
+  return !!element.paragraph && rawParagraphText(element).trim() === '' &&
+    !(element.paragraph.elements || []).some((el: any) => el.inlineObjectElement);
+}
+
+/** A paragraph that is a markdown list item ("- ", "1. ", ...) rather than a Docs list item */
+function isMarkdownListParagraph(element: any): boolean {
+  return !!element.paragraph && !element.paragraph.bullet && MARKDOWN_LIST_ITEM.test(rawParagraphText(element));
+}
+
+/**
+ * Whether the paragraph right before or after `index` is a markdown list
+ * item too. A "1. " paragraph only becomes a numbered item in such a run, so
+ * a sentence that happens to start with "2024. " stays a paragraph.
+ */
+function isInMarkdownListRun(content: any[], index: number): boolean {
+  return [content[index - 1], content[index + 1]].some(neighbour => neighbour && isMarkdownListParagraph(neighbour));
+}
+
+function makeCodeParagraph(text: string, language?: string): NormalizedParagraph {
+  const code: { language?: string; text: string } = { text };
+  if (language) code.language = language;
+  return { headingLevel: 0, plainText: text, richText: [], isBullet: false, hasImage: false, code };
+}
+
+/**
+ * Convert a Docs table element. A 1×1 table whose text is all monospace is the
+ * Docs "code block" building block and becomes code instead.
+ */
+export function normalizeTable(element: any): NormalizedParagraph | null {
+  const tableRows: any[] = element.table?.tableRows || [];
+  if (tableRows.length === 0) return null;
+
+  const cellElements = (cell: any): any[] => (cell.content || []).filter((el: any) => el.paragraph);
+
+  if (tableRows.length === 1 && (tableRows[0].tableCells || []).length === 1) {
+    const paragraphs = cellElements(tableRows[0].tableCells[0]);
+    const textParagraphs = paragraphs.filter(el => !isBlankParagraph(el));
+    if (textParagraphs.length > 0 && textParagraphs.every(isMonospaceParagraph)) {
+      const text = paragraphs.map(rawParagraphText).join('\n').replace(/\s+$/, '');
+      return makeCodeParagraph(text);
+    }
+  }
+
+  const rows: TextSpan[][][] = tableRows.map(row =>
+    (row.tableCells || []).map((cell: any) => {
+      const spans: TextSpan[] = [];
+      for (const el of cellElements(cell)) {
+        const normalized = normalizeParagraph(el);
+        if (!normalized || normalized.richText.length === 0) continue;
+        if (spans.length > 0) spans.push({ text: '\n', bold: false, italic: false });
+        spans.push(...normalized.richText);
+      }
+      return spans;
+    }),
+  );
+
+  const firstRowCells = rows[0].filter(cell => cell.some(span => span.text.trim()));
+  const firstRowAllBold = firstRowCells.length > 0 &&
+    firstRowCells.every(cell => cell.filter(span => span.text.trim()).every(span => span.bold));
+  const hasHeader = rows.length > 1 && (!!tableRows[0].tableRowStyle?.tableHeader || firstRowAllBold);
+
+  const cellText = (cell: TextSpan[]) => cell.map(span => span.text).join('').replace(/\n/g, ' ');
+  const plainText = rows.map(row => row.map(cellText).join(' | ')).join('\n');
+
+  return {
+    headingLevel: 0,
+    plainText,
+    richText: [],
+    isBullet: false,
+    hasImage: false,
+    table: { rows, hasHeader },
+  };
+}
+
+/**
+ * Normalize a document body: tables, ``` fenced code and runs of monospace
+ * paragraphs become single entries; everything else goes through
+ * normalizeParagraph(). Blank paragraphs and section breaks are dropped.
+ * `lists` is the document's `lists` map (numbered vs bulleted lists).
+ * Markdown "1. " items count only next to another markdown list item.
+ */
+export function normalizeBodyContent(content: any[], lists?: any, inlineObjects?: any): NormalizedParagraph[] {
+  const paragraphs: NormalizedParagraph[] = [];
+
+  for (let i = 0; i < content.length; i++) {
+    const element = content[i];
+
+    if (element.table) {
+      const table = normalizeTable(element);
+      if (table) paragraphs.push(table);
+      continue;
+    }
+
+    if (element.paragraph) {
+      // ``` fenced code: everything up to the closing fence, verbatim
+      const fence = rawParagraphText(element).trim().match(CODE_FENCE_OPEN);
+      if (fence) {
+        let close = -1;
+        for (let j = i + 1; j < content.length; j++) {
+          if (!content[j].paragraph) break;
+          if (CODE_FENCE_CLOSE.test(rawParagraphText(content[j]).trim())) { close = j; break; }
+        }
+        if (close > 0) {
+          const text = content.slice(i + 1, close).map(rawParagraphText).join('\n');
+          paragraphs.push(makeCodeParagraph(text, fence[1] || undefined));
+          i = close;
+          continue;
+        }
+      }
+
+      // Consecutive monospace paragraphs (blank lines between them included)
+      if (isMonospaceParagraph(element)) {
+        let end = i;
+        for (let j = i + 1; j < content.length; j++) {
+          if (isMonospaceParagraph(content[j])) end = j;
+          else if (!isBlankParagraph(content[j])) break;
+        }
+        const text = content.slice(i, end + 1).map(rawParagraphText).join('\n');
+        paragraphs.push(makeCodeParagraph(text));
+        i = end;
+        continue;
+      }
+    }
+
+    const markdownNumbered = isMarkdownListParagraph(element) && isInMarkdownListRun(content, i);
+    const normalized = normalizeParagraph(element, lists, inlineObjects, { markdownNumbered });
+    if (normalized) paragraphs.push(normalized);
+  }
+
+  return paragraphs;
+}
+
+// ─── Video Helpers ───────────────────────────────────────────────────────────
+
+export type VideoProvider = 'youtube' | 'vimeo' | 'native';
 
 export function isYouTubeUrl(text: string): boolean {
   return /^https?:\/\/(www\.)?(youtube\.com\/watch\?v=|youtu\.be\/)/.test(text);
@@ -329,8 +647,8 @@ export function isYouTubeUrl(text: string): boolean {
 
 export function extractYouTubeId(url: string): string | null {
   const patterns = [
-    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&\s]+)/,
-    /youtube\.com\/embed\/([^&\s]+)/,
+    /(?:youtube\.com\/watch\?v=|youtu\.be\/)([^&?#\s]+)/,
+    /youtube\.com\/embed\/([^&?#\s]+)/,
   ];
   for (const p of patterns) {
     const m = url.match(p);
@@ -339,27 +657,94 @@ export function extractYouTubeId(url: string): string | null {
   return null;
 }
 
+/** vimeo.com/<id>, vimeo.com/channels/<name>/<id>, player.vimeo.com/video/<id> */
+export function isVimeoUrl(text: string): boolean {
+  return /^https?:\/\/(www\.|player\.)?vimeo\.com\//.test(text) && extractVimeoId(text) !== null;
+}
+
+export function extractVimeoId(url: string): string | null {
+  const m = url.match(/vimeo\.com\/(?:video\/|channels\/[^/]+\/|groups\/[^/]+\/videos\/)?(\d+)/);
+  return m ? m[1] : null;
+}
+
+/** Direct links to a video file or HLS playlist (.mp4, .m4v, .mov, .webm, .m3u8) */
+export function isDirectVideoUrl(text: string): boolean {
+  return /^https?:\/\/\S+\.(mp4|m4v|mov|webm|m3u8)([?#]\S*)?$/i.test(text);
+}
+
+/**
+ * Read a start offset from `t=` / `start=` in the query string or hash.
+ * Accepts seconds (`90`, `90s`) and `1h2m3s`-style values. Returns undefined
+ * when there is no usable offset.
+ */
+export function extractStartSeconds(url: string): number | undefined {
+  const m = url.match(/[?&#](?:t|start)=([0-9hms]+)/i);
+  if (!m) return undefined;
+
+  const value = m[1].toLowerCase();
+  let seconds: number;
+  if (/^\d+s?$/.test(value)) {
+    seconds = parseInt(value, 10);
+  } else {
+    const parts = value.match(/^(?:(\d+)h)?(?:(\d+)m)?(?:(\d+)s)?$/);
+    if (!parts) return undefined;
+    seconds = parseInt(parts[1] || '0', 10) * 3600 + parseInt(parts[2] || '0', 10) * 60 + parseInt(parts[3] || '0', 10);
+  }
+  return seconds > 0 ? seconds : undefined;
+}
+
+export function getVideoProvider(text: string): VideoProvider | null {
+  if (isYouTubeUrl(text)) return 'youtube';
+  if (isVimeoUrl(text)) return 'vimeo';
+  if (isDirectVideoUrl(text)) return 'native';
+  return null;
+}
+
 // ─── Special Marker Detection ────────────────────────────────────────────────
 
-export function isCalloutMarker(text: string): boolean { return text === '[CALLOUT]'; }
+export function isCalloutMarker(text: string): boolean { return getCalloutMarkerVariant(text) !== null; }
+export function isCalloutEndMarker(text: string): boolean { return text === '[/CALLOUT]'; }
+
+/**
+ * `[CALLOUT]` → 'tip', `[CALLOUT:warning]` → 'warning'. Returns the variant as
+ * written (lowercased) so the caller can report unknown ones.
+ */
+export function getCalloutMarkerVariant(text: string): string | null {
+  const match = text.match(/^\[CALLOUT(?::\s*([A-Za-z]+)\s*)?\]$/);
+  if (!match) return null;
+  return match[1] ? match[1].toLowerCase() : 'tip';
+}
 export function isFlashcardMarker(text: string): boolean { return text === '[FLASHCARD]'; }
 
 export function getQuizMarkerType(text: string): QuizType | null {
   if (text.startsWith('[QUIZ_CHOICE]')) return 'mcq';
+  if (text.startsWith('[QUIZ_MULTI]')) return 'multi_select';
+  if (text.startsWith('[QUIZ_ORDER]')) return 'ordering';
   if (text.startsWith('[QUIZ_TRUE_FALSE]')) return 'true_false';
   if (text.startsWith('[QUIZ_SHORT_ANSWER]')) return 'short_answer';
   return null;
 }
 
+/** `[CLOZE]` → typed gaps, `[CLOZE:pick]` → gaps filled from a word bank */
+export function getClozeMarkerMode(text: string): ClozeMode | null {
+  if (text === '[CLOZE]') return 'type';
+  if (text === '[CLOZE:pick]') return 'pick';
+  return null;
+}
+
 export function isLessonHeading(para: NormalizedParagraph): boolean {
   return para.headingLevel === 1 && /^Lesson\s*[-–]\s*/i.test(para.plainText);
 }
 
 function isContentBoundary(para: NormalizedParagraph): boolean {
-  return isLessonHeading(para) ||
+  return !!para.table || !!para.code ||
+    isLessonHeading(para) ||
     isCalloutMarker(para.plainText) ||
+    isCalloutEndMarker(para.plainText) ||
     isFlashcardMarker(para.plainText) ||
-    getQuizMarkerType(para.plainText) !== null;
+    para.plainText === GLOSSARY_MARKER ||
+    getQuizMarkerType(para.plainText) !== null ||
+    getClozeMarkerMode(para.plainText) !== null;
 }
 
 // ─── Image Helper ────────────────────────────────────────────────────────────
@@ -370,6 +755,33 @@ function getImageUrl(doc: any, objectId: string): string | null {
     ?.inlineObjectProperties?.embeddedObject?.imageProperties?.contentUri || null;
 }
 
+/**
+ * Image resolver for Google Docs: inline object → content URI → content store.
+ * Images listed in `reusable` (by public URL, see collectReusableImages) are
+ * returned as-is instead of being downloaded and uploaded again. Transfers
+ * share `limit`, so only a few run at a time.
+ */
+function createDocImageResolver(
+  doc: any,
+  store: ContentStore,
+  reusable: Map<string, UploadedImageInfo> = new Map(),
+  limit: Limiter = createLimiter(DEFAULT_IMAGE_CONCURRENCY),
+): ImageResolver {
+  return async (objectId, storageBasePath, options) => {
+    const reused = IMAGE_FILE_EXTENSIONS
+      .map(ext => reusable.get(store.publicUrl(`${storageBasePath}.${ext}`)))
+      .find(Boolean);
+    if (reused) {
+      console.log(`      ♻️  Unchanged, reusing ${reused.publicUrl}`);
+      return reused;
+    }
+
+    const imageUrl = getImageUrl(doc, objectId);
+    if (!imageUrl) return null;
+    return limit(() => uploadImageToStorage(imageUrl, storageBasePath, store, options));
+  };
+}
+
 // ─── Course Metadata Parsing ─────────────────────────────────────────────────
 
 /** Mapping of human-readable field names → JSON keys */
@@ -389,43 +801,53 @@ const METADATA_KEY_MAP: Record<string, string> = {
   'Tags': 'tags',
   'Premium': 'premium',
   'Order': 'order',
+  'Translation Of': 'translationOf',
 };
 
 /**
  * Parse "Course Summary" section at the top of the document.
  * Reads key:value pairs until we hit the first "Lesson -" heading.
  * Also detects and uploads the course thumbnail image.
+ *
+ * Unknown keys and thumbnail failures are recorded on `diagnostics` when given
+ * (the first, courseId-less pass leaves it out so nothing is reported twice).
  */
-async function parseCourseMetadata(
+export async function parseCourseMetadata(
   paragraphs: NormalizedParagraph[],
-  doc: any,
   courseId: string,
+  resolveImage: ImageResolver,
+  diagnostics?: ParseDiagnostics,
 ): Promise<Record<string, any>> {
   const metadata: Record<string, any> = {};
+  const glossaryParagraphs = findGlossaryParagraphs(paragraphs);
 
   console.log(`  Scanning ${paragraphs.length} paragraphs for metadata...`);
 
-  for (const para of paragraphs) {
+  for (let index = 0; index < paragraphs.length; index++) {
+    const para = paragraphs[index];
+
     // Stop at first lesson heading
     if (isLessonHeading(para)) {
       console.log(`  Stopped at lesson heading: ${para.plainText}`);
       break;
     }
+    if (glossaryParagraphs.has(index)) continue;
 
     // Upload thumbnail image if found
     if (para.hasImage && para.imageObjectId && courseId) {
-      const imageUrl = getImageUrl(doc, para.imageObjectId);
-      if (imageUrl) {
-        const ext = imageUrl.includes('.png') ? 'png' : 'jpg';
-        try {
-          const uploaded = await uploadImageToStorage(imageUrl, `courses/${courseId}/thumbnail.${ext}`);
+      try {
+        const uploaded = await resolveImage(para.imageObjectId, `courses/${courseId}/thumbnail`, { variants: false });
+        if (uploaded) {
           metadata.thumbnailUrl = uploaded.publicUrl;
           metadata.thumbnailVersion = uploaded.version;
           metadata.thumbnailHash = uploaded.sha256;
           console.log(`  ✅ Uploaded thumbnail: ${uploaded.publicUrl}`);
-        } catch (err) {
-          console.warn(`  ⚠️  Failed to upload thumbnail:`, err);
+        } else {
+          diagnostics?.error('image-failed', 'Course thumbnail could not be resolved', { paragraphIndex: index });
         }
+      } catch (err: any) {
+        console.warn(`  ⚠️  Failed to upload thumbnail:`, err);
+        diagnostics?.error('image-failed', `Failed to upload thumbnail: ${err?.message || err}`, { paragraphIndex: index });
       }
     }
 
@@ -436,7 +858,13 @@ async function parseCourseMetadata(
     const key = kvMatch[1].trim();
     const rawValue = kvMatch[2].trim();
     const jsonKey = METADATA_KEY_MAP[key];
-    if (!jsonKey) continue;
+    if (!jsonKey) {
+      diagnostics?.warning('unknown-metadata-key', `Unknown course metadata key "${key}" was ignored`, {
+        paragraphIndex: index,
+        excerpt: para.plainText,
+      });
+      continue;
+    }
 
     // Strip helper text in parentheses, e.g. "beginner (beginner/intermediate/advanced)"
     const value = rawValue.replace(/\s*\([^)]+\)\s*$/, '').trim();
@@ -468,11 +896,29 @@ async function parseCourseMetadata(
   return metadata;
 }
 
+/**
+ * Normalize courseId: strip "course-" prefix if present so storage paths
+ * match the index (e.g. "course-farming-101" → "farming-101")
+ */
+export function normalizeCourseId(rawCourseId: string): string {
+  return rawCourseId.replace(/^course-/, '');
+}
+
 // ─── Lesson Metadata Parsing ─────────────────────────────────────────────────
 
+/** Split a "a; b; c" metadata value into its trimmed, non-empty parts */
+function splitMetadataList(value: string, separator: RegExp): string[] {
+  return value.split(separator).map(part => part.trim()).filter(Boolean);
+}
+
 /**
- * Parse lesson metadata (Summary, Duration, Premium) that immediately
+ * Parse lesson metadata (Summary, Duration, Premium, Objectives,
+ * Prerequisites, Tags, Previous IDs, Translation Of) that immediately
  * follows a lesson heading. Returns the number of paragraphs consumed.
+ *
+ * Objectives are `;`-separated or bullets right after the `Objectives:` line.
+ * Prerequisites and Previous IDs are kept as written here; parseLessons()
+ * turns them into lesson IDs once the course ID and every lesson are known.
  */
 export function parseLessonMetadata(lesson: any, paragraphs: NormalizedParagraph[], startIndex: number): number {
   let consumed = 0;
@@ -492,6 +938,18 @@ export function parseLessonMetadata(lesson: any, paragraphs: NormalizedParagraph
     if (key === 'Summary') lesson.summary = value;
     else if (key === 'Duration (minutes)') lesson.estimatedDurationMinutes = parseInt(value) || 0;
     else if (key === 'Premium') lesson.premium = value.toLowerCase() === 'yes';
+    else if (key === 'Objectives') {
+      const objectives = splitMetadataList(value, /;/);
+      while (i + 1 < paragraphs.length && paragraphs[i + 1].isBullet && paragraphs[i + 1].plainText) {
+        objectives.push(paragraphs[++i].plainText);
+        consumed++;
+      }
+      lesson.learningObjectives = objectives;
+    }
+    else if (key === 'Prerequisites') lesson.prerequisites = splitMetadataList(value, /;/);
+    else if (key === 'Tags') lesson.tags = splitMetadataList(value, /,/);
+    else if (key === 'Previous IDs') lesson.aliases = splitMetadataList(value, /;/);
+    else if (key === 'Translation Of') lesson.translationOf = value;
     else break; // Unknown key — content has started
 
     consumed++;
@@ -507,17 +965,155 @@ export function parseLessonMetadata(lesson: any, paragraphs: NormalizedParagraph
 // advance cleanly.
 // ─────────────────────────────────────────────────────────────────────────────
 
-/** Parse [CALLOUT] marker + the next paragraph as callout content */
-function parseCallout(paragraphs: NormalizedParagraph[], index: number): { block: any; consumed: number } {
-  for (let i = index + 1; i < paragraphs.length; i++) {
-    if (paragraphs[i].plainText.length > 0) {
-      return {
-        block: { type: 'callout', variant: 'tip', text: paragraphs[i].plainText },
-        consumed: i - index + 1,
-      };
+/**
+ * Parse a [CALLOUT] / [CALLOUT:variant] marker.
+ *
+ * An optional `Title:` line may follow the marker. When a matching [/CALLOUT]
+ * comes before the next marker or lesson, every paragraph up to it is the
+ * body; otherwise only the next paragraph is (the original single-paragraph
+ * form). `text` keeps a plain-text copy of the body for older app builds.
+ */
+export function parseCallout(
+  variant: CalloutVariant,
+  paragraphs: NormalizedParagraph[],
+  index: number,
+): { block: any; consumed: number } {
+  let i = index + 1;
+  let title: string | undefined;
+
+  if (i < paragraphs.length && paragraphs[i].plainText.startsWith('Title:')) {
+    title = paragraphs[i].plainText.replace('Title:', '').trim() || undefined;
+    i++;
+  }
+
+  let end = -1;
+  for (let j = i; j < paragraphs.length; j++) {
+    if (isCalloutEndMarker(paragraphs[j].plainText)) { end = j; break; }
+    if (isContentBoundary(paragraphs[j])) break;
+  }
+
+  const bodyParagraphs = end >= 0
+    ? paragraphs.slice(i, end)
+    : paragraphs.slice(i, i + 1).filter(p => !isContentBoundary(p));
+  const body = bodyParagraphs.filter(p => p.plainText.length > 0);
+  const consumed = (end >= 0 ? end + 1 : i + bodyParagraphs.length) - index;
+
+  if (body.length === 0) return { block: null, consumed };
+
+  const block: any = {
+    type: 'callout',
+    variant,
+    text: body.map(p => p.plainText).join('\n\n'),
+    paragraphs: body.map(p => p.richText),
+  };
+  if (title) block.title = title;
+  return { block, consumed };
+}
+
+/**
+ * Split one cloze line into text and gap segments.
+ * `{{answer|alt}}` becomes a gap accepting either spelling; gap IDs continue
+ * from `firstGapNumber` so they're unique across the block.
+ */
+export function parseClozeLine(text: string, firstGapNumber = 1): any[] {
+  const segments: any[] = [];
+  const gapPattern = /\{\{([^}]+)\}\}/g;
+  let gapNumber = firstGapNumber;
+  let lastIndex = 0;
+  let match: RegExpExecArray | null;
+
+  while ((match = gapPattern.exec(text)) !== null) {
+    if (match.index > lastIndex) {
+      segments.push({ type: 'text', text: text.slice(lastIndex, match.index) });
+    }
+    const answers = match[1].split('|').map(a => a.trim()).filter(a => a.length > 0);
+    if (answers.length > 0) {
+      segments.push({ type: 'gap', gapId: `g${gapNumber++}`, answers });
+    } else {
+      segments.push({ type: 'text', text: match[0] });
+    }
+    lastIndex = match.index + match[0].length;
+  }
+
+  if (lastIndex < text.length) {
+    segments.push({ type: 'text', text: text.slice(lastIndex) });
+  }
+  return segments;
+}
+
+/**
+ * Parse [CLOZE] / [CLOZE:pick] marker + the following lines that contain
+ * `{{...}}` gaps. In pick mode an optional `Distractors: a, b` line adds wrong
+ * words to the word bank (sorted, so its order doesn't give answers away).
+ */
+function parseCloze(
+  mode: ClozeMode,
+  paragraphs: NormalizedParagraph[],
+  index: number,
+): { block: any; consumed: number } {
+  const lines: any[][] = [];
+  let distractors: string[] = [];
+  let gapCount = 0;
+  let i = index + 1;
+
+  while (i < paragraphs.length) {
+    const para = paragraphs[i];
+    if (para.headingLevel > 0 || isContentBoundary(para)) break;
+
+    const text = para.plainText;
+    if (text.startsWith('Distractors:')) {
+      distractors = text.replace('Distractors:', '').split(',').map(d => d.trim()).filter(d => d.length > 0);
+    } else if (/\{\{[^}]+\}\}/.test(text)) {
+      const segments = parseClozeLine(text, gapCount + 1);
+      gapCount += segments.filter(segment => segment.type === 'gap').length;
+      lines.push(segments);
+    } else {
+      break;
     }
+    i++;
+  }
+
+  if (gapCount === 0) return { block: null, consumed: i - index };
+
+  const block: any = { type: 'cloze', lines };
+  if (mode === 'pick') {
+    const answers = ([] as any[]).concat(...lines).filter(segment => segment.type === 'gap').map(segment => segment.answers[0]);
+    block.wordBank = Array.from(new Set([...answers, ...distractors])).sort((a, b) => a.localeCompare(b));
   }
-  return { block: null, consumed: 1 };
+  return { block, consumed: i - index };
+}
+
+/**
+ * Parse a video URL paragraph plus an optional `Title:` line right after it.
+ * YouTube/Vimeo keep the ID, direct files keep the URL as `src`.
+ */
+function parseVideo(
+  provider: VideoProvider,
+  paragraphs: NormalizedParagraph[],
+  index: number,
+): { block: any; consumed: number } {
+  const url = paragraphs[index].plainText;
+  let consumed = 1;
+  let title = '';
+
+  const next = paragraphs[index + 1];
+  if (next && next.plainText.startsWith('Title:')) {
+    title = next.plainText.replace('Title:', '').trim();
+    consumed++;
+  }
+
+  const block: any = { type: 'video', provider, title };
+  if (provider === 'native') {
+    block.src = url;
+  } else {
+    const videoId = provider === 'youtube' ? extractYouTubeId(url) : extractVimeoId(url);
+    if (!videoId) return { block: null, consumed };
+    block.videoId = videoId;
+  }
+
+  const startSeconds = extractStartSeconds(url);
+  if (startSeconds !== undefined) block.startSeconds = startSeconds;
+  return { block, consumed };
 }
 
 /** Parse [FLASHCARD] marker + Front:/Back: fields. Returns a single card. */
@@ -547,14 +1143,21 @@ function parseFlashcard(paragraphs: NormalizedParagraph[], index: number): { blo
   return { block: null, consumed: i - index || 1 };
 }
 
-/** Parse [QUIZ_*] marker + question fields (Prompt, choices, Answer, Explanation) */
+/**
+ * Parse [QUIZ_*] marker + question fields (ID, Prompt, choices, Answer, Explanation).
+ * `questionId` stays empty unless the author set `ID:`; assignQuestionIds() fills it in.
+ *
+ * Choices are `A)`, `B)`, ... lines (any number of them). [QUIZ_MULTI] collects
+ * every [CORRECT] choice into an array; [QUIZ_ORDER] items are written in the
+ * correct order (`1)`, `2)`, ... or letters) and the app shuffles them.
+ */
 function parseQuizQuestion(
   type: QuizType,
   paragraphs: NormalizedParagraph[],
   index: number,
 ): { question: any; consumed: number } {
   const question: any = {
-    questionId: `q${Math.random().toString(36).substr(2, 9)}`,
+    questionId: '',
     type,
   };
 
@@ -566,17 +1169,27 @@ function parseQuizQuestion(
 
     const text = para.plainText;
 
-    if (text.startsWith('Prompt:')) {
+    if (text.startsWith('ID:')) {
+      question.questionId = text.replace('ID:', '').trim();
+    } else if (text.startsWith('Prompt:')) {
       question.prompt = text.replace('Prompt:', '').trim();
     } else if (text.startsWith('Explanation:')) {
       question.explanation = text.replace('Explanation:', '').trim();
-    } else if (type === 'mcq' && text.match(/^[A-D]\)/)) {
+    } else if ((type === 'mcq' || type === 'multi_select') && text.match(/^[A-Z]\)/)) {
       if (!question.choices) question.choices = [];
-      const choiceText = text.replace(/^[A-D]\)\s*/, '');
+      const choiceText = text.replace(/^[A-Z]\)\s*/, '');
       const isCorrect = choiceText.includes('[CORRECT]');
       const cleanChoice = choiceText.replace(/\s*\[CORRECT\]\s*/g, '').trim();
       question.choices.push(cleanChoice);
-      if (isCorrect) question.correctAnswer = cleanChoice;
+      if (isCorrect && type === 'multi_select') {
+        question.correctAnswer = [...(question.correctAnswer || []), cleanChoice];
+      } else if (isCorrect) {
+        question.correctAnswer = cleanChoice;
+      }
+    } else if (type === 'ordering' && text.match(/^(\d+|[A-Z])\)/)) {
+      if (!question.choices) question.choices = [];
+      question.choices.push(text.replace(/^(\d+|[A-Z])\)\s*/, '').trim());
+      question.correctAnswer = [...question.choices];
     } else if (type === 'true_false' && text.startsWith('Answer:')) {
       question.correctAnswer = text.replace('Answer:', '').trim().toUpperCase() === 'TRUE';
     } else if (type === 'short_answer' && text.startsWith('Accepted Answers:')) {
@@ -590,32 +1203,147 @@ function parseQuizQuestion(
   return { question, consumed: i - index };
 }
 
+function hasCorrectAnswer(question: any): boolean {
+  if (question.type === 'true_false') return typeof question.correctAnswer === 'boolean';
+  if (question.type === 'ordering') return (question.choices?.length || 0) >= 2;
+  if (Array.isArray(question.correctAnswer)) return question.correctAnswer.some((a: string) => a.length > 0);
+  return typeof question.correctAnswer === 'string' && question.correctAnswer.length > 0;
+}
+
+function missingAnswerMessage(type: QuizType): string {
+  switch (type) {
+    case 'mcq': return 'Multiple-choice question has no choice marked [CORRECT]';
+    case 'multi_select': return 'Multi-select question has no choice marked [CORRECT]';
+    case 'ordering': return 'Ordering question needs at least two items (1), 2), ...)';
+    case 'true_false': return 'True/false question has no "Answer: TRUE|FALSE" line';
+    case 'short_answer': return 'Short-answer question has no "Accepted Answers:" line';
+  }
+}
+
+// ─── Quiz Question IDs ───────────────────────────────────────────────────────
+//
+// Question IDs must survive re-parsing so answer history and analytics keyed
+// by question aren't lost on every publish:
+//   - `ID: soil-layers` set by the author → `<lessonId>-soil-layers` (slugified;
+//     kept as-is when it already starts with the lessonId, e.g. an old ID
+//     pinned after rewording). Answer history is keyed by question ID alone,
+//     so explicit IDs must not collide with other lessons or courses either
+//   - otherwise → `<lessonId>-q-<hash of prompt>`, so reordering questions
+//     keeps their IDs (editing the prompt text does not)
+//   - no prompt → `<lessonId>-q<position>`
+// ─────────────────────────────────────────────────────────────────────────────
+
+function hashPrompt(prompt: string): string {
+  const normalized = prompt.trim().toLowerCase().replace(/\s+/g, ' ');
+  return crypto.createHash('sha256').update(normalized).digest('hex').slice(0, 8);
+}
+
+/** Give every question in a lesson's quiz a stable, unique questionId */
+export function assignQuestionIds(
+  lessonId: string,
+  questions: any[],
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+): any[] {
+  const seen = new Set<string>();
+
+  return questions.map((question, index) => {
+    const explicitId = slugify(question.questionId || '');
+    const scopedId = explicitId && !explicitId.startsWith(`${lessonId}-`) ? `${lessonId}-${explicitId}` : explicitId;
+    let questionId = scopedId
+      || (question.prompt ? `${lessonId}-q-${hashPrompt(question.prompt)}` : `${lessonId}-q${index + 1}`);
+
+    if (seen.has(questionId)) {
+      let suffix = 2;
+      while (seen.has(`${questionId}-${suffix}`)) suffix++;
+      diagnostics.warning(
+        'duplicate-question-id',
+        `Question ${index + 1} has the same ${explicitId ? 'ID' : 'prompt'} as an earlier question ` +
+        `("${questionId}"); using "${questionId}-${suffix}". Set a unique "ID:" to keep it stable.`,
+        { lessonId, excerpt: question.prompt || '' },
+      );
+      questionId = `${questionId}-${suffix}`;
+    }
+
+    seen.add(questionId);
+    return { ...question, questionId };
+  });
+}
+
+/**
+ * Question IDs that were published before but are missing from the new
+ * course detail. Answer history stored under these IDs won't carry over.
+ */
+export function diffQuestionIds(
+  previousDetail: any | null,
+  nextDetail: any,
+): Array<{ quizId: string; lessonId: string; removed: string[]; added: string[] }> {
+  if (!previousDetail?.quizzes) return [];
+
+  const nextQuizzes = new Map<string, any>(
+    (nextDetail.quizzes || []).map((quiz: any) => [quiz.quizId, quiz]),
+  );
+
+  return previousDetail.quizzes.flatMap((quiz: any) => {
+    const previousIds: string[] = (quiz.questions || []).map((q: any) => q.questionId);
+    const nextIds: string[] = (nextQuizzes.get(quiz.quizId)?.questions || []).map((q: any) => q.questionId);
+    const removed = previousIds.filter(id => !nextIds.includes(id));
+    if (removed.length === 0) return [];
+    return [{ quizId: quiz.quizId, lessonId: quiz.lessonId, removed, added: nextIds.filter(id => !previousIds.includes(id)) }];
+  });
+}
+
+/** Record a migration note for each quiz whose question IDs changed since the last publish */
+export function reportQuestionIdChanges(
+  previousDetail: any | null,
+  nextDetail: any,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+): void {
+  for (const change of diffQuestionIds(previousDetail, nextDetail)) {
+    const added = change.added.length ? ` (new: ${change.added.join(', ')})` : '';
+    diagnostics.warning(
+      'question-id-changed',
+      `${change.removed.length} published question ID(s) of ${change.quizId} changed — answer history keyed by them ` +
+      `won't carry over: ${change.removed.join(', ')}${added}. Add "ID: <old-id>" to a question to keep its previous ID.`,
+      { lessonId: change.lessonId },
+    );
+  }
+}
+
 // ─── Main Lesson Parsing Loop ────────────────────────────────────────────────
 //
 // Walks through all normalized paragraphs and builds lessons with blocks.
 //
 // Flow:
 //   1. "Lesson -" H1 heading → start new lesson, parse its metadata
-//   2. H2/H3 headings → heading blocks
-//   3. [CALLOUT] → callout block
+//   2. Tables / code blocks → table / code blocks; H2/H3 headings → heading blocks
+//   3. [CALLOUT] / [CALLOUT:variant] … [/CALLOUT] → callout block
 //   4. [FLASHCARD] → flashcard deck (single deck per lesson; extras merged)
 //   5. [QUIZ_*] → quiz questions (single quiz block per lesson; questions merged)
-//   6. YouTube URLs → video blocks
-//   7. Bullet items → list blocks (consecutive bullets grouped)
+//   5b. [CLOZE] → fill-in-the-blank block
+//   6. YouTube / Vimeo / .mp4 / .m3u8 URLs (+ optional Title:) → video blocks
+//   7. Bullet / numbered items → list blocks (consecutive items grouped, nesting kept)
 //   8. Images → image blocks (uploaded to Storage)
 //   9. Everything else → text blocks with rich formatting
 // ─────────────────────────────────────────────────────────────────────────────
 
+/**
+ * `blockParagraphs` maps block objects to the paragraph they came from, so
+ * merge findings can point at the extra deck/quiz in the source.
+ */
 export function enforceInteractiveBlockConstraints(
   lessonId: string,
   lessonTitle: string,
   blocks: any[],
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+  blockParagraphs: Map<any, number> = new Map(),
 ): any[] {
   const normalized: any[] = [];
   const normalizedQuizId = `quiz-${lessonId}`;
 
   let mergedFlashcardsDecks = 0;
   let mergedQuizBlocks = 0;
+  let firstMergedFlashcardsBlock: any | null = null;
+  let firstMergedQuizBlock: any | null = null;
   let firstFlashcardsBlock: any | null = null;
   let firstQuizBlock: any | null = null;
 
@@ -629,6 +1357,7 @@ export function enforceInteractiveBlockConstraints(
         normalized.push(firstFlashcardsBlock);
       } else {
         mergedFlashcardsDecks++;
+        if (!firstMergedFlashcardsBlock) firstMergedFlashcardsBlock = block;
         const extraCards = Array.isArray(block.cards) ? block.cards : [];
         firstFlashcardsBlock.cards.push(...extraCards);
       }
@@ -641,6 +1370,7 @@ export function enforceInteractiveBlockConstraints(
         normalized.push(firstQuizBlock);
       } else {
         mergedQuizBlocks++;
+        if (!firstMergedQuizBlock) firstMergedQuizBlock = block;
       }
       continue;
     }
@@ -649,30 +1379,553 @@ export function enforceInteractiveBlockConstraints(
   }
 
   if (mergedFlashcardsDecks > 0) {
-    console.warn(
-      `[parseGoogleDoc] Lesson "${lessonTitle}" (${lessonId}) contains multiple flashcards blocks; merged into one deck.`,
+    diagnostics.warning(
+      'merged-flashcards',
+      `Lesson "${lessonTitle}" contains ${mergedFlashcardsDecks + 1} flashcards blocks; merged into one deck.`,
+      { lessonId, paragraphIndex: blockParagraphs.get(firstMergedFlashcardsBlock) },
     );
   }
   if (mergedQuizBlocks > 0) {
-    console.warn(
-      `[parseGoogleDoc] Lesson "${lessonTitle}" (${lessonId}) contains multiple quiz blocks; merged into one quiz block.`,
+    diagnostics.warning(
+      'merged-quiz',
+      `Lesson "${lessonTitle}" contains ${mergedQuizBlocks + 1} quiz blocks; merged into one quiz block.`,
+      { lessonId, paragraphIndex: blockParagraphs.get(firstMergedQuizBlock) },
     );
   }
 
   return normalized;
 }
 
-async function parseLessons(
+/**
+ * Add one list paragraph to a list block. `levels` and `styles` run parallel
+ * to `items` and are only written once an item is nested or differs from the
+ * block's style, so flat lists keep the original `{ style, items }` shape.
+ */
+function appendListItem(list: any, para: NormalizedParagraph): void {
+  const level = para.nestingLevel || 0;
+  const style = para.listStyle || 'bullet';
+  const previousCount = list.items.length;
+
+  list.items.push(para.richText);
+  if (level > 0 && !list.levels) list.levels = new Array(previousCount).fill(0);
+  if (list.levels) list.levels.push(level);
+  if (style !== list.style && !list.styles) list.styles = new Array(previousCount).fill(list.style);
+  if (list.styles) list.styles.push(style);
+}
+
+/**
+ * Turn the `Prerequisites:` references of every lesson into lesson IDs. A
+ * reference can be a lesson ID, a lesson title (with or without the
+ * "Lesson - " prefix) or a lesson number ("3", "Lesson 3"). References that
+ * match no other lesson are dropped with an `unknown-prerequisite` finding.
+ */
+export function resolvePrerequisites(lessons: any[], courseId: string, diagnostics: ParseDiagnostics): void {
+  const findLesson = (ref: string): any => {
+    const title = ref.replace(/^Lesson\s*[-–]\s*/i, '').trim().toLowerCase();
+    const number = ref.match(/^(?:Lesson\s+)?(\d+)$/i);
+    return lessons.find(lesson =>
+      lesson.lessonId === ref ||
+      lesson.title.toLowerCase() === title ||
+      lesson.lessonId === `${courseId}-${slugify(title)}` ||
+      (number !== null && lesson.order === parseInt(number[1], 10)),
+    );
+  };
+
+  for (const lesson of lessons) {
+    if (!lesson.prerequisites) continue;
+
+    const resolved: string[] = [];
+    for (const ref of lesson.prerequisites as string[]) {
+      const target = findLesson(ref);
+      if (!target || target === lesson) {
+        diagnostics.warning(
+          'unknown-prerequisite',
+          target ? `Lesson "${lesson.title}" lists itself as a prerequisite` : `Prerequisite "${ref}" matches no lesson in this course`,
+          { lessonId: lesson.lessonId, excerpt: `Prerequisites: ${ref}` },
+        );
+        continue;
+      }
+      if (!resolved.includes(target.lessonId)) resolved.push(target.lessonId);
+    }
+
+    if (resolved.length > 0) lesson.prerequisites = resolved;
+    else delete lesson.prerequisites;
+  }
+}
+
+/**
+ * Turn `Previous IDs:` references into lesson IDs. A reference is either an
+ * old lesson ID (`my-course-old-title`) or the old title, which is slugified
+ * the same way lesson IDs are.
+ */
+function normalizeLessonAliases(refs: string[], courseId: string): string[] {
+  const aliases: string[] = [];
+  for (const ref of refs) {
+    const alias = /^[a-z0-9-]+$/.test(ref)
+      ? ref
+      : `${courseId}-${slugify(ref.replace(/^Lesson\s*[-–]\s*/i, ''))}`;
+    if (!aliases.includes(alias)) aliases.push(alias);
+  }
+  return aliases;
+}
+
+/** Edit distance between two strings (insertions, deletions, substitutions) */
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * A lesson's blocks as JSON that survives a rename: block and question IDs
+ * and image paths contain the lesson ID, so it is replaced by a placeholder,
+ * and images are compared by the hash of their bytes instead of their URLs.
+ */
+function comparableBlocks(lesson: any): string {
+  const blocks = (lesson.blocks || []).map((block: any) =>
+    block?.type === 'image' && block.hash ? { ...block, src: block.hash, version: undefined, variants: undefined } : block,
+  );
+  return JSON.stringify(blocks).split(String(lesson.lessonId)).join('<lessonId>');
+}
+
+/**
+ * A vanished lesson looks renamed to a lesson with a new ID when its content
+ * is unchanged (a retitle), or when it sits at the same position and its
+ * title is a small edit away (a typo fix).
+ */
+function looksRenamed(previousLesson: any, nextLesson: any): boolean {
+  if ((previousLesson.blocks || []).length > 0 && comparableBlocks(previousLesson) === comparableBlocks(nextLesson)) {
+    return true;
+  }
+  if (previousLesson.order !== nextLesson.order) return false;
+  const before = String(previousLesson.title || '').toLowerCase();
+  const after = String(nextLesson.title || '').toLowerCase();
+  const allowed = Math.max(3, Math.floor(Math.max(before.length, after.length) * 0.3));
+  return editDistance(before, after) <= allowed;
+}
+
+/**
+ * Keep learner progress attached to renamed lessons. Every lesson in
+ * `nextDetail` gets `aliases`: its `Previous IDs:`, the aliases it was
+ * already published with, and — for lessons that look renamed since the last
+ * publish — the old lesson ID. A rename is only inferred when the vanished
+ * lesson and the new one look like each other and nothing else; ambiguous
+ * cases need `Previous IDs:`. Published lesson IDs that end up nowhere are
+ * returned in `dropped`; progress stored under them won't carry over.
+ */
+export function carryLessonAliases(
+  previousDetail: any | null,
+  nextDetail: any,
+): { renamed: Array<{ from: string; to: string }>; dropped: string[] } {
+  const nextLessons: any[] = nextDetail.lessons || [];
+  const previousLessons: any[] = previousDetail?.lessons || [];
+  const previousById = new Map<string, any>(previousLessons.map(lesson => [lesson.lessonId, lesson]));
+  const currentIds = new Set<string>(nextLessons.map(lesson => lesson.lessonId));
+  const renamed: Array<{ from: string; to: string }> = [];
+  const dropped: string[] = [];
+
+  for (const lesson of nextLessons) {
+    const previous = previousById.get(lesson.lessonId);
+    lesson.aliases = [...(lesson.aliases || []), ...(previous?.aliases || [])];
+  }
+
+  const claimed = new Set<string>(nextLessons.reduce((ids: string[], lesson) => ids.concat(lesson.aliases), []));
+  const vanished = previousLessons.filter(lesson => !currentIds.has(lesson.lessonId) && !claimed.has(lesson.lessonId));
+  const added = nextLessons.filter(lesson => !previousById.has(lesson.lessonId));
+  for (const previous of vanished) {
+    const matches = added.filter(lesson => looksRenamed(previous, lesson));
+    const target = matches.length === 1 ? matches[0] : undefined;
+    if (!target || vanished.some(other => other !== previous && looksRenamed(other, target))) {
+      dropped.push(previous.lessonId);
+      continue;
+    }
+    target.aliases.push(previous.lessonId, ...(previous.aliases || []));
+    renamed.push({ from: previous.lessonId, to: target.lessonId });
+  }
+
+  for (const lesson of nextLessons) {
+    const aliases = (lesson.aliases as string[]).filter((alias, index, all) =>
+      !currentIds.has(alias) && all.indexOf(alias) === index,
+    );
+    if (aliases.length > 0) lesson.aliases = aliases;
+    else delete lesson.aliases;
+  }
+
+  return { renamed, dropped };
+}
+
+/** Print a note for lesson IDs that changed since the last publish */
+export function reportLessonIdChanges(changes: { renamed: Array<{ from: string; to: string }>; dropped: string[] }): void {
+  for (const { from, to } of changes.renamed) {
+    console.log(`  Lesson "${from}" was renamed to "${to}" — progress will move to the new ID`);
+  }
+  if (changes.dropped.length === 0) return;
+
+  console.warn(`⚠️  ${changes.dropped.length} published lesson ID(s) disappeared — learner progress keyed by them won't carry over:`);
+  console.warn(`   -${changes.dropped.join(', -')}`);
+  console.warn('   If a lesson was renamed, add "Previous IDs: <old-id>" under its heading.\n');
+}
+
+// ─── Glossary ────────────────────────────────────────────────────────────────
+//
+// A "[GLOSSARY]" marker, or a heading that reads "Glossary", followed by
+// "Term: definition" lines, bulleted or not:
+//
+//   ## Glossary
+//   - Myocardial infarction (MI, heart attack): Death of heart muscle ...
+//
+// It can sit anywhere in the doc. After a marker the glossary runs to
+// "[/GLOSSARY]" or the next H1; after a heading, to the next heading of the
+// same or a higher level. Names in parentheses after a term are aliases.
+// ─────────────────────────────────────────────────────────────────────────────
+
+const GLOSSARY_MARKER = '[GLOSSARY]';
+const GLOSSARY_END_MARKER = '[/GLOSSARY]';
+const GLOSSARY_HEADING = /^glossary$/i;
+const GLOSSARY_ENTRY = /^([^:(]+?)\s*(?:\(([^)]*)\))?\s*:\s*(.+)$/;
+
+function isGlossaryStart(para: NormalizedParagraph): boolean {
+  return para.plainText === GLOSSARY_MARKER || (para.headingLevel > 0 && GLOSSARY_HEADING.test(para.plainText));
+}
+
+/** Indexes of the paragraphs that make up glossaries, markers and headings included */
+export function findGlossaryParagraphs(paragraphs: NormalizedParagraph[]): Set<number> {
+  const indexes = new Set<number>();
+  let i = 0;
+  while (i < paragraphs.length) {
+    const start = paragraphs[i];
+    if (!isGlossaryStart(start)) { i++; continue; }
+
+    // A marker ends at an H1, a heading at one of its own level or higher
+    const endLevel = start.headingLevel || 1;
+    let end = i + 1;
+    while (end < paragraphs.length) {
+      const para = paragraphs[end];
+      if (para.plainText === GLOSSARY_END_MARKER) { end++; break; }
+      if (isGlossaryStart(para) || (para.headingLevel > 0 && para.headingLevel <= endLevel)) break;
+      end++;
+    }
+    for (let k = i; k < end; k++) indexes.add(k);
+    i = end;
+  }
+  return indexes;
+}
+
+/**
+ * Read the course glossary. Lines that aren't "Term: definition" and terms
+ * defined twice are recorded on `diagnostics` and skipped.
+ */
+export function parseGlossary(
+  paragraphs: NormalizedParagraph[],
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+): GlossaryEntry[] {
+  const entries: GlossaryEntry[] = [];
+  /** lowercased term or alias → term it belongs to */
+  const names = new Map<string, string>();
+
+  for (const index of findGlossaryParagraphs(paragraphs)) {
+    const para = paragraphs[index];
+    const text = para.plainText;
+    if (!text || para.headingLevel > 0 || text === GLOSSARY_MARKER || text === GLOSSARY_END_MARKER) continue;
+
+    const match = text.match(GLOSSARY_ENTRY);
+    const termId = match ? slugify(match[1]) : '';
+    if (!match || !termId) {
+      diagnostics.warning('invalid-glossary-entry', 'Glossary line is not "Term: definition"; skipped', {
+        paragraphIndex: index,
+        excerpt: text,
+      });
+      continue;
+    }
+
+    const term = match[1].trim();
+    const taken = names.get(term.toLowerCase()) ?? entries.find(entry => entry.termId === termId)?.term;
+    if (taken) {
+      diagnostics.warning('duplicate-glossary-term', `"${term}" is already defined (as "${taken}"); skipped`, {
+        paragraphIndex: index,
+        excerpt: text,
+      });
+      continue;
+    }
+
+    const aliases: string[] = [];
+    for (const alias of splitMetadataList(match[2] || '', /[,;]/)) {
+      const aliasTaken = names.get(alias.toLowerCase());
+      if (aliasTaken || alias.toLowerCase() === term.toLowerCase()) {
+        if (aliasTaken) {
+          diagnostics.warning('duplicate-glossary-term', `"${alias}" is already defined (as "${aliasTaken}"); alias dropped`, {
+            paragraphIndex: index,
+            excerpt: text,
+          });
+        }
+        continue;
+      }
+      aliases.push(alias);
+      names.set(alias.toLowerCase(), term);
+    }
+    names.set(term.toLowerCase(), term);
+
+    const entry: GlossaryEntry = { termId, term, definition: match[3].trim() };
+    if (aliases.length > 0) entry.aliases = aliases;
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/** All-caps names (`MI`, `HIPAA`) only match in capitals, so "mi" in other words stays plain */
+function isAbbreviation(name: string): boolean {
+  return /\p{Lu}/u.test(name) && !/\p{Ll}/u.test(name);
+}
+
+/**
+ * Mark the first occurrence of each glossary term (or alias) in every text
+ * block: the span is split and the term gets `glossaryTermId`. Links and
+ * inline code are left alone. Terms that occur in no lesson are reported as
+ * info on `diagnostics`.
+ */
+export function annotateGlossaryTerms(lessons: any[], glossary: GlossaryEntry[], diagnostics?: ParseDiagnostics): void {
+  if (glossary.length === 0) return;
+
+  const byName = new Map<string, { termId: string; exact?: string }>();
+  for (const entry of glossary) {
+    for (const name of [entry.term, ...(entry.aliases || [])]) {
+      byName.set(name.toLowerCase(), isAbbreviation(name) ? { termId: entry.termId, exact: name } : { termId: entry.termId });
+    }
+  }
+  // Longest first, so "heart attack" wins over "heart"
+  const alternatives = [...byName.keys()].sort((a, b) => b.length - a.length).map(escapeRegExp);
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(?:${alternatives.join('|')})(?![\\p{L}\\p{N}])`, 'giu');
+
+  const used = new Set<string>();
+  for (const lesson of lessons) {
+    for (const block of lesson.blocks || []) {
+      if (block.type !== 'text' || !Array.isArray(block.content)) continue;
+      const annotated = new Set<string>();
+      block.content = block.content.flatMap((span: TextSpan) => {
+        if (span.link || span.code || span.glossaryTermId) return [span];
+        const pieces: TextSpan[] = [];
+        let from = 0;
+        for (const match of span.text.matchAll(pattern)) {
+          const name = byName.get(match[0].toLowerCase());
+          if (!name || (name.exact && name.exact !== match[0]) || annotated.has(name.termId)) continue;
+          annotated.add(name.termId);
+          if (match.index! > from) pieces.push({ ...span, text: span.text.slice(from, match.index) });
+          pieces.push({ ...span, text: match[0], glossaryTermId: name.termId });
+          from = match.index! + match[0].length;
+        }
+        if (pieces.length === 0) return [span];
+        if (from < span.text.length) pieces.push({ ...span, text: span.text.slice(from) });
+        return pieces;
+      });
+      annotated.forEach(termId => used.add(termId));
+    }
+  }
+
+  for (const entry of glossary) {
+    if (used.has(entry.termId)) continue;
+    diagnostics?.info('unused-glossary-term', `Glossary term "${entry.term}" appears in no lesson text`, { excerpt: entry.term });
+  }
+}
+
+// ─── Translations ────────────────────────────────────────────────────────────
+//
+// A translation doc (see courseTranslations.ts) is published with the
+// canonical course's lesson IDs. Each translated lesson is matched to a
+// canonical lesson by `Translation Of: <title or lesson ID>` under its
+// heading, or else by position. A lesson without a match keeps the ID the
+// parser gave it, so its progress isn't shared with the original.
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Map the lesson IDs parseLessons() gives a translation's lessons to the
+ * canonical lesson IDs. Lessons without a match and canonical lessons that
+ * aren't translated are recorded on `diagnostics`.
+ */
+export function matchTranslatedLessons(
   paragraphs: NormalizedParagraph[],
-  doc: any,
   courseId: string,
+  canonicalDetail: any,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+): Map<string, string> {
+  const canonicalLessons: any[] = [...(canonicalDetail?.lessons || [])].sort((a, b) => a.order - b.order);
+  const translated: Array<{ lessonId: string; title: string; ref?: string; paragraphIndex: number }> = [];
+  paragraphs.forEach((para, index) => {
+    if (!isLessonHeading(para)) return;
+    const metadata: any = {};
+    parseLessonMetadata(metadata, paragraphs, index + 1);
+    const title = para.plainText.replace(/^Lesson\s*[-–]\s*/i, '').trim();
+    translated.push({ lessonId: `${courseId}-${slugify(title)}`, title, ref: metadata.translationOf, paragraphIndex: index });
+  });
+
+  const findCanonical = (ref: string): any => {
+    const title = ref.replace(/^Lesson\s*[-–]\s*/i, '').trim().toLowerCase();
+    const number = ref.match(/^(?:Lesson\s+)?(\d+)$/i);
+    return canonicalLessons.find(lesson =>
+      lesson.lessonId === ref ||
+      String(lesson.title).toLowerCase() === title ||
+      lesson.lessonId === `${courseId}-${slugify(title)}` ||
+      (number !== null && lesson.order === parseInt(number[1], 10)),
+    );
+  };
+
+  const matched = new Map<number, any>();
+  const claimed = new Set<string>();
+  const unmatched = (lesson: typeof translated[number], message: string) => {
+    diagnostics.warning('unmatched-translation-lesson', `${message}; it keeps the ID "${lesson.lessonId}" and its progress isn't shared`, {
+      lessonId: lesson.lessonId,
+      paragraphIndex: lesson.paragraphIndex,
+      excerpt: lesson.ref ? `Translation Of: ${lesson.ref}` : lesson.title,
+    });
+  };
+
+  // Explicit matches first, so they can't be taken by position
+  translated.forEach((lesson, index) => {
+    if (!lesson.ref) return;
+    const target = findCanonical(lesson.ref);
+    if (!target) return unmatched(lesson, `"Translation Of: ${lesson.ref}" matches no lesson of ${courseId}`);
+    if (claimed.has(target.lessonId)) return unmatched(lesson, `Lesson "${target.title}" of ${courseId} is already translated by another lesson`);
+    matched.set(index, target);
+    claimed.add(target.lessonId);
+  });
+  translated.forEach((lesson, index) => {
+    if (lesson.ref) return;
+    const target = canonicalLessons[index];
+    if (!target || claimed.has(target.lessonId)) {
+      return unmatched(lesson, `Lesson "${lesson.title}" has no counterpart at position ${index + 1} in ${courseId}. Add "Translation Of: <original title>" under its heading`);
+    }
+    matched.set(index, target);
+    claimed.add(target.lessonId);
+  });
+
+  for (const lesson of canonicalLessons) {
+    if (!claimed.has(lesson.lessonId)) {
+      diagnostics.info('untranslated-lesson', `Lesson "${lesson.title}" of ${courseId} has no translation`, { lessonId: lesson.lessonId });
+    }
+  }
+
+  const lessonIds = new Map<string, string>();
+  matched.forEach((target, index) => lessonIds.set(translated[index].lessonId, target.lessonId));
+  return lessonIds;
+}
+
+/**
+ * Give translated lessons (straight from parseLessons()) their canonical
+ * IDs, and with them the canonical lesson's aliases. Prerequisites follow
+ * the new IDs, and quiz questions without an `ID:` take the ID of the
+ * canonical question at the same position.
+ */
+export function applyTranslatedLessonIds(lessons: any[], lessonIds: Map<string, string>, canonicalDetail: any): void {
+  const canonicalLessons = new Map<string, any>((canonicalDetail?.lessons || []).map((lesson: any) => [lesson.lessonId, lesson]));
+  const canonicalQuizzes = new Map<string, any>((canonicalDetail?.quizzes || []).map((quiz: any) => [quiz.lessonId, quiz]));
+
+  for (const lesson of lessons) {
+    if (lesson.prerequisites) {
+      lesson.prerequisites = lesson.prerequisites.map((id: string) => lessonIds.get(id) ?? id);
+    }
+    const canonicalId = lessonIds.get(lesson.lessonId);
+    if (!canonicalId) continue;
+
+    lesson.lessonId = canonicalId;
+    const aliases = canonicalLessons.get(canonicalId)?.aliases;
+    if (aliases?.length) lesson.aliases = [...(lesson.aliases || []), ...aliases];
+
+    const canonicalQuestions: any[] = canonicalQuizzes.get(canonicalId)?.questions || [];
+    (lesson._quizQuestions || []).forEach((question: any, index: number) => {
+      if (!question.questionId && canonicalQuestions[index]) question.questionId = canonicalQuestions[index].questionId;
+    });
+  }
+}
+
+/** `Caption: <text>` below an image */
+const CAPTION_LINE = /^Caption:\s*(.*)$/i;
+
+/** An image block whose upload is still running */
+interface PendingImage {
+  block: any;
+  lesson: any;
+  imageNumber: number;
+  caption: string;
+  paragraphIndex: number;
+  /** Where its diagnostic goes if it fails, so findings stay in document order */
+  diagnosticPosition: number;
+  upload: Promise<UploadedImageInfo | null>;
+}
+
+/**
+ * Wait for the image uploads started by parseLessons and fill in their
+ * blocks. Images that fail are dropped from their lesson and reported at
+ * the position they had in the document.
+ */
+async function resolvePendingImages(pendingImages: PendingImage[], diagnostics: ParseDiagnostics): Promise<void> {
+  const settled = await Promise.all(pendingImages.map(pending => pending.upload.then(
+    uploaded => ({ uploaded, error: null as any }),
+    error => ({ uploaded: null, error }),
+  )));
+
+  let inserted = 0;
+  settled.forEach(({ uploaded, error }, index) => {
+    const { block, lesson, imageNumber, caption, paragraphIndex, diagnosticPosition } = pendingImages[index];
+    if (uploaded) {
+      Object.assign(block, {
+        src: uploaded.publicUrl,
+        version: uploaded.version,
+        hash: uploaded.sha256,
+        caption,
+        zoomable: true,
+      });
+      if (uploaded.aspectRatio) block.aspectRatio = uploaded.aspectRatio;
+      if (uploaded.variants?.length) block.variants = uploaded.variants;
+      return;
+    }
+
+    lesson.blocks = lesson.blocks.filter((b: any) => b !== block);
+    const message = error
+      ? `Failed to upload image ${imageNumber}: ${error?.message || error}`
+      : `Image ${imageNumber} could not be resolved`;
+    diagnostics.add(
+      { severity: 'error', code: 'image-failed', message, lessonId: lesson.lessonId, paragraphIndex },
+      diagnosticPosition + inserted++,
+    );
+  });
+
+  const uploadedCount = settled.filter(result => result.uploaded).length;
+  if (pendingImages.length > 0) console.log(`  Images: ${uploadedCount}/${pendingImages.length} resolved`);
+}
+
+export async function parseLessons(
+  paragraphs: NormalizedParagraph[],
+  courseId: string,
+  resolveImage: ImageResolver,
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
 ): Promise<any[]> {
   const lessons: any[] = [];
   let currentLesson: any = null;
   let blocks: any[] = [];
+  const blockParagraphs = new Map<any, number>();
   let blockId = 1;
   let imageCount = 0;
   let warnedSplitQuizSection = false;
+  let lastListId: string | undefined;
+  const pendingImages: PendingImage[] = [];
+  /** "Caption:" paragraphs already used by the image above them */
+  const captionParagraphs = new Set<number>();
+  /** Read by parseGlossary() */
+  const glossaryParagraphs = findGlossaryParagraphs(paragraphs);
 
   console.log(`  Scanning ${paragraphs.length} paragraphs for lessons...`);
 
@@ -690,6 +1943,8 @@ async function parseLessons(
           currentLesson.lessonId,
           currentLesson.title,
           blocks,
+          diagnostics,
+          blockParagraphs,
         );
         currentLesson.blocks = constrainedBlocks;
         lessons.push(currentLesson);
@@ -713,8 +1968,10 @@ async function parseLessons(
       imageCount = 0;
       warnedSplitQuizSection = false;
 
-      // Parse lesson metadata lines (Summary, Duration, Premium)
+      // Parse lesson metadata lines (Summary, Duration, Premium, Objectives, ...)
       const metaConsumed = parseLessonMetadata(currentLesson, paragraphs, i + 1);
+      if (currentLesson.aliases) currentLesson.aliases = normalizeLessonAliases(currentLesson.aliases, courseId);
+      delete currentLesson.translationOf; // read by matchTranslatedLessons()
       i += 1 + metaConsumed;
       console.log(`  Found lesson: "${title}" (${metaConsumed} metadata fields)`);
       continue;
@@ -722,32 +1979,46 @@ async function parseLessons(
 
     // Skip paragraphs before the first lesson
     if (!currentLesson) { i++; continue; }
+    if (captionParagraphs.has(i) || glossaryParagraphs.has(i)) { i++; continue; }
 
     // ────────────────────────────────────────────
     // IMAGE (inline in any paragraph)
     // ────────────────────────────────────────────
     if (para.hasImage && para.imageObjectId) {
-      const imageUrl = getImageUrl(doc, para.imageObjectId);
-      if (imageUrl) {
-        imageCount++;
-        const ext = imageUrl.includes('.png') ? 'png' : 'jpg';
-        const storagePath = `courses/${courseId}/lessons/${currentLesson.lessonId}/image-${imageCount}.${ext}`;
-        try {
-          const uploaded = await uploadImageToStorage(imageUrl, storagePath);
-          blocks.push({
-            id: `b${blockId++}`,
-            type: 'image',
-            src: uploaded.publicUrl,
-            version: uploaded.version,
-            hash: uploaded.sha256,
-            caption: '',
-            zoomable: true,
-          });
-          console.log(`      ✅ Uploaded image ${imageCount}`);
-        } catch (err) {
-          console.warn(`      ⚠️  Failed to upload image:`, err);
-        }
-      }
+      imageCount++;
+      const storageBasePath = `courses/${courseId}/lessons/${currentLesson.lessonId}/image-${imageCount}`;
+      // Placed now, filled in once the upload settles (see resolvePendingImages)
+      const block: any = { id: `b${blockId++}`, type: 'image' };
+      blocks.push(block);
+
+      // A "Caption:" paragraph right below the image wins over the Docs alt text
+      const next = paragraphs[i + 1];
+      const captionMatch = next && !next.hasImage ? next.plainText.match(CAPTION_LINE) : null;
+      if (captionMatch) captionParagraphs.add(i + 1);
+
+      pendingImages.push({
+        block,
+        lesson: currentLesson,
+        imageNumber: imageCount,
+        caption: captionMatch ? captionMatch[1].trim() : para.imageAltText || '',
+        paragraphIndex: i,
+        diagnosticPosition: diagnostics.items.length,
+        upload: resolveImage(para.imageObjectId, storageBasePath),
+      });
+    }
+
+    // ────────────────────────────────────────────
+    // TABLE / CODE (grouped by normalizeBodyContent)
+    // ────────────────────────────────────────────
+    if (para.table) {
+      blocks.push({ id: `b${blockId++}`, type: 'table', hasHeader: para.table.hasHeader, rows: para.table.rows });
+      i++; continue;
+    }
+    if (para.code) {
+      const codeBlock: any = { id: `b${blockId++}`, type: 'code', code: para.code.text };
+      if (para.code.language) codeBlock.language = para.code.language;
+      blocks.push(codeBlock);
+      i++; continue;
     }
 
     // ────────────────────────────────────────────
@@ -761,12 +2032,48 @@ async function parseLessons(
     // ────────────────────────────────────────────
     // CALLOUT
     // ────────────────────────────────────────────
-    if (isCalloutMarker(para.plainText)) {
-      const result = parseCallout(paragraphs, i);
+    const calloutVariant = getCalloutMarkerVariant(para.plainText);
+    if (calloutVariant) {
+      let variant = calloutVariant as CalloutVariant;
+      if (!CALLOUT_VARIANTS.includes(variant)) {
+        diagnostics.warning(
+          'unknown-callout-variant',
+          `Unknown callout variant "${calloutVariant}"; using "tip" (expected ${CALLOUT_VARIANTS.join(' | ')})`,
+          { lessonId: currentLesson.lessonId, paragraphIndex: i, excerpt: para.plainText },
+        );
+        variant = 'tip';
+      }
+      const result = parseCallout(variant, paragraphs, i);
       if (result.block) blocks.push({ id: `b${blockId++}`, ...result.block });
       i += result.consumed; continue;
     }
 
+    if (isCalloutEndMarker(para.plainText)) {
+      diagnostics.warning('unmatched-callout-end', '[/CALLOUT] without an open callout; ignored', {
+        lessonId: currentLesson.lessonId,
+        paragraphIndex: i,
+      });
+      i++; continue;
+    }
+
+    // ────────────────────────────────────────────
+    // CLOZE (fill-in-the-blank)
+    // ────────────────────────────────────────────
+    const clozeMode = getClozeMarkerMode(para.plainText);
+    if (clozeMode) {
+      const result = parseCloze(clozeMode, paragraphs, i);
+      if (result.block) {
+        blocks.push({ id: `b${blockId++}`, ...result.block });
+      } else {
+        diagnostics.warning('empty-cloze', 'Cloze has no {{answer}} gaps on the lines after the marker; skipped', {
+          lessonId: currentLesson.lessonId,
+          paragraphIndex: i,
+          excerpt: paragraphs[i + 1]?.plainText || para.plainText,
+        });
+      }
+      i += result.consumed; continue;
+    }
+
     // ────────────────────────────────────────────
     // FLASHCARD (consecutive cards grouped into one deck)
     // ────────────────────────────────────────────
@@ -777,8 +2084,16 @@ async function parseLessons(
         if (lastBlock?.type === 'flashcards') {
           lastBlock.cards.push(result.block);
         } else {
-          blocks.push({ id: `b${blockId++}`, type: 'flashcards', cards: [result.block] });
+          const deck = { id: `b${blockId++}`, type: 'flashcards', cards: [result.block] };
+          blocks.push(deck);
+          blockParagraphs.set(deck, i);
         }
+      } else {
+        diagnostics.warning('incomplete-flashcard', 'Flashcard needs both "Front:" and "Back:"; skipped', {
+          lessonId: currentLesson.lessonId,
+          paragraphIndex: i,
+          excerpt: paragraphs[i + 1]?.plainText || para.plainText,
+        });
       }
       i += result.consumed; continue;
     }
@@ -792,16 +2107,28 @@ async function parseLessons(
       if (result.question) {
         const lastBlock = blocks[blocks.length - 1];
         if (!warnedSplitQuizSection && blocks.some((b: any) => b.type === 'quiz') && lastBlock?.type !== 'quiz') {
-          console.warn(
-            `[parseGoogleDoc] Lesson "${currentLesson.title}" (${currentLesson.lessonId}) has quiz questions in multiple sections; merged into one quiz.`,
+          diagnostics.warning(
+            'split-quiz-section',
+            `Lesson "${currentLesson.title}" has quiz questions in multiple sections; merged into one quiz.`,
+            { lessonId: currentLesson.lessonId, paragraphIndex: i },
           );
           warnedSplitQuizSection = true;
         }
 
+        if (!hasCorrectAnswer(result.question)) {
+          diagnostics.error('quiz-missing-answer', missingAnswerMessage(quizType), {
+            lessonId: currentLesson.lessonId,
+            paragraphIndex: i,
+            excerpt: result.question.prompt || para.plainText,
+          });
+        }
+
         // Add quiz block reference (once per lesson)
         const quizId = `quiz-${currentLesson.lessonId}`;
         if (!blocks.find((b: any) => b.type === 'quiz' && b.quizId === quizId)) {
-          blocks.push({ id: `b${blockId++}`, type: 'quiz', quizId });
+          const quizBlock = { id: `b${blockId++}`, type: 'quiz', quizId };
+          blocks.push(quizBlock);
+          blockParagraphs.set(quizBlock, i);
         }
         // Store question on lesson for later assembly
         if (!currentLesson._quizQuestions) currentLesson._quizQuestions = [];
@@ -811,14 +2138,13 @@ async function parseLessons(
     }
 
     // ────────────────────────────────────────────
-    // YOUTUBE VIDEO
+    // VIDEO (YouTube, Vimeo or a direct file link)
     // ────────────────────────────────────────────
-    if (isYouTubeUrl(para.plainText)) {
-      const videoId = extractYouTubeId(para.plainText);
-      if (videoId) {
-        blocks.push({ id: `b${blockId++}`, type: 'video', provider: 'youtube', videoId, title: '' });
-      }
-      i++; continue;
+    const videoProvider = getVideoProvider(para.plainText);
+    if (videoProvider) {
+      const result = parseVideo(videoProvider, paragraphs, i);
+      if (result.block) blocks.push({ id: `b${blockId++}`, ...result.block });
+      i += result.consumed; continue;
     }
 
     // ────────────────────────────────────────────
@@ -826,11 +2152,18 @@ async function parseLessons(
     // ────────────────────────────────────────────
     if (para.isBullet && para.plainText.length > 0) {
       const lastBlock = blocks[blocks.length - 1];
-      if (lastBlock?.type === 'list') {
-        lastBlock.items.push(para.richText);
+      const style = para.listStyle || 'bullet';
+      // A different Docs list, or a top-level item of the other style, starts a new list
+      const continuesList = lastBlock?.type === 'list' && para.listId === lastListId &&
+        ((para.nestingLevel || 0) > 0 || lastBlock.style === style);
+      if (continuesList) {
+        appendListItem(lastBlock, para);
       } else {
-        blocks.push({ id: `b${blockId++}`, type: 'list', style: 'bullet', items: [para.richText] });
+        const list = { id: `b${blockId++}`, type: 'list', style, items: [] };
+        appendListItem(list, para);
+        blocks.push(list);
       }
+      lastListId = para.listId;
       i++; continue;
     }
 
@@ -852,15 +2185,151 @@ async function parseLessons(
       currentLesson.lessonId,
       currentLesson.title,
       blocks,
+      diagnostics,
+      blockParagraphs,
     );
     currentLesson.blocks = constrainedBlocks;
     lessons.push(currentLesson);
     console.log(`    Saved "${currentLesson.title}" — ${constrainedBlocks.length} blocks`);
   }
 
+  await resolvePendingImages(pendingImages, diagnostics);
+  resolvePrerequisites(lessons, courseId, diagnostics);
   return lessons;
 }
 
+// ─── Content Hashing ─────────────────────────────────────────────────────────
+//
+// Hashes of the normalized paragraphs, kept in doc-mapping.json between runs.
+// Only what the parser reads is hashed, so comments, suggestions and
+// style-only edits don't count as changes (Drive's modifiedTime does).
+// ─────────────────────────────────────────────────────────────────────────────
+
+/**
+ * Bump whenever the parser's output changes for the same document (new block
+ * fields, different IDs, image variants…). It is part of every hash, so the
+ * next run re-parses and re-publishes all docs instead of keeping output from
+ * the old parser.
+ */
+export const PARSER_VERSION = 3;
+
+export interface ContentHashes {
+  /** PARSER_VERSION the hashes were computed with */
+  parserVersion: number;
+  /** The whole document */
+  contentHash: string;
+  /** Course metadata above the first lesson, thumbnail included */
+  metadataHash: string;
+  /** lessonId → hash of the lesson heading and everything up to the next lesson */
+  lessonHashes: Record<string, string>;
+}
+
+function sha256(value: string): string {
+  return crypto.createHash('sha256').update(value).digest('hex');
+}
+
+/** Hash of one section, tied to the parser version */
+function sectionHash(items: any[]): string {
+  return sha256(JSON.stringify([PARSER_VERSION, items]));
+}
+
+/**
+ * What identifies an inline image: its embedded object without the content
+ * URI, which is a short-lived download link that differs on every fetch.
+ * Replacing an image in Docs gives it a new inline object ID.
+ */
+function describeInlineImage(inlineObject: any): any {
+  const embedded = inlineObject?.inlineObjectProperties?.embeddedObject;
+  if (!embedded) return null;
+  const { contentUri, ...imageProperties } = embedded.imageProperties || {};
+  return { ...embedded, imageProperties };
+}
+
+/**
+ * Hash a normalized document per section. `inlineObjects` is the Docs
+ * `inlineObjects` map, so a swapped image changes the hash of its section.
+ */
+export function computeContentHashes(
+  paragraphs: NormalizedParagraph[],
+  courseId: string,
+  inlineObjects?: any,
+): ContentHashes {
+  const metadata: any[] = [];
+  const lessons: Array<{ lessonId: string; items: any[] }> = [];
+
+  for (const para of paragraphs) {
+    if (isLessonHeading(para)) {
+      const title = para.plainText.replace(/^Lesson\s*[-–]\s*/i, '').trim();
+      lessons.push({ lessonId: `${courseId}-${slugify(title)}`, items: [] });
+    }
+    const item = para.imageObjectId
+      ? { ...para, image: describeInlineImage(inlineObjects?.[para.imageObjectId]) }
+      : para;
+    (lessons.length > 0 ? lessons[lessons.length - 1].items : metadata).push(item);
+  }
+
+  const metadataHash = sectionHash(metadata);
+  const lessonHashes: Record<string, string> = {};
+  for (const lesson of lessons) {
+    // Two lessons with the same title share an ID; hash them together
+    const previous = lessonHashes[lesson.lessonId];
+    lessonHashes[lesson.lessonId] = sectionHash(previous ? [previous, ...lesson.items] : lesson.items);
+  }
+  const contentHash = sha256(JSON.stringify([metadataHash, lessons.map(l => [l.lessonId, lessonHashes[l.lessonId]])]));
+
+  return { parserVersion: PARSER_VERSION, contentHash, metadataHash, lessonHashes };
+}
+
+/**
+ * Images of the sections whose hash hasn't changed since the last publish,
+ * keyed by public URL: the thumbnail when the metadata is unchanged, and the
+ * image blocks of unchanged lessons.
+ */
+export function collectReusableImages(
+  previousHashes: Partial<ContentHashes> | undefined,
+  hashes: ContentHashes,
+  previousSummary: any | null,
+  previousDetail: any | null,
+): Map<string, UploadedImageInfo> {
+  const reusable = new Map<string, UploadedImageInfo>();
+  if (!previousHashes) return reusable;
+
+  const add = (publicUrl: any, sha: any, version: any, block?: any) => {
+    if (!publicUrl || !sha || !version) return;
+    const image: UploadedImageInfo = { publicUrl, sha256: sha, version };
+    if (block?.aspectRatio) image.aspectRatio = block.aspectRatio;
+    if (block?.variants) image.variants = block.variants;
+    reusable.set(publicUrl, image);
+  };
+
+  if (previousSummary && previousHashes.metadataHash === hashes.metadataHash) {
+    add(previousSummary.thumbnailUrl, previousSummary.thumbnailHash, previousSummary.thumbnailVersion);
+  }
+  for (const lesson of previousDetail?.lessons || []) {
+    const hash = hashes.lessonHashes[lesson.lessonId];
+    if (!hash || previousHashes.lessonHashes?.[lesson.lessonId] !== hash) continue;
+    for (const block of lesson.blocks || []) {
+      if (block.type === 'image') add(block.src, block.hash, block.version, block);
+    }
+  }
+  return reusable;
+}
+
+/**
+ * Whether a re-parse produced the same course JSON as the last publish.
+ * `lastUpdated` is ignored; it's what this decides.
+ */
+export function isSameCourseOutput(
+  previousSummary: any | null,
+  previousDetail: any | null,
+  summary: any,
+  detail: any,
+): boolean {
+  if (!previousSummary || !previousDetail) return false;
+  return JSON.stringify({ ...previousSummary, lastUpdated: undefined }) === JSON.stringify({ ...summary, lastUpdated: undefined })
+    && JSON.stringify(previousDetail) === JSON.stringify(detail);
+}
+
 // ─── JSON Assembly ───────────────────────────────────────────────────────────
 
 export function buildCourseSummary(metadata: Record<string, any>, lessons: any[]): any {
@@ -893,7 +2362,12 @@ export function buildCourseSummary(metadata: Record<string, any>, lessons: any[]
   };
 }
 
-export function buildCourseDetail(metadata: Record<string, any>, lessons: any[]): any {
+export function buildCourseDetail(
+  metadata: Record<string, any>,
+  lessons: any[],
+  diagnostics: ParseDiagnostics = new ParseDiagnostics(),
+  glossary: GlossaryEntry[] = [],
+): any {
   // Extract quiz questions stored on lessons into top-level quizzes array
   const quizzes = lessons
     .filter((l: any) => l._quizQuestions?.length > 0)
@@ -901,7 +2375,7 @@ export function buildCourseDetail(metadata: Record<string, any>, lessons: any[])
       quizId: `quiz-${l.lessonId}`,
       lessonId: l.lessonId,
       title: `${l.title} Checkpoint`,
-      questions: l._quizQuestions,
+      questions: assignQuestionIds(l.lessonId, l._quizQuestions, diagnostics),
     }));
 
   // Remove temp _quizQuestions from lesson objects
@@ -910,72 +2384,178 @@ export function buildCourseDetail(metadata: Record<string, any>, lessons: any[])
     return clean;
   });
 
-  return { courseId: metadata.courseId, lessons: cleanLessons, quizzes };
+  const detail: any = { courseId: metadata.courseId, lessons: cleanLessons, quizzes };
+  if (glossary.length > 0) detail.glossary = glossary;
+  return detail;
 }
 
 // ─── Main Entry Point ────────────────────────────────────────────────────────
 
-async function parseGoogleDoc(docId: string) {
+export interface ParseGoogleDocOptions {
+  /** Don't publish the course JSON when the parse reported errors */
+  strict?: boolean;
+  /** Collector for findings; pass one in to read them even if the parse throws */
+  diagnostics?: ParseDiagnostics;
+  /**
+   * Hashes from the last run (doc-mapping.json). An unchanged document is
+   * not re-published, and images of unchanged sections are not re-uploaded.
+   */
+  previousHashes?: Partial<ContentHashes>;
+  /** Releases to keep per course (see courseReleases.ts) */
+  releaseRetention?: number;
+}
+
+export interface ParseGoogleDocResult {
+  summary: any;
+  detail: any;
+  report: ParseReport;
+  hashes: ContentHashes;
+  /** False when the published course JSON was left as it was */
+  changed: boolean;
+  /** Set when the doc is a translation of `summary.courseId` */
+  language?: string;
+}
+
+async function parseGoogleDoc(
+  docId: string,
+  store: ContentStore = new BucketContentStore(),
+  options: ParseGoogleDocOptions = {},
+): Promise<ParseGoogleDocResult> {
+  const diagnostics = options.diagnostics ?? new ParseDiagnostics();
+
   console.log(`\n📄 Parsing Google Doc: ${docId}\n`);
 
   try {
-    ensureFirebaseAdminInitialized();
     const docs = await initializeDocsClient();
 
     // 1. Fetch the document
     console.log('Fetching document...');
-    const response = await docs.documents.get({ documentId: docId });
+    const response = await withRetry(() => docs.documents.get({ documentId: docId }), { label: `Docs API ${docId}` });
     const doc = response.data;
     const rawContent = doc.body?.content || [];
     console.log(`✅ Document fetched (${rawContent.length} elements)\n`);
 
     // 2. Normalize all paragraphs (handles GDocs formatting + markdown)
     console.log('🔄 Normalizing paragraphs (GDocs styles + markdown)...');
-    const paragraphs: NormalizedParagraph[] = [];
-    for (const element of rawContent) {
-      const normalized = normalizeParagraph(element);
-      if (normalized) paragraphs.push(normalized);
-    }
+    const paragraphs = normalizeBodyContent(rawContent, doc.lists, doc.inlineObjects);
     console.log(`✅ Normalized ${paragraphs.length} paragraphs\n`);
 
-    // 3. Parse course metadata from top of document
+    // 3. Parse course metadata from top of document (no images yet)
     console.log('📋 Parsing course metadata...');
-    const metadata = await parseCourseMetadata(paragraphs, doc, '');
+    const metadata = await parseCourseMetadata(paragraphs, '', async () => null);
 
-    if (!metadata.courseId) {
+    // A translation is published under the course it translates
+    const translationOf = metadata.translationOf ? normalizeCourseId(metadata.translationOf) : undefined;
+    if (!metadata.courseId && !translationOf) {
       throw new Error('Course ID not found. Make sure "Course ID:" is in the Course Summary section.');
     }
-    // Normalize courseId: strip "course-" prefix if present so storage paths
-    // match the index (e.g. "course-farming-101" → "farming-101")
-    const courseId = metadata.courseId.replace(/^course-/, '');
+    const courseId = translationOf ?? normalizeCourseId(metadata.courseId);
+    const language = translationOf ? normalizeLanguage(metadata.language) ?? undefined : undefined;
+    if (translationOf && !language) {
+      throw new Error(`A translation needs a "Language:" code such as "es" (got "${metadata.language ?? ''}")`);
+    }
+    const id = contentId({ courseId, language });
     metadata.courseId = courseId;
-    console.log(`✅ Course ID: ${courseId}\n`);
+    console.log(`✅ Course ID: ${courseId}${language ? ` (translation: ${language})` : ''}\n`);
+
+    // 4. Compare content hashes with the last run
+    const hashes = computeContentHashes(paragraphs, courseId, doc.inlineObjects);
+    const { summary: previousSummary, detail: previousDetail } = await readPublishedCourse(store, id);
+
+    if (options.previousHashes?.contentHash === hashes.contentHash && previousSummary && previousDetail) {
+      console.log(`⏭️  Content unchanged (${hashes.contentHash.slice(0, 12)}), nothing to publish\n`);
+      const report = await store.readJson<ParseReport>(`courses/${id}/parse-report.json`)
+        ?? diagnostics.toReport(id, docId);
+      return { summary: previousSummary, detail: previousDetail, report, hashes, changed: false, language };
+    }
+
+    let canonicalDetail: any = null;
+    let translatedLessonIds = new Map<string, string>();
+    if (language) {
+      const canonical = await readPublishedCourse(store, courseId);
+      if (!canonical.summary || !canonical.detail) {
+        throw new Error(`"Translation Of: ${courseId}" — that course isn't published yet; publish it first`);
+      }
+      if (normalizeLanguage(canonical.summary.language) === language) {
+        throw new Error(`${courseId} is already in "${language}"; a translation needs another "Language:"`);
+      }
+      canonicalDetail = canonical.detail;
+      translatedLessonIds = matchTranslatedLessons(paragraphs, courseId, canonicalDetail, diagnostics);
+      metadata.language = language;
+      // Published lessons carry the canonical IDs, so hash them under those
+      hashes.lessonHashes = Object.fromEntries(
+        Object.entries(hashes.lessonHashes).map(([lessonId, hash]) => [translatedLessonIds.get(lessonId) ?? lessonId, hash]),
+      );
+    }
+
+    const docImageResolver = createDocImageResolver(
+      doc,
+      store,
+      collectReusableImages(options.previousHashes, hashes, previousSummary, previousDetail),
+    );
+    // Translation images go in the translation's folder, not over the original's
+    const resolveImage: ImageResolver = language
+      ? (imageRef, storageBasePath, resolveOptions) =>
+        docImageResolver(imageRef, storageBasePath.replace(`courses/${courseId}/`, `courses/${id}/`), resolveOptions)
+      : docImageResolver;
 
     // Re-parse with courseId (needed for thumbnail upload path)
-    const metadataWithId = await parseCourseMetadata(paragraphs, doc, courseId);
+    const metadataWithId = await parseCourseMetadata(paragraphs, courseId, resolveImage, diagnostics);
     Object.assign(metadata, metadataWithId);
     // Re-apply courseId normalization (re-parse overwrites it with raw value)
     metadata.courseId = courseId;
 
-    // 4. Parse lessons and content blocks
+    // 5. Parse lessons and content blocks
     console.log('📚 Parsing lessons...');
-    const lessons = await parseLessons(paragraphs, doc, courseId);
+    const lessons = await parseLessons(paragraphs, courseId, resolveImage, diagnostics);
+    if (canonicalDetail) applyTranslatedLessonIds(lessons, translatedLessonIds, canonicalDetail);
     console.log(`✅ Found ${lessons.length} lesson(s)\n`);
 
-    // 5. Build JSON output
+    const glossary = parseGlossary(paragraphs, diagnostics);
+    annotateGlossaryTerms(lessons, glossary, diagnostics);
+    if (glossary.length > 0) console.log(`📖 Glossary: ${glossary.length} term(s)\n`);
+
+    // 6. Build JSON output
     const summary = buildCourseSummary(metadata, lessons);
-    const detail = buildCourseDetail(metadata, lessons);
+    const detail = buildCourseDetail(metadata, lessons, diagnostics, glossary);
+    // Without a "Release Date:" the first publish date sticks
+    if (!metadata.releaseDate && previousSummary?.releaseDate) summary.releaseDate = previousSummary.releaseDate;
+
+    reportLessonIdChanges(carryLessonAliases(previousDetail, detail));
+    reportQuestionIdChanges(previousDetail, detail, diagnostics);
 
-    // 6. Upload to Firebase Storage
-    console.log('📤 Uploading to Firebase Storage...\n');
+    const changed = !isSameCourseOutput(previousSummary, previousDetail, summary, detail);
+    if (!changed) summary.lastUpdated = previousSummary.lastUpdated;
 
-    const summaryUrl = await uploadJsonToStorage(summary, `courses/${courseId}/course-summary.json`);
-    console.log(`   ✅ Summary: ${summaryUrl}`);
+    // 7. Upload to the content store
+    console.log(`📤 Uploading to ${store.description}...\n`);
 
-    const detailUrl = await uploadJsonToStorage(detail, `courses/${courseId}/course-detail.json`);
-    console.log(`   ✅ Detail: ${detailUrl}\n`);
+    const report = diagnostics.toReport(id, docId);
+    const reportUrl = await writeJson(store, `courses/${id}/parse-report.json`, report, {
+      cacheControl: 'private, max-age=0',
+    });
+    const { error: errorCount, warning: warningCount } = report.counts;
+    console.log(`   📋 Parse report: ${reportUrl} (${errorCount} error(s), ${warningCount} warning(s))`);
+
+    if (options.strict && diagnostics.hasErrors) {
+      throw new Error(`${errorCount} parse error(s) in ${id}; not published (strict mode)`);
+    }
+
+    if (!changed) {
+      console.log(`   ⏭️  Course JSON unchanged, keeping lastUpdated ${summary.lastUpdated}\n`);
+      return { summary, detail, report, hashes, changed, language };
+    }
+
+    const release = await publishCourseRelease(store, id, { summary, detail }, {
+      retention: options.releaseRetention,
+    });
+    console.log(`   ✅ Summary: ${release.summaryUrl}`);
+    console.log(`   ✅ Detail: ${release.detailUrl}`);
+    console.log(`   🏷️  Release: ${release.releaseId}`);
+    if (release.pruned.length > 0) console.log(`   🧹 Pruned releases: ${release.pruned.join(', ')}`);
+    console.log();
 
-    return { summary, detail };
+    return { summary, detail, report, hashes, changed, language };
   } catch (error: any) {
     console.error('\n❌ Error during parsing:', error.message);
     throw error;
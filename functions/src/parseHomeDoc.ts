@@ -5,25 +5,29 @@
  * - First H1: Title
  * - Paragraphs: Text content (concatenated)
  * - First image: Background image
+ * - Optional sections, in display order, each starting with a marker line:
+ *   [HERO], [FEATURED], [ANNOUNCEMENT] or [CTA] (see parseHomeContent)
+ *
+ * The title, text and background stay at the top level of home.json for app
+ * builds that don't read `sections`.
  */
 
 import { google } from 'googleapis';
 import * as https from 'https';
 import * as crypto from 'crypto';
-import * as admin from 'firebase-admin';
-import { ensureFirebaseAdminInitialized, getGoogleServiceAccount } from './runtimeConfig';
+import { getGoogleServiceAccount } from './runtimeConfig';
+import { BucketContentStore, ContentStore, writeJson } from './contentStore';
+import { withRetry } from './concurrency';
+import { normalizeCourseId } from './parseGoogleDoc';
 
 interface UploadedImageInfo {
   publicUrl: string;
   sha256: string;
 }
 
-// Upload image to Firebase Storage
-async function uploadImageToStorage(url: string, storagePath: string): Promise<UploadedImageInfo> {
+// Upload image to the content store
+async function uploadImageToStorage(url: string, storagePath: string, store: ContentStore): Promise<UploadedImageInfo> {
   return new Promise((resolve, reject) => {
-    const bucket = admin.storage().bucket();
-    const file = bucket.file(storagePath);
-    
     https.get(url, (response) => {
       const chunks: Buffer[] = [];
       
@@ -35,15 +39,12 @@ async function uploadImageToStorage(url: string, storagePath: string): Promise<U
           const contentType = response.headers['content-type'] || 'image/jpeg';
           const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
           
-          await file.save(buffer, {
-            metadata: {
-              contentType: contentType,
-              cacheControl: 'public, max-age=31536000, immutable',
-            },
+          const publicUrl = await store.writeFile(storagePath, buffer, {
+            contentType: contentType,
+            cacheControl: 'public, max-age=31536000, immutable',
             public: true,
           });
           
-          const publicUrl = `https://storage.googleapis.com/${bucket.name}/${storagePath}`;
           resolve({ publicUrl, sha256 });
         } catch (err) {
           reject(err);
@@ -55,18 +56,8 @@ async function uploadImageToStorage(url: string, storagePath: string): Promise<U
   });
 }
 
-async function readExistingHomeConfig(): Promise<Record<string, any> | null> {
-  try {
-    const bucket = admin.storage().bucket();
-    const file = bucket.file('home/home.json');
-    const [exists] = await file.exists();
-    if (!exists) return null;
-
-    const [content] = await file.download();
-    return JSON.parse(content.toString());
-  } catch {
-    return null;
-  }
+async function readExistingHomeConfig(store: ContentStore): Promise<Record<string, any> | null> {
+  return store.readJson<Record<string, any>>('home/home.json');
 }
 
 // Initialize Google Docs API
@@ -101,6 +92,180 @@ const METADATA_KEYS: Record<string, string> = {
   'bulk pricing message': 'bulkPricingMessage',
 };
 
+// ─── Sections ────────────────────────────────────────────────────────────────
+
+/** `Button: <label> -> <target>`: the Courses or Progress tab, a course, or a web page */
+export interface HomeButton {
+  label: string;
+  action: 'courses' | 'progress' | 'course' | 'url';
+  /** courseId for `course`, the address for `url` */
+  target?: string;
+}
+
+export interface HomeHeroSection {
+  type: 'hero';
+  id: string;
+  title?: string;
+  text?: string;
+  /** The home background when omitted */
+  image?: string;
+  imageHash?: string;
+  buttons?: HomeButton[];
+}
+
+export interface HomeFeaturedCoursesSection {
+  type: 'featured-courses';
+  id: string;
+  title?: string;
+  courseIds: string[];
+}
+
+export interface HomeAnnouncementSection {
+  type: 'announcement';
+  id: string;
+  title?: string;
+  text?: string;
+  /** `YYYY-MM-DD`; shown from this day */
+  date?: string;
+  /** `YYYY-MM-DD`; hidden after this day */
+  expiresAt?: string;
+  buttons?: HomeButton[];
+}
+
+export interface HomeCallToActionSection {
+  type: 'call-to-action';
+  id: string;
+  title?: string;
+  text?: string;
+  buttons: HomeButton[];
+}
+
+/** Mirrors `HomeSection` in src/api/home/HomeAPI.ts */
+export type HomeSection =
+  | HomeHeroSection
+  | HomeFeaturedCoursesSection
+  | HomeAnnouncementSection
+  | HomeCallToActionSection;
+
+const SECTION_MARKER = /^\[([A-Z_]+)\]$/;
+
+const SECTION_TYPES: Record<string, HomeSection['type']> = {
+  HERO: 'hero',
+  FEATURED: 'featured-courses',
+  FEATURED_COURSES: 'featured-courses',
+  ANNOUNCEMENT: 'announcement',
+  CTA: 'call-to-action',
+  CALL_TO_ACTION: 'call-to-action',
+};
+
+// `Key: value` lines read inside a section; other lines are its text
+const SECTION_KEYS = new Set(['title', 'text', 'courses', 'date', 'expires', 'button']);
+
+const DATE_VALUE = /^\d{4}-\d{2}-\d{2}$/;
+
+/** `Browse courses -> courses`, `Start -> course:soil`, `Read more -> https://…` */
+export function parseHomeButton(value: string): HomeButton | null {
+  const arrow = value.lastIndexOf('->');
+  if (arrow <= 0) return null;
+  const label = value.substring(0, arrow).trim();
+  const target = value.substring(arrow + 2).trim();
+  if (!label || !target) return null;
+
+  const lower = target.toLowerCase();
+  if (lower === 'courses' || lower === 'progress') return { label, action: lower };
+  if (lower.startsWith('course:')) {
+    const courseId = normalizeCourseId(target.substring('course:'.length).trim());
+    return courseId ? { label, action: 'course', target: courseId } : null;
+  }
+  if (/^https?:\/\//i.test(target)) return { label, action: 'url', target };
+  if (/^www\./i.test(target)) return { label, action: 'url', target: `https://${target}` };
+  return null;
+}
+
+function isValidDate(value: string): boolean {
+  return DATE_VALUE.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+/** A section while its lines are read; `finishSection` turns it into a HomeSection */
+interface SectionDraft {
+  type: HomeSection['type'];
+  id: string;
+  marker: string;
+  fields: Record<string, string>;
+  textLines: string[];
+  courseIds: string[];
+  buttons: HomeButton[];
+  imageObjectId?: string;
+}
+
+function addSectionLine(draft: SectionDraft, line: string, warnings: string[]): void {
+  const colonIndex = line.indexOf(':');
+  const key = colonIndex > 0 ? line.substring(0, colonIndex).trim().toLowerCase() : '';
+  const value = colonIndex > 0 ? line.substring(colonIndex + 1).trim() : '';
+  if (!SECTION_KEYS.has(key) || !value) {
+    draft.textLines.push(line);
+    return;
+  }
+
+  if (key === 'button') {
+    const button = parseHomeButton(value);
+    if (button) draft.buttons.push(button);
+    else warnings.push(`${draft.marker}: "Button: ${value}" needs "<label> -> courses | progress | course:<id> | <url>"; ignored`);
+  } else if (key === 'courses') {
+    draft.courseIds.push(...value.split(/[,;]/).map(id => normalizeCourseId(id.trim())).filter(Boolean));
+  } else if (key === 'date' || key === 'expires') {
+    if (isValidDate(value)) draft.fields[key] = value;
+    else warnings.push(`${draft.marker}: "${line}" is not a YYYY-MM-DD date; ignored`);
+  } else if (key === 'text') {
+    draft.textLines.push(value);
+  } else {
+    draft.fields[key] = value;
+  }
+}
+
+/** The published section, or null (with a warning) when it has nothing to show */
+function finishSection(draft: SectionDraft, warnings: string[]): HomeSection | null {
+  const { id, fields, buttons } = draft;
+  const title = fields.title;
+  const text = draft.textLines.join('\n') || undefined;
+  const optional = <T extends object>(section: T): T =>
+    Object.fromEntries(Object.entries(section).filter(([, value]) => value !== undefined)) as T;
+
+  switch (draft.type) {
+    case 'hero':
+      return optional<HomeHeroSection>({ type: 'hero', id, title, text, buttons: buttons.length > 0 ? buttons : undefined });
+    case 'featured-courses':
+      if (draft.courseIds.length === 0) {
+        warnings.push(`${draft.marker}: no "Courses:" line; section dropped`);
+        return null;
+      }
+      return optional<HomeFeaturedCoursesSection>({ type: 'featured-courses', id, title, courseIds: draft.courseIds });
+    case 'announcement':
+      if (!title && !text) {
+        warnings.push(`${draft.marker}: no title or text; section dropped`);
+        return null;
+      }
+      if (fields.date && fields.expires && fields.expires < fields.date) {
+        warnings.push(`${draft.marker}: expires (${fields.expires}) before its date (${fields.date}); it will never show`);
+      }
+      return optional<HomeAnnouncementSection>({
+        type: 'announcement',
+        id,
+        title,
+        text,
+        date: fields.date,
+        expiresAt: fields.expires,
+        buttons: buttons.length > 0 ? buttons : undefined,
+      });
+    case 'call-to-action':
+      if (buttons.length === 0) {
+        warnings.push(`${draft.marker}: no valid "Button:" line; section dropped`);
+        return null;
+      }
+      return optional<HomeCallToActionSection>({ type: 'call-to-action', id, title, text, buttons });
+  }
+}
+
 /** Parsed result from home document content (no side effects) */
 export interface ParsedHomeContent {
   title: string;
@@ -110,11 +275,22 @@ export interface ParsedHomeContent {
   inlineImageIds: string[];
   /** Positioned object IDs found */
   positionedImageIds: string[];
+  /** Sections in document order; empty when the doc has no section markers */
+  sections: HomeSection[];
+  /** Hero section ID → inline object ID of its image */
+  sectionImageIds: Record<string, string>;
+  /** Section lines that were ignored or sections that were dropped */
+  warnings: string[];
 }
 
 /**
  * Pure parsing function — extracts structured data from Google Docs body elements.
  * No network calls, no Firebase, fully testable.
+ *
+ * Everything after the first section marker belongs to sections: each marker
+ * line starts one, and its `Title:`, `Text:`, `Courses:`, `Date:`,
+ * `Expires:` and `Button:` lines (plus plain paragraphs, as text) fill it
+ * until the next marker. A hero's first image is its own.
  */
 export function parseHomeContent(content: any[]): ParsedHomeContent {
   let title = '';
@@ -122,8 +298,63 @@ export function parseHomeContent(content: any[]): ParsedHomeContent {
   const metadata: Record<string, string> = {};
   const inlineImageIds: string[] = [];
   const positionedImageIds: string[] = [];
+  const sections: HomeSection[] = [];
+  const sectionImageIds: Record<string, string> = {};
+  const warnings: string[] = [];
+  const sectionCounts: Partial<Record<HomeSection['type'], number>> = {};
+  let inSections = false;
+  // null after an unknown marker: its lines are skipped
+  let draft: SectionDraft | null = null;
+
+  const closeSection = () => {
+    if (!draft) return;
+    const section = finishSection(draft, warnings);
+    if (section) {
+      sections.push(section);
+      if (draft.imageObjectId && section.type === 'hero') sectionImageIds[section.id] = draft.imageObjectId;
+    }
+    draft = null;
+  };
 
   for (const element of content) {
+    const markerMatch = element.paragraph?.elements ? extractText(element).match(SECTION_MARKER) : null;
+    if (markerMatch) {
+      closeSection();
+      inSections = true;
+      const type = SECTION_TYPES[markerMatch[1]];
+      if (!type) {
+        warnings.push(`Unknown section marker [${markerMatch[1]}]; its lines are ignored`);
+        continue;
+      }
+      sectionCounts[type] = (sectionCounts[type] ?? 0) + 1;
+      draft = {
+        type,
+        id: `${type}-${sectionCounts[type]}`,
+        marker: markerMatch[0],
+        fields: {},
+        textLines: [],
+        courseIds: [],
+        buttons: [],
+      };
+      continue;
+    }
+
+    if (inSections) {
+      const current = draft as SectionDraft | null;
+      if (!current || !element.paragraph?.elements) continue;
+      const line = extractText(element);
+      if (element.paragraph.paragraphStyle?.namedStyleType === 'HEADING_1' && line && !current.fields.title) {
+        current.fields.title = line;
+      } else if (line) {
+        addSectionLine(current, line, warnings);
+      }
+      const imageId = element.paragraph.elements.find((el: any) => el.inlineObjectElement?.inlineObjectId)
+        ?.inlineObjectElement.inlineObjectId;
+      if (imageId && current.type === 'hero' && !current.imageObjectId) current.imageObjectId = imageId;
+      else if (imageId) warnings.push(`${current.marker}: only a hero can have an image; ignored`);
+      continue;
+    }
+
     // Extract title from first H1
     if (element.paragraph?.paragraphStyle?.namedStyleType === 'HEADING_1') {
       if (!title) {
@@ -163,28 +394,32 @@ export function parseHomeContent(content: any[]): ParsedHomeContent {
     }
   }
 
+  closeSection();
+
   return {
     title,
     text: textParagraphs.join(' '),
     metadata,
     inlineImageIds,
     positionedImageIds,
+    sections,
+    sectionImageIds,
+    warnings,
   };
 }
 
 // Parse home document
-export async function parseHomeDoc(docId: string): Promise<void> {
+export async function parseHomeDoc(docId: string, store: ContentStore = new BucketContentStore()): Promise<void> {
   console.log('🏠 Parsing Home Document\n');
   console.log(`Document ID: ${docId}\n`);
 
   try {
-    ensureFirebaseAdminInitialized();
     // Initialize Google Docs API
     const docs = await initializeDocsClient();
 
     // Fetch document
     console.log('📥 Fetching document from Google Docs...');
-    const response = await docs.documents.get({ documentId: docId });
+    const response = await withRetry(() => docs.documents.get({ documentId: docId }), { label: `Docs API ${docId}` });
     const doc = response.data;
     const content = doc.body?.content || [];
     console.log(`✅ Retrieved ${content.length} elements\n`);
@@ -199,6 +434,12 @@ export async function parseHomeDoc(docId: string): Promise<void> {
     for (const [key, value] of Object.entries(metadata)) {
       console.log(`   🏷️  Metadata: ${key} = "${value}"`);
     }
+    for (const section of parsed.sections) {
+      console.log(`   🧩 Section: ${section.id}${section.title ? ` "${section.title}"` : ''}`);
+    }
+    for (const warning of parsed.warnings) {
+      console.warn(`   ⚠️  ${warning}`);
+    }
 
     // Upload first image found (inline or positioned)
     let backgroundImageUrl = '';
@@ -209,8 +450,8 @@ export async function parseHomeDoc(docId: string): Promise<void> {
       const imageUrl = inlineObject?.inlineObjectProperties?.embeddedObject?.imageProperties?.contentUri;
       if (imageUrl) {
         console.log(`   🖼️  Found background image`);
-        console.log(`   📤 Uploading to Firebase Storage...`);
-        const uploaded = await uploadImageToStorage(imageUrl, 'home/background.jpg');
+        console.log(`   📤 Uploading to ${store.description}...`);
+        const uploaded = await uploadImageToStorage(imageUrl, 'home/background.jpg', store);
         backgroundImageUrl = uploaded.publicUrl;
         backgroundImageHash = uploaded.sha256;
         console.log(`   ✅ Uploaded: ${backgroundImageUrl}\n`);
@@ -224,8 +465,8 @@ export async function parseHomeDoc(docId: string): Promise<void> {
         const imageUrl = positionedObject?.positionedObjectProperties?.embeddedObject?.imageProperties?.contentUri;
         if (imageUrl) {
           console.log(`   🖼️  Found background image (positioned)`);
-          console.log(`   📤 Uploading to Firebase Storage...`);
-          const uploaded = await uploadImageToStorage(imageUrl, 'home/background.jpg');
+          console.log(`   📤 Uploading to ${store.description}...`);
+          const uploaded = await uploadImageToStorage(imageUrl, 'home/background.jpg', store);
           backgroundImageUrl = uploaded.publicUrl;
           backgroundImageHash = uploaded.sha256;
           console.log(`   ✅ Uploaded: ${backgroundImageUrl}\n`);
@@ -234,6 +475,16 @@ export async function parseHomeDoc(docId: string): Promise<void> {
       }
     }
 
+    for (const section of parsed.sections) {
+      const objectId = parsed.sectionImageIds[section.id];
+      const imageUrl = objectId && doc.inlineObjects?.[objectId]?.inlineObjectProperties?.embeddedObject?.imageProperties?.contentUri;
+      if (section.type !== 'hero' || !imageUrl) continue;
+      console.log(`   📤 Uploading ${section.id} image to ${store.description}...`);
+      const uploaded = await uploadImageToStorage(imageUrl, `home/sections/${section.id}.jpg`, store);
+      section.image = uploaded.publicUrl;
+      section.imageHash = uploaded.sha256;
+    }
+
     // Validation
     if (!title) {
       throw new Error('No H1 heading found for title');
@@ -255,7 +506,7 @@ export async function parseHomeDoc(docId: string): Promise<void> {
     console.log();
 
     // Generate JSON
-    const existingHomeConfig = await readExistingHomeConfig();
+    const existingHomeConfig = await readExistingHomeConfig(store);
     const previousVersion = Number(existingHomeConfig?.backgroundImageVersion);
     const currentVersion = Number.isFinite(previousVersion) && previousVersion > 0 ? Math.floor(previousVersion) : 1;
     const hasPreviousHash = typeof existingHomeConfig?.backgroundImageHash === 'string' && existingHomeConfig.backgroundImageHash.length > 0;
@@ -274,22 +525,14 @@ export async function parseHomeDoc(docId: string): Promise<void> {
     // Add optional metadata fields
     if (metadata.bulkPricingUrl) homeConfig.bulkPricingUrl = metadata.bulkPricingUrl;
     if (metadata.bulkPricingMessage) homeConfig.bulkPricingMessage = metadata.bulkPricingMessage;
+    if (parsed.sections.length > 0) homeConfig.sections = parsed.sections;
 
-    // Upload to Firebase Storage
-    console.log('📤 Uploading home.json to Firebase Storage...');
-    const bucket = admin.storage().bucket();
-    const jsonPath = 'home/home.json';
-    const file = bucket.file(jsonPath);
-
-    await file.save(JSON.stringify(homeConfig, null, 2), {
-      metadata: {
-        contentType: 'application/json',
-        cacheControl: 'public, max-age=0, must-revalidate',
-      },
+    // Upload to the content store
+    console.log(`📤 Uploading home.json to ${store.description}...`);
+    const jsonUrl = await writeJson(store, 'home/home.json', homeConfig, {
+      cacheControl: 'public, max-age=0, must-revalidate',
       public: true,
     });
-
-    const jsonUrl = `https://storage.googleapis.com/${bucket.name}/${jsonPath}`;
     console.log(`✅ Uploaded: ${jsonUrl}\n`);
 
     console.log('🎉 Home document parsed successfully!\n');
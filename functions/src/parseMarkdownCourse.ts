@@ -0,0 +1,415 @@
+/**
+ * Parse a local Markdown course and generate course JSON files
+ *
+ * Offline alternative to parseGoogleDoc: courses can live in git, go through
+ * code review, and be parsed in CI without a service account.
+ *
+ * Source layout:
+ *   - A single `.md` file, or
+ *   - A folder of `.md` files (read in filename order and concatenated,
+ *     e.g. `00-course.md`, `01-basics.md`, ...)
+ *
+ * Format:
+ *   ---
+ *   Course ID: farming-101
+ *   Title: Farming 101
+ *   Tags: soil, crops
+ *   ---
+ *   ![Thumbnail](./images/thumbnail.jpg)
+ *
+ *   # Lesson - Soil Basics
+ *   Summary: What soil is made of
+ *   Duration (minutes): 10
+ *
+ *   ## Section heading
+ *   Some **bold** text.
+ *
+ *   [CALLOUT:warning]
+ *   Title: Before you dig
+ *   ...
+ *   [/CALLOUT]
+ *
+ * Front-matter keys are the same labels as the Google Docs "Course Summary"
+ * section. Every non-blank line is one paragraph (like pressing Enter in a
+ * Google Doc), so the [CALLOUT] / [FLASHCARD] / [QUIZ_*] markers and their
+ * fields are written exactly as they are in a doc.
+ *
+ * HOW IT WORKS:
+ *   .md lines
+ *       ↓
+ *   markdownToElements()    ← builds Google Docs-shaped paragraph elements
+ *       ↓
+ *   normalizeBodyContent()  ← same normalization as Google Docs
+ *       ↓
+ *   parseCourseMetadata() + parseLessons()
+ *       ↓
+ *   course-summary.json / course-detail.json (+ images) → local directory
+ *
+ * Usage:
+ *   npm run parse:md -- <file-or-folder> [--out <dir>] [--base-url <url>]
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import {
+  ImageResolver,
+  NormalizedParagraph,
+  annotateGlossaryTerms,
+  buildCourseDetail,
+  buildCourseSummary,
+  carryLessonAliases,
+  normalizeBodyContent,
+  normalizeCourseId,
+  parseCourseMetadata,
+  parseGlossary,
+  parseLessons,
+  reportLessonIdChanges,
+  reportQuestionIdChanges,
+  UploadedImageInfo,
+} from './parseGoogleDoc';
+import { prepareImage, PreparedImage } from './imageVariants';
+import { ParseDiagnostics } from './parseDiagnostics';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export interface ParseMarkdownCourseOptions {
+  /** Directory to write the bucket layout into (`courses/<id>/...`). Nothing is written when omitted. */
+  outDir?: string;
+  /** Prefix for image URLs in the output. Defaults to the bucket-relative storage path. */
+  baseUrl?: string;
+}
+
+/** Image file extensions accepted in `![alt](path)` lines */
+const IMAGE_EXTENSIONS = new Set(['png', 'jpg', 'jpeg', 'gif', 'webp']);
+
+// ─── Markdown → Google Docs Elements ─────────────────────────────────────────
+
+/**
+ * Split a leading `---` front-matter block from the markdown body.
+ * Returns the raw front-matter lines (empty when there is none) and the body.
+ */
+export function splitFrontMatter(markdown: string): { frontMatter: string[]; body: string } {
+  const lines = markdown.replace(/^\uFEFF/, '').split(/\r?\n/);
+  if (lines[0]?.trim() !== '---') return { frontMatter: [], body: lines.join('\n') };
+
+  const closingIndex = lines.findIndex((line, i) => i > 0 && line.trim() === '---');
+  if (closingIndex < 0) return { frontMatter: [], body: lines.join('\n') };
+
+  return {
+    frontMatter: lines.slice(1, closingIndex),
+    body: lines.slice(closingIndex + 1).join('\n'),
+  };
+}
+
+/**
+ * Convert one front-matter line to the "Key: Value" form the metadata parser
+ * reads. Strips YAML-style quotes around the value.
+ */
+function frontMatterLineToText(line: string): string | null {
+  const kvMatch = line.match(/^\s*([^:#][^:]*):\s*(.*)$/);
+  if (!kvMatch) return null;
+
+  let value = kvMatch[2].trim();
+  if (/^(['"]).*\1$/.test(value)) value = value.slice(1, -1);
+  return `${kvMatch[1].trim()}: ${value}`;
+}
+
+function isRemoteUrl(ref: string): boolean {
+  return /^https?:\/\//.test(ref);
+}
+
+/** Build a minimal Google Docs paragraph element around plain text */
+function makeTextElement(text: string): any {
+  return { paragraph: { elements: [{ textRun: { content: `${text}\n` } }] } };
+}
+
+const MARKDOWN_LIST_LINE = /^([-*+]|\d+\.)\s+/;
+
+const TABLE_SEPARATOR_ROW = /^\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?$/;
+
+function splitTableRow(line: string): string[] {
+  return line.trim().replace(/^\|/, '').replace(/\|$/, '').split('|').map(cell => cell.trim());
+}
+
+/**
+ * Build a Google Docs table element from markdown `| a | b |` lines. A
+ * `|---|---|` line after the first row marks it as the header.
+ */
+function makeTableElement(lines: string[]): any {
+  const hasHeader = lines.length > 1 && TABLE_SEPARATOR_ROW.test(lines[1].trim());
+  const rowLines = hasHeader ? [lines[0], ...lines.slice(2)] : lines;
+
+  return {
+    table: {
+      tableRows: rowLines.map((line, i) => ({
+        tableRowStyle: { tableHeader: hasHeader && i === 0 },
+        tableCells: splitTableRow(line).map(cell => ({ content: [makeTextElement(cell)] })),
+      })),
+    },
+  };
+}
+
+/**
+ * Convert markdown source to Google Docs-shaped body elements so the
+ * regular normalizeBodyContent() pipeline can run on it unchanged.
+ *
+ * - Front-matter lines become "Key: Value" paragraphs ahead of the body
+ * - Each non-blank body line becomes one paragraph
+ * - Lines inside ``` fences are kept verbatim, blank lines included
+ * - Consecutive `| a | b |` lines become one table element
+ * - List items (`- `, `1. `) are re-indented to two spaces per nesting level
+ * - A line that is only `![alt](path)` becomes an inline image whose object
+ *   ID is the image path resolved against `baseDir`
+ */
+export function markdownToElements(markdown: string, baseDir: string): any[] {
+  const { frontMatter, body } = splitFrontMatter(markdown);
+  const elements: any[] = [];
+
+  for (const line of frontMatter) {
+    const text = frontMatterLineToText(line);
+    if (text) elements.push(makeTextElement(text));
+  }
+
+  const bodyLines = body.split('\n');
+  let inFence = false;
+  // Indent widths of the open list levels, outermost first
+  let listIndents: number[] = [];
+
+  for (let i = 0; i < bodyLines.length; i++) {
+    const rawLine = bodyLines[i].replace(/\r$/, '');
+    const line = rawLine.trim();
+
+    if (line.startsWith('```')) {
+      inFence = !inFence;
+      elements.push(makeTextElement(line));
+      continue;
+    }
+    if (inFence) {
+      elements.push(makeTextElement(rawLine));
+      continue;
+    }
+    if (!line) continue;
+
+    // Nesting is relative: deeper than the open level starts a sub-level
+    if (MARKDOWN_LIST_LINE.test(line)) {
+      const indent = rawLine.match(/^\s*/)![0].replace(/\t/g, '    ').length;
+      while (listIndents.length > 0 && indent < listIndents[listIndents.length - 1]) listIndents.pop();
+      if (listIndents.length === 0 || indent > listIndents[listIndents.length - 1]) listIndents.push(indent);
+      elements.push(makeTextElement(`${'  '.repeat(listIndents.length - 1)}${line}`));
+      continue;
+    }
+    listIndents = [];
+
+    if (line.startsWith('|')) {
+      const tableLines = [line];
+      while (i + 1 < bodyLines.length && bodyLines[i + 1].trim().startsWith('|')) {
+        tableLines.push(bodyLines[++i].trim());
+      }
+      elements.push(makeTableElement(tableLines));
+      continue;
+    }
+
+    const imageMatch = line.match(/^!\[[^\]]*\]\(([^)\s]+)(?:\s+"[^"]*")?\)$/);
+    if (imageMatch) {
+      const imageRef = isRemoteUrl(imageMatch[1]) ? imageMatch[1] : path.resolve(baseDir, imageMatch[1]);
+      elements.push({
+        paragraph: {
+          elements: [{ inlineObjectElement: { inlineObjectId: imageRef } }],
+        },
+      });
+      continue;
+    }
+
+    elements.push(makeTextElement(line));
+  }
+
+  return elements;
+}
+
+/** List the markdown files for a course source (single file or folder) */
+export function listMarkdownFiles(sourcePath: string): string[] {
+  const stat = fs.statSync(sourcePath);
+  if (!stat.isDirectory()) return [sourcePath];
+
+  return fs.readdirSync(sourcePath)
+    .filter(name => name.toLowerCase().endsWith('.md'))
+    .sort((a, b) => a.localeCompare(b))
+    .map(name => path.join(sourcePath, name));
+}
+
+// ─── Local Images ────────────────────────────────────────────────────────────
+
+/**
+ * Image resolver for local files. Hashes the image the same way the Firebase
+ * upload does and, when `outDir` is set, copies it into the bucket layout.
+ */
+function createLocalImageResolver(options: ParseMarkdownCourseOptions): ImageResolver {
+  const toUrl = (storagePath: string) =>
+    options.baseUrl ? `${options.baseUrl.replace(/\/+$/, '')}/${storagePath}` : storagePath;
+
+  return async (imagePath, storageBasePath, resolveOptions = {}) => {
+    if (isRemoteUrl(imagePath)) {
+      console.warn(`      ⚠️  Remote images aren't supported in Markdown courses: ${imagePath}`);
+      return null;
+    }
+    if (!fs.existsSync(imagePath)) {
+      console.warn(`      ⚠️  Image not found: ${imagePath}`);
+      return null;
+    }
+
+    const ext = path.extname(imagePath).slice(1).toLowerCase();
+    if (!IMAGE_EXTENSIONS.has(ext)) {
+      console.warn(`      ⚠️  Unsupported image type: ${imagePath}`);
+      return null;
+    }
+
+    let image: PreparedImage;
+    try {
+      image = await prepareImage(fs.readFileSync(imagePath), storageBasePath, { variants: resolveOptions.variants });
+    } catch (error: any) {
+      console.warn(`      ⚠️  Could not read image ${imagePath}: ${error.message}`);
+      return null;
+    }
+
+    if (options.outDir) {
+      for (const file of image.files) {
+        const target = path.join(options.outDir, file.path);
+        fs.mkdirSync(path.dirname(target), { recursive: true });
+        fs.writeFileSync(target, file.buffer);
+      }
+    }
+
+    const resolved: UploadedImageInfo = {
+      publicUrl: toUrl(image.path),
+      sha256: image.sha256,
+      version: image.sha256.slice(0, 12),
+      aspectRatio: image.aspectRatio,
+    };
+    if (image.variants.length > 0) {
+      resolved.variants = image.variants.map(variant => ({ ...variant, src: toUrl(variant.src) }));
+    }
+    return resolved;
+  };
+}
+
+function writeJsonFile(outDir: string, storagePath: string, data: any): string {
+  const target = path.join(outDir, storagePath);
+  fs.mkdirSync(path.dirname(target), { recursive: true });
+  fs.writeFileSync(target, JSON.stringify(data, null, 2));
+  return target;
+}
+
+// ─── Main Entry Point ────────────────────────────────────────────────────────
+
+async function parseMarkdownCourse(sourcePath: string, options: ParseMarkdownCourseOptions = {}) {
+  console.log(`\n📄 Parsing Markdown course: ${sourcePath}\n`);
+
+  try {
+    // 1. Read the markdown source
+    const files = listMarkdownFiles(sourcePath);
+    if (files.length === 0) {
+      throw new Error(`No .md files found in ${sourcePath}`);
+    }
+    console.log(`✅ Found ${files.length} markdown file(s)\n`);
+
+    // 2. Normalize all paragraphs (same normalizer as Google Docs)
+    console.log('🔄 Normalizing paragraphs (markdown)...');
+    const paragraphs: NormalizedParagraph[] = [];
+    for (const file of files) {
+      const elements = markdownToElements(fs.readFileSync(file, 'utf8'), path.dirname(file));
+      paragraphs.push(...normalizeBodyContent(elements));
+    }
+    console.log(`✅ Normalized ${paragraphs.length} paragraphs\n`);
+
+    // 3. Parse course metadata from front-matter / top of document
+    console.log('📋 Parsing course metadata...');
+    const diagnostics = new ParseDiagnostics();
+    const resolveImage = createLocalImageResolver(options);
+    const metadata = await parseCourseMetadata(paragraphs, '', resolveImage);
+
+    if (!metadata.courseId) {
+      throw new Error('Course ID not found. Make sure "Course ID:" is in the front-matter.');
+    }
+    if (metadata.translationOf) {
+      throw new Error('"Translation Of:" is only supported in Google Docs; publish translations with parse or parse:all');
+    }
+    const courseId = normalizeCourseId(metadata.courseId);
+    console.log(`✅ Course ID: ${courseId}\n`);
+
+    // Re-parse with courseId (needed for thumbnail path)
+    Object.assign(metadata, await parseCourseMetadata(paragraphs, courseId, resolveImage, diagnostics));
+    metadata.courseId = courseId;
+
+    // 4. Parse lessons and content blocks
+    console.log('📚 Parsing lessons...');
+    const lessons = await parseLessons(paragraphs, courseId, resolveImage, diagnostics);
+    console.log(`✅ Found ${lessons.length} lesson(s)\n`);
+
+    const glossary = parseGlossary(paragraphs, diagnostics);
+    annotateGlossaryTerms(lessons, glossary, diagnostics);
+
+    // 5. Build JSON output
+    const summary = buildCourseSummary(metadata, lessons);
+    const detail = buildCourseDetail(metadata, lessons, diagnostics, glossary);
+    const report = diagnostics.toReport(courseId, sourcePath);
+
+    // 6. Write to the output directory
+    if (options.outDir) {
+      const previousDetailPath = path.join(options.outDir, `courses/${courseId}/course-detail.json`);
+      if (fs.existsSync(previousDetailPath)) {
+        const previousDetail = JSON.parse(fs.readFileSync(previousDetailPath, 'utf8'));
+        reportLessonIdChanges(carryLessonAliases(previousDetail, detail));
+        reportQuestionIdChanges(previousDetail, detail);
+      }
+
+      console.log(`📤 Writing to ${options.outDir}...\n`);
+      const summaryPath = writeJsonFile(options.outDir, `courses/${courseId}/course-summary.json`, summary);
+      console.log(`   ✅ Summary: ${summaryPath}`);
+      const detailPath = writeJsonFile(options.outDir, `courses/${courseId}/course-detail.json`, detail);
+      console.log(`   ✅ Detail: ${detailPath}`);
+      const reportPath = writeJsonFile(options.outDir, `courses/${courseId}/parse-report.json`, report);
+      console.log(`   📋 Parse report: ${reportPath}\n`);
+    }
+
+    return { summary, detail, report };
+  } catch (error: any) {
+    console.error('\n❌ Error during parsing:', error.message);
+    throw error;
+  }
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  let sourcePath: string | undefined;
+  let outDir = 'out';
+  let baseUrl: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--out') outDir = args[++i];
+    else if (args[i] === '--base-url') baseUrl = args[++i];
+    else if (!args[i].startsWith('--')) sourcePath = args[i];
+  }
+
+  if (!sourcePath) {
+    console.error('❌ Usage: npm run parse:md -- <file-or-folder> [--out <dir>] [--base-url <url>]\n');
+    console.log('Example:');
+    console.log('  npm run parse:md -- ../content/farming-101 --out ./out\n');
+    process.exit(1);
+  }
+
+  try {
+    await parseMarkdownCourse(path.resolve(sourcePath), { outDir: path.resolve(outDir), baseUrl });
+    console.log('✅ Parse complete!\n');
+  } catch (error: any) {
+    console.error('❌ Parse failed:', error.message);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { parseMarkdownCourse };
@@ -0,0 +1,217 @@
+/**
+ * Promote a course from a content channel to production
+ *
+ * `parse:all -- --channel staging` publishes under channels/staging/, where
+ * the app can preview it (EXPO_PUBLIC_CONTENT_CHANNEL=staging). Promoting
+ * copies what was reviewed, without re-parsing the doc:
+ *
+ *   1. the course's images under channels/<channel>/courses/<id>/ are copied
+ *      to courses/<id>/
+ *   2. the channel release's summary/detail are published as a new production
+ *      release, with image URLs pointed at the production copies
+ *   3. the course is added to courses/index.json if it isn't listed yet
+ *
+ * Translations in the channel (courses/<id>/<language>/, see
+ * courseTranslations.ts) are promoted the same way, each with its current
+ * channel release, so production never gets a translation's images without
+ * its release.
+ *
+ * Usage:
+ *   npm run promote -- <courseId> [releaseId] [--channel <name>] [--keep-releases <n>] [--dry-run | --out <dir> [--base-url <url>]]
+ */
+
+import * as path from 'path';
+import {
+  BucketContentStore,
+  channelPrefix,
+  channelStore,
+  ContentStore,
+  DryRunContentStore,
+  LocalContentStore,
+} from './contentStore';
+import { publishCourseRelease, readCourseManifest, releaseDir } from './courseReleases';
+import { contentId, normalizeLanguage } from './courseTranslations';
+import { addCourseToIndex } from './parseAllDocs';
+import { writeSearchIndex } from './searchIndex';
+
+export const DEFAULT_PROMOTE_CHANNEL = 'staging';
+
+export interface PromoteCourseOptions {
+  /** Channel to promote from (defaults to `staging`) */
+  channel?: string;
+  /** Channel release to promote (defaults to its current release) */
+  releaseId?: string;
+  /** Production releases to keep (see courseReleases.ts) */
+  releaseRetention?: number;
+}
+
+/** Replace every occurrence of `from` in the JSON's strings with `to` */
+function rewriteJsonUrls<T>(data: T, from: string, to: string): T {
+  return JSON.parse(JSON.stringify(data).split(from).join(to));
+}
+
+/** Languages of the translations among the channel files of a course */
+function translationLanguages(courseId: string, files: string[]): string[] {
+  const coursePrefix = `courses/${courseId}/`;
+  return files
+    .filter(file => file.startsWith(coursePrefix))
+    .map(file => file.slice(coursePrefix.length).split('/'))
+    .filter(parts => parts.length === 2 && parts[1] === 'manifest.json' && normalizeLanguage(parts[0]) === parts[0])
+    .map(parts => parts[0])
+    .sort();
+}
+
+/**
+ * Copy the images of a course or translation (content ID `id`) and publish
+ * one of its channel releases to production. Files under `excludedDirs`
+ * belong to other content and are left alone.
+ */
+async function promoteContent(
+  store: ContentStore,
+  channel: string,
+  id: string,
+  files: string[],
+  excludedDirs: string[],
+  options: PromoteCourseOptions,
+): Promise<{ releaseId: string; promotedRelease: string; copiedFiles: string[] }> {
+  const source = channelStore(store, channel);
+  const manifest = await readCourseManifest(source, id);
+  if (!manifest) throw new Error(`${id} has no release in channel "${channel}"`);
+  const promotedRelease = options.releaseId ?? manifest.currentRelease;
+  if (!manifest.releases.some(r => r.releaseId === promotedRelease)) {
+    throw new Error(`Unknown release "${promotedRelease}" for ${id} in channel "${channel}"`);
+  }
+
+  const dir = releaseDir(id, promotedRelease);
+  const [summary, detail] = await Promise.all([
+    source.readJson(`${dir}course-summary.json`),
+    source.readJson(`${dir}course-detail.json`),
+  ]);
+  if (!summary || !detail) throw new Error(`Release ${promotedRelease} of ${id} is incomplete in channel "${channel}"`);
+
+  // Images keep their paths; JSON (releases, manifest, report) is republished
+  const prefix = `courses/${id}/`;
+  const skipped = [`${prefix}releases/`, ...excludedDirs];
+  const images = files.filter(
+    file => file.startsWith(prefix) && !file.endsWith('.json') && !skipped.some(skip => file.startsWith(skip)),
+  );
+  for (const image of images) {
+    await store.copyFile(channelPrefix(channel) + image, image, { public: true });
+  }
+
+  const from = source.publicUrl(prefix);
+  const to = store.publicUrl(prefix);
+  const release = await publishCourseRelease(
+    store,
+    id,
+    { summary: rewriteJsonUrls(summary, from, to), detail: rewriteJsonUrls(detail, from, to) },
+    { retention: options.releaseRetention },
+  );
+
+  await addCourseToIndex(store, id);
+  return { releaseId: release.releaseId, promotedRelease, copiedFiles: images };
+}
+
+/**
+ * Copy a channel release of `courseId`, and the current channel release of
+ * each of its translations, to production. `store` is the bucket root; the
+ * channel is read from under `channels/<channel>/` in it.
+ */
+export async function promoteCourse(
+  store: ContentStore,
+  courseId: string,
+  options: PromoteCourseOptions = {},
+): Promise<{
+  releaseId: string;
+  promotedRelease: string;
+  copiedFiles: string[];
+  /** Language → production release of each promoted translation */
+  translations: Record<string, string>;
+}> {
+  const channel = options.channel ?? DEFAULT_PROMOTE_CHANNEL;
+  const files = await channelStore(store, channel).listFiles(`courses/${courseId}/`);
+  const languages = translationLanguages(courseId, files);
+
+  const course = await promoteContent(
+    store,
+    channel,
+    courseId,
+    files,
+    languages.map(language => `courses/${contentId({ courseId, language })}/`),
+    options,
+  );
+
+  const copiedFiles = [...course.copiedFiles];
+  const translations: Record<string, string> = {};
+  for (const language of languages) {
+    const translation = await promoteContent(store, channel, contentId({ courseId, language }), files, [], {
+      releaseRetention: options.releaseRetention,
+    });
+    copiedFiles.push(...translation.copiedFiles);
+    translations[language] = translation.releaseId;
+  }
+
+  await writeSearchIndex(store);
+
+  return { releaseId: course.releaseId, promotedRelease: course.promotedRelease, copiedFiles, translations };
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+const USAGE = 'npm run promote -- <courseId> [releaseId] [--channel <name>] [--keep-releases <n>] [--dry-run | --out <dir> [--base-url <url>]]';
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let channel: string | undefined;
+  let releaseRetention: number | undefined;
+  let dryRun = false;
+  let outDir: string | undefined;
+  let baseUrl: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--channel') channel = args[++i];
+    else if (args[i] === '--keep-releases') releaseRetention = parseInt(args[++i], 10);
+    else if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--out') outDir = args[++i];
+    else if (args[i] === '--base-url') baseUrl = args[++i];
+    else if (!args[i].startsWith('--')) positional.push(args[i]);
+  }
+
+  const [courseId, releaseId] = positional;
+  if (!courseId) {
+    console.error(`❌ Usage: ${USAGE}\n`);
+    process.exit(1);
+  }
+
+  try {
+    if (releaseRetention !== undefined && !(releaseRetention >= 1)) {
+      throw new Error('--keep-releases needs a number of 1 or more');
+    }
+    const target: ContentStore = outDir
+      ? new LocalContentStore(path.resolve(outDir), baseUrl)
+      : new BucketContentStore();
+    const store = dryRun ? new DryRunContentStore(target) : target;
+
+    console.log(`🚀 Promoting ${courseId} from ${channel ?? DEFAULT_PROMOTE_CHANNEL} on ${store.description}...\n`);
+    const result = await promoteCourse(store, courseId, { channel, releaseId, releaseRetention });
+    console.log(`✅ ${courseId}: ${result.promotedRelease} → production release ${result.releaseId}`);
+    for (const [language, releaseId] of Object.entries(result.translations)) {
+      console.log(`   🌐 ${language} → production release ${releaseId}`);
+    }
+    console.log(`   🖼️  ${result.copiedFiles.length} image(s) copied\n`);
+
+    if (store instanceof DryRunContentStore) {
+      console.log('🧪 Dry run — would write:');
+      store.plannedChanges.forEach(c => console.log(`   ${c.action === 'delete' ? '-' : '+'} ${c.path}`));
+      console.log();
+    }
+  } catch (error: any) {
+    console.error(`❌ Promote failed: ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
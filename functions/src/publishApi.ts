@@ -0,0 +1,174 @@
+/**
+ * Publish API served by the `parseGoogleDoc` HTTP function
+ *
+ *   POST /publish/{docId}   parse one course doc and publish it
+ *   POST /publish-all       parse every doc in the Drive folder (parse:all)
+ *   GET  /status/{jobId}    job status and progress
+ *
+ * POST bodies are optional JSON: { force?, strict?, channel?,
+ * releaseRetention? }. Jobs always read the configured
+ * GOOGLE_DRIVE_FOLDER_ID. Both POSTs answer 202 with a job ID; the work runs
+ * in the publish job trigger (see publishJobs.ts). Only one job runs at a
+ * time, so overlapping publishes get 409.
+ *
+ * Every request needs `Authorization: Bearer <token>`, where the token is
+ * either the PUBLISH_API_SECRET shared secret (CI, scripts) or a Firebase ID
+ * token of a user with the `publisher: true` custom claim.
+ */
+
+import * as crypto from 'crypto';
+import { channelPrefix } from './contentStore';
+import { JobStore, PublishJob, PublishJobRequest, queuePublishJob } from './publishJobs';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** The parts of an Express request/response the handler uses */
+export interface ApiRequest {
+  method: string;
+  path: string;
+  body?: any;
+  get(header: string): string | undefined;
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(body: any): void;
+  set(header: string, value: string): ApiResponse;
+}
+
+export interface PublishApiOptions {
+  jobs: JobStore;
+  /** PUBLISH_API_SECRET; shared-secret auth is off without it */
+  sharedSecret?: string;
+  /** Verifies a Firebase ID token and returns its claims (admin.auth().verifyIdToken) */
+  verifyIdToken(token: string): Promise<{ uid: string; [claim: string]: any }>;
+}
+
+/** Custom claim that lets a signed-in user publish */
+export const PUBLISHER_CLAIM = 'publisher';
+
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+// ─── Auth ────────────────────────────────────────────────────────────────────
+
+/** Constant-time comparison; hashing first makes the lengths equal */
+export function secretsMatch(given: string, expected: string): boolean {
+  const hash = (value: string) => crypto.createHash('sha256').update(value).digest();
+  return crypto.timingSafeEqual(hash(given), hash(expected));
+}
+
+/** Who is calling: `shared-secret` or `uid:<uid>`. Throws 401/403 otherwise. */
+async function authenticate(req: ApiRequest, options: PublishApiOptions): Promise<string> {
+  const match = /^Bearer\s+(.+)$/i.exec(req.get('authorization') || '');
+  if (!match) throw new ApiError(401, 'Missing bearer token');
+  const token = match[1].trim();
+
+  if (options.sharedSecret && secretsMatch(token, options.sharedSecret)) return 'shared-secret';
+
+  let claims: { uid: string; [claim: string]: any };
+  try {
+    claims = await options.verifyIdToken(token);
+  } catch {
+    throw new ApiError(401, 'Invalid token');
+  }
+  if (claims[PUBLISHER_CLAIM] !== true) {
+    throw new ApiError(403, `User ${claims.uid} does not have the "${PUBLISHER_CLAIM}" claim`);
+  }
+  return `uid:${claims.uid}`;
+}
+
+// ─── Requests ────────────────────────────────────────────────────────────────
+
+type PublishBody = Pick<PublishJobRequest, 'force' | 'strict' | 'channel' | 'releaseRetention'>;
+
+function parsePublishBody(body: any): PublishBody {
+  const options = body && typeof body === 'object' ? body : {};
+  const request: PublishBody = {};
+
+  for (const flag of ['force', 'strict'] as const) {
+    if (options[flag] === undefined) continue;
+    if (typeof options[flag] !== 'boolean') throw new ApiError(400, `"${flag}" must be true or false`);
+    request[flag] = options[flag];
+  }
+  if (options.channel !== undefined) {
+    if (typeof options.channel !== 'string') throw new ApiError(400, '"channel" must be a string');
+    try {
+      channelPrefix(options.channel);
+    } catch (error: any) {
+      throw new ApiError(400, error.message);
+    }
+    request.channel = options.channel;
+  }
+  if (options.releaseRetention !== undefined) {
+    if (!Number.isInteger(options.releaseRetention) || options.releaseRetention < 1) {
+      throw new ApiError(400, '"releaseRetention" must be a whole number of 1 or more');
+    }
+    request.releaseRetention = options.releaseRetention;
+  }
+  if (options.folderId !== undefined) {
+    throw new ApiError(400, '"folderId" is not accepted: publishes read the configured Drive folder');
+  }
+  return request;
+}
+
+async function createJob(
+  options: PublishApiOptions,
+  request: PublishJobRequest,
+  requestedBy: string,
+): Promise<PublishJob> {
+  const { created, active } = await queuePublishJob(options.jobs, request, requestedBy);
+  if (active) throw new ApiError(409, `Publish job ${active.jobId} is still ${active.status}`);
+  return created;
+}
+
+function accepted(res: ApiResponse, job: PublishJob): void {
+  res.status(202).json({ jobId: job.jobId, status: job.status, statusUrl: `/status/${job.jobId}` });
+}
+
+// ─── Handler ─────────────────────────────────────────────────────────────────
+
+export function createPublishApiHandler(options: PublishApiOptions) {
+  return async (req: ApiRequest, res: ApiResponse): Promise<void> => {
+    try {
+      const requestedBy = await authenticate(req, options);
+      const route = req.path.replace(/\/+$/, '');
+      let match: RegExpExecArray | null;
+
+      if ((match = /^\/publish\/([\w-]+)$/.exec(route))) {
+        if (req.method !== 'POST') throw new ApiError(405, 'Use POST');
+        const request: PublishJobRequest = { type: 'doc', docId: match[1], ...parsePublishBody(req.body) };
+        accepted(res, await createJob(options, request, requestedBy));
+        return;
+      }
+
+      if (route === '/publish-all') {
+        if (req.method !== 'POST') throw new ApiError(405, 'Use POST');
+        const request: PublishJobRequest = { type: 'all', ...parsePublishBody(req.body) };
+        accepted(res, await createJob(options, request, requestedBy));
+        return;
+      }
+
+      if ((match = /^\/status\/([\w-]+)$/.exec(route))) {
+        if (req.method !== 'GET') throw new ApiError(405, 'Use GET');
+        const job = await options.jobs.get(match[1]);
+        if (!job) throw new ApiError(404, `Unknown job ${match[1]}`);
+        res.status(200).json(job);
+        return;
+      }
+
+      throw new ApiError(404, `No route for ${req.method} ${req.path}`);
+    } catch (error: any) {
+      if (error instanceof ApiError) {
+        if (error.status === 401) res.set('WWW-Authenticate', 'Bearer');
+        res.status(error.status).json({ error: error.message });
+        return;
+      }
+      console.error('❌ Publish API error:', error);
+      res.status(500).json({ error: 'Internal error' });
+    }
+  };
+}
@@ -0,0 +1,345 @@
+/**
+ * Publish jobs run by the Cloud Functions publish API
+ *
+ * `POST /publish/{docId}` and `POST /publish-all` (publishApi.ts) don't parse
+ * in the request: they create a job document in Firestore and answer with
+ * its ID. A Firestore trigger (index.ts) picks the job up and runs it with
+ * executePublishJob(), writing progress to the same document, which
+ * `GET /status/{jobId}` returns:
+ *
+ *   publishJobs/{jobId}
+ *     { jobId, request, status: queued → running → succeeded | failed,
+ *       progress: { total, done, message }, result?, error?, timestamps }
+ *
+ * Scheduled and Drive-triggered republishing (driveWatch.ts) queue jobs the
+ * same way, so every publish leaves a job document to inspect and only one
+ * publish runs at a time. Jobs are queued in a Firestore transaction on a
+ * lock document that names the latest job, so two requests can't both find
+ * no active job and queue one each:
+ *
+ *   publishLocks/publish
+ *     { jobId, createdAt }
+ *
+ * Jobs go through a JobStore so the flow can run without Firestore in tests.
+ */
+
+import * as admin from 'firebase-admin';
+import { BucketContentStore, channelStore, ContentStore } from './contentStore';
+import { contentId, ContentRef } from './courseTranslations';
+import {
+  addCourseToIndex,
+  getDocInFolder,
+  parseAllDocs,
+  ParseAllDocsOptions,
+  ParseAllDocsProgress,
+  parseChangedDocs,
+  ParseResult,
+  readDocMapping,
+  saveDocMapping,
+} from './parseAllDocs';
+import { ParseDiagnostics } from './parseDiagnostics';
+import { parseGoogleDoc } from './parseGoogleDoc';
+import { resolveGoogleDriveFolderId } from './runtimeConfig';
+import { writeSearchIndex } from './searchIndex';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type PublishJobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface PublishJobRequest {
+  /** One course doc, the whole folder, or docs Drive reported as changed */
+  type: 'doc' | 'all' | 'changes';
+  /** Course doc to publish (type `doc`) */
+  docId?: string;
+  /** Docs to check and re-parse if needed (type `changes`) */
+  docIds?: string[];
+  /** Drive folder (types `all` and `changes`); GOOGLE_DRIVE_FOLDER_ID when omitted */
+  folderId?: string;
+  force?: boolean;
+  strict?: boolean;
+  /** Content channel to publish to, e.g. `staging`; production when omitted */
+  channel?: string;
+  /** Releases to keep per course (DEFAULT_RELEASE_RETENTION when omitted) */
+  releaseRetention?: number;
+}
+
+export interface PublishJobProgress {
+  total: number;
+  done: number;
+  message: string;
+}
+
+/** What happened to one doc in a job */
+export interface PublishedDoc {
+  name: string;
+  /**
+   * `<courseId>/<language>` for translations. Not set for the home doc or
+   * docs that failed before the course ID was read
+   */
+  courseId?: string;
+  outcome: 'published' | 'unchanged' | 'failed';
+  durationMs: number;
+}
+
+export interface PublishJobResult {
+  /** Courses (and translations, as `<courseId>/<language>`) the job published or checked */
+  courseIds: string[];
+  published: number;
+  unchanged: number;
+  failed: number;
+  failures: Array<{ name: string; error: string }>;
+  /** Parse errors across all docs (see parse-report.json per course) */
+  parseErrors: number;
+  docs: PublishedDoc[];
+}
+
+export interface PublishJob {
+  jobId: string;
+  request: PublishJobRequest;
+  status: PublishJobStatus;
+  /** `shared-secret`, `uid:<firebase uid>`, `schedule` or `drive-change` */
+  requestedBy: string;
+  createdAt: string;
+  startedAt?: string;
+  finishedAt?: string;
+  progress: PublishJobProgress;
+  result?: PublishJobResult;
+  error?: string;
+}
+
+export interface JobStore {
+  get(jobId: string): Promise<PublishJob | null>;
+  update(jobId: string, patch: Partial<PublishJob>): Promise<void>;
+  /**
+   * Create `job` unless a job created at or after `since` is still queued
+   * or running. The check and the create are one atomic step.
+   */
+  createIfIdle(job: Omit<PublishJob, 'jobId'>, since: string): Promise<QueuedJob>;
+}
+
+/** The job that was created, or the active job that prevented it */
+export type QueuedJob = { created: PublishJob; active?: undefined } | { created?: undefined; active: PublishJob };
+
+export const PUBLISH_JOBS_COLLECTION = 'publishJobs';
+
+/** Lock document naming the latest job; kept out of publishJobs so it doesn't trigger runPublishJob */
+export const PUBLISH_LOCK_DOC = 'publishLocks/publish';
+
+/**
+ * A job older than this that never finished is treated as dead (the
+ * function timeout is 9 minutes), so it doesn't block new jobs.
+ */
+export const STALE_JOB_MS = 15 * 60 * 1000;
+
+/** A new job document, waiting for the publish job trigger */
+export function newPublishJob(request: PublishJobRequest, requestedBy: string): Omit<PublishJob, 'jobId'> {
+  return {
+    request,
+    status: 'queued',
+    requestedBy,
+    createdAt: new Date().toISOString(),
+    progress: { total: 0, done: 0, message: 'Queued' },
+  };
+}
+
+/** Queue a job unless another one is queued or running (stale jobs don't count) */
+export function queuePublishJob(
+  jobs: JobStore,
+  request: PublishJobRequest,
+  requestedBy: string,
+  now = Date.now(),
+): Promise<QueuedJob> {
+  return jobs.createIfIdle(newPublishJob(request, requestedBy), new Date(now - STALE_JOB_MS).toISOString());
+}
+
+function isActive(job: PublishJob | undefined, since: string): job is PublishJob {
+  return !!job && (job.status === 'queued' || job.status === 'running') && job.createdAt >= since;
+}
+
+// ─── Firestore ───────────────────────────────────────────────────────────────
+
+export class FirestoreJobStore implements JobStore {
+  private collection() {
+    return admin.firestore().collection(PUBLISH_JOBS_COLLECTION);
+  }
+
+  async get(jobId: string): Promise<PublishJob | null> {
+    const snapshot = await this.collection().doc(jobId).get();
+    return snapshot.exists ? (snapshot.data() as PublishJob) : null;
+  }
+
+  async update(jobId: string, patch: Partial<PublishJob>): Promise<void> {
+    await this.collection().doc(jobId).update(patch);
+  }
+
+  async createIfIdle(job: Omit<PublishJob, 'jobId'>, since: string): Promise<QueuedJob> {
+    const db = admin.firestore();
+    const lockRef = db.doc(PUBLISH_LOCK_DOC);
+    // Transactions that read the lock conflict with each other, so only one
+    // of two concurrent requests gets to write it
+    return db.runTransaction(async transaction => {
+      const lock = (await transaction.get(lockRef)).data() as { jobId: string } | undefined;
+      if (lock) {
+        const latest = (await transaction.get(this.collection().doc(lock.jobId))).data() as PublishJob | undefined;
+        if (isActive(latest, since)) return { active: latest };
+      }
+
+      const ref = this.collection().doc();
+      const created: PublishJob = { ...job, jobId: ref.id };
+      transaction.set(ref, created);
+      transaction.set(lockRef, { jobId: created.jobId, createdAt: created.createdAt });
+      return { created };
+    });
+  }
+}
+
+// ─── Running Jobs ────────────────────────────────────────────────────────────
+
+export type ProgressReporter = (progress: PublishJobProgress) => Promise<void>;
+
+/** How a job publishes; replaced in tests */
+export interface PublishRunners {
+  publishDoc(request: PublishJobRequest, report: ProgressReporter): Promise<PublishJobResult>;
+  publishAll(request: PublishJobRequest, report: ProgressReporter): Promise<PublishJobResult>;
+  publishChanges(request: PublishJobRequest, report: ProgressReporter): Promise<PublishJobResult>;
+}
+
+/** Summarize parse:all style results for the job document */
+export function summarizeResults(results: ParseResult[]): PublishJobResult {
+  return {
+    courseIds: results.filter(r => r.success && r.courseId).map(r => contentId(r as ContentRef)),
+    published: results.filter(r => r.success && !r.skipped).length,
+    unchanged: results.filter(r => r.success && r.skipped).length,
+    failed: results.filter(r => !r.success).length,
+    failures: results.filter(r => !r.success).map(r => ({ name: r.name, error: r.error || 'Unknown error' })),
+    parseErrors: results.reduce(
+      (count, r) => count + (r.diagnostics || []).filter(d => d.severity === 'error').length,
+      0,
+    ),
+    docs: results.map(r => {
+      const doc: PublishedDoc = {
+        name: r.name,
+        outcome: !r.success ? 'failed' : r.skipped ? 'unchanged' : 'published',
+        durationMs: r.durationMs,
+      };
+      // Firestore rejects undefined fields
+      if (r.courseId) doc.courseId = contentId(r as ContentRef);
+      return doc;
+    }),
+  };
+}
+
+function publishStore(request: PublishJobRequest): ContentStore {
+  return channelStore(new BucketContentStore(), request.channel);
+}
+
+/**
+ * One course doc, like `npm run parse`, plus the bookkeeping parse:all does:
+ * the doc-mapping entry (so the next parse:all run stays incremental), the
+ * course index and the search index. Only docs in the configured Drive
+ * folder are published; any other doc the service account can read fails
+ * the job.
+ */
+async function publishDoc(request: PublishJobRequest, report: ProgressReporter): Promise<PublishJobResult> {
+  const docId = request.docId!;
+  const store = publishStore(request);
+  const startedAt = Date.now();
+  await report({ total: 1, done: 0, message: `Parsing ${docId}` });
+
+  const mapping = await readDocMapping(store);
+  const entry = mapping[docId];
+  const diagnostics = new ParseDiagnostics();
+  let result: ParseResult;
+
+  try {
+    const folderId = resolveGoogleDriveFolderId(request.folderId);
+    if (!(await getDocInFolder(folderId, docId))) {
+      throw new Error(`${docId} is not a Google Doc in the Drive folder ${folderId}`);
+    }
+    const { summary, hashes, changed, language } = await parseGoogleDoc(docId, store, {
+      strict: request.strict,
+      diagnostics,
+      previousHashes: request.force ? undefined : entry,
+      releaseRetention: request.releaseRetention,
+    });
+    // No modifiedTime: the next parse:all run fetches the doc once and compares hashes
+    mapping[docId] = { courseId: summary.courseId, ...(language ? { language } : {}), ...hashes };
+    await saveDocMapping(mapping, store);
+    await addCourseToIndex(store, contentId({ courseId: summary.courseId, language }));
+    await writeSearchIndex(store);
+    result = {
+      name: docId, courseId: summary.courseId, language, success: true, skipped: !changed,
+      diagnostics: diagnostics.items, durationMs: Date.now() - startedAt,
+    };
+  } catch (error: any) {
+    result = {
+      name: docId, success: false, skipped: false, error: error.message,
+      diagnostics: diagnostics.items, durationMs: Date.now() - startedAt,
+    };
+  }
+
+  await report({ total: 1, done: 1, message: result.success ? `Finished ${docId}` : `Failed ${docId}` });
+  return summarizeResults([result]);
+}
+
+function folderRunOptions(request: PublishJobRequest, report: ProgressReporter): ParseAllDocsOptions {
+  return {
+    force: request.force,
+    strict: request.strict,
+    store: publishStore(request),
+    releaseRetention: request.releaseRetention,
+    onProgress: ({ total, done, lastDoc }: ParseAllDocsProgress) => report({
+      total,
+      done,
+      message: lastDoc ? `${lastDoc.success ? 'Finished' : 'Failed'} ${lastDoc.name}` : `Found ${total} doc(s)`,
+    }),
+  };
+}
+
+async function publishAll(request: PublishJobRequest, report: ProgressReporter): Promise<PublishJobResult> {
+  const folderId = resolveGoogleDriveFolderId(request.folderId);
+  const { results } = await parseAllDocs(folderId, folderRunOptions(request, report));
+  return summarizeResults(results);
+}
+
+async function publishChanges(request: PublishJobRequest, report: ProgressReporter): Promise<PublishJobResult> {
+  const folderId = resolveGoogleDriveFolderId(request.folderId);
+  const { results } = await parseChangedDocs(folderId, request.docIds || [], folderRunOptions(request, report));
+  return summarizeResults(results);
+}
+
+const defaultRunners: PublishRunners = { publishDoc, publishAll, publishChanges };
+
+/**
+ * Run a queued job to completion, keeping its status and progress up to
+ * date. Never throws: failures end up in the job's `error`.
+ */
+export async function executePublishJob(
+  job: PublishJob,
+  jobs: JobStore,
+  runners: PublishRunners = defaultRunners,
+): Promise<void> {
+  if (job.status !== 'queued') return;
+  await jobs.update(job.jobId, { status: 'running', startedAt: new Date().toISOString() });
+
+  const report: ProgressReporter = progress => jobs.update(job.jobId, { progress });
+
+  try {
+    const run = job.request.type === 'doc'
+      ? runners.publishDoc
+      : job.request.type === 'changes' ? runners.publishChanges : runners.publishAll;
+    const result = await run(job.request, report);
+    await jobs.update(job.jobId, {
+      status: result.failed > 0 ? 'failed' : 'succeeded',
+      finishedAt: new Date().toISOString(),
+      result,
+    });
+  } catch (error: any) {
+    console.error(`❌ Publish job ${job.jobId} failed:`, error);
+    await jobs.update(job.jobId, {
+      status: 'failed',
+      finishedAt: new Date().toISOString(),
+      error: error?.message || String(error),
+    });
+  }
+}
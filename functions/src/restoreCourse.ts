@@ -0,0 +1,101 @@
+/**
+ * Restore an archived course
+ *
+ * parse:all archives a course whose doc left the Drive folder (see
+ * courseArchive.ts). This moves it back to courses/<id>/, puts its
+ * doc-mapping entry back and re-lists it in courses/index.json, so the app
+ * shows it again right away. `--list` prints what is in the archive.
+ *
+ * If the doc is still missing from the folder, the next parse:all archives
+ * the course again; put the doc back first. (A doc that comes back before
+ * the grace period ends is restored by parse:all on its own.)
+ *
+ * Usage:
+ *   npm run restore -- <courseId> [--channel <name>] [--dry-run | --out <dir>]
+ *   npm run restore -- --list [--channel <name>] [--out <dir>]
+ */
+
+import * as path from 'path';
+import { BucketContentStore, channelStore, ContentStore, DryRunContentStore, LocalContentStore } from './contentStore';
+import { readArchiveIndex, restoreArchivedCourse, saveArchiveIndex } from './courseArchive';
+import { addCourseToIndex, readDocMapping, saveDocMapping } from './parseAllDocs';
+import { writeSearchIndex } from './searchIndex';
+
+async function restoreCourse(courseId: string, store: ContentStore = new BucketContentStore()): Promise<void> {
+  console.log(`♻️  Restoring ${courseId} on ${store.description}...\n`);
+
+  const archiveIndex = await readArchiveIndex(store);
+  const { archived, fileCount } = await restoreArchivedCourse(store, archiveIndex, courseId);
+  await saveArchiveIndex(store, archiveIndex);
+
+  const mapping = await readDocMapping(store);
+  mapping[archived.docId] = archived.mappingEntry;
+  await saveDocMapping(mapping, store);
+  await addCourseToIndex(store, courseId);
+  await writeSearchIndex(store);
+
+  console.log(`✅ ${courseId}: ${fileCount} file(s) back in courses/${courseId}/ (doc ${archived.docId})\n`);
+}
+
+async function listArchive(store: ContentStore): Promise<void> {
+  const archived = Object.values(await readArchiveIndex(store));
+  if (archived.length === 0) {
+    console.log('The archive is empty\n');
+    return;
+  }
+  console.log('Archived courses:\n');
+  for (const course of archived) {
+    console.log(`  ${course.courseId}  archived ${course.archivedAt} (doc ${course.docId})`);
+  }
+  console.log();
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  let courseId: string | undefined;
+  let list = false;
+  let channel: string | undefined;
+  let dryRun = false;
+  let outDir: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--list') list = true;
+    else if (args[i] === '--channel') channel = args[++i];
+    else if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--out') outDir = args[++i];
+    else if (!args[i].startsWith('--')) courseId = args[i];
+  }
+
+  if (!courseId && !list) {
+    console.error('❌ Usage: npm run restore -- <courseId> | --list [--channel <name>] [--dry-run | --out <dir>]\n');
+    process.exit(1);
+  }
+
+  try {
+    const root: ContentStore = outDir ? new LocalContentStore(path.resolve(outDir)) : new BucketContentStore();
+    const target = channelStore(root, channel);
+    const store = dryRun ? new DryRunContentStore(target) : target;
+
+    if (list || !courseId) {
+      await listArchive(store);
+      return;
+    }
+    await restoreCourse(courseId, store);
+    if (store instanceof DryRunContentStore) {
+      console.log('🧪 Dry run — would write:');
+      store.plannedChanges.forEach(c => console.log(`   ${c.action === 'delete' ? '-' : '+'} ${c.path}`));
+      console.log();
+    }
+  } catch (error: any) {
+    console.error(`❌ Restore failed: ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { restoreCourse };
@@ -0,0 +1,102 @@
+/**
+ * Roll a course back to an earlier release
+ *
+ * Switches courses/<id>/manifest.json to a release that is still in storage
+ * (see courseReleases.ts) and refreshes the root course JSON copies. Without
+ * a release ID it goes back one release; `--list` prints the releases.
+ *
+ * The doc-mapping keeps the doc's content hash, so parse:all won't publish
+ * the same content over the rollback; the next edit to the doc will.
+ *
+ * `--channel <name>` rolls back the course in a preview channel (see
+ * promoteCourse.ts) instead of production.
+ *
+ * Usage:
+ *   npm run rollback -- <courseId> [releaseId] [--list] [--channel <name>] [--dry-run | --out <dir>]
+ */
+
+import * as path from 'path';
+import { BucketContentStore, channelStore, ContentStore, DryRunContentStore, LocalContentStore } from './contentStore';
+import { readCourseManifest, rollbackCourseRelease } from './courseReleases';
+import { clearSectionHashes } from './parseAllDocs';
+import { writeSearchIndex } from './searchIndex';
+
+async function rollbackCourse(
+  courseId: string,
+  releaseId: string | undefined,
+  store: ContentStore = new BucketContentStore(),
+): Promise<void> {
+  console.log(`⏪ Rolling back ${courseId} on ${store.description}...\n`);
+
+  const before = await readCourseManifest(store, courseId);
+  const manifest = await rollbackCourseRelease(store, courseId, releaseId);
+  await clearSectionHashes(store, courseId);
+  await writeSearchIndex(store);
+
+  console.log(`✅ ${courseId}: ${before?.currentRelease} → ${manifest.currentRelease}\n`);
+}
+
+async function listReleases(courseId: string, store: ContentStore): Promise<void> {
+  const manifest = await readCourseManifest(store, courseId);
+  if (!manifest) {
+    console.log(`No releases for ${courseId}\n`);
+    return;
+  }
+  console.log(`Releases of ${courseId} (newest first):\n`);
+  for (const release of manifest.releases) {
+    const marker = release.releaseId === manifest.currentRelease ? '→' : ' ';
+    console.log(`  ${marker} ${release.releaseId}  ${release.publishedAt}`);
+  }
+  console.log();
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  const positional: string[] = [];
+  let list = false;
+  let channel: string | undefined;
+  let dryRun = false;
+  let outDir: string | undefined;
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--list') list = true;
+    else if (args[i] === '--channel') channel = args[++i];
+    else if (args[i] === '--dry-run') dryRun = true;
+    else if (args[i] === '--out') outDir = args[++i];
+    else if (!args[i].startsWith('--')) positional.push(args[i]);
+  }
+
+  const [courseId, releaseId] = positional;
+  if (!courseId) {
+    console.error('❌ Usage: npm run rollback -- <courseId> [releaseId] [--list] [--channel <name>] [--dry-run | --out <dir>]\n');
+    process.exit(1);
+  }
+
+  try {
+    const root: ContentStore = outDir ? new LocalContentStore(path.resolve(outDir)) : new BucketContentStore();
+    const target = channelStore(root, channel);
+    const store = dryRun ? new DryRunContentStore(target) : target;
+
+    if (list) {
+      await listReleases(courseId, store);
+      return;
+    }
+    await rollbackCourse(courseId, releaseId, store);
+    if (store instanceof DryRunContentStore) {
+      console.log('🧪 Dry run — would write:');
+      store.plannedChanges.forEach(c => console.log(`   + ${c.path}`));
+      console.log();
+    }
+  } catch (error: any) {
+    console.error(`❌ Rollback failed: ${error.message}\n`);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
+
+export { rollbackCourse };
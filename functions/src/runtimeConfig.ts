@@ -134,15 +134,21 @@ export function resolveServiceAccountPath(): string {
   );
 }
 
+/**
+ * The service account used for Drive/Docs: GOOGLE_SERVICE_ACCOUNT_JSON (the
+ * key itself, e.g. a Cloud Functions secret) or the key file found by
+ * resolveServiceAccountPath().
+ */
 export function getGoogleServiceAccount(): ServiceAccountKey {
   if (cachedServiceAccount) return cachedServiceAccount;
 
-  const serviceAccountPath = resolveServiceAccountPath();
-  const raw = fs.readFileSync(serviceAccountPath, 'utf8');
+  const inlineKey = getEnv('GOOGLE_SERVICE_ACCOUNT_JSON');
+  const source = inlineKey ? 'GOOGLE_SERVICE_ACCOUNT_JSON' : resolveServiceAccountPath();
+  const raw = inlineKey ?? fs.readFileSync(source, 'utf8');
   const parsed = JSON.parse(raw) as ServiceAccountKey;
 
   if (!parsed.client_email || !parsed.private_key) {
-    throw new Error(`Invalid service account JSON at ${serviceAccountPath}`);
+    throw new Error(`Invalid service account JSON in ${source}`);
   }
 
   cachedServiceAccount = parsed;
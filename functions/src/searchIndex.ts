@@ -0,0 +1,179 @@
+/**
+ * Full-text search index
+ *
+ * One file for all published courses and their translations, so the app
+ * can search offline once it has it cached:
+ *
+ *   courses/search-index.json
+ *
+ * Each entry is a searchable piece of a course — its title and description,
+ * a lesson's title and summary, a heading, a text block or a flashcard front
+ * — with the IDs the app needs to open it and the terms it matches. Terms
+ * come from tokenize(); the app tokenizes queries the same way
+ * (src/api/course/courseSearch.ts) and matches them as prefixes.
+ *
+ * The index is rebuilt from the published courses whenever the course index
+ * changes or a course is published, promoted, restored or rolled back.
+ */
+
+import { ContentStore } from './contentStore';
+import { readPublishedCourse } from './courseReleases';
+import { contentId, ContentRef, CourseIndex } from './courseTranslations';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+export type SearchEntryKind = 'course' | 'lesson' | 'heading' | 'text' | 'flashcard';
+
+/** A course or translation, with the titles results are shown under */
+export interface SearchCourse {
+  courseId: string;
+  /** Set for translations */
+  language?: string;
+  title: string;
+  lessons: { lessonId: string; title: string }[];
+}
+
+export interface SearchEntry {
+  courseId: string;
+  language?: string;
+  /** Unset for the course entry */
+  lessonId?: string;
+  /** Unset for course and lesson entries */
+  blockId?: string;
+  kind: SearchEntryKind;
+  /** Start of the text, shown under the result */
+  text: string;
+  /** Unique, in order of first occurrence */
+  terms: string[];
+}
+
+export interface SearchIndex {
+  version: 1;
+  generatedAt: string;
+  courses: SearchCourse[];
+  entries: SearchEntry[];
+}
+
+export const SEARCH_INDEX_PATH = 'courses/search-index.json';
+
+const SEARCH_INDEX_CACHE_CONTROL = 'public, max-age=300';
+
+/** Longest `text` kept per entry; the terms still cover the whole text */
+const SNIPPET_MAX_LENGTH = 160;
+
+/**
+ * Too common to narrow a search; the app drops them from queries too. The
+ * app's copy is checked against test/fixtures/tokenize.json with this one.
+ */
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+]);
+
+// ─── Tokens ──────────────────────────────────────────────────────────────────
+
+/**
+ * Lowercased words without diacritics (`Café` → `cafe`), split at anything
+ * that isn't a letter or digit. Single letters and stop words are dropped.
+ */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u);
+  return [...new Set(words.filter(word => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word)))];
+}
+
+/** `text` on one line, cut at a word boundary */
+export function snippet(text: string): string {
+  const line = text.replace(/\s+/g, ' ').trim();
+  if (line.length <= SNIPPET_MAX_LENGTH) return line;
+  const cut = line.slice(0, SNIPPET_MAX_LENGTH - 1);
+  const space = cut.lastIndexOf(' ');
+  return `${(space > SNIPPET_MAX_LENGTH / 2 ? cut.slice(0, space) : cut).trimEnd()}…`;
+}
+
+// ─── Building ────────────────────────────────────────────────────────────────
+
+function blockText(block: any): { kind: SearchEntryKind; text: string }[] {
+  switch (block?.type) {
+    case 'heading':
+      return [{ kind: 'heading', text: block.text || '' }];
+    case 'text':
+      return [{ kind: 'text', text: (block.content || []).map((span: any) => span.text).join('') }];
+    case 'flashcards':
+      return (block.cards || []).map((card: any) => ({ kind: 'flashcard', text: card.front || '' }));
+    default:
+      return [];
+  }
+}
+
+/** Search entries of one published course (or translation) */
+export function buildCourseSearchEntries(ref: ContentRef, summary: any, detail: any): { course: SearchCourse; entries: SearchEntry[] } {
+  const language = ref.language ? { language: ref.language } : {};
+  const entries: SearchEntry[] = [];
+  const add = (entry: Omit<SearchEntry, 'courseId' | 'text' | 'terms'>, title: string, text: string) => {
+    const terms = tokenize(`${title} ${text}`);
+    if (terms.length === 0) return;
+    entries.push({ courseId: ref.courseId, ...language, ...entry, text: snippet(text || title), terms });
+  };
+
+  const lessons: any[] = detail?.lessons || [];
+  add({ kind: 'course' }, summary?.title || '', [summary?.subtitle, summary?.description].filter(Boolean).join(' — '));
+  for (const lesson of lessons) {
+    add({ lessonId: lesson.lessonId, kind: 'lesson' }, lesson.title || '', lesson.summary || '');
+    for (const block of lesson.blocks || []) {
+      for (const { kind, text } of blockText(block)) {
+        add({ lessonId: lesson.lessonId, blockId: block.id, kind }, '', text);
+      }
+    }
+  }
+
+  return {
+    course: {
+      courseId: ref.courseId,
+      ...language,
+      title: summary?.title || ref.courseId,
+      lessons: lessons.map(lesson => ({ lessonId: lesson.lessonId, title: lesson.title })),
+    },
+    entries,
+  };
+}
+
+/** Everything listed in courses/index.json: courses, then each course's translations */
+export function indexedContent(index: CourseIndex | null): ContentRef[] {
+  const courseIds = index?.courses || [];
+  return [
+    ...courseIds.map(courseId => ({ courseId })),
+    ...courseIds.flatMap(courseId => (index?.translations?.[courseId] || []).map(language => ({ courseId, language }))),
+  ];
+}
+
+/**
+ * Rebuild courses/search-index.json from the published courses in the
+ * course index. Courses whose files can't be read are left out.
+ */
+export async function writeSearchIndex(store: ContentStore, now: Date = new Date()): Promise<SearchIndex> {
+  const refs = indexedContent(await store.readJson<CourseIndex>('courses/index.json'));
+  const index: SearchIndex = { version: 1, generatedAt: now.toISOString(), courses: [], entries: [] };
+
+  for (const ref of refs) {
+    const { summary, detail } = await readPublishedCourse(store, contentId(ref));
+    if (!summary || !detail) {
+      console.warn(`   ⚠️  Search index: ${contentId(ref)} has no published files; skipped`);
+      continue;
+    }
+    const { course, entries } = buildCourseSearchEntries(ref, summary, detail);
+    index.courses.push(course);
+    index.entries.push(...entries);
+  }
+
+  // Not pretty-printed: this file is downloaded whole by the app
+  await store.writeFile(SEARCH_INDEX_PATH, JSON.stringify(index), {
+    contentType: 'application/json',
+    cacheControl: SEARCH_INDEX_CACHE_CONTROL,
+    public: true,
+  });
+  return index;
+}
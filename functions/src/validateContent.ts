@@ -0,0 +1,735 @@
+/**
+ * Validate parser output against the app's content types
+ *
+ * Checks course-summary.json, course-detail.json and home.json against the
+ * shapes the app reads them as (`CourseSummary`, `CourseDetail`, `Lesson`,
+ * `Quiz` in src/api/course/CourseAPI.ts and `HomeConfig` in
+ * src/api/home/HomeAPI.ts). Every violation is reported with a JSON path,
+ * e.g. `$.lessons[2].blocks[0].type`.
+ *
+ * The rules below mirror those app types by hand — the functions build can't
+ * import from src/. Keep them in sync when the app types change.
+ *
+ * Usage:
+ *   npm run validate -- <file-or-folder>...   (local JSON files)
+ *   npm run validate -- --bucket              (published content in Storage)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import * as admin from 'firebase-admin';
+import { ensureFirebaseAdminInitialized } from './runtimeConfig';
+
+// ─── Types ───────────────────────────────────────────────────────────────────
+
+/** One schema violation, located by JSON path */
+export interface ContentViolation {
+  path: string;
+  message: string;
+}
+
+/** Violations for one validated file (local path or storage path) */
+export interface FileValidationResult {
+  file: string;
+  violations: ContentViolation[];
+}
+
+type ContentFileKind = 'course-summary' | 'course-detail' | 'home';
+
+// ─── Mirrored App Types ──────────────────────────────────────────────────────
+
+const BLOCK_TYPES = new Set(['heading', 'text', 'image', 'video', 'callout', 'list', 'quiz', 'flashcards', 'cloze', 'table', 'code']);
+const QUESTION_TYPES = new Set(['mcq', 'multi_select', 'ordering', 'true_false', 'short_answer']);
+const CALLOUT_VARIANTS = new Set(['info', 'warning', 'tip', 'success', 'exam']);
+const VIDEO_PROVIDERS = new Set(['youtube', 'vimeo', 'native']);
+const IMAGE_VARIANT_FORMATS = new Set(['webp', 'jpeg']);
+const LIST_STYLES = new Set(['bullet', 'ordered']);
+const DIFFICULTIES = new Set(['beginner', 'intermediate', 'advanced']);
+const HOME_SECTION_TYPES = new Set(['hero', 'featured-courses', 'announcement', 'call-to-action']);
+const HOME_BUTTON_ACTIONS = new Set(['courses', 'progress', 'course', 'url']);
+
+// ─── Field Checks ────────────────────────────────────────────────────────────
+
+class Validator {
+  readonly violations: ContentViolation[] = [];
+
+  add(at: string, message: string): void {
+    this.violations.push({ path: at, message });
+  }
+
+  isObject(value: any, at: string): boolean {
+    if (value && typeof value === 'object' && !Array.isArray(value)) return true;
+    this.add(at, `expected object, got ${typeName(value)}`);
+    return false;
+  }
+
+  isArray(value: any, at: string): boolean {
+    if (Array.isArray(value)) return true;
+    this.add(at, `expected array, got ${typeName(value)}`);
+    return false;
+  }
+
+  string(value: any, at: string, { optional = false } = {}): void {
+    if (optional && value === undefined) return;
+    if (typeof value !== 'string') this.add(at, `expected string, got ${typeName(value)}`);
+  }
+
+  number(value: any, at: string, { optional = false } = {}): void {
+    if (optional && value === undefined) return;
+    if (typeof value !== 'number' || !Number.isFinite(value)) this.add(at, `expected number, got ${typeName(value)}`);
+  }
+
+  boolean(value: any, at: string): void {
+    if (typeof value !== 'boolean') this.add(at, `expected boolean, got ${typeName(value)}`);
+  }
+
+  stringOrNumber(value: any, at: string, { optional = false } = {}): void {
+    if (optional && value === undefined) return;
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      this.add(at, `expected string or number, got ${typeName(value)}`);
+    }
+  }
+
+  oneOf(value: any, allowed: Set<string>, at: string, label: string): void {
+    if (typeof value !== 'string' || !allowed.has(value)) {
+      this.add(at, `unknown ${label} ${JSON.stringify(value)} (expected ${Array.from(allowed).join(' | ')})`);
+    }
+  }
+
+  stringArray(value: any, at: string): void {
+    if (!this.isArray(value, at)) return;
+    value.forEach((item: any, i: number) => this.string(item, `${at}[${i}]`));
+  }
+}
+
+function typeName(value: any): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+// ─── Course Summary ──────────────────────────────────────────────────────────
+
+function checkCourseSummary(v: Validator, summary: any): void {
+  if (!v.isObject(summary, '$')) return;
+
+  for (const key of ['courseId', 'title', 'subtitle', 'description', 'releaseDate', 'lastUpdated', 'language']) {
+    v.string(summary[key], `$.${key}`);
+  }
+  if (v.isObject(summary.author, '$.author')) {
+    for (const key of ['name', 'organization', 'bio']) v.string(summary.author[key], `$.author.${key}`);
+    v.stringOrNumber(summary.author.avatarUrl, '$.author.avatarUrl');
+  }
+  v.stringOrNumber(summary.thumbnailUrl, '$.thumbnailUrl');
+  v.stringOrNumber(summary.thumbnailVersion, '$.thumbnailVersion', { optional: true });
+  v.string(summary.thumbnailHash, '$.thumbnailHash', { optional: true });
+  v.oneOf(summary.difficulty, DIFFICULTIES, '$.difficulty', 'difficulty');
+  v.number(summary.estimatedDurationMinutes, '$.estimatedDurationMinutes');
+  v.stringArray(summary.tags, '$.tags');
+  v.boolean(summary.premium, '$.premium');
+  v.stringArray(summary.freePreviewLessons, '$.freePreviewLessons');
+  v.number(summary.lessonCount, '$.lessonCount');
+  v.number(summary.order, '$.order');
+}
+
+/** Validate a course-summary.json object against `CourseSummary` */
+export function validateCourseSummary(summary: any): ContentViolation[] {
+  const v = new Validator();
+  checkCourseSummary(v, summary);
+  return v.violations;
+}
+
+// ─── Course Detail ───────────────────────────────────────────────────────────
+
+function checkTextSpans(v: Validator, spans: any, at: string): void {
+  if (!v.isArray(spans, at)) return;
+  spans.forEach((span: any, i: number) => {
+    if (!v.isObject(span, `${at}[${i}]`)) return;
+    v.string(span.text, `${at}[${i}].text`);
+    v.string(span.link, `${at}[${i}].link`, { optional: true });
+    if (span.code !== undefined) v.boolean(span.code, `${at}[${i}].code`);
+    v.string(span.glossaryTermId, `${at}[${i}].glossaryTermId`, { optional: true });
+  });
+}
+
+function checkClozeLines(v: Validator, lines: any, at: string): void {
+  if (!v.isArray(lines, at)) return;
+  let gapCount = 0;
+  lines.forEach((line: any, i: number) => {
+    if (!v.isArray(line, `${at}[${i}]`)) return;
+    line.forEach((segment: any, j: number) => {
+      const segmentAt = `${at}[${i}][${j}]`;
+      if (!v.isObject(segment, segmentAt)) return;
+      if (segment.type === 'text') {
+        v.string(segment.text, `${segmentAt}.text`);
+      } else if (segment.type === 'gap') {
+        gapCount++;
+        v.string(segment.gapId, `${segmentAt}.gapId`);
+        v.stringArray(segment.answers, `${segmentAt}.answers`);
+        if (Array.isArray(segment.answers) && segment.answers.length === 0) {
+          v.add(`${segmentAt}.answers`, 'gap has no accepted answers');
+        }
+      } else {
+        v.add(`${segmentAt}.type`, `expected "text" | "gap", got ${JSON.stringify(segment.type)}`);
+      }
+    });
+  });
+  if (gapCount === 0) v.add(at, 'cloze block has no gaps');
+}
+
+function checkBlock(v: Validator, block: any, at: string, quizIds: Set<string>): void {
+  if (!v.isObject(block, at)) return;
+  v.string(block.id, `${at}.id`);
+
+  if (!BLOCK_TYPES.has(block.type)) {
+    v.oneOf(block.type, BLOCK_TYPES, `${at}.type`, 'block type');
+    return;
+  }
+
+  switch (block.type) {
+    case 'heading':
+      if (![1, 2, 3].includes(block.level)) v.add(`${at}.level`, `expected 1 | 2 | 3, got ${JSON.stringify(block.level)}`);
+      v.string(block.text, `${at}.text`);
+      break;
+    case 'text':
+      checkTextSpans(v, block.content, `${at}.content`);
+      break;
+    case 'image':
+      v.stringOrNumber(block.src, `${at}.src`);
+      v.string(block.caption, `${at}.caption`, { optional: true });
+      v.number(block.aspectRatio, `${at}.aspectRatio`, { optional: true });
+      if (block.variants !== undefined && v.isArray(block.variants, `${at}.variants`)) {
+        block.variants.forEach((variant: any, i: number) => {
+          const variantAt = `${at}.variants[${i}]`;
+          if (!v.isObject(variant, variantAt)) return;
+          v.string(variant.src, `${variantAt}.src`);
+          v.number(variant.width, `${variantAt}.width`);
+          v.number(variant.height, `${variantAt}.height`);
+          v.oneOf(variant.format, IMAGE_VARIANT_FORMATS, `${variantAt}.format`, 'image variant format');
+        });
+      }
+      break;
+    case 'video':
+      v.oneOf(block.provider, VIDEO_PROVIDERS, `${at}.provider`, 'video provider');
+      if (block.provider === 'native') v.string(block.src, `${at}.src`);
+      else v.string(block.videoId, `${at}.videoId`);
+      v.string(block.title, `${at}.title`, { optional: true });
+      v.number(block.startSeconds, `${at}.startSeconds`, { optional: true });
+      break;
+    case 'callout':
+      v.oneOf(block.variant, CALLOUT_VARIANTS, `${at}.variant`, 'callout variant');
+      v.string(block.text, `${at}.text`);
+      v.string(block.title, `${at}.title`, { optional: true });
+      if (block.paragraphs !== undefined && v.isArray(block.paragraphs, `${at}.paragraphs`)) {
+        block.paragraphs.forEach((spans: any, i: number) => checkTextSpans(v, spans, `${at}.paragraphs[${i}]`));
+      }
+      break;
+    case 'list':
+      v.oneOf(block.style, LIST_STYLES, `${at}.style`, 'list style');
+      if (v.isArray(block.items, `${at}.items`)) {
+        // The renderer accepts plain strings and rich-text span arrays
+        block.items.forEach((item: any, i: number) => {
+          if (typeof item !== 'string') checkTextSpans(v, item, `${at}.items[${i}]`);
+        });
+        // Optional per-item nesting levels and styles, parallel to items
+        if (block.levels !== undefined && v.isArray(block.levels, `${at}.levels`)) {
+          if (block.levels.length !== block.items.length) v.add(`${at}.levels`, 'expected one level per item');
+          block.levels.forEach((level: any, i: number) => {
+            if (!Number.isInteger(level) || level < 0) v.add(`${at}.levels[${i}]`, `expected non-negative integer, got ${JSON.stringify(level)}`);
+          });
+        }
+        if (block.styles !== undefined && v.isArray(block.styles, `${at}.styles`)) {
+          if (block.styles.length !== block.items.length) v.add(`${at}.styles`, 'expected one style per item');
+          block.styles.forEach((style: any, i: number) => v.oneOf(style, LIST_STYLES, `${at}.styles[${i}]`, 'list style'));
+        }
+      }
+      break;
+    case 'quiz':
+      v.string(block.quizId, `${at}.quizId`);
+      if (typeof block.quizId === 'string' && !quizIds.has(block.quizId)) {
+        v.add(`${at}.quizId`, `no quizzes[] entry with quizId "${block.quizId}"`);
+      }
+      break;
+    case 'flashcards':
+      if (v.isArray(block.cards, `${at}.cards`)) {
+        block.cards.forEach((card: any, i: number) => {
+          if (!v.isObject(card, `${at}.cards[${i}]`)) return;
+          v.string(card.front, `${at}.cards[${i}].front`);
+          v.string(card.back, `${at}.cards[${i}].back`);
+        });
+      }
+      break;
+    case 'table':
+      v.boolean(block.hasHeader, `${at}.hasHeader`);
+      if (v.isArray(block.rows, `${at}.rows`)) {
+        block.rows.forEach((row: any, i: number) => {
+          if (!v.isArray(row, `${at}.rows[${i}]`)) return;
+          row.forEach((cell: any, j: number) => checkTextSpans(v, cell, `${at}.rows[${i}][${j}]`));
+        });
+      }
+      break;
+    case 'code':
+      v.string(block.code, `${at}.code`);
+      v.string(block.language, `${at}.language`, { optional: true });
+      break;
+    case 'cloze':
+      checkClozeLines(v, block.lines, `${at}.lines`);
+      if (block.wordBank !== undefined) v.stringArray(block.wordBank, `${at}.wordBank`);
+      break;
+  }
+}
+
+function checkLesson(v: Validator, lesson: any, at: string, quizIds: Set<string>): void {
+  if (!v.isObject(lesson, at)) return;
+
+  v.string(lesson.lessonId, `${at}.lessonId`);
+  v.string(lesson.title, `${at}.title`);
+  v.string(lesson.summary, `${at}.summary`);
+  v.number(lesson.order, `${at}.order`);
+  v.number(lesson.estimatedDurationMinutes, `${at}.estimatedDurationMinutes`);
+  v.boolean(lesson.premium, `${at}.premium`);
+  v.stringArray(lesson.learningObjectives, `${at}.learningObjectives`);
+  if (lesson.prerequisites !== undefined) v.stringArray(lesson.prerequisites, `${at}.prerequisites`);
+  if (lesson.tags !== undefined) v.stringArray(lesson.tags, `${at}.tags`);
+  if (lesson.aliases !== undefined) v.stringArray(lesson.aliases, `${at}.aliases`);
+
+  if (!v.isArray(lesson.blocks, `${at}.blocks`)) return;
+  const blockIds = new Set<string>();
+  lesson.blocks.forEach((block: any, i: number) => {
+    if (typeof block?.id === 'string') {
+      if (blockIds.has(block.id)) v.add(`${at}.blocks[${i}].id`, `duplicate block id "${block.id}"`);
+      blockIds.add(block.id);
+    }
+    checkBlock(v, block, `${at}.blocks[${i}]`, quizIds);
+  });
+}
+
+function checkQuestion(v: Validator, question: any, at: string): void {
+  if (!v.isObject(question, at)) return;
+
+  v.string(question.questionId, `${at}.questionId`);
+  v.string(question.prompt, `${at}.prompt`);
+  v.string(question.explanation, `${at}.explanation`);
+  if (!QUESTION_TYPES.has(question.type)) {
+    v.oneOf(question.type, QUESTION_TYPES, `${at}.type`, 'question type');
+    return;
+  }
+
+  switch (question.type) {
+    case 'mcq':
+      v.stringArray(question.choices, `${at}.choices`);
+      if (question.correctAnswer === undefined) {
+        v.add(`${at}.correctAnswer`, 'MCQ question has no correctAnswer (missing [CORRECT] marker?)');
+      } else if (Array.isArray(question.choices) && !question.choices.includes(question.correctAnswer)) {
+        v.add(`${at}.correctAnswer`, `correctAnswer ${JSON.stringify(question.correctAnswer)} is not one of the choices`);
+      }
+      break;
+    case 'multi_select':
+      v.stringArray(question.choices, `${at}.choices`);
+      if (!Array.isArray(question.correctAnswer) || question.correctAnswer.length === 0) {
+        v.add(`${at}.correctAnswer`, 'multi-select question needs a non-empty correctAnswer array (missing [CORRECT] markers?)');
+      } else if (Array.isArray(question.choices)) {
+        question.correctAnswer.forEach((answer: any, k: number) => {
+          if (!question.choices.includes(answer)) {
+            v.add(`${at}.correctAnswer[${k}]`, `${JSON.stringify(answer)} is not one of the choices`);
+          }
+        });
+      }
+      break;
+    case 'ordering':
+      v.stringArray(question.choices, `${at}.choices`);
+      v.stringArray(question.correctAnswer, `${at}.correctAnswer`);
+      if (
+        Array.isArray(question.choices) && Array.isArray(question.correctAnswer) &&
+        [...question.choices].sort().join('\n') !== [...question.correctAnswer].sort().join('\n')
+      ) {
+        v.add(`${at}.correctAnswer`, 'ordering correctAnswer must contain exactly the choices');
+      }
+      break;
+    case 'true_false':
+      v.boolean(question.correctAnswer, `${at}.correctAnswer`);
+      break;
+    case 'short_answer':
+      if (typeof question.correctAnswer !== 'string') v.stringArray(question.correctAnswer, `${at}.correctAnswer`);
+      break;
+  }
+}
+
+function checkGlossary(v: Validator, glossary: any): Set<string> {
+  const termIds = new Set<string>();
+  if (!v.isArray(glossary, '$.glossary')) return termIds;
+  glossary.forEach((entry: any, i: number) => {
+    const at = `$.glossary[${i}]`;
+    if (!v.isObject(entry, at)) return;
+    v.string(entry.termId, `${at}.termId`);
+    v.string(entry.term, `${at}.term`);
+    v.string(entry.definition, `${at}.definition`);
+    if (entry.aliases !== undefined) v.stringArray(entry.aliases, `${at}.aliases`);
+    if (typeof entry.termId !== 'string') return;
+    if (termIds.has(entry.termId)) v.add(`${at}.termId`, `duplicate termId "${entry.termId}"`);
+    termIds.add(entry.termId);
+  });
+  return termIds;
+}
+
+/** Glossary links in text blocks must point at a glossary entry */
+function checkGlossaryLinks(v: Validator, lessons: any[], termIds: Set<string>): void {
+  lessons.forEach((lesson: any, i: number) => {
+    if (!Array.isArray(lesson?.blocks)) return;
+    lesson.blocks.forEach((block: any, j: number) => {
+      if (block?.type !== 'text' || !Array.isArray(block.content)) return;
+      block.content.forEach((span: any, k: number) => {
+        const termId = span?.glossaryTermId;
+        if (typeof termId === 'string' && !termIds.has(termId)) {
+          v.add(`$.lessons[${i}].blocks[${j}].content[${k}].glossaryTermId`, `no glossary entry with termId "${termId}"`);
+        }
+      });
+    });
+  });
+}
+
+function checkCourseDetail(v: Validator, detail: any): void {
+  if (!v.isObject(detail, '$')) return;
+  v.string(detail.courseId, '$.courseId');
+
+  const termIds = detail.glossary === undefined ? new Set<string>() : checkGlossary(v, detail.glossary);
+
+  const quizzes = detail.quizzes === undefined ? [] : detail.quizzes;
+  const quizIds = new Set<string>();
+  if (v.isArray(quizzes, '$.quizzes')) {
+    quizzes.forEach((quiz: any) => {
+      if (typeof quiz?.quizId === 'string') quizIds.add(quiz.quizId);
+    });
+  }
+
+  const lessonIds = new Set<string>();
+  if (v.isArray(detail.lessons, '$.lessons')) {
+    detail.lessons.forEach((lesson: any, i: number) => {
+      const lessonId = lesson?.lessonId;
+      if (typeof lessonId === 'string') {
+        if (lessonIds.has(lessonId)) v.add(`$.lessons[${i}].lessonId`, `duplicate lessonId "${lessonId}"`);
+        lessonIds.add(lessonId);
+      }
+      checkLesson(v, lesson, `$.lessons[${i}]`, quizIds);
+    });
+    checkGlossaryLinks(v, detail.lessons, termIds);
+
+    detail.lessons.forEach((lesson: any, i: number) => {
+      if (!Array.isArray(lesson?.prerequisites)) return;
+      lesson.prerequisites.forEach((prerequisite: any, j: number) => {
+        if (typeof prerequisite === 'string' && !lessonIds.has(prerequisite)) {
+          v.add(`$.lessons[${i}].prerequisites[${j}]`, `no lesson with lessonId "${prerequisite}"`);
+        }
+      });
+    });
+
+    // An alias must point at exactly one lesson, or progress would move twice
+    const aliasOwners = new Map<string, number>();
+    detail.lessons.forEach((lesson: any, i: number) => {
+      if (!Array.isArray(lesson?.aliases)) return;
+      lesson.aliases.forEach((alias: any, j: number) => {
+        if (typeof alias !== 'string') return;
+        const owner = aliasOwners.get(alias);
+        if (lessonIds.has(alias)) {
+          v.add(`$.lessons[${i}].aliases[${j}]`, `alias "${alias}" is the lessonId of a current lesson`);
+        } else if (owner !== undefined && owner !== i) {
+          v.add(`$.lessons[${i}].aliases[${j}]`, `alias "${alias}" is also used by $.lessons[${owner}]`);
+        } else {
+          aliasOwners.set(alias, i);
+        }
+      });
+    });
+  }
+
+  if (!Array.isArray(quizzes)) return;
+  quizzes.forEach((quiz: any, i: number) => {
+    const at = `$.quizzes[${i}]`;
+    if (!v.isObject(quiz, at)) return;
+    v.string(quiz.quizId, `${at}.quizId`);
+    v.string(quiz.lessonId, `${at}.lessonId`);
+    v.string(quiz.title, `${at}.title`);
+    if (typeof quiz.lessonId === 'string' && !lessonIds.has(quiz.lessonId)) {
+      v.add(`${at}.lessonId`, `no lesson with lessonId "${quiz.lessonId}"`);
+    }
+    if (!v.isArray(quiz.questions, `${at}.questions`)) return;
+    const questionIds = new Set<string>();
+    quiz.questions.forEach((question: any, j: number) => {
+      const questionId = question?.questionId;
+      if (typeof questionId === 'string') {
+        if (questionIds.has(questionId)) {
+          v.add(`${at}.questions[${j}].questionId`, `duplicate questionId "${questionId}"`);
+        }
+        questionIds.add(questionId);
+      }
+      checkQuestion(v, question, `${at}.questions[${j}]`);
+    });
+  });
+}
+
+/** Validate a course-detail.json object against `CourseDetail` */
+export function validateCourseDetail(detail: any): ContentViolation[] {
+  const v = new Validator();
+  checkCourseDetail(v, detail);
+  return v.violations;
+}
+
+/**
+ * Cross-check a course's summary against its detail: matching courseId,
+ * lessonCount, and freePreviewLessons that point at real lessons.
+ * Paths are relative to the summary.
+ */
+export function validateCoursePair(summary: any, detail: any): ContentViolation[] {
+  const v = new Validator();
+  if (!summary || typeof summary !== 'object' || !detail || typeof detail !== 'object') return [];
+
+  if (typeof summary.courseId === 'string' && summary.courseId !== detail.courseId) {
+    v.add('$.courseId', `summary courseId "${summary.courseId}" does not match detail courseId "${detail.courseId}"`);
+  }
+
+  const lessons = Array.isArray(detail.lessons) ? detail.lessons : [];
+  if (typeof summary.lessonCount === 'number' && summary.lessonCount !== lessons.length) {
+    v.add('$.lessonCount', `lessonCount ${summary.lessonCount} does not match ${lessons.length} lesson(s) in detail`);
+  }
+
+  const lessonIds = new Set(lessons.map((l: any) => l?.lessonId));
+  if (Array.isArray(summary.freePreviewLessons)) {
+    summary.freePreviewLessons.forEach((lessonId: any, i: number) => {
+      if (!lessonIds.has(lessonId)) {
+        v.add(`$.freePreviewLessons[${i}]`, `free preview lesson "${lessonId}" does not exist in course detail`);
+      }
+    });
+  }
+
+  return v.violations;
+}
+
+// ─── Home Config ─────────────────────────────────────────────────────────────
+
+/** Validate a home.json object against `HomeConfig` */
+export function validateHomeConfig(home: any): ContentViolation[] {
+  const v = new Validator();
+  if (!v.isObject(home, '$')) return v.violations;
+
+  v.string(home.title, '$.title');
+  v.string(home.text, '$.text');
+  v.stringOrNumber(home.backgroundImage, '$.backgroundImage');
+  v.stringOrNumber(home.backgroundImageVersion, '$.backgroundImageVersion', { optional: true });
+  v.string(home.backgroundImageHash, '$.backgroundImageHash', { optional: true });
+  v.string(home.bulkPricingUrl, '$.bulkPricingUrl', { optional: true });
+  v.string(home.bulkPricingMessage, '$.bulkPricingMessage', { optional: true });
+  if (home.sections !== undefined && v.isArray(home.sections, '$.sections')) {
+    home.sections.forEach((section: any, i: number) => checkHomeSection(v, section, `$.sections[${i}]`));
+  }
+  return v.violations;
+}
+
+function checkHomeButtons(v: Validator, buttons: any, at: string): void {
+  if (!v.isArray(buttons, at)) return;
+  buttons.forEach((button: any, i: number) => {
+    const buttonAt = `${at}[${i}]`;
+    if (!v.isObject(button, buttonAt)) return;
+    v.string(button.label, `${buttonAt}.label`);
+    v.oneOf(button.action, HOME_BUTTON_ACTIONS, `${buttonAt}.action`, 'button action');
+    if (button.action === 'course' || button.action === 'url') v.string(button.target, `${buttonAt}.target`);
+  });
+}
+
+function checkHomeSection(v: Validator, section: any, at: string): void {
+  if (!v.isObject(section, at)) return;
+  v.string(section.id, `${at}.id`);
+  v.oneOf(section.type, HOME_SECTION_TYPES, `${at}.type`, 'section type');
+  v.string(section.title, `${at}.title`, { optional: true });
+  v.string(section.text, `${at}.text`, { optional: true });
+
+  if (section.type === 'hero') {
+    v.string(section.image, `${at}.image`, { optional: true });
+    v.string(section.imageHash, `${at}.imageHash`, { optional: true });
+  } else if (section.type === 'featured-courses') {
+    v.stringArray(section.courseIds, `${at}.courseIds`);
+  } else if (section.type === 'announcement') {
+    v.string(section.date, `${at}.date`, { optional: true });
+    v.string(section.expiresAt, `${at}.expiresAt`, { optional: true });
+  }
+
+  // Only a call to action requires buttons
+  if (section.type === 'call-to-action' || section.buttons !== undefined) {
+    checkHomeButtons(v, section.buttons, `${at}.buttons`);
+  }
+}
+
+// ─── File Loading ────────────────────────────────────────────────────────────
+
+/** Detect which content shape a file holds from its name */
+export function detectContentFileKind(fileName: string): ContentFileKind | null {
+  const base = path.basename(fileName);
+  if (base === 'course-summary.json') return 'course-summary';
+  if (base === 'course-detail.json') return 'course-detail';
+  if (base === 'home.json') return 'home';
+  return null;
+}
+
+/**
+ * Validate a set of named JSON documents. Course summaries and details in
+ * the same folder are also cross-checked against each other.
+ */
+export function validateContentFiles(files: Array<{ file: string; data: any }>): FileValidationResult[] {
+  const results: FileValidationResult[] = [];
+  const detailsByDir = new Map<string, any>();
+
+  for (const { file, data } of files) {
+    if (detectContentFileKind(file) === 'course-detail') detailsByDir.set(path.dirname(file), data);
+  }
+
+  for (const { file, data } of files) {
+    const kind = detectContentFileKind(file);
+    let violations: ContentViolation[] = [];
+
+    if (kind === 'course-summary') {
+      violations = validateCourseSummary(data);
+      const detail = detailsByDir.get(path.dirname(file));
+      if (detail) violations.push(...validateCoursePair(data, detail));
+    } else if (kind === 'course-detail') {
+      violations = validateCourseDetail(data);
+    } else if (kind === 'home') {
+      violations = validateHomeConfig(data);
+    } else {
+      continue;
+    }
+
+    results.push({ file, violations });
+  }
+
+  return results;
+}
+
+function collectLocalFiles(target: string): string[] {
+  if (!fs.statSync(target).isDirectory()) return [target];
+
+  return fs.readdirSync(target, { withFileTypes: true })
+    .sort((a, b) => a.name.localeCompare(b.name))
+    .flatMap(entry => {
+      const entryPath = path.join(target, entry.name);
+      if (entry.isDirectory()) return entry.name === 'node_modules' ? [] : collectLocalFiles(entryPath);
+      return detectContentFileKind(entry.name) ? [entryPath] : [];
+    });
+}
+
+function readJsonSafely(file: string, raw: string): { data?: any; error?: FileValidationResult } {
+  try {
+    return { data: JSON.parse(raw) };
+  } catch (error: any) {
+    return { error: { file, violations: [{ path: '$', message: `invalid JSON: ${error.message}` }] } };
+  }
+}
+
+/** Validate local JSON files (files or folders, searched recursively) */
+export function validateLocalContent(targets: string[]): FileValidationResult[] {
+  const files: Array<{ file: string; data: any }> = [];
+  const parseErrors: FileValidationResult[] = [];
+
+  for (const file of targets.flatMap(t => collectLocalFiles(path.resolve(t)))) {
+    const { data, error } = readJsonSafely(file, fs.readFileSync(file, 'utf8'));
+    if (error) parseErrors.push(error);
+    else files.push({ file, data });
+  }
+
+  return [...parseErrors, ...validateContentFiles(files)];
+}
+
+/** Validate the published content in the Firebase Storage bucket */
+export async function validateBucketContent(): Promise<FileValidationResult[]> {
+  ensureFirebaseAdminInitialized();
+  const bucket = admin.storage().bucket();
+
+  const files: Array<{ file: string; data: any }> = [];
+  const parseErrors: FileValidationResult[] = [];
+
+  const load = async (storagePath: string): Promise<any | undefined> => {
+    const file = bucket.file(storagePath);
+    const [exists] = await file.exists();
+    if (!exists) {
+      parseErrors.push({ file: storagePath, violations: [{ path: '$', message: 'file not found in bucket' }] });
+      return undefined;
+    }
+    const [content] = await file.download();
+    const { data, error } = readJsonSafely(storagePath, content.toString());
+    if (error) parseErrors.push(error);
+    return data;
+  };
+
+  const index = await load('courses/index.json');
+  const courseIds: string[] = Array.isArray(index?.courses) ? index.courses : [];
+
+  for (const courseId of courseIds) {
+    for (const name of ['course-summary.json', 'course-detail.json']) {
+      const storagePath = `courses/${courseId}/${name}`;
+      const data = await load(storagePath);
+      if (data !== undefined) files.push({ file: storagePath, data });
+    }
+  }
+
+  const home = await load('home/home.json');
+  if (home !== undefined) files.push({ file: 'home/home.json', data: home });
+
+  return [...parseErrors, ...validateContentFiles(files)];
+}
+
+// ─── Report ──────────────────────────────────────────────────────────────────
+
+function printReport(results: FileValidationResult[]): number {
+  let total = 0;
+
+  for (const result of results) {
+    if (result.violations.length === 0) {
+      console.log(`✅ ${result.file}`);
+      continue;
+    }
+    total += result.violations.length;
+    console.log(`❌ ${result.file} (${result.violations.length} violation(s))`);
+    for (const violation of result.violations) {
+      console.log(`   ${violation.path}: ${violation.message}`);
+    }
+  }
+
+  console.log();
+  console.log(`Checked ${results.length} file(s), ${total} violation(s)\n`);
+  return total;
+}
+
+// ─── CLI ─────────────────────────────────────────────────────────────────────
+
+async function main() {
+  const args = process.argv.slice(2);
+  const fromBucket = args.includes('--bucket');
+  const targets = args.filter(a => !a.startsWith('--'));
+
+  if (!fromBucket && targets.length === 0) {
+    console.error('❌ Usage: npm run validate -- <file-or-folder>... | --bucket\n');
+    console.log('Examples:');
+    console.log('  npm run validate -- ./out');
+    console.log('  npm run validate -- ../src/content/local');
+    console.log('  npm run validate -- --bucket\n');
+    process.exit(1);
+  }
+
+  try {
+    console.log('🔎 Validating content against app types\n');
+    const results = fromBucket ? await validateBucketContent() : validateLocalContent(targets);
+
+    if (results.length === 0) {
+      console.log('⚠️  No course-summary.json, course-detail.json or home.json files found\n');
+      process.exit(1);
+    }
+
+    const violationCount = printReport(results);
+    if (violationCount > 0) process.exit(1);
+    console.log('🎉 All content matches the app types!\n');
+  } catch (error: any) {
+    console.error('❌ Validation failed:', error.message);
+    process.exit(1);
+  }
+}
+
+if (require.main === module) {
+  main();
+}
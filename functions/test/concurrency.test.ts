@@ -0,0 +1,113 @@
+/**
+ * Tests for the worker pool and retry helpers.
+ */
+
+import {
+  backoffDelay,
+  createLimiter,
+  isRetryableError,
+  mapWithConcurrency,
+  withRetry,
+} from '../src/concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('createLimiter', () => {
+  it('never runs more tasks than the limit at once', async () => {
+    const limit = createLimiter(2);
+    let active = 0;
+    let peak = 0;
+
+    await Promise.all([1, 2, 3, 4, 5].map(() => limit(async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    })));
+
+    expect(peak).toBe(2);
+  });
+
+  it('passes failures through and keeps going', async () => {
+    const limit = createLimiter(1);
+    const failing = limit(async () => { throw new Error('boom'); });
+    const next = limit(async () => 'ok');
+
+    await expect(failing).rejects.toThrow('boom');
+    await expect(next).resolves.toBe('ok');
+  });
+});
+
+describe('mapWithConcurrency', () => {
+  it('returns results in input order regardless of finish order', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 3, async (ms, i) => {
+      await delay(ms);
+      return `${i}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20']);
+  });
+});
+
+describe('isRetryableError', () => {
+  it('retries rate limits, server errors and dropped connections', () => {
+    expect(isRetryableError({ response: { status: 429 } })).toBe(true);
+    expect(isRetryableError({ status: 503 })).toBe(true);
+    expect(isRetryableError({ code: 'ECONNRESET' })).toBe(true);
+  });
+
+  it('does not retry client errors', () => {
+    expect(isRetryableError({ response: { status: 404 } })).toBe(false);
+    expect(isRetryableError({ code: 403 })).toBe(false);
+    expect(isRetryableError(new Error('parse failed'))).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  it('doubles up to the maximum, randomizing the upper half', () => {
+    expect(backoffDelay(0, 1000, 32000, () => 0)).toBe(500);
+    expect(backoffDelay(3, 1000, 32000, () => 1)).toBe(8000);
+    expect(backoffDelay(10, 1000, 32000, () => 1)).toBe(32000);
+  });
+});
+
+describe('withRetry', () => {
+  let warn: jest.SpyInstance;
+  beforeEach(() => { warn = jest.spyOn(console, 'warn').mockImplementation(() => {}); });
+  afterEach(() => warn.mockRestore());
+
+  it('retries retryable failures until the task succeeds', async () => {
+    let calls = 0;
+    const result = await withRetry(async () => {
+      calls++;
+      if (calls < 3) throw { response: { status: 429 } };
+      return 'done';
+    }, { baseDelayMs: 1 });
+
+    expect(result).toBe('done');
+    expect(calls).toBe(3);
+    expect(warn).toHaveBeenCalledTimes(2);
+  });
+
+  it('gives up after the last retry', async () => {
+    let calls = 0;
+    const task = withRetry(async () => {
+      calls++;
+      throw Object.assign(new Error('unavailable'), { status: 503 });
+    }, { retries: 2, baseDelayMs: 1 });
+
+    await expect(task).rejects.toThrow('unavailable');
+    expect(calls).toBe(3);
+  });
+
+  it('fails right away on errors that are not retryable', async () => {
+    let calls = 0;
+    const task = withRetry(async () => {
+      calls++;
+      throw Object.assign(new Error('not found'), { status: 404 });
+    }, { baseDelayMs: 1 });
+
+    await expect(task).rejects.toThrow('not found');
+    expect(calls).toBe(1);
+  });
+});
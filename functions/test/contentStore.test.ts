@@ -0,0 +1,188 @@
+/**
+ * Tests for LocalContentStore, DryRunContentStore and channel stores, plus the course index
+ * diff, doc-mapping and listing helpers of parseAllDocs.
+ *
+ * Runs entirely on the local filesystem — no Firebase or API dependencies.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { channelStore, DryRunContentStore, LocalContentStore, writeJson } from '../src/contentStore';
+import { diffCourseIndex, isDocUnmodified, listedContent, normalizeDocMapping, parseFolderDoc } from '../src/parseAllDocs';
+import * as parseGoogleDocModule from '../src/parseGoogleDoc';
+import { PARSER_VERSION } from '../src/parseGoogleDoc';
+
+function makeTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'content-store-'));
+}
+
+const jsonOptions = { cacheControl: 'public, max-age=300', public: true };
+
+// ─── LocalContentStore ──────────────────────────────────────────────────────
+
+describe('LocalContentStore', () => {
+  it('writes and reads JSON in the bucket layout', async () => {
+    const dir = makeTempDir();
+    const store = new LocalContentStore(dir);
+
+    const url = await writeJson(store, 'courses/farming-101/course-summary.json', { courseId: 'farming-101' }, jsonOptions);
+
+    expect(url).toBe('courses/farming-101/course-summary.json');
+    expect(fs.existsSync(path.join(dir, 'courses/farming-101/course-summary.json'))).toBe(true);
+    expect(await store.readJson('courses/farming-101/course-summary.json')).toEqual({ courseId: 'farming-101' });
+  });
+
+  it('returns null for missing or invalid JSON', async () => {
+    const dir = makeTempDir();
+    const store = new LocalContentStore(dir);
+    fs.writeFileSync(path.join(dir, 'broken.json'), '{ nope');
+
+    expect(await store.readJson('missing.json')).toBeNull();
+    expect(await store.readJson('broken.json')).toBeNull();
+  });
+
+  it('prefixes public URLs with baseUrl', () => {
+    const store = new LocalContentStore(makeTempDir(), 'https://cdn.example.com/');
+    expect(store.publicUrl('home/home.json')).toBe('https://cdn.example.com/home/home.json');
+  });
+
+  it('lists files under a prefix and deletes them', async () => {
+    const dir = makeTempDir();
+    const store = new LocalContentStore(dir);
+    await writeJson(store, 'courses/a/course-summary.json', {}, jsonOptions);
+    await writeJson(store, 'courses/a/lessons/x/image-1.png', {}, jsonOptions);
+    await writeJson(store, 'courses/b/course-summary.json', {}, jsonOptions);
+
+    const files = await store.listFiles('courses/a/');
+    expect(files).toEqual(['courses/a/course-summary.json', 'courses/a/lessons/x/image-1.png']);
+
+    await store.deleteFiles(files);
+    expect(await store.listFiles('courses/')).toEqual(['courses/b/course-summary.json']);
+  });
+});
+
+// ─── DryRunContentStore ─────────────────────────────────────────────────────
+
+describe('DryRunContentStore', () => {
+  it('records uploads and deletions without touching the source', async () => {
+    const dir = makeTempDir();
+    const source = new LocalContentStore(dir);
+    await writeJson(source, 'courses/old/course-summary.json', { courseId: 'old' }, jsonOptions);
+
+    const store = new DryRunContentStore(source);
+    await writeJson(store, 'courses/new/course-summary.json', { courseId: 'new' }, jsonOptions);
+    await store.deleteFiles(await store.listFiles('courses/old/'));
+
+    expect(store.plannedChanges.map(c => [c.action, c.path])).toEqual([
+      ['upload', 'courses/new/course-summary.json'],
+      ['delete', 'courses/old/course-summary.json'],
+    ]);
+    expect(store.plannedChanges[0].bytes).toBeGreaterThan(0);
+    expect(fs.existsSync(path.join(dir, 'courses/new'))).toBe(false);
+    expect(fs.existsSync(path.join(dir, 'courses/old/course-summary.json'))).toBe(true);
+  });
+
+  it('serves pending writes to later reads and falls back to the source', async () => {
+    const dir = makeTempDir();
+    const source = new LocalContentStore(dir);
+    await writeJson(source, 'home/home.json', { title: 'Old' }, jsonOptions);
+
+    const store = new DryRunContentStore(source);
+    expect(await store.readJson('home/home.json')).toEqual({ title: 'Old' });
+
+    await writeJson(store, 'home/home.json', { title: 'New' }, jsonOptions);
+    expect(await store.readJson('home/home.json')).toEqual({ title: 'New' });
+  });
+});
+
+// ─── Channels ───────────────────────────────────────────────────────────────
+
+describe('channelStore', () => {
+  it('maps the bucket layout under channels/<name>/', async () => {
+    const dir = makeTempDir();
+    const root = new LocalContentStore(dir, 'https://cdn.example.com');
+    const staging = channelStore(root, 'staging');
+
+    const url = await writeJson(staging, 'courses/farming-101/course-summary.json', { courseId: 'farming-101' }, jsonOptions);
+
+    expect(url).toBe('https://cdn.example.com/channels/staging/courses/farming-101/course-summary.json');
+    expect(fs.existsSync(path.join(dir, 'channels/staging/courses/farming-101/course-summary.json'))).toBe(true);
+    expect(await staging.listFiles('courses/')).toEqual(['courses/farming-101/course-summary.json']);
+    expect(await root.readJson('courses/farming-101/course-summary.json')).toBeNull();
+
+    await staging.deleteFiles(['courses/farming-101/course-summary.json']);
+    expect(await staging.listFiles('courses/')).toEqual([]);
+  });
+
+  it('returns the store itself without a channel and rejects invalid names', () => {
+    const root = new LocalContentStore(makeTempDir());
+    expect(channelStore(root)).toBe(root);
+    expect(() => channelStore(root, '../prod')).toThrow('Invalid channel');
+  });
+});
+
+// ─── diffCourseIndex ────────────────────────────────────────────────────────
+
+describe('diffCourseIndex', () => {
+  it('reports added and removed course IDs', () => {
+    expect(diffCourseIndex(['a', 'b'], ['b', 'c'])).toEqual({ added: ['c'], removed: ['a'] });
+  });
+
+  it('reports nothing when the index is unchanged', () => {
+    expect(diffCourseIndex(['a'], ['a'])).toEqual({ added: [], removed: [] });
+  });
+});
+
+// ─── doc-mapping ────────────────────────────────────────────────────────────
+
+describe('normalizeDocMapping', () => {
+  it('reads bare courseIds from older runs as entries without hashes', () => {
+    expect(normalizeDocMapping({
+      doc1: 'farming-101',
+      doc2: { courseId: 'soil', contentHash: 'abc', modifiedTime: '2026-01-01T00:00:00Z' },
+      doc3: { broken: true } as any,
+    })).toEqual({
+      doc1: { courseId: 'farming-101' },
+      doc2: { courseId: 'soil', contentHash: 'abc', modifiedTime: '2026-01-01T00:00:00Z' },
+    });
+    expect(normalizeDocMapping(null)).toEqual({});
+  });
+});
+
+describe('isDocUnmodified', () => {
+  const entry = { courseId: 'soil', parserVersion: PARSER_VERSION, contentHash: 'abc', modifiedTime: '2026-01-01T00:00:00Z' };
+
+  it('skips a doc only when modifiedTime matches a hashed entry', () => {
+    expect(isDocUnmodified({ modifiedTime: '2026-01-01T00:00:00Z' }, entry)).toBe(true);
+    expect(isDocUnmodified({ modifiedTime: '2026-01-02T00:00:00Z' }, entry)).toBe(false);
+    expect(isDocUnmodified({ modifiedTime: '2026-01-01T00:00:00Z' }, { courseId: 'soil' })).toBe(false);
+  });
+
+  it('fetches docs hashed by another parser version', () => {
+    expect(isDocUnmodified({ modifiedTime: '2026-01-01T00:00:00Z' }, { ...entry, parserVersion: PARSER_VERSION - 1 })).toBe(false);
+    expect(isDocUnmodified({ modifiedTime: '2026-01-01T00:00:00Z' }, { courseId: 'soil', contentHash: 'abc', modifiedTime: '2026-01-01T00:00:00Z' })).toBe(false);
+    expect(isDocUnmodified({ modifiedTime: '2026-01-01T00:00:00Z' }, undefined)).toBe(false);
+  });
+});
+
+describe('listedContent', () => {
+  const doc = { id: 'doc-1', name: 'Soil', modifiedTime: '2026-01-02T00:00:00Z' };
+
+  afterEach(() => jest.restoreAllMocks());
+
+  it('keeps a course listed when its re-parse fails', async () => {
+    jest.spyOn(parseGoogleDocModule, 'parseGoogleDoc').mockRejectedValue(new Error('Course has 1 parse error(s)'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    const store = new LocalContentStore(makeTempDir());
+    const docMapping = { 'doc-1': { courseId: 'soil', language: 'es', contentHash: 'abc' } };
+
+    const failed = await parseFolderDoc(doc, { store, docMapping, strict: true });
+    const added = await parseFolderDoc({ ...doc, id: 'doc-2' }, { store, docMapping, strict: true });
+
+    expect(failed).toMatchObject({ success: false, courseId: 'soil', language: 'es' });
+    expect(added.courseId).toBeUndefined();
+    expect(listedContent([failed, added])).toEqual([failed]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * Tests for archiving orphaned courses: moving files to and from the
+ * archive, grace-period expiry, purging and the archive step of parse:all.
+ *
+ * Runs on LocalContentStore in a temp directory.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ContentStore, LocalContentStore, writeJson } from '../src/contentStore';
+import {
+  ArchiveIndex,
+  archiveCourse,
+  DEFAULT_ARCHIVE_GRACE_DAYS,
+  purgeArchivedCourse,
+  readArchiveIndex,
+  restoreArchivedCourse,
+  saveArchiveIndex,
+  selectExpiredArchives,
+  updateArchive,
+} from '../src/courseArchive';
+
+const jsonOptions = { cacheControl: 'public, max-age=300', public: true };
+const mappingEntry = { courseId: 'farming-101', modifiedTime: '2026-10-01T09:30:00.000Z', contentHash: 'abc' };
+
+async function makeStoreWithCourse(): Promise<{ dir: string; store: LocalContentStore }> {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'course-archive-'));
+  const store = new LocalContentStore(dir);
+  await writeJson(store, 'courses/farming-101/course-detail.json', { courseId: 'farming-101' }, jsonOptions);
+  await store.writeFile('courses/farming-101/thumbnail.png', 'png-bytes');
+  return { dir, store };
+}
+
+describe('archiveCourse', () => {
+  it('moves the course files to the archive and records the mapping entry', async () => {
+    const { dir, store } = await makeStoreWithCourse();
+    const index: ArchiveIndex = {};
+
+    const { archived, fileCount } = await archiveCourse(store, index, 'doc-1', mappingEntry);
+
+    expect(fileCount).toBe(2);
+    expect(await store.listFiles('courses/farming-101/')).toEqual([]);
+    expect(fs.readFileSync(path.join(dir, 'archive/courses/farming-101/thumbnail.png'), 'utf8')).toBe('png-bytes');
+    expect(archived).toMatchObject({ courseId: 'farming-101', docId: 'doc-1', mappingEntry });
+    expect(index['farming-101']).toBe(archived);
+  });
+
+  it('replaces an older archive of the same course', async () => {
+    const { store } = await makeStoreWithCourse();
+    const index: ArchiveIndex = {};
+    await archiveCourse(store, index, 'doc-1', mappingEntry);
+    await writeJson(store, 'courses/farming-101/course-detail.json', { courseId: 'farming-101', v: 2 }, jsonOptions);
+
+    await archiveCourse(store, index, 'doc-2', mappingEntry);
+
+    expect(await store.listFiles('archive/courses/farming-101/')).toEqual(['archive/courses/farming-101/course-detail.json']);
+    expect(index['farming-101'].docId).toBe('doc-2');
+  });
+});
+
+describe('restoreArchivedCourse', () => {
+  it('moves the files back and drops the course from the archive', async () => {
+    const { store } = await makeStoreWithCourse();
+    const index: ArchiveIndex = {};
+    await archiveCourse(store, index, 'doc-1', mappingEntry);
+    await saveArchiveIndex(store, index);
+
+    const saved = await readArchiveIndex(store);
+    const { archived, fileCount } = await restoreArchivedCourse(store, saved, 'farming-101');
+
+    expect(fileCount).toBe(2);
+    expect(archived.mappingEntry).toEqual(mappingEntry);
+    expect(saved).toEqual({});
+    expect(await store.readJson('courses/farming-101/course-detail.json')).toEqual({ courseId: 'farming-101' });
+    expect(await store.listFiles('archive/courses/')).toEqual([]);
+  });
+
+  it('keeps parse reports private', async () => {
+    const { store } = await makeStoreWithCourse();
+    await writeJson(store, 'courses/farming-101/parse-report.json', { errors: 0 }, { cacheControl: 'private, max-age=0' });
+    await writeJson(store, 'courses/farming-101/es/parse-report.json', { errors: 0 }, { cacheControl: 'private, max-age=0' });
+    const index: ArchiveIndex = {};
+    await archiveCourse(store, index, 'doc-1', mappingEntry);
+    const copySpy = jest.spyOn(store as ContentStore, 'copyFile');
+
+    await restoreArchivedCourse(store, index, 'farming-101');
+
+    const visibility = Object.fromEntries(copySpy.mock.calls.map(([, to, options]) => [to, options?.public]));
+    expect(visibility).toEqual({
+      'courses/farming-101/course-detail.json': true,
+      'courses/farming-101/es/parse-report.json': false,
+      'courses/farming-101/parse-report.json': false,
+      'courses/farming-101/thumbnail.png': true,
+    });
+  });
+
+  it('fails for courses that are not archived', async () => {
+    const { store } = await makeStoreWithCourse();
+    await expect(restoreArchivedCourse(store, {}, 'farming-101')).rejects.toThrow('not in the archive');
+  });
+});
+
+describe('purgeArchivedCourse', () => {
+  it('deletes the archived files', async () => {
+    const { store } = await makeStoreWithCourse();
+    const index: ArchiveIndex = {};
+    await archiveCourse(store, index, 'doc-1', mappingEntry);
+
+    expect(await purgeArchivedCourse(store, index, 'farming-101')).toBe(2);
+    expect(await store.listFiles('archive/')).toEqual([]);
+    expect(index).toEqual({});
+  });
+});
+
+describe('selectExpiredArchives', () => {
+  it('selects courses archived for at least the grace period', () => {
+    const archived = (courseId: string, archivedAt: string) => ({
+      courseId, docId: `doc-${courseId}`, mappingEntry: { courseId }, archivedAt,
+    });
+    const index: ArchiveIndex = {
+      a: archived('a', '2026-09-01T00:00:00.000Z'),
+      b: archived('b', '2026-10-10T00:00:00.000Z'),
+      c: archived('c', '2026-09-19T00:00:00.000Z'),
+    };
+
+    expect(selectExpiredArchives(index, 30, Date.parse('2026-10-19T00:00:00.000Z'))).toEqual(['a', 'c']);
+  });
+});
+
+describe('updateArchive', () => {
+  const HOUR_MS = 60 * 60 * 1000;
+
+  it('keeps an archived course through many hourly runs and deletes it after the grace period', async () => {
+    const { store } = await makeStoreWithCourse();
+    const mapping = { 'doc-1': mappingEntry };
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await updateArchive(store, mapping, new Set());
+    expect(mapping).toEqual({});
+    for (let run = 1; run <= 48; run++) {
+      await updateArchive(store, mapping, new Set(), { now: Date.now() + run * HOUR_MS });
+    }
+    expect(Object.keys(await readArchiveIndex(store))).toEqual(['farming-101']);
+    expect(await store.listFiles('archive/courses/farming-101/')).toHaveLength(2);
+
+    await updateArchive(store, mapping, new Set(), { now: Date.now() + (DEFAULT_ARCHIVE_GRACE_DAYS * 24 + 1) * HOUR_MS });
+    logSpy.mockRestore();
+
+    expect(await readArchiveIndex(store)).toEqual({});
+    expect(await store.listFiles('archive/')).toEqual(['archive/index.json']);
+  });
+
+  it('restores a course whose doc is back in the folder', async () => {
+    const { store } = await makeStoreWithCourse();
+    const mapping: Record<string, typeof mappingEntry> = { 'doc-1': mappingEntry };
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+
+    await updateArchive(store, mapping, new Set());
+    await updateArchive(store, mapping, new Set(['doc-1']));
+    logSpy.mockRestore();
+
+    expect(mapping).toEqual({ 'doc-1': mappingEntry });
+    expect(await store.listFiles('courses/farming-101/')).toHaveLength(2);
+  });
+});
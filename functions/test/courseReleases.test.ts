@@ -0,0 +1,139 @@
+/**
+ * Tests for versioned course publishing: release layout, manifest switching,
+ * retention pruning and rollback.
+ *
+ * Runs on LocalContentStore in a temp directory.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalContentStore, writeJson } from '../src/contentStore';
+import {
+  createReleaseId,
+  publishCourseRelease,
+  readCourseManifest,
+  readPublishedCourse,
+  rollbackCourseRelease,
+  selectReleasesToPrune,
+} from '../src/courseReleases';
+
+function makeStore(): { dir: string; store: LocalContentStore } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'course-releases-'));
+  return { dir, store: new LocalContentStore(dir) };
+}
+
+function courseFiles(version: number) {
+  return {
+    summary: { courseId: 'farming-101', title: `Farming v${version}` },
+    detail: { courseId: 'farming-101', lessons: [{ lessonId: 'farming-101-soil', version }] },
+  };
+}
+
+/** Publish `count` versions one minute apart */
+async function publishVersions(store: LocalContentStore, count: number, retention?: number) {
+  const releaseIds: string[] = [];
+  for (let v = 1; v <= count; v++) {
+    const now = new Date(Date.UTC(2026, 9, 19, 10, v));
+    const result = await publishCourseRelease(store, 'farming-101', courseFiles(v), { now, retention });
+    releaseIds.push(result.releaseId);
+  }
+  return releaseIds;
+}
+
+describe('createReleaseId', () => {
+  it('combines a sortable UTC timestamp with a content hash', () => {
+    const id = createReleaseId(new Date('2026-10-19T10:15:00.123Z'), { a: 1 });
+    expect(id).toMatch(/^20261019T101500Z-[0-9a-f]{8}$/);
+    expect(createReleaseId(new Date('2026-10-19T10:15:00Z'), { a: 2 })).not.toBe(id);
+  });
+});
+
+describe('selectReleasesToPrune', () => {
+  const releases = ['r5', 'r4', 'r3', 'r2', 'r1'].map(releaseId => ({ releaseId, publishedAt: '' }));
+
+  it('keeps the newest releases up to the retention count', () => {
+    expect(selectReleasesToPrune(releases, 'r5', 3)).toEqual(['r2', 'r1']);
+  });
+
+  it('always keeps the current release, even when it is old', () => {
+    expect(selectReleasesToPrune(releases, 'r1', 2)).toEqual(['r4', 'r3', 'r2']);
+  });
+
+  it('keeps at least the current release', () => {
+    expect(selectReleasesToPrune(releases, 'r5', 0)).toEqual(['r4', 'r3', 'r2', 'r1']);
+  });
+});
+
+describe('publishCourseRelease', () => {
+  it('writes the release, the manifest and the root copies', async () => {
+    const { dir, store } = makeStore();
+    const [releaseId] = await publishVersions(store, 1);
+
+    const manifest = await readCourseManifest(store, 'farming-101');
+    expect(manifest).toMatchObject({
+      courseId: 'farming-101',
+      currentRelease: releaseId,
+      detailPath: `courses/farming-101/releases/${releaseId}/course-detail.json`,
+    });
+    expect(fs.existsSync(path.join(dir, manifest!.summaryPath))).toBe(true);
+    expect(await store.readJson('courses/farming-101/course-summary.json')).toEqual(courseFiles(1).summary);
+    expect(await readPublishedCourse(store, 'farming-101')).toEqual(courseFiles(1));
+  });
+
+  it('prunes releases beyond the retention count', async () => {
+    const { dir, store } = makeStore();
+    const releaseIds = await publishVersions(store, 4, 2);
+
+    const manifest = await readCourseManifest(store, 'farming-101');
+    expect(manifest!.releases.map(r => r.releaseId)).toEqual([releaseIds[3], releaseIds[2]]);
+    expect(await store.listFiles('courses/farming-101/releases/')).toHaveLength(4);
+    expect(fs.existsSync(path.join(dir, `courses/farming-101/releases/${releaseIds[0]}/course-detail.json`))).toBe(false);
+  });
+});
+
+describe('rollbackCourseRelease', () => {
+  it('goes back one release by default', async () => {
+    const { store } = makeStore();
+    const releaseIds = await publishVersions(store, 3);
+
+    const manifest = await rollbackCourseRelease(store, 'farming-101');
+
+    expect(manifest.currentRelease).toBe(releaseIds[1]);
+    expect(manifest.releases).toHaveLength(3);
+    expect(await readPublishedCourse(store, 'farming-101')).toEqual(courseFiles(2));
+    expect(await store.readJson('courses/farming-101/course-detail.json')).toEqual(courseFiles(2).detail);
+  });
+
+  it('switches to an explicit release, including a newer one', async () => {
+    const { store } = makeStore();
+    const releaseIds = await publishVersions(store, 3);
+
+    await rollbackCourseRelease(store, 'farming-101', releaseIds[0]);
+    const manifest = await rollbackCourseRelease(store, 'farming-101', releaseIds[2]);
+
+    expect(manifest.currentRelease).toBe(releaseIds[2]);
+    expect(await readPublishedCourse(store, 'farming-101')).toEqual(courseFiles(3));
+  });
+
+  it('rejects unknown releases and courses without a manifest', async () => {
+    const { store } = makeStore();
+    await publishVersions(store, 1);
+
+    await expect(rollbackCourseRelease(store, 'farming-101')).rejects.toThrow('no release older');
+    await expect(rollbackCourseRelease(store, 'farming-101', 'nope')).rejects.toThrow('Unknown release');
+    await expect(rollbackCourseRelease(store, 'other-course')).rejects.toThrow('No manifest');
+  });
+});
+
+describe('readPublishedCourse', () => {
+  it('falls back to the root files for courses without a manifest', async () => {
+    const { store } = makeStore();
+    const options = { cacheControl: 'public, max-age=3600', public: true };
+    await writeJson(store, 'courses/farming-101/course-summary.json', courseFiles(1).summary, options);
+    await writeJson(store, 'courses/farming-101/course-detail.json', courseFiles(1).detail, options);
+
+    expect(await readPublishedCourse(store, 'farming-101')).toEqual(courseFiles(1));
+    expect(await readPublishedCourse(store, 'other-course')).toEqual({ summary: null, detail: null });
+  });
+});
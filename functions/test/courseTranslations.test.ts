@@ -0,0 +1,72 @@
+/**
+ * Tests for translation content IDs, language codes and the `translations`
+ * map of the course index.
+ *
+ * Runs entirely on the local filesystem — no Firebase or API dependencies.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { LocalContentStore } from '../src/contentStore';
+import { collectTranslations, contentId, normalizeLanguage, parseContentId } from '../src/courseTranslations';
+import { addCourseToIndex } from '../src/parseAllDocs';
+
+describe('normalizeLanguage', () => {
+  it('lowercases codes and accepts region subtags', () => {
+    expect(normalizeLanguage('ES')).toBe('es');
+    expect(normalizeLanguage(' pt_BR ')).toBe('pt-br');
+    expect(normalizeLanguage('zh-Hant')).toBe('zh-hant');
+  });
+
+  it('rejects names and empty values', () => {
+    expect(normalizeLanguage('Spanish')).toBeNull();
+    expect(normalizeLanguage('es/mx')).toBeNull();
+    expect(normalizeLanguage(undefined)).toBeNull();
+  });
+});
+
+describe('contentId', () => {
+  it('puts translations in a folder of the canonical course', () => {
+    expect(contentId({ courseId: 'farming-101' })).toBe('farming-101');
+    expect(contentId({ courseId: 'farming-101', language: 'es' })).toBe('farming-101/es');
+    expect(parseContentId('farming-101/es')).toEqual({ courseId: 'farming-101', language: 'es' });
+    expect(parseContentId('farming-101')).toEqual({ courseId: 'farming-101' });
+  });
+});
+
+describe('collectTranslations', () => {
+  it('lists sorted languages of listed courses only', () => {
+    const translations = collectTranslations([
+      { courseId: 'farming-101' },
+      { courseId: 'farming-101', language: 'sw' },
+      { courseId: 'farming-101', language: 'es' },
+      { courseId: 'archived', language: 'es' },
+    ], ['farming-101']);
+
+    expect(translations).toEqual({ 'farming-101': ['es', 'sw'] });
+  });
+});
+
+describe('addCourseToIndex', () => {
+  it('adds a translation to the translations map without listing it as a course', async () => {
+    const store = new LocalContentStore(fs.mkdtempSync(path.join(os.tmpdir(), 'course-translations-')));
+
+    await addCourseToIndex(store, 'farming-101');
+    await addCourseToIndex(store, 'farming-101/es');
+    await addCourseToIndex(store, 'farming-101/es');
+
+    expect(await store.readJson('courses/index.json')).toMatchObject({
+      courses: ['farming-101'],
+      translations: { 'farming-101': ['es'] },
+    });
+  });
+
+  it('leaves the translations map out when there are none', async () => {
+    const store = new LocalContentStore(fs.mkdtempSync(path.join(os.tmpdir(), 'course-translations-')));
+
+    await addCourseToIndex(store, 'farming-101');
+
+    expect(await store.readJson('courses/index.json')).not.toHaveProperty('translations');
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Tests for automatic republishing: Drive change filtering, debounce,
+ * notification checks, watch renewal and the jobs the schedules queue.
+ *
+ * Jobs and watch state live in memory and Drive is a fake.
+ */
+
+import {
+  DriveChange,
+  DriveChangesClient,
+  DriveWatchState,
+  ensureDriveWatch,
+  handleDriveNotification,
+  processDriveChanges,
+  recordDriveChanges,
+  runScheduledPublish,
+  selectSettledDocs,
+  WatchStateStore,
+} from '../src/driveWatch';
+import { JobStore, newPublishJob, PublishJob, QueuedJob } from '../src/publishJobs';
+
+class MemoryJobStore implements JobStore {
+  jobs: PublishJob[] = [];
+
+  async create(job: Omit<PublishJob, 'jobId'>): Promise<PublishJob> {
+    const created = { ...job, jobId: `job-${this.jobs.length + 1}` };
+    this.jobs.push(created);
+    return created;
+  }
+
+  async get(jobId: string): Promise<PublishJob | null> {
+    return this.jobs.find(job => job.jobId === jobId) ?? null;
+  }
+
+  async update(jobId: string, patch: Partial<PublishJob>): Promise<void> {
+    Object.assign(this.jobs.find(job => job.jobId === jobId)!, patch);
+  }
+
+  async createIfIdle(job: Omit<PublishJob, 'jobId'>, since: string): Promise<QueuedJob> {
+    const active = this.jobs.find(other => (other.status === 'queued' || other.status === 'running') && other.createdAt >= since);
+    return active ? { active } : { created: await this.create(job) };
+  }
+}
+
+class MemoryWatchStateStore implements WatchStateStore {
+  constructor(public state: DriveWatchState = {}) {}
+
+  async get(): Promise<DriveWatchState> {
+    return { ...this.state };
+  }
+
+  async update(patch: Partial<DriveWatchState>): Promise<void> {
+    this.state = { ...this.state, ...patch };
+  }
+}
+
+const FOLDER = 'folder-1';
+const DOC_MIME = 'application/vnd.google-apps.document';
+
+function docChange(fileId: string, modifiedTime: string, overrides: Partial<DriveChange['file']> = {}): DriveChange {
+  return { fileId, file: { mimeType: DOC_MIME, modifiedTime, parents: [FOLDER], ...overrides } };
+}
+
+function makeDrive(changes: DriveChange[] = []) {
+  const drive = {
+    getStartPageToken: jest.fn(async () => 'start-token'),
+    listChanges: jest.fn(async () => ({ changes, newStartPageToken: 'next-token' })),
+    watch: jest.fn(async (_pageToken: string, channel: { expiration: number }) => ({
+      resourceId: 'resource-1',
+      expiration: channel.expiration,
+    })),
+    stop: jest.fn(async () => undefined),
+  };
+  return drive satisfies DriveChangesClient;
+}
+
+function setup(state: DriveWatchState = {}, changes: DriveChange[] = []) {
+  const jobs = new MemoryJobStore();
+  const watchState = new MemoryWatchStateStore(state);
+  const drive = makeDrive(changes);
+  return { jobs, watchState, drive, deps: { jobs, state: watchState, drive, folderId: FOLDER } };
+}
+
+describe('recordDriveChanges', () => {
+  it('keeps the latest modifiedTime of docs in the folder', () => {
+    const pending = recordDriveChanges({ 'doc-1': '2026-10-19T10:00:00.000Z' }, [
+      docChange('doc-1', '2026-10-19T10:01:00.000Z'),
+      docChange('doc-2', '2026-10-19T10:02:00.000Z'),
+    ], FOLDER);
+
+    expect(pending).toEqual({ 'doc-1': '2026-10-19T10:01:00.000Z', 'doc-2': '2026-10-19T10:02:00.000Z' });
+  });
+
+  it('ignores other files and drops docs that were removed, trashed or moved away', () => {
+    const pending = recordDriveChanges({ 'doc-1': 't', 'doc-2': 't', 'doc-3': 't' }, [
+      { fileId: 'doc-1', removed: true },
+      docChange('doc-2', '2026-10-19T10:00:00.000Z', { trashed: true }),
+      docChange('doc-3', '2026-10-19T10:00:00.000Z', { parents: ['elsewhere'] }),
+      docChange('sheet-1', '2026-10-19T10:00:00.000Z', { mimeType: 'application/vnd.google-apps.spreadsheet' }),
+    ], FOLDER);
+
+    expect(pending).toEqual({});
+  });
+});
+
+describe('selectSettledDocs', () => {
+  it('returns docs without edits for the debounce period', () => {
+    const now = new Date('2026-10-19T10:05:00.000Z').getTime();
+    const pending = { 'doc-1': '2026-10-19T10:02:00.000Z', 'doc-2': '2026-10-19T10:04:30.000Z' };
+
+    expect(selectSettledDocs(pending, now, 2 * 60 * 1000)).toEqual(['doc-1']);
+  });
+});
+
+describe('handleDriveNotification', () => {
+  const channel = { channelId: 'channel-1', token: 'watch-token' };
+
+  async function notify(state: MemoryWatchStateStore, headers: Record<string, string>, method = 'POST') {
+    let statusCode = 0;
+    const res = {
+      status(code: number) {
+        statusCode = code;
+        return res;
+      },
+      send: () => undefined,
+    };
+    await handleDriveNotification({ method, get: header => headers[header.toLowerCase()] }, res, state);
+    return statusCode;
+  }
+
+  it('marks the watch dirty on a change', async () => {
+    const state = new MemoryWatchStateStore({ ...channel });
+    const status = await notify(state, {
+      'x-goog-channel-id': 'channel-1',
+      'x-goog-channel-token': 'watch-token',
+      'x-goog-resource-state': 'change',
+    });
+
+    expect(status).toBe(200);
+    expect(state.state.dirty).toBe(true);
+  });
+
+  it('acknowledges the sync message without marking the watch dirty', async () => {
+    const state = new MemoryWatchStateStore({ ...channel });
+    const status = await notify(state, {
+      'x-goog-channel-id': 'channel-1',
+      'x-goog-channel-token': 'watch-token',
+      'x-goog-resource-state': 'sync',
+    });
+
+    expect(status).toBe(200);
+    expect(state.state.dirty).toBeUndefined();
+  });
+
+  it('rejects a wrong token or an old channel', async () => {
+    const state = new MemoryWatchStateStore({ ...channel });
+
+    expect(await notify(state, { 'x-goog-channel-id': 'channel-1', 'x-goog-channel-token': 'guess' })).toBe(403);
+    expect(await notify(state, { 'x-goog-channel-id': 'channel-0', 'x-goog-channel-token': 'watch-token' })).toBe(403);
+    expect(state.state.dirty).toBeUndefined();
+  });
+});
+
+describe('ensureDriveWatch', () => {
+  const now = new Date('2026-10-19T10:00:00.000Z').getTime();
+
+  it('registers a channel from the start page token', async () => {
+    const { deps, drive, watchState } = setup();
+
+    await ensureDriveWatch(deps, 'https://example.com/driveChanges', now);
+
+    expect(drive.watch).toHaveBeenCalledWith('start-token', expect.objectContaining({ address: 'https://example.com/driveChanges' }));
+    expect(watchState.state).toMatchObject({ resourceId: 'resource-1', pageToken: 'start-token' });
+    expect(watchState.state.token).toHaveLength(48);
+  });
+
+  it('keeps a channel with more than a day left and renews one about to expire', async () => {
+    const fresh = setup({ channelId: 'old', resourceId: 'r-old', expiration: now + 3 * 24 * 3600 * 1000, pageToken: 'p' });
+    await ensureDriveWatch(fresh.deps, 'https://example.com/driveChanges', now);
+    expect(fresh.drive.watch).not.toHaveBeenCalled();
+
+    const expiring = setup({ channelId: 'old', resourceId: 'r-old', expiration: now + 3600 * 1000, pageToken: 'p' });
+    await ensureDriveWatch(expiring.deps, 'https://example.com/driveChanges', now);
+    expect(expiring.drive.watch).toHaveBeenCalledWith('p', expect.anything());
+    expect(expiring.drive.stop).toHaveBeenCalledWith('old', 'r-old');
+    expect(expiring.watchState.state.channelId).not.toBe('old');
+  });
+
+  it('does nothing without a webhook address', async () => {
+    const { deps, drive } = setup();
+    await ensureDriveWatch(deps, undefined, now);
+    expect(drive.watch).not.toHaveBeenCalled();
+  });
+});
+
+describe('runScheduledPublish', () => {
+  it('queues an incremental publish of the folder', async () => {
+    const { deps, jobs } = setup();
+    const job = await runScheduledPublish({ ...deps, channel: 'staging' });
+
+    expect(job).toMatchObject({ requestedBy: 'schedule', request: { type: 'all', folderId: FOLDER, channel: 'staging' } });
+    expect(jobs.jobs).toHaveLength(1);
+  });
+
+  it('skips the run while another publish is active', async () => {
+    const { deps, jobs } = setup();
+    await jobs.create(newPublishJob({ type: 'doc', docId: 'doc-1' }, 'shared-secret'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    expect(await runScheduledPublish(deps)).toBeNull();
+    expect(jobs.jobs).toHaveLength(1);
+  });
+});
+
+describe('processDriveChanges', () => {
+  const now = new Date('2026-10-19T10:10:00.000Z').getTime();
+
+  it('lists changes when dirty and queues a job for settled docs only', async () => {
+    const { deps, jobs, watchState, drive } = setup({ pageToken: 'p', dirty: true }, [
+      docChange('doc-1', '2026-10-19T10:01:00.000Z'),
+      docChange('doc-2', '2026-10-19T10:09:30.000Z'),
+    ]);
+
+    const job = await processDriveChanges(deps, { now });
+
+    expect(drive.listChanges).toHaveBeenCalledWith('p');
+    expect(job).toMatchObject({ requestedBy: 'drive-change', request: { type: 'changes', docIds: ['doc-1'], folderId: FOLDER } });
+    expect(jobs.jobs).toHaveLength(1);
+    expect(watchState.state).toMatchObject({
+      dirty: false,
+      pageToken: 'next-token',
+      pendingDocs: { 'doc-2': '2026-10-19T10:09:30.000Z' },
+    });
+  });
+
+  it('publishes a doc edited in a burst once, after the last edit settles', async () => {
+    const { deps, jobs, watchState } = setup({ pageToken: 'p' });
+    const burst = ['10:00:00', '10:00:40', '10:01:30'].map(time => `2026-10-19T${time}.000Z`);
+
+    for (const modifiedTime of burst) {
+      deps.drive.listChanges.mockResolvedValueOnce({ changes: [docChange('doc-1', modifiedTime)], newStartPageToken: 'p' });
+      await watchState.update({ dirty: true });
+      await processDriveChanges(deps, { now: new Date(modifiedTime).getTime() + 10 * 1000 });
+    }
+    expect(jobs.jobs).toHaveLength(0);
+
+    await processDriveChanges(deps, { now: new Date('2026-10-19T10:03:30.000Z').getTime() });
+    expect(jobs.jobs).toHaveLength(1);
+    expect(jobs.jobs[0].request.docIds).toEqual(['doc-1']);
+  });
+
+  it('keeps settled docs pending while another publish is active', async () => {
+    const { deps, jobs, watchState } = setup({ pageToken: 'p', pendingDocs: { 'doc-1': '2026-10-19T10:00:00.000Z' } });
+    await jobs.create(newPublishJob({ type: 'all' }, 'schedule'));
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+
+    expect(await processDriveChanges(deps, { now })).toBeNull();
+    expect(watchState.state.pendingDocs).toEqual({ 'doc-1': '2026-10-19T10:00:00.000Z' });
+  });
+
+  it('stays dirty when listing the changes fails', async () => {
+    const { deps, jobs, watchState } = setup({ pageToken: 'p', dirty: true });
+    deps.drive.listChanges.mockRejectedValueOnce(new Error('Drive unavailable'));
+
+    await expect(processDriveChanges(deps, { now })).rejects.toThrow('Drive unavailable');
+    expect(watchState.state).toMatchObject({ dirty: true, pageToken: 'p' });
+
+    deps.drive.listChanges.mockResolvedValueOnce({ changes: [docChange('doc-1', '2026-10-19T10:01:00.000Z')], newStartPageToken: 'q' });
+    await processDriveChanges(deps, { now });
+    expect(jobs.jobs[0].request.docIds).toEqual(['doc-1']);
+    expect(watchState.state).toMatchObject({ dirty: false, pageToken: 'q' });
+  });
+
+  it('stays dirty when a notification arrives during the listing', async () => {
+    const { deps, watchState } = setup({ pageToken: 'p', dirty: true, lastNotificationAt: '2026-10-19T10:00:00.000Z' });
+    deps.drive.listChanges.mockImplementationOnce(async () => {
+      await watchState.update({ dirty: true, lastNotificationAt: '2026-10-19T10:00:05.000Z' });
+      return { changes: [], newStartPageToken: 'q' };
+    });
+
+    await processDriveChanges(deps, { now });
+    expect(watchState.state).toMatchObject({ dirty: true, pageToken: 'q' });
+  });
+
+  it('does nothing before the watch is set up', async () => {
+    const { deps, drive } = setup({ dirty: true });
+    expect(await processDriveChanges(deps, { now })).toBeNull();
+    expect(drive.listChanges).not.toHaveBeenCalled();
+  });
+});
@@ -1,6 +1,8 @@
 /**
- * Tests for detectHeadingLevel(), isYouTubeUrl(), extractYouTubeId(),
- * marker detectors, isLessonHeading(), and buildCourseSummary/Detail.
+ * Tests for detectHeadingLevel(), YouTube/Vimeo/direct video URL helpers,
+ * marker detectors, isLessonHeading(), buildCourseSummary/Detail, quiz
+ * question, cloze and callout parsing, the glossary, and quiz question ID
+ * assignment.
  *
  * These are all pure functions — no Firebase or API dependencies.
  */
@@ -9,17 +11,41 @@ import {
   detectHeadingLevel,
   isYouTubeUrl,
   extractYouTubeId,
+  extractVimeoId,
+  extractStartSeconds,
+  getVideoProvider,
   isCalloutMarker,
+  getCalloutMarkerVariant,
   isFlashcardMarker,
   getQuizMarkerType,
+  getClozeMarkerMode,
+  parseClozeLine,
   isLessonHeading,
   buildCourseSummary,
   buildCourseDetail,
+  assignQuestionIds,
+  diffQuestionIds,
+  reportQuestionIdChanges,
+  carryLessonAliases,
+  computeContentHashes,
+  PARSER_VERSION,
+  collectReusableImages,
+  isSameCourseOutput,
   enforceInteractiveBlockConstraints,
   buildSpansFromGDocs,
   parseLessonMetadata,
+  parseLessons,
+  matchTranslatedLessons,
+  applyTranslatedLessonIds,
+  resolvePrerequisites,
+  parseGlossary,
+  annotateGlossaryTerms,
+  normalizeParagraph,
+  normalizeBodyContent,
   NormalizedParagraph,
 } from '../src/parseGoogleDoc';
+import { markdownToElements } from '../src/parseMarkdownCourse';
+import { ParseDiagnostics } from '../src/parseDiagnostics';
 
 // ─── detectHeadingLevel ─────────────────────────────────────────────────────
 
@@ -106,6 +132,203 @@ describe('extractYouTubeId', () => {
   it('returns null for non-YouTube URL', () => {
     expect(extractYouTubeId('https://vimeo.com/12345')).toBeNull();
   });
+
+  it('stops at the query string of a short link', () => {
+    expect(extractYouTubeId('https://youtu.be/abc123XYZ?t=90')).toBe('abc123XYZ');
+  });
+});
+
+// ─── Vimeo / direct video URLs ──────────────────────────────────────────────
+
+describe('getVideoProvider', () => {
+  it('detects each provider', () => {
+    expect(getVideoProvider('https://youtu.be/abc123XYZ')).toBe('youtube');
+    expect(getVideoProvider('https://vimeo.com/76979871')).toBe('vimeo');
+    expect(getVideoProvider('https://player.vimeo.com/video/76979871')).toBe('vimeo');
+    expect(getVideoProvider('https://cdn.example.com/intro.mp4')).toBe('native');
+    expect(getVideoProvider('https://cdn.example.com/live/master.m3u8?token=x')).toBe('native');
+  });
+
+  it('rejects other links', () => {
+    expect(getVideoProvider('https://vimeo.com/about')).toBeNull();
+    expect(getVideoProvider('https://example.com/video.mp4.html')).toBeNull();
+    expect(getVideoProvider('See https://example.com/a.mp4')).toBeNull();
+  });
+});
+
+describe('extractVimeoId', () => {
+  it('extracts from channel and player URLs', () => {
+    expect(extractVimeoId('https://vimeo.com/channels/staffpicks/76979871')).toBe('76979871');
+    expect(extractVimeoId('https://player.vimeo.com/video/76979871?h=abc')).toBe('76979871');
+  });
+});
+
+describe('extractStartSeconds', () => {
+  it('reads plain seconds from t= and start=', () => {
+    expect(extractStartSeconds('https://youtu.be/abc?t=90')).toBe(90);
+    expect(extractStartSeconds('https://www.youtube.com/watch?v=abc&start=45s')).toBe(45);
+  });
+
+  it('reads h/m/s values from the hash', () => {
+    expect(extractStartSeconds('https://vimeo.com/76979871#t=1m30s')).toBe(90);
+    expect(extractStartSeconds('https://cdn.example.com/a.mp4#t=1h0m5s')).toBe(3605);
+  });
+
+  it('returns undefined without an offset', () => {
+    expect(extractStartSeconds('https://vimeo.com/76979871')).toBeUndefined();
+    expect(extractStartSeconds('https://youtu.be/abc?t=0')).toBeUndefined();
+  });
+});
+
+describe('parseLessons tables and code', () => {
+  it('emits table and code blocks in document order', async () => {
+    const paragraphs = normalizeBodyContent(markdownToElements([
+      '# Lesson - Soil',
+      '| pH | Meaning |',
+      '|----|---------|',
+      '| 7 | Neutral |',
+      '```bash',
+      'soil-test --ph',
+      '```',
+    ].join('\n'), '/tmp'));
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'soil', async () => null);
+    logSpy.mockRestore();
+
+    expect(lesson.blocks).toEqual([
+      {
+        id: 'b1',
+        type: 'table',
+        hasHeader: true,
+        rows: [
+          [[{ text: 'pH', bold: false, italic: false }], [{ text: 'Meaning', bold: false, italic: false }]],
+          [[{ text: '7', bold: false, italic: false }], [{ text: 'Neutral', bold: false, italic: false }]],
+        ],
+      },
+      { id: 'b2', type: 'code', code: 'soil-test --ph', language: 'bash' },
+    ]);
+  });
+});
+
+describe('parseLessons lists', () => {
+  const span = (text: string) => [{ text, bold: false, italic: false }];
+
+  async function parseMarkdownLesson(lines: string[]) {
+    const paragraphs = normalizeBodyContent(markdownToElements(['# Lesson - Soil', ...lines].join('\n'), '/tmp'));
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'soil', async () => null);
+    logSpy.mockRestore();
+    return lesson.blocks;
+  }
+
+  it('keeps flat bullet lists in the original shape', async () => {
+    expect(await parseMarkdownLesson(['- Sand', '- Clay'])).toEqual([
+      { id: 'b1', type: 'list', style: 'bullet', items: [span('Sand'), span('Clay')] },
+    ]);
+  });
+
+  it('emits numbered lists with nested items and per-item styles', async () => {
+    expect(await parseMarkdownLesson([
+      '1. Dig',
+      '   - Use a spade',
+      '   - Keep the topsoil',
+      '2. Plant',
+      '    1. Water first',
+    ])).toEqual([
+      {
+        id: 'b1',
+        type: 'list',
+        style: 'ordered',
+        items: [span('Dig'), span('Use a spade'), span('Keep the topsoil'), span('Plant'), span('Water first')],
+        levels: [0, 1, 1, 0, 1],
+        styles: ['ordered', 'bullet', 'bullet', 'ordered', 'ordered'],
+      },
+    ]);
+  });
+
+  it('starts a new list when the top-level style changes', async () => {
+    const blocks = await parseMarkdownLesson(['- Sand', '1. Dig']);
+    expect(blocks.map((block: any) => block.style)).toEqual(['bullet', 'ordered']);
+  });
+
+  it('starts a new list for a different Docs list', async () => {
+    const item = (text: string, listId: string) => ({
+      headingLevel: 0, plainText: text, richText: span(text), isBullet: true, hasImage: false,
+      listStyle: 'ordered' as const, nestingLevel: 0, listId,
+    });
+    const heading = { headingLevel: 1, plainText: 'Lesson - Soil', richText: span('Lesson - Soil'), isBullet: false, hasImage: false };
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [lesson] = await parseLessons([heading, item('A', 'l1'), item('B', 'l1'), item('C', 'l2')], 'soil', async () => null);
+    logSpy.mockRestore();
+    expect(lesson.blocks.map((block: any) => block.items.length)).toEqual([2, 1]);
+  });
+});
+
+describe('parseLessons videos', () => {
+  it('builds video blocks with an optional title and start time', async () => {
+    const paragraphs = markdownToElements([
+      '# Lesson - Soil',
+      'https://vimeo.com/76979871#t=30',
+      'Title: Soil layers',
+      'https://cdn.example.com/intro.mp4',
+      'After.',
+    ].join('\n'), '/tmp').map(e => normalizeParagraph(e)!);
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'soil', async () => null);
+    logSpy.mockRestore();
+
+    expect(lesson.blocks.map((b: any) => b.type)).toEqual(['video', 'video', 'text']);
+    expect(lesson.blocks[0]).toMatchObject({ provider: 'vimeo', videoId: '76979871', title: 'Soil layers', startSeconds: 30 });
+    expect(lesson.blocks[1]).toMatchObject({ provider: 'native', src: 'https://cdn.example.com/intro.mp4', title: '' });
+    expect(lesson.blocks[1].startSeconds).toBeUndefined();
+  });
+});
+
+describe('parseLessons image captions', () => {
+  const resolveImage = async (_ref: string, storageBasePath: string) => ({
+    publicUrl: `${storageBasePath}.png`,
+    sha256: 'sha',
+    version: 'v1',
+    aspectRatio: 1.5,
+    variants: [{ src: `${storageBasePath}-480w.webp`, width: 480, height: 320, format: 'webp' as const }],
+  });
+
+  async function parse(paragraphs: NormalizedParagraph[]) {
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'soil', resolveImage);
+    logSpy.mockRestore();
+    return lesson;
+  }
+
+  it('takes the caption from a "Caption:" line below the image', async () => {
+    const lesson = await parse(markdownToElements([
+      '# Lesson - Soil',
+      '![](/tmp/layers.png)',
+      'Caption: Soil layers in a road cut',
+      'After.',
+    ].join('\n'), '/tmp').map(e => normalizeParagraph(e)!));
+
+    expect(lesson.blocks.map((b: any) => b.type)).toEqual(['image', 'text']);
+    expect(lesson.blocks[0]).toMatchObject({
+      src: 'courses/soil/lessons/soil-soil/image-1.png',
+      caption: 'Soil layers in a road cut',
+      aspectRatio: 1.5,
+      variants: [{ src: 'courses/soil/lessons/soil-soil/image-1-480w.webp', width: 480, height: 320, format: 'webp' }],
+    });
+  });
+
+  it('falls back to the Docs alt text', async () => {
+    const element = { paragraph: { elements: [{ inlineObjectElement: { inlineObjectId: 'img1' } }], paragraphStyle: {} } };
+    const inlineObjects = { img1: { inlineObjectProperties: { embeddedObject: { title: 'Layers', description: 'Soil layers' } } } };
+    const paragraphs = [
+      ...markdownToElements('# Lesson - Soil', '/tmp').map(e => normalizeParagraph(e)!),
+      ...normalizeBodyContent([element], undefined, inlineObjects),
+    ];
+
+    const lesson = await parse(paragraphs);
+
+    expect(lesson.blocks[0]).toMatchObject({ type: 'image', caption: 'Soil layers' });
+  });
 });
 
 // ─── Marker Detectors ───────────────────────────────────────────────────────
@@ -122,6 +345,26 @@ describe('isCalloutMarker', () => {
   it('rejects text with callout in it', () => {
     expect(isCalloutMarker('This is [CALLOUT] text')).toBe(false);
   });
+
+  it('matches variant markers but not the end marker', () => {
+    expect(isCalloutMarker('[CALLOUT:warning]')).toBe(true);
+    expect(isCalloutMarker('[/CALLOUT]')).toBe(false);
+  });
+});
+
+describe('getCalloutMarkerVariant', () => {
+  it('defaults to tip', () => {
+    expect(getCalloutMarkerVariant('[CALLOUT]')).toBe('tip');
+  });
+
+  it('reads the variant after the colon', () => {
+    expect(getCalloutMarkerVariant('[CALLOUT:warning]')).toBe('warning');
+    expect(getCalloutMarkerVariant('[CALLOUT: Exam]')).toBe('exam');
+  });
+
+  it('returns unknown variants as written for the caller to report', () => {
+    expect(getCalloutMarkerVariant('[CALLOUT:danger]')).toBe('danger');
+  });
 });
 
 describe('isFlashcardMarker', () => {
@@ -139,6 +382,11 @@ describe('getQuizMarkerType', () => {
     expect(getQuizMarkerType('[QUIZ_CHOICE]')).toBe('mcq');
   });
 
+  it('returns multi_select for [QUIZ_MULTI] and ordering for [QUIZ_ORDER]', () => {
+    expect(getQuizMarkerType('[QUIZ_MULTI]')).toBe('multi_select');
+    expect(getQuizMarkerType('[QUIZ_ORDER]')).toBe('ordering');
+  });
+
   it('returns true_false for [QUIZ_TRUE_FALSE]', () => {
     expect(getQuizMarkerType('[QUIZ_TRUE_FALSE]')).toBe('true_false');
   });
@@ -153,6 +401,14 @@ describe('getQuizMarkerType', () => {
   });
 });
 
+describe('getClozeMarkerMode', () => {
+  it('returns type for [CLOZE] and pick for [CLOZE:pick]', () => {
+    expect(getClozeMarkerMode('[CLOZE]')).toBe('type');
+    expect(getClozeMarkerMode('[CLOZE:pick]')).toBe('pick');
+    expect(getClozeMarkerMode('[CLOZE:other]')).toBeNull();
+  });
+});
+
 // ─── isLessonHeading ────────────────────────────────────────────────────────
 
 describe('isLessonHeading', () => {
@@ -212,6 +468,16 @@ describe('buildSpansFromGDocs', () => {
     );
   });
 
+  it('marks monospace runs as code', () => {
+    const runs = [
+      { text: 'npm install', style: { weightedFontFamily: { fontFamily: 'Roboto Mono' } } },
+      { text: ' then', style: { weightedFontFamily: { fontFamily: 'Arial' } } },
+    ];
+    const result = buildSpansFromGDocs(runs);
+    expect(result[0].code).toBe(true);
+    expect(result[1].code).toBeUndefined();
+  });
+
   it('skips whitespace-only runs', () => {
     const runs = [
       { text: '  \n  ', style: {} },
@@ -286,6 +552,51 @@ describe('parseLessonMetadata', () => {
     expect(consumed).toBe(1);
   });
 
+  it('parses ;-separated objectives, prerequisites and tags', () => {
+    const lesson: any = {};
+    const paragraphs = [
+      makePara('Objectives: Name soil types; Test pH, at home'),
+      makePara('Prerequisites: Soil, Water and Air; Lesson 2'),
+      makePara('Tags: soil, chemistry'),
+    ];
+
+    expect(parseLessonMetadata(lesson, paragraphs, 0)).toBe(3);
+    expect(lesson.learningObjectives).toEqual(['Name soil types', 'Test pH, at home']);
+    expect(lesson.prerequisites).toEqual(['Soil, Water and Air', 'Lesson 2']);
+    expect(lesson.tags).toEqual(['soil', 'chemistry']);
+  });
+
+  it('reads Previous IDs as written; parseLessons turns titles into IDs', async () => {
+    const lesson: any = {};
+    expect(parseLessonMetadata(lesson, [makePara('Previous IDs: soil-basics; Old Soil Intro')], 0)).toBe(1);
+    expect(lesson.aliases).toEqual(['soil-basics', 'Old Soil Intro']);
+
+    const paragraphs = normalizeBodyContent(markdownToElements(
+      '# Lesson - Soil Basics\nPrevious IDs: soil-intro; Lesson - Sun, Rain and Soil\n\nHello',
+      '/tmp',
+    ));
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [parsed] = await parseLessons(paragraphs, 'soil', async () => null);
+    logSpy.mockRestore();
+    expect(parsed.aliases).toEqual(['soil-intro', 'soil-sun-rain-and-soil']);
+  });
+
+  it('reads bulleted objectives after the Objectives line', () => {
+    const lesson: any = {};
+    const bullet = (text: string) => ({ ...makePara(text), isBullet: true });
+    const paragraphs = [
+      makePara('Objectives:'),
+      bullet('Name soil types'),
+      bullet('Test pH'),
+      makePara('Duration (minutes): 10'),
+      bullet('First list item of the lesson'),
+    ];
+
+    expect(parseLessonMetadata(lesson, paragraphs, 0)).toBe(4);
+    expect(lesson.learningObjectives).toEqual(['Name soil types', 'Test pH']);
+    expect(lesson.estimatedDurationMinutes).toBe(10);
+  });
+
   it('handles startIndex offset', () => {
     const lesson: any = {};
     const paragraphs = [
@@ -301,6 +612,39 @@ describe('parseLessonMetadata', () => {
   });
 });
 
+describe('resolvePrerequisites', () => {
+  const makeLessons = () => [
+    { lessonId: 'soil-basics', title: 'Basics', order: 1, prerequisites: undefined as any },
+    { lessonId: 'soil-ph-testing', title: 'pH Testing', order: 2, prerequisites: undefined as any },
+    { lessonId: 'soil-compost', title: 'Compost', order: 3, prerequisites: undefined as any },
+  ];
+
+  it('resolves IDs, titles and lesson numbers to lesson IDs', () => {
+    const lessons = makeLessons();
+    lessons[2].prerequisites = ['soil-basics', 'Lesson - pH testing', 'Lesson 1'];
+    const diagnostics = new ParseDiagnostics();
+    resolvePrerequisites(lessons, 'soil', diagnostics);
+
+    expect(lessons[2].prerequisites).toEqual(['soil-basics', 'soil-ph-testing']);
+    expect(diagnostics.items).toEqual([]);
+  });
+
+  it('drops unknown and self references with a finding', () => {
+    const lessons = makeLessons();
+    lessons[1].prerequisites = ['Weather', 'pH Testing'];
+    const diagnostics = new ParseDiagnostics();
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    resolvePrerequisites(lessons, 'soil', diagnostics);
+    warnSpy.mockRestore();
+
+    expect(lessons[1]).not.toHaveProperty('prerequisites');
+    expect(diagnostics.items.map(d => [d.code, d.lessonId])).toEqual([
+      ['unknown-prerequisite', 'soil-ph-testing'],
+      ['unknown-prerequisite', 'soil-ph-testing'],
+    ]);
+  });
+});
+
 // ─── buildCourseSummary ─────────────────────────────────────────────────────
 
 describe('buildCourseSummary', () => {
@@ -411,6 +755,465 @@ describe('buildCourseDetail', () => {
   });
 });
 
+// ─── Quiz question parsing ──────────────────────────────────────────────────
+
+describe('parseLessons quiz questions', () => {
+  async function parseQuestions(lines: string[]): Promise<any[]> {
+    const paragraphs = markdownToElements(['# Lesson - Exam', ...lines].join('\n'), '/tmp')
+      .map(e => normalizeParagraph(e)!);
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'cert', async () => null);
+    logSpy.mockRestore();
+    return lesson._quizQuestions;
+  }
+
+  it('accepts more than four MCQ choices', async () => {
+    const [question] = await parseQuestions([
+      '[QUIZ_CHOICE]',
+      'Prompt: Pick F',
+      'A) a', 'B) b', 'C) c', 'D) d', 'E) e', 'F) f [CORRECT]',
+    ]);
+    expect(question.choices).toEqual(['a', 'b', 'c', 'd', 'e', 'f']);
+    expect(question.correctAnswer).toBe('f');
+  });
+
+  it('collects every [CORRECT] choice for [QUIZ_MULTI]', async () => {
+    const [question] = await parseQuestions([
+      '[QUIZ_MULTI]',
+      'Prompt: Which are primary colours?',
+      'A) Red [CORRECT]',
+      'B) Green',
+      'C) Blue [CORRECT]',
+    ]);
+    expect(question.type).toBe('multi_select');
+    expect(question.choices).toEqual(['Red', 'Green', 'Blue']);
+    expect(question.correctAnswer).toEqual(['Red', 'Blue']);
+  });
+
+  it('uses the written order as the answer for [QUIZ_ORDER]', async () => {
+    const [question] = await parseQuestions([
+      '[QUIZ_ORDER]',
+      'Prompt: Order the steps',
+      '1) Plan',
+      '2) Build',
+      '3) Test',
+    ]);
+    expect(question.type).toBe('ordering');
+    expect(question.choices).toEqual(['Plan', 'Build', 'Test']);
+    expect(question.correctAnswer).toEqual(['Plan', 'Build', 'Test']);
+  });
+});
+
+// ─── Cloze parsing ──────────────────────────────────────────────────────────
+
+describe('parseClozeLine', () => {
+  it('splits text and gaps with alternative answers', () => {
+    expect(parseClozeLine('Je {{suis|suis bien}} content.')).toEqual([
+      { type: 'text', text: 'Je ' },
+      { type: 'gap', gapId: 'g1', answers: ['suis', 'suis bien'] },
+      { type: 'text', text: ' content.' },
+    ]);
+  });
+
+  it('continues gap numbering and keeps empty braces as text', () => {
+    expect(parseClozeLine('{{a}} {{ }}', 3)).toEqual([
+      { type: 'gap', gapId: 'g3', answers: ['a'] },
+      { type: 'text', text: ' ' },
+      { type: 'text', text: '{{ }}' },
+    ]);
+  });
+});
+
+describe('parseLessons cloze blocks', () => {
+  async function parseBlocks(lines: string[]): Promise<any[]> {
+    const paragraphs = markdownToElements(['# Lesson - French', ...lines].join('\n'), '/tmp')
+      .map(e => normalizeParagraph(e)!);
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'fr', async () => null);
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    return lesson.blocks;
+  }
+
+  it('collects consecutive gap lines into one block', async () => {
+    const blocks = await parseBlocks([
+      '[CLOZE]',
+      'Je {{suis}} ici.',
+      'Tu {{es}} là.',
+      'Plain text after.',
+    ]);
+    expect(blocks.map(b => b.type)).toEqual(['cloze', 'text']);
+    expect(blocks[0].lines).toHaveLength(2);
+    expect(blocks[0].lines[1][1]).toEqual({ type: 'gap', gapId: 'g2', answers: ['es'] });
+    expect(blocks[0].wordBank).toBeUndefined();
+  });
+
+  it('builds a sorted word bank with distractors in pick mode', async () => {
+    const [block] = await parseBlocks([
+      '[CLOZE:pick]',
+      'Je {{suis}} et tu {{es}}.',
+      'Distractors: sommes, avez',
+    ]);
+    expect(block.wordBank).toEqual(['avez', 'es', 'sommes', 'suis']);
+  });
+
+  it('skips a marker with no gaps', async () => {
+    expect(await parseBlocks(['[CLOZE]', 'No gaps here.'])).toEqual([
+      expect.objectContaining({ type: 'text' }),
+    ]);
+  });
+});
+
+// ─── assignQuestionIds ──────────────────────────────────────────────────────
+
+describe('assignQuestionIds', () => {
+  it('derives the same ID from lessonId + prompt on every parse', () => {
+    const [first] = assignQuestionIds('bio-101-cells', [{ questionId: '', prompt: 'What is a cell?' }]);
+    const [second] = assignQuestionIds('bio-101-cells', [{ questionId: '', prompt: '  what is a  CELL? ' }]);
+
+    expect(first.questionId).toMatch(/^bio-101-cells-q-[0-9a-f]{8}$/);
+    expect(second.questionId).toBe(first.questionId);
+  });
+
+  it('keeps IDs when questions are reordered', () => {
+    const a = { questionId: '', prompt: 'A?' };
+    const b = { questionId: '', prompt: 'B?' };
+    const ids = assignQuestionIds('l1', [a, b]).map(q => q.questionId);
+    const reordered = assignQuestionIds('l1', [b, a]).map(q => q.questionId);
+
+    expect(reordered).toEqual([ids[1], ids[0]]);
+  });
+
+  it('prefixes an explicit ID: with the lessonId (slugified)', () => {
+    const [question] = assignQuestionIds('l1', [{ questionId: 'Soil Layers', prompt: 'Which layer?' }]);
+    expect(question.questionId).toBe('l1-soil-layers');
+  });
+
+  it('keeps an explicit ID: that already starts with the lessonId', () => {
+    const [question] = assignQuestionIds('l1', [{ questionId: 'l1-q-0a1b2c3d', prompt: 'Reworded?' }]);
+    expect(question.questionId).toBe('l1-q-0a1b2c3d');
+  });
+
+  it('falls back to position when there is no prompt', () => {
+    const questions = assignQuestionIds('l1', [{ questionId: '', prompt: 'A?' }, { questionId: '' }]);
+    expect(questions[1].questionId).toBe('l1-q2');
+  });
+
+  it('suffixes colliding IDs and warns', () => {
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const questions = assignQuestionIds('l1', [
+      { questionId: 'same', prompt: 'A?' },
+      { questionId: 'same', prompt: 'B?' },
+    ]);
+
+    expect(questions.map(q => q.questionId)).toEqual(['l1-same', 'l1-same-2']);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    warnSpy.mockRestore();
+  });
+});
+
+// ─── diffQuestionIds ────────────────────────────────────────────────────────
+
+describe('diffQuestionIds', () => {
+  const detail = (ids: string[]) => ({
+    quizzes: [{ quizId: 'quiz-l1', lessonId: 'l1', questions: ids.map(questionId => ({ questionId })) }],
+  });
+
+  it('reports published IDs that are gone', () => {
+    expect(diffQuestionIds(detail(['q1', 'q2']), detail(['q1', 'q3']))).toEqual([
+      { quizId: 'quiz-l1', lessonId: 'l1', removed: ['q2'], added: ['q3'] },
+    ]);
+  });
+
+  it('records changed IDs as warnings for the parse report', () => {
+    const diagnostics = new ParseDiagnostics();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    reportQuestionIdChanges(detail(['q1', 'q2']), detail(['q1', 'q3']), diagnostics);
+    jest.restoreAllMocks();
+
+    expect(diagnostics.items).toEqual([
+      expect.objectContaining({ severity: 'warning', code: 'question-id-changed', lessonId: 'l1' }),
+    ]);
+    expect(diagnostics.items[0].message).toContain('q2 (new: q3)');
+  });
+
+  it('reports nothing on first publish or when IDs are unchanged', () => {
+    expect(diffQuestionIds(null, detail(['q1']))).toEqual([]);
+    expect(diffQuestionIds(detail(['q1']), detail(['q1', 'q2']))).toEqual([]);
+  });
+});
+
+// ─── Translations ───────────────────────────────────────────────────────────
+
+describe('matchTranslatedLessons', () => {
+  const canonical = {
+    lessons: [
+      { lessonId: 'soil-basics', title: 'Basics', order: 1, aliases: ['soil-intro'] },
+      { lessonId: 'soil-compost', title: 'Compost', order: 2 },
+      { lessonId: 'soil-water', title: 'Water', order: 3 },
+    ],
+    quizzes: [{ quizId: 'quiz-soil-basics', lessonId: 'soil-basics', questions: [{ questionId: 'soil-basics-q-1a2b3c4d' }] }],
+  };
+  const paragraphs = (lines: string[]) =>
+    markdownToElements(lines.join('\n'), '/tmp').map(e => normalizeParagraph(e)!);
+
+  it('matches lessons by position, or by "Translation Of:" under the heading', () => {
+    const diagnostics = new ParseDiagnostics();
+    const lessonIds = matchTranslatedLessons(paragraphs([
+      '# Lesson - Agua',
+      'Translation Of: Water',
+      '# Lesson - Fundamentos',
+      '# Lesson - Compostaje',
+    ]), 'soil', canonical, diagnostics);
+
+    expect([...lessonIds]).toEqual([
+      ['soil-agua', 'soil-water'],
+      ['soil-fundamentos', 'soil-compost'],
+    ]);
+    expect(diagnostics.items.map(d => [d.code, d.lessonId])).toEqual([
+      ['unmatched-translation-lesson', 'soil-compostaje'],
+      ['untranslated-lesson', 'soil-basics'],
+    ]);
+  });
+
+  it('warns about a "Translation Of:" that matches no lesson', () => {
+    const diagnostics = new ParseDiagnostics();
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const lessonIds = matchTranslatedLessons(paragraphs(['# Lesson - Agua', 'Translation Of: Lesson 9']), 'soil', canonical, diagnostics);
+    jest.restoreAllMocks();
+
+    expect(lessonIds.size).toBe(0);
+    expect(diagnostics.items[0]).toMatchObject({ code: 'unmatched-translation-lesson', excerpt: 'Translation Of: Lesson 9' });
+  });
+
+  it('gives translated lessons the canonical IDs, aliases and question IDs', async () => {
+    const lines = [
+      '# Lesson - Fundamentos',
+      '[QUIZ_CHOICE]',
+      'Prompt: ¿Qué capa está arriba?',
+      'A) Mantillo [CORRECT]',
+      'B) Roca',
+      '# Lesson - Compostaje',
+      'Prerequisites: Fundamentos',
+      'Hola.',
+    ];
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const lessons = await parseLessons(paragraphs(lines), 'soil', async () => null);
+    logSpy.mockRestore();
+
+    applyTranslatedLessonIds(lessons, matchTranslatedLessons(paragraphs(lines), 'soil', canonical), canonical);
+    const detail = buildCourseDetail({ courseId: 'soil' }, lessons);
+
+    expect(detail.lessons.map((l: any) => l.lessonId)).toEqual(['soil-basics', 'soil-compost']);
+    expect(detail.lessons[0].aliases).toEqual(['soil-intro']);
+    expect(detail.lessons[1].prerequisites).toEqual(['soil-basics']);
+    expect(detail.lessons[0].translationOf).toBeUndefined();
+    expect(detail.quizzes[0]).toMatchObject({ quizId: 'quiz-soil-basics', lessonId: 'soil-basics' });
+    expect(detail.quizzes[0].questions[0].questionId).toBe('soil-basics-q-1a2b3c4d');
+  });
+});
+
+// ─── carryLessonAliases ─────────────────────────────────────────────────────
+
+describe('carryLessonAliases', () => {
+  const lesson = (lessonId: string, title: string, order: number, extra: Record<string, any> = {}) => ({
+    lessonId,
+    title,
+    order,
+    blocks: [{ id: 'b1', type: 'text', content: [{ text: `About ${title}` }] }],
+    ...extra,
+  });
+
+  it('detects a typo fix at the same position and keeps older aliases', () => {
+    const previous = { lessons: [lesson('soil-compsot', 'Compsot', 1, { aliases: ['soil-compost-101'] })] };
+    const next = { lessons: [lesson('soil-compost', 'Compost', 1)] };
+
+    expect(carryLessonAliases(previous, next)).toEqual({
+      renamed: [{ from: 'soil-compsot', to: 'soil-compost' }],
+      dropped: [],
+    });
+    expect(next.lessons[0]).toMatchObject({ aliases: ['soil-compsot', 'soil-compost-101'] });
+  });
+
+  it('detects a retitle when the content is unchanged', () => {
+    const previous = { lessons: [lesson('soil-intro', 'Intro', 1)] };
+    const next = { lessons: [{ ...lesson('soil-intro', 'Intro', 1), lessonId: 'soil-getting-started', title: 'Getting Started' }] };
+
+    expect(carryLessonAliases(previous, next).renamed).toEqual([{ from: 'soil-intro', to: 'soil-getting-started' }]);
+  });
+
+  it('matches retitled lessons with images, whose paths contain the lesson ID', () => {
+    const withImage = (lessonId: string, title: string) => lesson(lessonId, title, 1, {
+      blocks: [{
+        id: `${lessonId}-b1`,
+        type: 'image',
+        src: `https://cdn.example.com/courses/soil/lessons/${lessonId}/image-1.png`,
+        version: 'abc123',
+        hash: 'abc123def',
+        variants: [{ src: `https://cdn.example.com/courses/soil/lessons/${lessonId}/image-1-480w.webp`, width: 480, height: 320, format: 'webp' }],
+      }],
+    });
+    const previous = { lessons: [withImage('soil-intro', 'Intro')] };
+    const next = { lessons: [withImage('soil-getting-started', 'Getting Started')] };
+
+    expect(carryLessonAliases(previous, next).renamed).toEqual([{ from: 'soil-intro', to: 'soil-getting-started' }]);
+  });
+
+  it('follows retitled lessons that also moved', () => {
+    const previous = { lessons: [lesson('soil-intro', 'Intro', 1), lesson('soil-outro', 'Outro', 2)] };
+    const next = {
+      lessons: [
+        { ...lesson('soil-outro', 'Outro', 1), lessonId: 'soil-closing', title: 'Closing' },
+        { ...lesson('soil-intro', 'Intro', 2), lessonId: 'soil-welcome', title: 'Welcome' },
+      ],
+    };
+
+    expect(carryLessonAliases(previous, next).renamed).toEqual([
+      { from: 'soil-intro', to: 'soil-welcome' },
+      { from: 'soil-outro', to: 'soil-closing' },
+    ]);
+  });
+
+  it('infers nothing when more than one lesson matches', () => {
+    const previous = { lessons: [lesson('soil-intro', 'Intro', 1)] };
+    const next = {
+      lessons: [
+        { ...lesson('soil-intro', 'Intro', 1), lessonId: 'soil-welcome', title: 'Welcome' },
+        { ...lesson('soil-intro', 'Intro', 2), lessonId: 'soil-welcome-again', title: 'Welcome Again' },
+      ],
+    };
+
+    expect(carryLessonAliases(previous, next)).toEqual({ renamed: [], dropped: ['soil-intro'] });
+    expect(next.lessons[0]).not.toHaveProperty('aliases');
+  });
+
+  it('carries aliases forward and drops ones that became current IDs', () => {
+    const previous = { lessons: [lesson('soil-basics', 'Basics', 1, { aliases: ['soil-intro', 'soil-ph'] })] };
+    const next = {
+      lessons: [
+        lesson('soil-basics', 'Basics', 1, { aliases: ['soil-start'] }),
+        lesson('soil-ph', 'pH', 2),
+      ],
+    };
+
+    expect(carryLessonAliases(previous, next)).toEqual({ renamed: [], dropped: [] });
+    expect(next.lessons[0]).toMatchObject({ aliases: ['soil-start', 'soil-intro'] });
+    expect(next.lessons[1]).not.toHaveProperty('aliases');
+  });
+
+  it('reports removed lessons that look nothing like the new ones', () => {
+    const previous = { lessons: [lesson('soil-basics', 'Basics', 1), lesson('soil-weather', 'Weather', 2)] };
+    const next = { lessons: [lesson('soil-basics', 'Basics', 1), lesson('soil-irrigation-systems', 'Irrigation Systems', 2)] };
+
+    expect(carryLessonAliases(previous, next)).toEqual({ renamed: [], dropped: ['soil-weather'] });
+    expect(next.lessons[1]).not.toHaveProperty('aliases');
+  });
+
+  it('does nothing on first publish', () => {
+    const next = { lessons: [lesson('soil-basics', 'Basics', 1)] };
+    expect(carryLessonAliases(null, next)).toEqual({ renamed: [], dropped: [] });
+    expect(next.lessons[0]).not.toHaveProperty('aliases');
+  });
+});
+
+// ─── Content hashing ────────────────────────────────────────────────────────
+
+describe('computeContentHashes', () => {
+  function makePara(text: string, headingLevel = 0): NormalizedParagraph {
+    return {
+      headingLevel,
+      plainText: text,
+      richText: [{ text, bold: false, italic: false }],
+      isBullet: false,
+      hasImage: false,
+    };
+  }
+
+  const doc = (lessonTwoText: string) => [
+    makePara('Course ID: soil'),
+    makePara('Lesson - Basics', 1),
+    makePara('Soil is alive.'),
+    makePara('Lesson - Compost', 1),
+    makePara(lessonTwoText),
+  ];
+
+  it('changes only the hashes of the edited lesson', () => {
+    const before = computeContentHashes(doc('Keep it moist.'), 'soil');
+    const after = computeContentHashes(doc('Keep it damp.'), 'soil');
+
+    expect(Object.keys(after.lessonHashes)).toEqual(['soil-basics', 'soil-compost']);
+    expect(after.metadataHash).toBe(before.metadataHash);
+    expect(after.lessonHashes['soil-basics']).toBe(before.lessonHashes['soil-basics']);
+    expect(after.lessonHashes['soil-compost']).not.toBe(before.lessonHashes['soil-compost']);
+    expect(after.contentHash).not.toBe(before.contentHash);
+    expect(computeContentHashes(doc('Keep it moist.'), 'soil')).toEqual(before);
+    expect(before.parserVersion).toBe(PARSER_VERSION);
+  });
+
+  it('ignores the short-lived image content URI but not a swapped image', () => {
+    const paragraphs = [makePara('Course ID: soil'), { ...makePara(''), hasImage: true, imageObjectId: 'img1' }];
+    const inlineObjects = (contentUri: string, width: number) => ({
+      img1: {
+        inlineObjectProperties: {
+          embeddedObject: { imageProperties: { contentUri }, size: { width: { magnitude: width } } },
+        },
+      },
+    });
+
+    const hash = computeContentHashes(paragraphs, 'soil', inlineObjects('https://a', 100)).metadataHash;
+    expect(computeContentHashes(paragraphs, 'soil', inlineObjects('https://b', 100)).metadataHash).toBe(hash);
+    expect(computeContentHashes(paragraphs, 'soil', inlineObjects('https://a', 200)).metadataHash).not.toBe(hash);
+  });
+});
+
+describe('collectReusableImages', () => {
+  const image = (src: string) => ({ id: 'b1', type: 'image', src, hash: `${src}-sha`, version: `${src}-v` });
+  const previousSummary = { thumbnailUrl: 'thumb.png', thumbnailHash: 'thumb-sha', thumbnailVersion: 'thumb-v' };
+  const previousDetail = {
+    lessons: [
+      { lessonId: 'soil-basics', blocks: [image('basics-1.png')] },
+      { lessonId: 'soil-compost', blocks: [image('compost-1.png')] },
+    ],
+  };
+  const hashes = { parserVersion: PARSER_VERSION, contentHash: 'new', metadataHash: 'm1', lessonHashes: { 'soil-basics': 'b1', 'soil-compost': 'c2' } };
+
+  it('returns images of unchanged sections only', () => {
+    const reusable = collectReusableImages(
+      { metadataHash: 'm1', lessonHashes: { 'soil-basics': 'b1', 'soil-compost': 'c1' } },
+      hashes,
+      previousSummary,
+      previousDetail,
+    );
+    expect([...reusable.keys()]).toEqual(['thumb.png', 'basics-1.png']);
+    expect(reusable.get('basics-1.png')).toEqual({ publicUrl: 'basics-1.png', sha256: 'basics-1.png-sha', version: 'basics-1.png-v' });
+  });
+
+  it('keeps the aspect ratio and variants of reused images', () => {
+    const variants = [{ src: 'basics-1-480w.webp', width: 480, height: 240, format: 'webp' }];
+    const detail = { lessons: [{ lessonId: 'soil-basics', blocks: [{ ...image('basics-1.png'), aspectRatio: 2, variants }] }] };
+    const reusable = collectReusableImages(hashes, hashes, previousSummary, detail);
+
+    expect(reusable.get('basics-1.png')).toMatchObject({ aspectRatio: 2, variants });
+  });
+
+  it('reuses nothing without hashes from a previous run', () => {
+    expect(collectReusableImages(undefined, hashes, previousSummary, previousDetail).size).toBe(0);
+  });
+});
+
+describe('isSameCourseOutput', () => {
+  const summary = { courseId: 'soil', lastUpdated: '2026-01-01T00:00:00Z' };
+  const detail = { courseId: 'soil', lessons: [], quizzes: [] };
+
+  it('ignores lastUpdated but nothing else', () => {
+    expect(isSameCourseOutput(summary, detail, { ...summary, lastUpdated: 'now' }, detail)).toBe(true);
+    expect(isSameCourseOutput(summary, detail, { ...summary, title: 'Soil' }, detail)).toBe(false);
+    expect(isSameCourseOutput(summary, detail, summary, { ...detail, lessons: [{}] })).toBe(false);
+    expect(isSameCourseOutput(null, detail, summary, detail)).toBe(false);
+  });
+});
+
 // ─── enforceInteractiveBlockConstraints ─────────────────────────────────────
 
 describe('enforceInteractiveBlockConstraints', () => {
@@ -499,3 +1302,160 @@ describe('enforceInteractiveBlockConstraints', () => {
     expect(warnSpy).not.toHaveBeenCalled();
   });
 });
+
+// ─── parseLessons callouts ──────────────────────────────────────────────────
+
+describe('parseLessons callouts', () => {
+  async function parseBlocks(lines: string[]): Promise<any[]> {
+    const paragraphs = markdownToElements(['# Lesson - Soil', ...lines].join('\n'), '/tmp')
+      .map(e => normalizeParagraph(e)!);
+    const logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+    const [lesson] = await parseLessons(paragraphs, 'soil', async () => null);
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+    return lesson.blocks;
+  }
+
+  it('keeps the single-paragraph form as a tip', async () => {
+    const blocks = await parseBlocks(['[CALLOUT]', 'Water **early**.', 'After.']);
+    expect(blocks.map(b => b.type)).toEqual(['callout', 'text']);
+    expect(blocks[0]).toMatchObject({ variant: 'tip', text: 'Water **early**.' });
+    expect(blocks[0].paragraphs).toEqual([[
+      { text: 'Water ', bold: false, italic: false },
+      { text: 'early', bold: true, italic: false },
+      { text: '.', bold: false, italic: false },
+    ]]);
+  });
+
+  it('reads variant, title and a multi-paragraph body up to [/CALLOUT]', async () => {
+    const blocks = await parseBlocks([
+      '[CALLOUT:warning]',
+      'Title: Before you dig',
+      'Call the utility line first.',
+      'Use `811` in the US.',
+      '[/CALLOUT]',
+      'After.',
+    ]);
+    expect(blocks.map(b => b.type)).toEqual(['callout', 'text']);
+    expect(blocks[0]).toMatchObject({
+      variant: 'warning',
+      title: 'Before you dig',
+      text: 'Call the utility line first.\n\nUse `811` in the US.',
+    });
+    expect(blocks[0].paragraphs).toHaveLength(2);
+    expect(blocks[0].paragraphs[1][1]).toEqual({ text: '811', bold: false, italic: false, code: true });
+  });
+
+  it('falls back to tip for unknown variants and drops stray end markers', async () => {
+    const blocks = await parseBlocks(['[CALLOUT:danger]', 'Careful.', '[/CALLOUT]', '[/CALLOUT]']);
+    expect(blocks).toHaveLength(1);
+    expect(blocks[0].variant).toBe('tip');
+  });
+});
+
+// ─── Glossary ───────────────────────────────────────────────────────────────
+
+describe('glossary', () => {
+  let logSpy: jest.SpyInstance;
+  let warnSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    logSpy = jest.spyOn(console, 'log').mockImplementation(() => {});
+    warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    logSpy.mockRestore();
+    warnSpy.mockRestore();
+  });
+
+  describe('parseGlossary', () => {
+    function paragraphsOf(lines: string[]): NormalizedParagraph[] {
+      return markdownToElements(lines.join('\n'), '/tmp').map(e => normalizeParagraph(e)!);
+    }
+
+    it('reads "Term: definition" lines under a Glossary heading, with aliases', () => {
+      const glossary = parseGlossary(paragraphsOf([
+        '# Course Summary',
+        '## Glossary',
+        '- Myocardial infarction (MI, heart attack): Death of heart muscle from a blocked artery.',
+        '- Triage: Sorting patients by urgency.',
+        '## Other',
+        'Not: a term',
+      ]));
+
+      expect(glossary).toEqual([
+        {
+          termId: 'myocardial-infarction',
+          term: 'Myocardial infarction',
+          definition: 'Death of heart muscle from a blocked artery.',
+          aliases: ['MI', 'heart attack'],
+        },
+        { termId: 'triage', term: 'Triage', definition: 'Sorting patients by urgency.' },
+      ]);
+    });
+
+    it('reads a [GLOSSARY] section up to [/GLOSSARY] and reports bad or repeated lines', () => {
+      const diagnostics = new ParseDiagnostics();
+      const glossary = parseGlossary(paragraphsOf([
+        '[GLOSSARY]',
+        'Loam: Soil of sand, silt and clay.',
+        'Just a sentence',
+        'loam: Again.',
+        '[/GLOSSARY]',
+        'Tilth: not in the glossary.',
+      ]), diagnostics);
+
+      expect(glossary.map(entry => entry.term)).toEqual(['Loam']);
+      expect(diagnostics.items.map(item => item.code)).toEqual(['invalid-glossary-entry', 'duplicate-glossary-term']);
+    });
+  });
+
+  describe('annotateGlossaryTerms', () => {
+    const glossary = [
+      { termId: 'myocardial-infarction', term: 'Myocardial infarction', definition: 'd', aliases: ['MI', 'heart attack'] },
+      { termId: 'triage', term: 'Triage', definition: 'd' },
+      { termId: 'loam', term: 'Loam', definition: 'd' },
+    ];
+    const span = (text: string, extra: Record<string, any> = {}) => ({ text, bold: false, italic: false, ...extra });
+
+    it('links the first occurrence of each term or alias in a text block', () => {
+      const lessons = [{
+        blocks: [
+          { type: 'text', content: [span('A heart attack (MI) needs triage. Triage again, admin.')] },
+          { type: 'heading', text: 'Triage' },
+        ],
+      }];
+      const diagnostics = new ParseDiagnostics();
+
+      annotateGlossaryTerms(lessons, glossary, diagnostics);
+
+      expect(lessons[0].blocks[0].content).toEqual([
+        span('A '),
+        span('heart attack', { glossaryTermId: 'myocardial-infarction' }),
+        span(' (MI) needs '),
+        span('triage', { glossaryTermId: 'triage' }),
+        span('. Triage again, admin.'),
+      ]);
+      expect(lessons[0].blocks[1]).toEqual({ type: 'heading', text: 'Triage' });
+      expect(diagnostics.items).toEqual([expect.objectContaining({ code: 'unused-glossary-term', excerpt: 'Loam' })]);
+    });
+
+    it('matches abbreviations in capitals only and leaves links and code alone', () => {
+      const lessons = [{
+        blocks: [{ type: 'text', content: [span('loam', { link: 'https://example.com' }), span('mi', { code: true }), span(' Mid MI.')] }],
+      }];
+
+      annotateGlossaryTerms(lessons, glossary);
+
+      expect(lessons[0].blocks[0].content).toEqual([
+        span('loam', { link: 'https://example.com' }),
+        span('mi', { code: true }),
+        span(' Mid '),
+        span('MI', { glossaryTermId: 'myocardial-infarction' }),
+        span('.'),
+      ]);
+    });
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Tests for image type detection, variant widths and prepareImage().
+ *
+ * Images are generated with sharp in memory — no Firebase or API dependencies.
+ */
+
+import sharp from 'sharp';
+import { detectImageType, prepareImage, variantWidths } from '../src/imageVariants';
+
+function makeImage(width: number, height: number, format: 'png' | 'jpeg' = 'png'): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 120, g: 90, b: 40 } } })[format]().toBuffer();
+}
+
+describe('detectImageType', () => {
+  it('reads the type from the file bytes, not the header', async () => {
+    expect(detectImageType(await makeImage(4, 4, 'jpeg'), 'image/png')).toEqual({ contentType: 'image/jpeg', extension: 'jpg' });
+    expect(detectImageType(await makeImage(4, 4), 'application/octet-stream')?.extension).toBe('png');
+  });
+
+  it('falls back to the Content-Type header', () => {
+    expect(detectImageType(Buffer.from('????'), 'image/webp; charset=binary')?.extension).toBe('webp');
+    expect(detectImageType(Buffer.from('<html>'), 'text/html')).toBeNull();
+  });
+});
+
+describe('variantWidths', () => {
+  it('never renders wider than the original or the largest preset', () => {
+    expect(variantWidths(3000)).toEqual([480, 960, 1920]);
+    expect(variantWidths(1200)).toEqual([480, 960, 1200]);
+    expect(variantWidths(300)).toEqual([300]);
+  });
+});
+
+describe('prepareImage', () => {
+  it('returns the original and WebP and JPEG variants with their sizes', async () => {
+    const image = await prepareImage(await makeImage(1200, 600), 'lessons/l1/image-1');
+
+    expect(image.path).toBe('lessons/l1/image-1.png');
+    expect(image.aspectRatio).toBe(2);
+    expect(image.sha256).toHaveLength(64);
+    expect(image.variants).toEqual([
+      { src: 'lessons/l1/image-1-480w.webp', width: 480, height: 240, format: 'webp' },
+      { src: 'lessons/l1/image-1-480w.jpg', width: 480, height: 240, format: 'jpeg' },
+      { src: 'lessons/l1/image-1-960w.webp', width: 960, height: 480, format: 'webp' },
+      { src: 'lessons/l1/image-1-960w.jpg', width: 960, height: 480, format: 'jpeg' },
+      { src: 'lessons/l1/image-1-1200w.webp', width: 1200, height: 600, format: 'webp' },
+      { src: 'lessons/l1/image-1-1200w.jpg', width: 1200, height: 600, format: 'jpeg' },
+    ]);
+    expect(image.files.map(file => file.contentType)).toEqual([
+      'image/png',
+      'image/webp', 'image/jpeg',
+      'image/webp', 'image/jpeg',
+      'image/webp', 'image/jpeg',
+    ]);
+    expect(detectImageType(image.files[2].buffer)?.extension).toBe('jpg');
+  });
+
+  it('flattens transparent images onto white for JPEG', async () => {
+    const transparent = await sharp({ create: { width: 8, height: 8, channels: 4, background: { r: 0, g: 0, b: 0, alpha: 0 } } })
+      .png()
+      .toBuffer();
+    const image = await prepareImage(transparent, 'lessons/l1/image-2');
+    const jpeg = image.files.find(file => file.contentType === 'image/jpeg')!;
+
+    const { data } = await sharp(jpeg.buffer).raw().toBuffer({ resolveWithObject: true });
+    expect(data[0]).toBeGreaterThan(250);
+  });
+
+  it('skips variants when asked to', async () => {
+    const image = await prepareImage(await makeImage(800, 800, 'jpeg'), 'courses/c1/thumbnail', { variants: false });
+
+    expect(image.path).toBe('courses/c1/thumbnail.jpg');
+    expect(image.variants).toEqual([]);
+    expect(image.files).toHaveLength(1);
+  });
+
+  it('rejects files that are not images', async () => {
+    await expect(prepareImage(Buffer.from('<html></html>'), 'lessons/l1/image-1', { contentTypeHeader: 'text/html' }))
+      .rejects.toThrow('Not a supported image (text/html)');
+  });
+});
@@ -1,5 +1,5 @@
 /**
- * Tests for normalizeParagraph()
+ * Tests for normalizeParagraph() and normalizeBodyContent()
  *
  * Feeds hand-crafted Google Docs element JSON to the normalizer
  * and asserts it produces the correct NormalizedParagraph.
@@ -9,7 +9,7 @@
  *   2. Markdown syntax in plain text (# heading, **bold**, - bullet)
  */
 
-import { normalizeParagraph } from '../src/parseGoogleDoc';
+import { normalizeBodyContent, normalizeParagraph } from '../src/parseGoogleDoc';
 
 // ─── Helpers to build mock Google Docs elements ─────────────────────────────
 
@@ -166,6 +166,27 @@ describe('normalizeParagraph', () => {
     expect(result.plainText).toBe('List item');
   });
 
+  it('takes numbering and nesting level from the Docs list', () => {
+    const lists = {
+      'list-1': {
+        listProperties: {
+          nestingLevels: [{ glyphType: 'DECIMAL' }, { glyphSymbol: '●', glyphType: 'GLYPH_TYPE_UNSPECIFIED' }],
+        },
+      },
+    };
+    const top = makeGDocsParagraph('Step', { hasBullet: true });
+    const nested = makeGDocsParagraph('Detail', { hasBullet: true });
+    nested.paragraph.bullet.nestingLevel = 1;
+
+    expect(normalizeParagraph(top, lists)).toMatchObject({ listStyle: 'ordered', nestingLevel: 0, listId: 'list-1' });
+    expect(normalizeParagraph(nested, lists)).toMatchObject({ listStyle: 'bullet', nestingLevel: 1, listId: 'list-1' });
+  });
+
+  it('treats Docs lists missing from the lists map as bullets', () => {
+    const result = normalizeParagraph(makeGDocsParagraph('Item', { hasBullet: true }))!;
+    expect(result.listStyle).toBe('bullet');
+  });
+
   // ─── Markdown Bullets ─────────────────────────────────────────────
 
   it('detects "- " markdown bullet', () => {
@@ -189,6 +210,24 @@ describe('normalizeParagraph', () => {
     expect(result.plainText).toBe('Plus item');
   });
 
+  it('detects "1. " markdown numbered item', () => {
+    const result = normalizeParagraph(makeGDocsParagraph('1. Dig the hole'))!;
+    expect(result.isBullet).toBe(true);
+    expect(result.listStyle).toBe('ordered');
+    expect(result.plainText).toBe('Dig the hole');
+  });
+
+  it('reads markdown nesting from two-space indentation', () => {
+    const result = normalizeParagraph(makeGDocsParagraph('    - Deep item'))!;
+    expect(result.listStyle).toBe('bullet');
+    expect(result.nestingLevel).toBe(2);
+    expect(result.plainText).toBe('Deep item');
+  });
+
+  it('does not treat "1)" as a list item', () => {
+    expect(normalizeParagraph(makeGDocsParagraph('1) First'))!.isBullet).toBe(false);
+  });
+
   it('does NOT treat heading line as a bullet', () => {
     // "## - Something" — the ## makes it a heading, not a bullet
     const el = makeGDocsParagraph('## - Something');
@@ -285,6 +324,14 @@ describe('normalizeParagraph', () => {
     expect(result.plainText).toBe('Caption text');
   });
 
+  it('reads the image alt text from the inline objects', () => {
+    const el = makeGDocsParagraph('', { inlineObjectId: 'img123' });
+    const inlineObjects = { img123: { inlineObjectProperties: { embeddedObject: { title: 'Soil', description: ' Soil layers ' } } } };
+
+    expect(normalizeParagraph(el, undefined, inlineObjects)!.imageAltText).toBe('Soil layers');
+    expect(normalizeParagraph(el)!.imageAltText).toBeUndefined();
+  });
+
   // ─── Normal Text (no special formatting) ──────────────────────────
 
   it('returns plain paragraph as headingLevel 0, not bullet', () => {
@@ -298,3 +345,88 @@ describe('normalizeParagraph', () => {
     ]);
   });
 });
+
+// ─── normalizeBodyContent ───────────────────────────────────────────────────
+
+const MONO = { weightedFontFamily: { fontFamily: 'Courier New' } };
+
+function makeMonoParagraph(text: string): any {
+  return { paragraph: { elements: [{ textRun: { content: `${text}\n`, textStyle: MONO } }] } };
+}
+
+function makeTable(rows: string[][], options: { pinnedHeader?: boolean; bold?: boolean } = {}): any {
+  return {
+    table: {
+      tableRows: rows.map((cells, i) => ({
+        tableRowStyle: { tableHeader: !!options.pinnedHeader && i === 0 },
+        tableCells: cells.map(text => ({
+          content: [makeGDocsParagraph(`${text}\n`, { bold: options.bold && i === 0 })],
+        })),
+      })),
+    },
+  };
+}
+
+describe('normalizeBodyContent', () => {
+  it('turns a table into one entry with cell spans', () => {
+    const [result] = normalizeBodyContent([makeTable([['Crop', 'Days'], ['Corn', '90']], { pinnedHeader: true })]);
+    expect(result.table?.hasHeader).toBe(true);
+    expect(result.table?.rows[1][0]).toEqual([{ text: 'Corn', bold: false, italic: false }]);
+    expect(result.plainText).toBe('Crop | Days\nCorn | 90');
+  });
+
+  it('detects an all-bold first row as the header', () => {
+    expect(normalizeBodyContent([makeTable([['A', 'B'], ['1', '2']], { bold: true })])[0].table?.hasHeader).toBe(true);
+    expect(normalizeBodyContent([makeTable([['A', 'B'], ['1', '2']])])[0].table?.hasHeader).toBe(false);
+  });
+
+  it('keeps ``` fenced code verbatim, with language', () => {
+    const result = normalizeBodyContent([
+      makeGDocsParagraph('```python\n'),
+      makeGDocsParagraph('def grow():\n'),
+      makeGDocsParagraph('\n'),
+      makeGDocsParagraph('    return 1\n'),
+      makeGDocsParagraph('```\n'),
+      makeGDocsParagraph('After\n'),
+    ]);
+    expect(result.map(p => p.plainText)).toEqual(['def grow():\n\n    return 1', 'After']);
+    expect(result[0].code).toEqual({ language: 'python', text: 'def grow():\n\n    return 1' });
+  });
+
+  it('leaves an unclosed fence as a paragraph', () => {
+    const result = normalizeBodyContent([makeGDocsParagraph('```js\n'), makeGDocsParagraph('x\n')]);
+    expect(result.map(p => p.code)).toEqual([undefined, undefined]);
+  });
+
+  it('groups consecutive monospace paragraphs into one code block', () => {
+    const result = normalizeBodyContent([
+      makeMonoParagraph('npm install'),
+      makeGDocsParagraph('\n'),
+      makeMonoParagraph('npm test'),
+      makeGDocsParagraph('\n'),
+      makeGDocsParagraph('Then read on.\n'),
+    ]);
+    expect(result.map(p => p.code?.text ?? p.plainText)).toEqual(['npm install\n\nnpm test', 'Then read on.']);
+    expect(result[0].code?.language).toBeUndefined();
+  });
+
+  it('reads markdown numbered items only in a run of list items', () => {
+    const result = normalizeBodyContent([
+      makeGDocsParagraph('2024. was a dry year for most farms.\n'),
+      makeGDocsParagraph('\n'),
+      makeGDocsParagraph('1. Dig the hole\n'),
+      makeGDocsParagraph('2. Plant the seed\n'),
+    ]);
+    expect(result.map(p => [p.plainText, p.isBullet])).toEqual([
+      ['2024. was a dry year for most farms.', false],
+      ['Dig the hole', true],
+      ['Plant the seed', true],
+    ]);
+    expect(result[0].listStyle).toBeUndefined();
+  });
+
+  it('treats a 1x1 monospace table as a code block', () => {
+    const element = { table: { tableRows: [{ tableCells: [{ content: [makeMonoParagraph('ls -la'), makeMonoParagraph('pwd')] }] }] } };
+    expect(normalizeBodyContent([element])[0].code).toEqual({ text: 'ls -la\npwd' });
+  });
+});
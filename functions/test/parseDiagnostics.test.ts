@@ -0,0 +1,192 @@
+/**
+ * Tests for the ParseDiagnostics collector, formatDiagnosticsTable(), and the
+ * findings parseLessons() records for common authoring mistakes.
+ *
+ * These are all pure functions — no Firebase or API dependencies.
+ */
+
+import {
+  ParseDiagnostics,
+  formatDiagnosticsTable,
+  truncateExcerpt,
+} from '../src/parseDiagnostics';
+import { normalizeParagraph, parseLessons } from '../src/parseGoogleDoc';
+import { markdownToElements } from '../src/parseMarkdownCourse';
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+/** Normalize markdown lines the same way the Markdown course source does */
+function paragraphsFrom(lines: string[]) {
+  return markdownToElements(lines.join('\n'), '/tmp').map(e => normalizeParagraph(e)!);
+}
+
+const noImages = async () => null;
+
+// ─── ParseDiagnostics ───────────────────────────────────────────────────────
+
+describe('ParseDiagnostics', () => {
+  it('collects findings with counts and builds a report', () => {
+    const diagnostics = new ParseDiagnostics();
+    diagnostics.error('image-failed', 'Image 1 could not be resolved', { lessonId: 'l1', paragraphIndex: 4 });
+    diagnostics.warning('merged-quiz', 'Merged', { lessonId: 'l1' });
+
+    expect(diagnostics.hasErrors).toBe(true);
+    const report = diagnostics.toReport('bio-101', 'doc-123');
+    expect(report.courseId).toBe('bio-101');
+    expect(report.source).toBe('doc-123');
+    expect(report.counts).toEqual({ error: 1, warning: 1, info: 0 });
+    expect(report.diagnostics[0]).toEqual({
+      severity: 'error',
+      code: 'image-failed',
+      message: 'Image 1 could not be resolved',
+      lessonId: 'l1',
+      paragraphIndex: 4,
+    });
+  });
+
+  it('logs each finding as it is added', () => {
+    const diagnostics = new ParseDiagnostics();
+    diagnostics.warning('merged-quiz', 'Merged', { lessonId: 'l1', paragraphIndex: 2 });
+    expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('[merged-quiz] l1 ¶2: Merged'));
+  });
+
+  it('truncates excerpts to one short line', () => {
+    const excerpt = truncateExcerpt(`Line one\n${'x'.repeat(200)}`);
+    expect(excerpt).not.toContain('\n');
+    expect(excerpt.length).toBe(80);
+    expect(excerpt.endsWith('…')).toBe(true);
+  });
+});
+
+// ─── formatDiagnosticsTable ─────────────────────────────────────────────────
+
+describe('formatDiagnosticsTable', () => {
+  it('returns an empty string when there are no findings', () => {
+    expect(formatDiagnosticsTable([])).toBe('');
+  });
+
+  it('lists errors first with aligned columns', () => {
+    const table = formatDiagnosticsTable([
+      { document: 'bio-101', diagnostic: { severity: 'warning', code: 'merged-quiz', message: 'Merged', lessonId: 'l1' } },
+      {
+        document: 'chem-101',
+        diagnostic: { severity: 'error', code: 'quiz-missing-answer', message: 'No answer', paragraphIndex: 7, excerpt: 'Q?' },
+      },
+    ]);
+    const lines = table.split('\n');
+
+    expect(lines[0]).toMatch(/^SEVERITY\s+CODE\s+DOCUMENT\s+LESSON\s+¶\s+MESSAGE$/);
+    expect(lines[2]).toMatch(/^error\s+quiz-missing-answer\s+chem-101\s+-\s+7\s+No answer — "Q\?"$/);
+    expect(lines[3]).toMatch(/^warning\s+merged-quiz\s+bio-101\s+l1\s+-\s+Merged$/);
+    expect(lines[2].indexOf('chem-101')).toBe(lines[3].indexOf('bio-101'));
+  });
+});
+
+// ─── parseLessons findings ──────────────────────────────────────────────────
+
+describe('parseLessons diagnostics', () => {
+  it('reports MCQ questions with no [CORRECT] choice at the marker paragraph', async () => {
+    const diagnostics = new ParseDiagnostics();
+    await parseLessons(paragraphsFrom([
+      '# Lesson - Soil',
+      '[QUIZ_CHOICE]',
+      'Prompt: Which layer is on top?',
+      'A) Topsoil',
+      'B) Bedrock',
+    ]), 'farming', noImages, diagnostics);
+
+    expect(diagnostics.items).toEqual([expect.objectContaining({
+      severity: 'error',
+      code: 'quiz-missing-answer',
+      lessonId: 'farming-soil',
+      paragraphIndex: 1,
+      excerpt: 'Which layer is on top?',
+    })]);
+  });
+
+  it('reports unresolved images and split quiz sections', async () => {
+    const diagnostics = new ParseDiagnostics();
+    await parseLessons(paragraphsFrom([
+      '# Lesson - Soil',
+      '[QUIZ_TRUE_FALSE]',
+      'Prompt: Soil is alive',
+      'Answer: TRUE',
+      '[FLASHCARD]',
+      'Front: Topsoil?',
+      'Back: The top layer',
+      '![Missing](missing.png)',
+      '[QUIZ_TRUE_FALSE]',
+      'Prompt: Rocks are soil',
+      'Answer: FALSE',
+    ]), 'farming', noImages, diagnostics);
+
+    expect(diagnostics.items.map(d => [d.code, d.paragraphIndex])).toEqual([
+      ['image-failed', 7],
+      ['split-quiz-section', 8],
+    ]);
+  });
+
+  it('keeps image order and finding order when uploads finish out of order', async () => {
+    const diagnostics = new ParseDiagnostics();
+    // The first image finishes last, the second fails first
+    const resolveImage = async (ref: string, storageBasePath: string) => {
+      if (ref.endsWith('b.png')) throw new Error('HTTP 403');
+      await new Promise(resolve => setTimeout(resolve, ref.endsWith('a.png') ? 20 : 1));
+      return { publicUrl: `${storageBasePath}.png`, sha256: `${ref}-sha`, version: 'v1' };
+    };
+
+    const [lesson] = await parseLessons(paragraphsFrom([
+      '# Lesson - Soil',
+      '![A](a.png)',
+      '![B](b.png)',
+      '[QUIZ_TRUE_FALSE]',
+      'Prompt: Soil is alive',
+      'Answer: TRUE',
+      '[FLASHCARD]',
+      'Front: Topsoil?',
+      'Back: The top layer',
+      '![C](c.png)',
+      '[QUIZ_TRUE_FALSE]',
+      'Prompt: Rocks are soil',
+      'Answer: FALSE',
+    ]), 'farming', resolveImage, diagnostics);
+
+    const images = lesson.blocks.filter((b: any) => b.type === 'image');
+    expect(images.map((b: any) => b.src)).toEqual([
+      'courses/farming/lessons/farming-soil/image-1.png',
+      'courses/farming/lessons/farming-soil/image-3.png',
+    ]);
+    expect(diagnostics.items.map(d => [d.code, d.paragraphIndex])).toEqual([
+      ['image-failed', 2],
+      ['split-quiz-section', 10],
+    ]);
+    expect(diagnostics.items[0].message).toContain('HTTP 403');
+  });
+
+  it('reports merged flashcard decks at the extra deck', async () => {
+    const diagnostics = new ParseDiagnostics();
+    await parseLessons(paragraphsFrom([
+      '# Lesson - Soil',
+      '[FLASHCARD]',
+      'Front: A',
+      'Back: a',
+      'Some text between decks',
+      '[FLASHCARD]',
+      'Front: B',
+      'Back: b',
+    ]), 'farming', noImages, diagnostics);
+
+    expect(diagnostics.items).toEqual([expect.objectContaining({
+      code: 'merged-flashcards',
+      lessonId: 'farming-soil',
+      paragraphIndex: 5,
+    })]);
+  });
+});
@@ -3,7 +3,7 @@
  * No Firebase or Google API dependencies.
  */
 
-import { parseHomeContent } from '../src/parseHomeDoc';
+import { parseHomeButton, parseHomeContent } from '../src/parseHomeDoc';
 
 // ─── Helpers to build mock Google Docs elements ─────────────────────────────
 
@@ -254,3 +254,105 @@ describe('parseHomeContent — full document', () => {
     expect(result.inlineImageIds).toEqual(['hero-img']);
   });
 });
+
+// ─── Sections ───────────────────────────────────────────────────────────────
+
+describe('parseHomeContent — sections', () => {
+  it('reads sections in document order and keeps their lines out of the text', () => {
+    const content = [
+      makeH1('Ballet No Frills'),
+      makeParagraph('Welcome to the app.'),
+      makeInlineImage('bg-image-id'),
+      makeParagraph('[HERO]'),
+      makeParagraph('Title: Dance at home'),
+      makeParagraph('Short lessons for busy dancers.'),
+      makeInlineImage('hero-img'),
+      makeParagraph('Button: Browse courses -> courses'),
+      makeParagraph('[FEATURED]'),
+      makeParagraph('Title: Start here'),
+      makeParagraph('Courses: course-barre-basics, turns'),
+      makeParagraph('[ANNOUNCEMENT]'),
+      makeParagraph('Title: New course'),
+      makeParagraph('Text: Turns is out now.'),
+      makeParagraph('Date: 2026-10-01'),
+      makeParagraph('Expires: 2026-11-01'),
+      makeParagraph('Button: Open -> course:turns'),
+      makeParagraph('[CTA]'),
+      makeParagraph('Text: Teaching a class?'),
+      makeParagraph('Button: Studio pricing -> www.example.com/studios'),
+    ];
+    const result = parseHomeContent(content);
+
+    expect(result.text).toBe('Welcome to the app.');
+    expect(result.inlineImageIds).toEqual(['bg-image-id']);
+    expect(result.sectionImageIds).toEqual({ 'hero-1': 'hero-img' });
+    expect(result.warnings).toEqual([]);
+    expect(result.sections).toEqual([
+      {
+        type: 'hero',
+        id: 'hero-1',
+        title: 'Dance at home',
+        text: 'Short lessons for busy dancers.',
+        buttons: [{ label: 'Browse courses', action: 'courses' }],
+      },
+      { type: 'featured-courses', id: 'featured-courses-1', title: 'Start here', courseIds: ['barre-basics', 'turns'] },
+      {
+        type: 'announcement',
+        id: 'announcement-1',
+        title: 'New course',
+        text: 'Turns is out now.',
+        date: '2026-10-01',
+        expiresAt: '2026-11-01',
+        buttons: [{ label: 'Open', action: 'course', target: 'turns' }],
+      },
+      {
+        type: 'call-to-action',
+        id: 'call-to-action-1',
+        text: 'Teaching a class?',
+        buttons: [{ label: 'Studio pricing', action: 'url', target: 'https://www.example.com/studios' }],
+      },
+    ]);
+  });
+
+  it('returns no sections for a doc without markers', () => {
+    const result = parseHomeContent([makeH1('Title'), makeParagraph('Text.')]);
+    expect(result.sections).toEqual([]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('warns about bad lines and drops sections with nothing to show', () => {
+    const content = [
+      makeH1('Title'),
+      makeParagraph('Text.'),
+      makeParagraph('[BANNER]'),
+      makeParagraph('Title: Skipped'),
+      makeParagraph('[ANNOUNCEMENT]'),
+      makeParagraph('Title: Sale'),
+      makeParagraph('Expires: next week'),
+      makeParagraph('[FEATURED]'),
+      makeParagraph('Title: Nothing listed'),
+      makeParagraph('[CTA]'),
+      makeParagraph('Button: Go somewhere'),
+    ];
+    const result = parseHomeContent(content);
+
+    expect(result.sections).toEqual([{ type: 'announcement', id: 'announcement-1', title: 'Sale' }]);
+    expect(result.warnings).toEqual([
+      'Unknown section marker [BANNER]; its lines are ignored',
+      '[ANNOUNCEMENT]: "Expires: next week" is not a YYYY-MM-DD date; ignored',
+      '[FEATURED]: no "Courses:" line; section dropped',
+      '[CTA]: "Button: Go somewhere" needs "<label> -> courses | progress | course:<id> | <url>"; ignored',
+      '[CTA]: no valid "Button:" line; section dropped',
+    ]);
+  });
+});
+
+describe('parseHomeButton', () => {
+  it('reads tab, course and web targets', () => {
+    expect(parseHomeButton('My progress -> Progress')).toEqual({ label: 'My progress', action: 'progress' });
+    expect(parseHomeButton('Start -> course:course-soil')).toEqual({ label: 'Start', action: 'course', target: 'soil' });
+    expect(parseHomeButton('Docs -> https://example.com')).toEqual({ label: 'Docs', action: 'url', target: 'https://example.com' });
+    expect(parseHomeButton('-> courses')).toBeNull();
+    expect(parseHomeButton('Somewhere -> settings')).toBeNull();
+  });
+});
@@ -0,0 +1,214 @@
+/**
+ * Tests for the Markdown course source — front-matter splitting, markdown →
+ * Google Docs element conversion, and a full parse of a temp course folder.
+ *
+ * Runs entirely on the local filesystem — no Firebase or API dependencies.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import sharp from 'sharp';
+import {
+  splitFrontMatter,
+  markdownToElements,
+  listMarkdownFiles,
+  parseMarkdownCourse,
+} from '../src/parseMarkdownCourse';
+import { normalizeBodyContent, normalizeParagraph } from '../src/parseGoogleDoc';
+
+beforeEach(() => {
+  jest.spyOn(console, 'log').mockImplementation(() => {});
+  jest.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+function makeTempDir(): string {
+  return fs.mkdtempSync(path.join(os.tmpdir(), 'md-course-'));
+}
+
+function makePng(width: number, height: number): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: { r: 120, g: 90, b: 40 } } }).png().toBuffer();
+}
+
+// ─── splitFrontMatter ───────────────────────────────────────────────────────
+
+describe('splitFrontMatter', () => {
+  it('splits a leading --- block from the body', () => {
+    const result = splitFrontMatter('---\nCourse ID: farming-101\n---\n# Lesson - One');
+    expect(result.frontMatter).toEqual(['Course ID: farming-101']);
+    expect(result.body).toBe('# Lesson - One');
+  });
+
+  it('returns the whole text as body when there is no front-matter', () => {
+    const result = splitFrontMatter('# Lesson - One\nText');
+    expect(result.frontMatter).toEqual([]);
+    expect(result.body).toBe('# Lesson - One\nText');
+  });
+
+  it('ignores an unterminated front-matter block', () => {
+    const result = splitFrontMatter('---\nCourse ID: x\n# Lesson - One');
+    expect(result.frontMatter).toEqual([]);
+  });
+
+  it('handles CRLF line endings', () => {
+    const result = splitFrontMatter('---\r\nTitle: Farming\r\n---\r\nBody');
+    expect(result.frontMatter).toEqual(['Title: Farming']);
+    expect(result.body).toBe('Body');
+  });
+});
+
+// ─── markdownToElements ─────────────────────────────────────────────────────
+
+describe('markdownToElements', () => {
+  it('turns front-matter into Key: Value paragraphs and strips quotes', () => {
+    const elements = markdownToElements('---\nTitle: "Farming 101"\n---\n', '/tmp');
+    const para = normalizeParagraph(elements[0]);
+    expect(para?.plainText).toBe('Title: Farming 101');
+  });
+
+  it('emits one paragraph per non-blank line', () => {
+    const elements = markdownToElements('# Lesson - One\n\nFirst line\nSecond line\n', '/tmp');
+    const paragraphs = elements.map(normalizeParagraph);
+    expect(paragraphs.map(p => p?.plainText)).toEqual(['Lesson - One', 'First line', 'Second line']);
+    expect(paragraphs[0]?.headingLevel).toBe(1);
+  });
+
+  it('keeps markdown bullets and inline formatting for the normalizer', () => {
+    const [element] = markdownToElements('- **Bold** item', '/tmp');
+    const para = normalizeParagraph(element);
+    expect(para?.isBullet).toBe(true);
+    expect(para?.richText[0]).toEqual({ text: 'Bold', bold: true, italic: false });
+  });
+
+  it('turns image lines into inline images with resolved paths', () => {
+    const [element] = markdownToElements('![Diagram](./images/diagram.png)', '/courses/farming');
+    const para = normalizeParagraph(element);
+    expect(para?.hasImage).toBe(true);
+    expect(para?.imageObjectId).toBe(path.resolve('/courses/farming', 'images/diagram.png'));
+  });
+
+  it('leaves remote image URLs unresolved', () => {
+    const [element] = markdownToElements('![Remote](https://example.com/a.png)', '/courses/farming');
+    expect(normalizeParagraph(element)?.imageObjectId).toBe('https://example.com/a.png');
+  });
+
+  it('builds a table element from pipe rows, header from the separator line', () => {
+    const elements = markdownToElements('| Crop | Days |\n|------|-----:|\n| **Corn** | 90 |', '/tmp');
+    expect(elements).toHaveLength(1);
+    const [para] = normalizeBodyContent(elements);
+    expect(para.table?.hasHeader).toBe(true);
+    expect(para.table?.rows).toHaveLength(2);
+    expect(para.table?.rows[1][0]).toEqual([{ text: 'Corn', bold: true, italic: false }]);
+  });
+
+  it('keeps indentation and blank lines inside ``` fences', () => {
+    const [para] = normalizeBodyContent(markdownToElements('```yaml\nsoil:\n\n  ph: 6.5\n```', '/tmp'));
+    expect(para.code).toEqual({ language: 'yaml', text: 'soil:\n\n  ph: 6.5' });
+  });
+});
+
+// ─── listMarkdownFiles ──────────────────────────────────────────────────────
+
+describe('listMarkdownFiles', () => {
+  it('returns .md files of a folder in filename order', () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, '02-second.md'), '');
+    fs.writeFileSync(path.join(dir, '01-first.md'), '');
+    fs.writeFileSync(path.join(dir, 'notes.txt'), '');
+
+    expect(listMarkdownFiles(dir).map(f => path.basename(f))).toEqual(['01-first.md', '02-second.md']);
+  });
+
+  it('returns a single file as-is', () => {
+    const dir = makeTempDir();
+    const file = path.join(dir, 'course.md');
+    fs.writeFileSync(file, '');
+    expect(listMarkdownFiles(file)).toEqual([file]);
+  });
+});
+
+// ─── parseMarkdownCourse ────────────────────────────────────────────────────
+
+describe('parseMarkdownCourse', () => {
+  const courseMarkdown = [
+    '---',
+    'Course ID: course-farming-101',
+    'Title: Farming 101',
+    'Tags: soil, crops',
+    'Premium: yes',
+    '---',
+    '# Lesson - Soil Basics',
+    'Summary: What soil is made of',
+    'Duration (minutes): 10',
+    '## Layers',
+    'Soil has **layers**.',
+    '![Layers](layers.png)',
+    '[FLASHCARD]',
+    'Front: Topsoil?',
+    'Back: The top layer',
+    '[QUIZ_CHOICE]',
+    'Prompt: Which layer is on top?',
+    'A) Topsoil [CORRECT]',
+    'B) Bedrock',
+    'Explanation: Topsoil is on top.',
+  ].join('\n');
+
+  it('produces the same summary/detail shapes as the Google Docs parser', async () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, 'course.md'), courseMarkdown);
+    fs.writeFileSync(path.join(dir, 'layers.png'), await makePng(1200, 800));
+
+    const { summary, detail } = await parseMarkdownCourse(path.join(dir, 'course.md'));
+
+    expect(summary.courseId).toBe('farming-101');
+    expect(summary.title).toBe('Farming 101');
+    expect(summary.tags).toEqual(['soil', 'crops']);
+    expect(summary.premium).toBe(true);
+    expect(summary.lessonCount).toBe(1);
+
+    const lesson = detail.lessons[0];
+    expect(lesson.lessonId).toBe('farming-101-soil-basics');
+    expect(lesson.summary).toBe('What soil is made of');
+    expect(lesson.blocks.map((b: any) => b.type)).toEqual(['heading', 'text', 'image', 'flashcards', 'quiz']);
+    expect(lesson.blocks[2].src).toBe('courses/farming-101/lessons/farming-101-soil-basics/image-1.png');
+    expect(detail.quizzes[0].questions[0].correctAnswer).toBe('Topsoil');
+  });
+
+  it('writes the bucket layout to outDir and prefixes image URLs with baseUrl', async () => {
+    const dir = makeTempDir();
+    const outDir = makeTempDir();
+    fs.writeFileSync(path.join(dir, 'course.md'), courseMarkdown);
+    fs.writeFileSync(path.join(dir, 'layers.png'), await makePng(1200, 800));
+
+    const { detail } = await parseMarkdownCourse(dir, { outDir, baseUrl: 'https://cdn.example.com/' });
+
+    const courseDir = path.join(outDir, 'courses/farming-101');
+    expect(fs.existsSync(path.join(courseDir, 'course-summary.json'))).toBe(true);
+    expect(fs.existsSync(path.join(courseDir, 'course-detail.json'))).toBe(true);
+    expect(fs.existsSync(path.join(courseDir, 'lessons/farming-101-soil-basics/image-1.png'))).toBe(true);
+    expect(detail.lessons[0].blocks[2].src)
+      .toBe('https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1.png');
+    expect(fs.existsSync(path.join(courseDir, 'lessons/farming-101-soil-basics/image-1-960w.webp'))).toBe(true);
+    expect(detail.lessons[0].blocks[2].aspectRatio).toBe(1.5);
+    expect(detail.lessons[0].blocks[2].variants.map((v: any) => v.src)).toEqual([
+      'https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1-480w.webp',
+      'https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1-480w.jpg',
+      'https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1-960w.webp',
+      'https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1-960w.jpg',
+      'https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1-1200w.webp',
+      'https://cdn.example.com/courses/farming-101/lessons/farming-101-soil-basics/image-1-1200w.jpg',
+    ]);
+  });
+
+  it('throws when the front-matter has no Course ID', async () => {
+    const dir = makeTempDir();
+    fs.writeFileSync(path.join(dir, 'course.md'), '---\nTitle: No ID\n---\n# Lesson - One');
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+
+    await expect(parseMarkdownCourse(dir)).rejects.toThrow('Course ID not found');
+  });
+});
@@ -181,4 +181,13 @@ describe('parseMarkdownInline', () => {
       { text: 'italic', bold: false, italic: true },
     ]);
   });
+
+  it('parses inline code and leaves markdown inside it alone', () => {
+    const result = parseMarkdownInline('Run `npm **install**` first');
+    expect(result).toEqual([
+      { text: 'Run ', bold: false, italic: false },
+      { text: 'npm **install**', bold: false, italic: false, code: true },
+      { text: ' first', bold: false, italic: false },
+    ]);
+  });
 });
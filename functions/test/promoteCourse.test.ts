@@ -0,0 +1,108 @@
+/**
+ * Tests for promoting a channel release to production.
+ *
+ * Runs on LocalContentStore in a temp directory.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { channelStore, LocalContentStore, writeJson } from '../src/contentStore';
+import { publishCourseRelease, readCourseManifest, readPublishedCourse } from '../src/courseReleases';
+import { promoteCourse } from '../src/promoteCourse';
+
+const BASE_URL = 'https://cdn.example.com';
+const jsonOptions = { cacheControl: 'public, max-age=300', public: true };
+
+function makeStore(): { dir: string; store: LocalContentStore } {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'promote-course-'));
+  return { dir, store: new LocalContentStore(dir, BASE_URL) };
+}
+
+/** Publish a staging release whose detail references one lesson image */
+async function publishStaging(store: LocalContentStore, title: string) {
+  const staging = channelStore(store, 'staging');
+  await staging.writeFile('courses/farming-101/lessons/soil/image-1.png', 'png-bytes', {
+    contentType: 'image/png',
+    cacheControl: 'public, max-age=3600',
+  });
+  const src = `${staging.publicUrl('courses/farming-101/lessons/soil/image-1.png')}?v=1`;
+  const files = {
+    summary: { courseId: 'farming-101', title },
+    detail: { courseId: 'farming-101', lessons: [{ lessonId: 'farming-101-soil', blocks: [{ type: 'image', src }] }] },
+  };
+  return publishCourseRelease(staging, 'farming-101', files);
+}
+
+describe('promoteCourse', () => {
+  it('copies images and publishes the staging release to production', async () => {
+    const { dir, store } = makeStore();
+    await writeJson(store, 'courses/index.json', { courses: ['other-course'] }, jsonOptions);
+    const staged = await publishStaging(store, 'Farming');
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await promoteCourse(store, 'farming-101');
+    warnSpy.mockRestore();
+
+    expect(result.promotedRelease).toBe(staged.releaseId);
+    expect(result.copiedFiles).toEqual(['courses/farming-101/lessons/soil/image-1.png']);
+    expect(fs.readFileSync(path.join(dir, 'courses/farming-101/lessons/soil/image-1.png'), 'utf8')).toBe('png-bytes');
+
+    const { summary, detail } = await readPublishedCourse(store, 'farming-101');
+    expect(summary).toEqual({ courseId: 'farming-101', title: 'Farming' });
+    expect(detail.lessons[0].blocks[0].src).toBe(`${BASE_URL}/courses/farming-101/lessons/soil/image-1.png?v=1`);
+    expect(await readCourseManifest(store, 'farming-101')).toMatchObject({ currentRelease: result.releaseId });
+    expect((await store.readJson('courses/index.json')).courses).toEqual(['other-course', 'farming-101']);
+    // other-course has no files in this store
+    expect((await store.readJson('courses/search-index.json')).courses.map((c: any) => c.title)).toEqual(['Farming']);
+  });
+
+  it('promotes the current release of each translation with its images', async () => {
+    const { dir, store } = makeStore();
+    await publishStaging(store, 'Farming');
+    const staging = channelStore(store, 'staging');
+    await staging.writeFile('courses/farming-101/es/lessons/soil/image-1.png', 'png-es', {
+      contentType: 'image/png',
+      cacheControl: 'public, max-age=3600',
+    });
+    const src = staging.publicUrl('courses/farming-101/es/lessons/soil/image-1.png');
+    await publishCourseRelease(staging, 'farming-101/es', {
+      summary: { courseId: 'farming-101', language: 'es', title: 'Agricultura' },
+      detail: { courseId: 'farming-101', lessons: [{ lessonId: 'farming-101-soil', blocks: [{ type: 'image', src }] }] },
+    });
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await promoteCourse(store, 'farming-101');
+    jest.restoreAllMocks();
+
+    expect(result.copiedFiles).toEqual([
+      'courses/farming-101/lessons/soil/image-1.png',
+      'courses/farming-101/es/lessons/soil/image-1.png',
+    ]);
+    expect(fs.readFileSync(path.join(dir, 'courses/farming-101/es/lessons/soil/image-1.png'), 'utf8')).toBe('png-es');
+    const { summary, detail } = await readPublishedCourse(store, 'farming-101/es');
+    expect(summary.title).toBe('Agricultura');
+    expect(detail.lessons[0].blocks[0].src).toBe(`${BASE_URL}/courses/farming-101/es/lessons/soil/image-1.png`);
+    expect(await readCourseManifest(store, 'farming-101/es')).toMatchObject({ currentRelease: result.translations.es });
+    expect(await store.readJson('courses/index.json')).toMatchObject({ courses: ['farming-101'], translations: { 'farming-101': ['es'] } });
+  });
+
+  it('promotes an explicit earlier release', async () => {
+    const { store } = makeStore();
+    const first = await publishStaging(store, 'Farming v1');
+    await publishStaging(store, 'Farming v2');
+
+    const result = await promoteCourse(store, 'farming-101', { releaseId: first.releaseId });
+
+    expect(result.promotedRelease).toBe(first.releaseId);
+    expect((await readPublishedCourse(store, 'farming-101')).summary.title).toBe('Farming v1');
+  });
+
+  it('fails for courses without a channel release', async () => {
+    const { store } = makeStore();
+    await publishStaging(store, 'Farming');
+
+    await expect(promoteCourse(store, 'other-course')).rejects.toThrow('no release in channel "staging"');
+    await expect(promoteCourse(store, 'farming-101', { releaseId: 'nope' })).rejects.toThrow('Unknown release');
+  });
+});
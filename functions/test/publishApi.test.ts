@@ -0,0 +1,277 @@
+/**
+ * Tests for the publish API: auth, routing, request validation and the job
+ * lifecycle (queued → running → succeeded | failed).
+ *
+ * Jobs live in memory and the publish runners are fakes, so nothing talks
+ * to Firestore, Drive or Storage.
+ */
+
+import { ApiRequest, createPublishApiHandler } from '../src/publishApi';
+import { executePublishJob, JobStore, PublishJob, PublishJobResult, PublishRunners, QueuedJob } from '../src/publishJobs';
+
+class MemoryJobStore implements JobStore {
+  jobs: Record<string, PublishJob> = {};
+  private nextId = 1;
+
+  async create(job: Omit<PublishJob, 'jobId'>): Promise<PublishJob> {
+    const created = { ...job, jobId: `job-${this.nextId++}` };
+    this.jobs[created.jobId] = created;
+    return created;
+  }
+
+  async get(jobId: string): Promise<PublishJob | null> {
+    return this.jobs[jobId] ?? null;
+  }
+
+  async update(jobId: string, patch: Partial<PublishJob>): Promise<void> {
+    this.jobs[jobId] = { ...this.jobs[jobId], ...patch };
+  }
+
+  // No await between the check and the create, so it is atomic like the Firestore transaction
+  async createIfIdle(job: Omit<PublishJob, 'jobId'>, since: string): Promise<QueuedJob> {
+    const active = Object.values(this.jobs).find(
+      other => (other.status === 'queued' || other.status === 'running') && other.createdAt >= since,
+    );
+    if (active) return { active };
+    const created = { ...job, jobId: `job-${this.nextId++}` };
+    this.jobs[created.jobId] = created;
+    return { created };
+  }
+}
+
+const SECRET = 'publish-secret';
+
+function makeRequest(method: string, path: string, options: { token?: string; body?: any } = {}): ApiRequest {
+  const headers: Record<string, string> = options.token ? { authorization: `Bearer ${options.token}` } : {};
+  return { method, path, body: options.body, get: header => headers[header.toLowerCase()] };
+}
+
+function makeResponse() {
+  const res = {
+    statusCode: 0,
+    body: undefined as any,
+    headers: {} as Record<string, string>,
+    status(code: number) {
+      res.statusCode = code;
+      return res;
+    },
+    json(body: any) {
+      res.body = body;
+    },
+    set(header: string, value: string) {
+      res.headers[header] = value;
+      return res;
+    },
+  };
+  return res;
+}
+
+function setup() {
+  const jobs = new MemoryJobStore();
+  const handler = createPublishApiHandler({
+    jobs,
+    sharedSecret: SECRET,
+    verifyIdToken: async token => {
+      if (token === 'publisher-token') return { uid: 'editor-1', publisher: true };
+      if (token === 'reader-token') return { uid: 'reader-1' };
+      throw new Error('invalid token');
+    },
+  });
+  const call = async (method: string, path: string, options: { token?: string; body?: any } = {}) => {
+    const res = makeResponse();
+    await handler(makeRequest(method, path, options), res);
+    return res;
+  };
+  return { jobs, call };
+}
+
+describe('publish API auth', () => {
+  it('rejects requests without a bearer token', async () => {
+    const { call } = setup();
+    const res = await call('POST', '/publish/doc-1');
+    expect(res.statusCode).toBe(401);
+    expect(res.headers['WWW-Authenticate']).toBe('Bearer');
+  });
+
+  it('rejects an unknown token', async () => {
+    const { call } = setup();
+    expect((await call('POST', '/publish/doc-1', { token: 'nope' })).statusCode).toBe(401);
+  });
+
+  it('rejects signed-in users without the publisher claim', async () => {
+    const { call } = setup();
+    expect((await call('POST', '/publish/doc-1', { token: 'reader-token' })).statusCode).toBe(403);
+  });
+
+  it('accepts the shared secret and publisher users', async () => {
+    const { jobs, call } = setup();
+
+    const first = await call('POST', '/publish/doc-1', { token: SECRET });
+    expect(first.statusCode).toBe(202);
+    expect(jobs.jobs[first.body.jobId].requestedBy).toBe('shared-secret');
+
+    await jobs.update(first.body.jobId, { status: 'succeeded' });
+    const second = await call('POST', '/publish/doc-1', { token: 'publisher-token' });
+    expect(second.statusCode).toBe(202);
+    expect(jobs.jobs[second.body.jobId].requestedBy).toBe('uid:editor-1');
+  });
+});
+
+describe('publish API routes', () => {
+  it('queues a doc job with its options', async () => {
+    const { jobs, call } = setup();
+    const res = await call('POST', '/publish/doc-1', { token: SECRET, body: { force: true, channel: 'staging' } });
+
+    expect(res.body).toEqual({ jobId: 'job-1', status: 'queued', statusUrl: '/status/job-1' });
+    expect(jobs.jobs['job-1']).toMatchObject({
+      request: { type: 'doc', docId: 'doc-1', force: true, channel: 'staging' },
+      status: 'queued',
+      progress: { total: 0, done: 0 },
+    });
+  });
+
+  it('queues a publish-all job', async () => {
+    const { jobs, call } = setup();
+    const res = await call('POST', '/publish-all', { token: SECRET, body: { strict: true, releaseRetention: 3 } });
+
+    expect(res.statusCode).toBe(202);
+    expect(jobs.jobs[res.body.jobId].request).toEqual({ type: 'all', strict: true, releaseRetention: 3 });
+  });
+
+  it('returns 409 while another job is active', async () => {
+    const { call } = setup();
+    await call('POST', '/publish-all', { token: SECRET });
+    const res = await call('POST', '/publish/doc-1', { token: SECRET });
+
+    expect(res.statusCode).toBe(409);
+    expect(res.body.error).toContain('job-1');
+  });
+
+  it('queues only one of two concurrent requests', async () => {
+    const { jobs, call } = setup();
+    const responses = await Promise.all([
+      call('POST', '/publish-all', { token: SECRET }),
+      call('POST', '/publish/doc-1', { token: SECRET }),
+    ]);
+
+    expect(responses.map(res => res.statusCode).sort()).toEqual([202, 409]);
+    expect(Object.keys(jobs.jobs)).toHaveLength(1);
+  });
+
+  it('ignores stale jobs that never finished', async () => {
+    const { jobs, call } = setup();
+    await jobs.create({
+      request: { type: 'all' },
+      status: 'running',
+      requestedBy: 'shared-secret',
+      createdAt: '2020-01-01T00:00:00.000Z',
+      progress: { total: 3, done: 1, message: '' },
+    });
+
+    expect((await call('POST', '/publish-all', { token: SECRET })).statusCode).toBe(202);
+  });
+
+  it('rejects invalid bodies', async () => {
+    const { call } = setup();
+    expect((await call('POST', '/publish/doc-1', { token: SECRET, body: { force: 'yes' } })).statusCode).toBe(400);
+    expect((await call('POST', '/publish/doc-1', { token: SECRET, body: { channel: '../prod' } })).statusCode).toBe(400);
+    expect((await call('POST', '/publish/doc-1', { token: SECRET, body: { folderId: 'f' } })).statusCode).toBe(400);
+    expect((await call('POST', '/publish-all', { token: SECRET, body: { folderId: 'someone-elses-folder' } })).statusCode).toBe(400);
+    expect((await call('POST', '/publish-all', { token: SECRET, body: { releaseRetention: 0 } })).statusCode).toBe(400);
+  });
+
+  it('returns job status', async () => {
+    const { call } = setup();
+    const { body } = await call('POST', '/publish/doc-1', { token: SECRET });
+    const res = await call('GET', `/status/${body.jobId}`, { token: SECRET });
+
+    expect(res.statusCode).toBe(200);
+    expect(res.body).toMatchObject({ jobId: body.jobId, status: 'queued' });
+    expect((await call('GET', '/status/missing', { token: SECRET })).statusCode).toBe(404);
+  });
+
+  it('answers 405 for the wrong method and 404 for unknown routes', async () => {
+    const { call } = setup();
+    expect((await call('GET', '/publish/doc-1', { token: SECRET })).statusCode).toBe(405);
+    expect((await call('POST', '/status/job-1', { token: SECRET })).statusCode).toBe(405);
+    expect((await call('GET', '/courses', { token: SECRET })).statusCode).toBe(404);
+  });
+});
+
+describe('executePublishJob', () => {
+  const result: PublishJobResult = {
+    courseIds: ['farming-101'], published: 1, unchanged: 0, failed: 0, failures: [], parseErrors: 0,
+    docs: [{ name: 'Farming 101', courseId: 'farming-101', outcome: 'published', durationMs: 1200 }],
+  };
+
+  async function queueJob(jobs: MemoryJobStore, type: 'doc' | 'all'): Promise<PublishJob> {
+    return jobs.create({
+      request: type === 'doc' ? { type, docId: 'doc-1' } : { type },
+      status: 'queued',
+      requestedBy: 'shared-secret',
+      createdAt: new Date().toISOString(),
+      progress: { total: 0, done: 0, message: 'Queued' },
+    });
+  }
+
+  it('runs the job and records progress and the result', async () => {
+    const jobs = new MemoryJobStore();
+    const job = await queueJob(jobs, 'all');
+    const statuses: string[] = [];
+    const runners: PublishRunners = {
+      publishDoc: jest.fn(),
+      publishChanges: jest.fn(),
+      publishAll: async (_request, report) => {
+        statuses.push(jobs.jobs[job.jobId].status);
+        await report({ total: 2, done: 1, message: 'Finished doc-1' });
+        return result;
+      },
+    };
+
+    await executePublishJob(job, jobs, runners);
+
+    expect(statuses).toEqual(['running']);
+    expect(runners.publishDoc).not.toHaveBeenCalled();
+    expect(jobs.jobs[job.jobId]).toMatchObject({
+      status: 'succeeded',
+      progress: { total: 2, done: 1, message: 'Finished doc-1' },
+      result,
+    });
+    expect(jobs.jobs[job.jobId].finishedAt).toBeDefined();
+  });
+
+  it('marks the job failed when a doc failed', async () => {
+    const jobs = new MemoryJobStore();
+    const job = await queueJob(jobs, 'doc');
+    const failure = { ...result, courseIds: [], published: 0, failed: 1, failures: [{ name: 'doc-1', error: 'boom' }] };
+
+    await executePublishJob(job, jobs, { publishDoc: async () => failure, publishAll: jest.fn(), publishChanges: jest.fn() });
+
+    expect(jobs.jobs[job.jobId]).toMatchObject({ status: 'failed', result: failure });
+  });
+
+  it('records errors thrown by the runner', async () => {
+    const jobs = new MemoryJobStore();
+    const job = await queueJob(jobs, 'all');
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await executePublishJob(job, jobs, {
+      publishDoc: jest.fn(),
+      publishChanges: jest.fn(),
+      publishAll: async () => { throw new Error('Drive API quota exceeded'); },
+    });
+
+    expect(jobs.jobs[job.jobId]).toMatchObject({ status: 'failed', error: 'Drive API quota exceeded' });
+  });
+
+  it('skips jobs that are not queued', async () => {
+    const jobs = new MemoryJobStore();
+    const job = await queueJob(jobs, 'all');
+    await jobs.update(job.jobId, { status: 'running' });
+    const publishAll = jest.fn();
+
+    await executePublishJob({ ...job, status: 'running' }, jobs, { publishDoc: jest.fn(), publishAll, publishChanges: jest.fn() });
+
+    expect(publishAll).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Tests for the search index: tokens, snippets, entries per course and
+ * rebuilding courses/search-index.json from the published courses.
+ *
+ * The app tokenizes search queries with its own copy of tokenize()
+ * (src/api/course/courseSearch.ts); both copies run against the cases in
+ * fixtures/tokenize.json, so indexed terms and query words can't drift apart.
+ *
+ * Runs on LocalContentStore in a temp directory.
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { tokenize as appTokenize } from '../../src/api/course/courseSearch';
+import { LocalContentStore, writeJson } from '../src/contentStore';
+import { publishCourseRelease } from '../src/courseReleases';
+import {
+  buildCourseSearchEntries,
+  indexedContent,
+  SEARCH_INDEX_PATH,
+  snippet,
+  tokenize,
+  writeSearchIndex,
+} from '../src/searchIndex';
+import tokenizeCases from './fixtures/tokenize.json';
+
+const span = (text: string) => ({ text, bold: false, italic: false });
+
+function courseFiles(courseId: string, title: string) {
+  return {
+    summary: { courseId, title, subtitle: 'Grow more', description: 'Soil and water basics.' },
+    detail: {
+      courseId,
+      lessons: [
+        {
+          lessonId: `${courseId}-soil`,
+          title: 'Soil Layers',
+          summary: 'What is under your feet',
+          blocks: [
+            { id: 'b1', type: 'heading', level: 2, text: 'Topsoil' },
+            { id: 'b2', type: 'text', content: [span('Loam holds '), span('water well.')] },
+            { id: 'b3', type: 'flashcards', cards: [{ front: 'What is humus?', back: 'Decayed matter' }] },
+            { id: 'b4', type: 'code', code: 'ignored' },
+          ],
+        },
+      ],
+    },
+  };
+}
+
+describe('tokenize', () => {
+  it('lowercases, strips diacritics and drops stop words and single letters', () => {
+    expect(tokenize('The Café of São Paulo, a 3-step guide — step 2!')).toEqual(['cafe', 'sao', 'paulo', '3', 'step', 'guide', '2']);
+  });
+
+  it.each(tokenizeCases)('tokenizes $text the same way as the app', ({ text, tokens }) => {
+    expect(tokenize(text)).toEqual(tokens);
+    expect(appTokenize(text)).toEqual(tokens);
+  });
+});
+
+describe('snippet', () => {
+  it('keeps short text on one line and cuts long text at a word', () => {
+    expect(snippet('Loam\n  holds water')).toBe('Loam holds water');
+    const long = snippet('word '.repeat(60));
+    expect(long.length).toBeLessThanOrEqual(160);
+    expect(long.endsWith('word…')).toBe(true);
+  });
+});
+
+describe('buildCourseSearchEntries', () => {
+  it('indexes the course, lessons, headings, text blocks and flashcard fronts', () => {
+    const { summary, detail } = courseFiles('farming-101', 'Farming Basics');
+    const { course, entries } = buildCourseSearchEntries({ courseId: 'farming-101' }, summary, detail);
+
+    expect(course).toEqual({
+      courseId: 'farming-101',
+      title: 'Farming Basics',
+      lessons: [{ lessonId: 'farming-101-soil', title: 'Soil Layers' }],
+    });
+    expect(entries.map(entry => [entry.kind, entry.blockId, entry.text])).toEqual([
+      ['course', undefined, 'Grow more — Soil and water basics.'],
+      ['lesson', undefined, 'What is under your feet'],
+      ['heading', 'b1', 'Topsoil'],
+      ['text', 'b2', 'Loam holds water well.'],
+      ['flashcard', 'b3', 'What is humus?'],
+    ]);
+    expect(entries[0].terms).toEqual(['farming', 'basics', 'grow', 'more', 'soil', 'water']);
+    expect(entries[1]).toMatchObject({ lessonId: 'farming-101-soil', terms: ['soil', 'layers', 'what', 'under', 'your', 'feet'] });
+  });
+
+  it('tags translations with their language', () => {
+    const { summary, detail } = courseFiles('farming-101', 'Agricultura');
+    const { course, entries } = buildCourseSearchEntries({ courseId: 'farming-101', language: 'es' }, summary, detail);
+
+    expect(course.language).toBe('es');
+    expect(entries.every(entry => entry.language === 'es')).toBe(true);
+  });
+});
+
+describe('indexedContent', () => {
+  it('lists the courses, then their translations', () => {
+    expect(indexedContent({ courses: ['a', 'b'], translations: { a: ['es', 'fr'] } })).toEqual([
+      { courseId: 'a' },
+      { courseId: 'b' },
+      { courseId: 'a', language: 'es' },
+      { courseId: 'a', language: 'fr' },
+    ]);
+    expect(indexedContent(null)).toEqual([]);
+  });
+});
+
+describe('writeSearchIndex', () => {
+  it('rebuilds the index from the published courses in the course index', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-'));
+    const store = new LocalContentStore(dir);
+    await publishCourseRelease(store, 'farming-101', courseFiles('farming-101', 'Farming Basics'));
+    await publishCourseRelease(store, 'farming-101/es', courseFiles('farming-101', 'Agricultura'));
+    await writeJson(store, 'courses/index.json', {
+      courses: ['farming-101', 'missing'],
+      translations: { 'farming-101': ['es'] },
+    }, { cacheControl: 'no-cache' });
+    const warnSpy = jest.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const index = await writeSearchIndex(store, new Date('2026-10-19T10:00:00.000Z'));
+    warnSpy.mockRestore();
+
+    expect(index.courses.map(course => [course.title, course.language])).toEqual([
+      ['Farming Basics', undefined],
+      ['Agricultura', 'es'],
+    ]);
+    expect(index.entries).toHaveLength(10);
+    expect(await store.readJson(SEARCH_INDEX_PATH)).toEqual(index);
+  });
+});
@@ -0,0 +1,365 @@
+/**
+ * Tests for validateCourseSummary(), validateCourseDetail(),
+ * validateCoursePair(), validateHomeConfig() and validateContentFiles().
+ *
+ * These are all pure functions — no Firebase or API dependencies.
+ */
+
+import {
+  validateCourseSummary,
+  validateCourseDetail,
+  validateCoursePair,
+  validateHomeConfig,
+  validateContentFiles,
+  detectContentFileKind,
+} from '../src/validateContent';
+
+// ─── Fixtures ───────────────────────────────────────────────────────────────
+
+function makeSummary(overrides: Record<string, any> = {}): any {
+  return {
+    courseId: 'farming-101',
+    title: 'Farming 101',
+    subtitle: 'Basics',
+    description: 'Learn farming',
+    author: { name: 'Jane', organization: 'Farm Co', bio: '', avatarUrl: '' },
+    thumbnailUrl: 'https://example.com/thumb.jpg',
+    releaseDate: '2026-01-01T00:00:00Z',
+    lastUpdated: '2026-01-02T00:00:00Z',
+    language: 'en',
+    difficulty: 'beginner',
+    estimatedDurationMinutes: 30,
+    tags: ['farming'],
+    premium: false,
+    freePreviewLessons: ['farming-101-intro'],
+    lessonCount: 1,
+    order: 1,
+    ...overrides,
+  };
+}
+
+function makeDetail(overrides: Record<string, any> = {}): any {
+  return {
+    courseId: 'farming-101',
+    lessons: [
+      {
+        lessonId: 'farming-101-intro',
+        title: 'Intro',
+        summary: '',
+        order: 1,
+        estimatedDurationMinutes: 5,
+        premium: false,
+        learningObjectives: [],
+        blocks: [
+          { id: 'b1', type: 'heading', level: 2, text: 'Welcome' },
+          { id: 'b2', type: 'text', content: [{ text: 'Hello', bold: false, italic: false }] },
+          { id: 'b3', type: 'list', style: 'bullet', items: [[{ text: 'One', bold: false, italic: false }], 'Two'] },
+          { id: 'b4', type: 'quiz', quizId: 'quiz-farming-101-intro' },
+        ],
+      },
+    ],
+    quizzes: [
+      {
+        quizId: 'quiz-farming-101-intro',
+        lessonId: 'farming-101-intro',
+        title: 'Intro Checkpoint',
+        questions: [
+          {
+            questionId: 'q1',
+            type: 'mcq',
+            prompt: 'Pick A',
+            choices: ['A', 'B'],
+            correctAnswer: 'A',
+            explanation: 'A is right',
+          },
+        ],
+      },
+    ],
+    ...overrides,
+  };
+}
+
+function paths(violations: Array<{ path: string }>): string[] {
+  return violations.map(v => v.path);
+}
+
+// ─── validateCourseSummary ──────────────────────────────────────────────────
+
+describe('validateCourseSummary', () => {
+  it('accepts a valid summary', () => {
+    expect(validateCourseSummary(makeSummary())).toEqual([]);
+  });
+
+  it('reports wrong field types with JSON paths', () => {
+    const violations = validateCourseSummary(makeSummary({ premium: 'yes', tags: ['a', 2] }));
+    expect(paths(violations)).toEqual(['$.tags[1]', '$.premium']);
+  });
+
+  it('reports unknown difficulty', () => {
+    const violations = validateCourseSummary(makeSummary({ difficulty: 'expert' }));
+    expect(violations[0].path).toBe('$.difficulty');
+    expect(violations[0].message).toContain('"expert"');
+  });
+
+  it('reports a non-object document at the root', () => {
+    expect(paths(validateCourseSummary([]))).toEqual(['$']);
+  });
+});
+
+// ─── validateCourseDetail ───────────────────────────────────────────────────
+
+describe('validateCourseDetail', () => {
+  it('accepts a valid detail', () => {
+    expect(validateCourseDetail(makeDetail())).toEqual([]);
+  });
+
+  it('reports unknown block types', () => {
+    const detail = makeDetail();
+    detail.lessons[0].blocks.push({ id: 'b5', type: 'carousel' });
+    const violations = validateCourseDetail(detail);
+    expect(paths(violations)).toEqual(['$.lessons[0].blocks[4].type']);
+    expect(violations[0].message).toContain('unknown block type "carousel"');
+  });
+
+  it('checks the glossary and the terms linked from text', () => {
+    const detail = makeDetail({
+      glossary: [
+        { termId: 'loam', term: 'Loam', definition: 'Mixed soil.', aliases: ['loamy soil'] },
+        { termId: 'loam', term: 'Loam again', definition: 3 },
+      ],
+    });
+    detail.lessons[0].blocks[1].content.push(
+      { text: 'loam', bold: false, italic: false, glossaryTermId: 'loam' },
+      { text: 'tilth', bold: false, italic: false, glossaryTermId: 'tilth' },
+    );
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.glossary[1].definition',
+      '$.glossary[1].termId',
+      '$.lessons[0].blocks[1].content[2].glossaryTermId',
+    ]);
+  });
+
+  it('checks table cells and code blocks', () => {
+    const detail = makeDetail();
+    detail.lessons[0].blocks.push(
+      { id: 'b5', type: 'table', hasHeader: true, rows: [[[{ text: 'A', bold: true, italic: false }], 'B']] },
+      { id: 'b6', type: 'code', code: 'ls', language: 3 },
+    );
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.lessons[0].blocks[4].rows[0][1]',
+      '$.lessons[0].blocks[5].language',
+    ]);
+  });
+
+  it('checks image sizes and variants', () => {
+    const variant = { src: 'image-1-480w.webp', width: 480, height: 320, format: 'webp' };
+    const detail = makeDetail();
+    detail.lessons[0].blocks.push(
+      { id: 'b5', type: 'image', src: 'image-1.png', caption: '', aspectRatio: 1.5, variants: [variant] },
+      { id: 'b6', type: 'image', src: 'image-2.png', aspectRatio: '3:2', variants: [{ ...variant, width: '480' }] },
+      { id: 'b7', type: 'image', src: 'image-3.png', variants: [{ ...variant, format: 'jpeg' }, { ...variant, format: 'avif' }] },
+    );
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.lessons[0].blocks[5].aspectRatio',
+      '$.lessons[0].blocks[5].variants[0].width',
+      '$.lessons[0].blocks[6].variants[1].format',
+    ]);
+  });
+
+  it('checks list nesting levels and per-item styles', () => {
+    const item = [{ text: 'Step', bold: false, italic: false }];
+    const detail = makeDetail();
+    detail.lessons[0].blocks.push(
+      { id: 'b5', type: 'list', style: 'ordered', items: [item, item], levels: [0, 1], styles: ['ordered', 'bullet'] },
+      { id: 'b6', type: 'list', style: 'ordered', items: [item, item], levels: [0, -1], styles: ['numbered'] },
+    );
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.lessons[0].blocks[5].levels[1]',
+      '$.lessons[0].blocks[5].styles',
+      '$.lessons[0].blocks[5].styles[0]',
+    ]);
+  });
+
+  it('checks cloze gaps', () => {
+    const detail = makeDetail();
+    detail.lessons[0].blocks.push(
+      { id: 'b5', type: 'cloze', lines: [[{ type: 'text', text: 'Je ' }, { type: 'gap', gapId: 'g1', answers: ['suis'] }]] },
+      { id: 'b6', type: 'cloze', lines: [[{ type: 'text', text: 'No gaps' }]], wordBank: [1] },
+    );
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.lessons[0].blocks[5].lines',
+      '$.lessons[0].blocks[5].wordBank[0]',
+    ]);
+  });
+
+  it('checks callout titles and rich paragraphs', () => {
+    const detail = makeDetail();
+    detail.lessons[0].blocks.push({
+      id: 'b5',
+      type: 'callout',
+      variant: 'warning',
+      title: 'Careful',
+      text: 'Dig slowly',
+      paragraphs: [[{ text: 'Dig ', bold: false, italic: false }, { text: 'slowly', bold: false, italic: false, code: 'yes' }]],
+    });
+    expect(paths(validateCourseDetail(detail))).toEqual(['$.lessons[0].blocks[4].paragraphs[0][1].code']);
+  });
+
+  it('reports quiz blocks without a matching quizzes[] entry', () => {
+    const detail = makeDetail({ quizzes: [] });
+    const violations = validateCourseDetail(detail);
+    expect(paths(violations)).toEqual(['$.lessons[0].blocks[3].quizId']);
+  });
+
+  it('reports MCQ questions with no correctAnswer', () => {
+    const detail = makeDetail();
+    delete detail.quizzes[0].questions[0].correctAnswer;
+    const violations = validateCourseDetail(detail);
+    expect(paths(violations)).toEqual(['$.quizzes[0].questions[0].correctAnswer']);
+    expect(violations[0].message).toContain('[CORRECT]');
+  });
+
+  it('reports MCQ correctAnswer that is not a choice', () => {
+    const detail = makeDetail();
+    detail.quizzes[0].questions[0].correctAnswer = 'C';
+    expect(paths(validateCourseDetail(detail))).toEqual(['$.quizzes[0].questions[0].correctAnswer']);
+  });
+
+  it('checks multi-select and ordering answers against the choices', () => {
+    const detail = makeDetail();
+    detail.quizzes[0].questions.push(
+      { questionId: 'q2', type: 'multi_select', prompt: 'P', choices: ['A', 'B'], correctAnswer: ['A', 'C'], explanation: '' },
+      { questionId: 'q3', type: 'ordering', prompt: 'P', choices: ['A', 'B'], correctAnswer: ['B', 'A'], explanation: '' },
+      { questionId: 'q4', type: 'ordering', prompt: 'P', choices: ['A', 'B'], correctAnswer: ['A'], explanation: '' },
+    );
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.quizzes[0].questions[1].correctAnswer[1]',
+      '$.quizzes[0].questions[3].correctAnswer',
+    ]);
+  });
+
+  it('reports duplicate questionIds within a quiz', () => {
+    const detail = makeDetail();
+    detail.quizzes[0].questions.push({ ...detail.quizzes[0].questions[0] });
+    const violations = validateCourseDetail(detail);
+    expect(paths(violations)).toEqual(['$.quizzes[0].questions[1].questionId']);
+    expect(violations[0].message).toContain('duplicate questionId');
+  });
+
+  it('reports prerequisites that point at missing lessons', () => {
+    const detail = makeDetail();
+    detail.lessons[0].prerequisites = ['missing-lesson'];
+    detail.lessons[0].tags = 'soil';
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.lessons[0].tags',
+      '$.lessons[0].prerequisites[0]',
+    ]);
+  });
+
+  it('reports aliases that clash with lessonIds or other aliases', () => {
+    const detail = makeDetail();
+    detail.lessons[0].aliases = ['farming-101-intro', 'farming-101-welcome'];
+    detail.lessons.push({ ...detail.lessons[0], lessonId: 'farming-101-tools', order: 2, blocks: [], aliases: ['farming-101-welcome'] });
+    expect(paths(validateCourseDetail(detail))).toEqual([
+      '$.lessons[0].aliases[0]',
+      '$.lessons[1].aliases[0]',
+    ]);
+  });
+
+  it('reports duplicate lessonIds', () => {
+    const detail = makeDetail();
+    detail.lessons.push({ ...detail.lessons[0], blocks: [] });
+    const violations = validateCourseDetail(detail);
+    expect(paths(violations)).toEqual(['$.lessons[1].lessonId']);
+    expect(violations[0].message).toContain('duplicate lessonId');
+  });
+
+  it('reports heading levels outside 1-3', () => {
+    const detail = makeDetail();
+    detail.lessons[0].blocks[0].level = 4;
+    expect(paths(validateCourseDetail(detail))).toEqual(['$.lessons[0].blocks[0].level']);
+  });
+
+  it('reports quizzes pointing at missing lessons', () => {
+    const detail = makeDetail();
+    detail.quizzes[0].lessonId = 'gone';
+    expect(paths(validateCourseDetail(detail))).toEqual(['$.quizzes[0].lessonId']);
+  });
+});
+
+// ─── validateCoursePair ─────────────────────────────────────────────────────
+
+describe('validateCoursePair', () => {
+  it('accepts a matching summary and detail', () => {
+    expect(validateCoursePair(makeSummary(), makeDetail())).toEqual([]);
+  });
+
+  it('reports freePreviewLessons that point at missing lessons', () => {
+    const summary = makeSummary({ freePreviewLessons: ['farming-101-intro', 'farming-101-old'] });
+    const violations = validateCoursePair(summary, makeDetail());
+    expect(paths(violations)).toEqual(['$.freePreviewLessons[1]']);
+  });
+
+  it('reports lessonCount and courseId mismatches', () => {
+    const summary = makeSummary({ courseId: 'other', lessonCount: 3 });
+    expect(paths(validateCoursePair(summary, makeDetail()))).toEqual(['$.courseId', '$.lessonCount']);
+  });
+});
+
+// ─── validateHomeConfig ─────────────────────────────────────────────────────
+
+describe('validateHomeConfig', () => {
+  it('accepts a valid home config', () => {
+    expect(validateHomeConfig({ title: 'Home', text: 'Welcome', backgroundImage: 'https://x/bg.jpg' })).toEqual([]);
+  });
+
+  it('reports missing required fields', () => {
+    expect(paths(validateHomeConfig({ title: 'Home' }))).toEqual(['$.text', '$.backgroundImage']);
+  });
+
+  it('checks sections and their buttons', () => {
+    const home = {
+      title: 'Home',
+      text: 'Welcome',
+      backgroundImage: 'https://x/bg.jpg',
+      sections: [
+        { type: 'hero', id: 'hero-1', buttons: [{ label: 'Browse', action: 'courses' }] },
+        { type: 'featured-courses', id: 'featured-courses-1', courseIds: 'soil' },
+        { type: 'call-to-action', id: 'call-to-action-1', buttons: [{ label: 'Read', action: 'url' }] },
+        { type: 'banner', id: 'banner-1' },
+      ],
+    };
+
+    expect(paths(validateHomeConfig(home))).toEqual([
+      '$.sections[1].courseIds',
+      '$.sections[2].buttons[0].target',
+      '$.sections[3].type',
+    ]);
+  });
+});
+
+// ─── validateContentFiles ───────────────────────────────────────────────────
+
+describe('validateContentFiles', () => {
+  it('detects file kinds by name', () => {
+    expect(detectContentFileKind('courses/x/course-summary.json')).toBe('course-summary');
+    expect(detectContentFileKind('courses/x/course-detail.json')).toBe('course-detail');
+    expect(detectContentFileKind('home/home.json')).toBe('home');
+    expect(detectContentFileKind('courses/index.json')).toBeNull();
+  });
+
+  it('cross-checks summary and detail in the same folder', () => {
+    const results = validateContentFiles([
+      { file: 'courses/farming-101/course-summary.json', data: makeSummary({ lessonCount: 2 }) },
+      { file: 'courses/farming-101/course-detail.json', data: makeDetail() },
+      { file: 'courses/index.json', data: { courses: [] } },
+    ]);
+
+    expect(results.map(r => r.file)).toEqual([
+      'courses/farming-101/course-summary.json',
+      'courses/farming-101/course-detail.json',
+    ]);
+    expect(paths(results[0].violations)).toEqual(['$.lessonCount']);
+    expect(results[1].violations).toEqual([]);
+  });
+});
@@ -13,8 +13,10 @@ import HomeScreen from './screens/HomeScreen';
 import CoursesScreen from './screens/CoursesScreen';
 import CourseDetailScreen from './screens/CourseDetailScreen';
 import LessonScreen from './screens/LessonScreen';
+import GlossaryScreen from './screens/GlossaryScreen';
 import ProgressScreen from './screens/ProgressScreen';
 import { APIProvider } from './context/APIContext';
+import { LanguageProvider } from './context/LanguageContext';
 import {
   RewardCelebrateProvider,
   useRewardCelebrate,
@@ -75,6 +77,21 @@ function CourseStackNavigator() {
           },
         })} 
       />
+      <CourseStack.Screen 
+        name="Glossary" 
+        component={GlossaryScreen} 
+        options={{
+          title: 'Glossary',
+          headerTintColor: '#111827',
+          headerStyle: { backgroundColor: 'white' },
+          headerShadowVisible: false,
+          headerTitleStyle: {
+            fontWeight: '700',
+            fontSize: 18,
+            color: '#111827',
+          },
+        }} 
+      />
     </CourseStack.Navigator>
   );
 }
@@ -176,11 +193,13 @@ export default function App() {
   return (
     <TamaguiProvider config={config}>
       <APIProvider>
-        <RewardToastProvider>
-          <RewardCelebrateProvider>
-            <AppNavigation />
-          </RewardCelebrateProvider>
-        </RewardToastProvider>
+        <LanguageProvider>
+          <RewardToastProvider>
+            <RewardCelebrateProvider>
+              <AppNavigation />
+            </RewardCelebrateProvider>
+          </RewardToastProvider>
+        </LanguageProvider>
       </APIProvider>
     </TamaguiProvider>
   );
@@ -25,7 +25,7 @@ export interface CourseSummary {
 }
 
 // Block Types
-export type BlockType = 'heading' | 'text' | 'image' | 'video' | 'callout' | 'list' | 'quiz' | 'flashcards';
+export type BlockType = 'heading' | 'text' | 'image' | 'video' | 'callout' | 'list' | 'quiz' | 'flashcards' | 'cloze' | 'table' | 'code';
 
 export interface BaseBlock {
   id: string;
@@ -44,6 +44,8 @@ export interface TextSpan {
   italic?: boolean;
   link?: string;
   code?: boolean;
+  /** Set on a course glossary term; `termId` of a `CourseDetail.glossary` entry */
+  glossaryTermId?: string;
 }
 
 export interface TextBlock extends BaseBlock {
@@ -51,6 +53,14 @@ export interface TextBlock extends BaseBlock {
   content: TextSpan[];
 }
 
+/** A resized copy of a lesson image, published next to the original */
+export interface ImageVariant {
+  src: string;
+  width: number;
+  height: number;
+  format: 'webp' | 'jpeg';
+}
+
 export interface ImageBlock extends BaseBlock {
   type: 'image';
   src: string | number;
@@ -58,26 +68,37 @@ export interface ImageBlock extends BaseBlock {
   hash?: string;
   caption?: string;
   zoomable?: boolean;
+  /** Width / height of the original, to size the image before it loads */
+  aspectRatio?: number;
+  /** Smaller WebP and JPEG copies, narrowest first; `src` stays the original */
+  variants?: ImageVariant[];
 }
 
 export interface VideoBlock extends BaseBlock {
   type: 'video';
   provider: 'youtube' | 'vimeo' | 'native';
   videoId?: string; // for youtube/vimeo
-  src?: string; // for native
+  src?: string; // for native (.mp4 / .m3u8 ...)
   title?: string;
+  startSeconds?: number; // from t= / start= in the source URL
 }
 
 export interface CalloutBlock extends BaseBlock {
   type: 'callout';
   variant: 'info' | 'warning' | 'tip' | 'success' | 'exam';
-  text: string;
+  title?: string;
+  text: string; // plain-text body, kept for older content
+  paragraphs?: TextSpan[][]; // rich body, one span list per paragraph
 }
 
+export type ListStyle = 'bullet' | 'ordered';
+
 export interface ListBlock extends BaseBlock {
   type: 'list';
-  style: 'bullet' | 'ordered';
-  items: string[];
+  style: ListStyle; // style of the top-level items
+  items: TextSpan[][]; // one rich-text item per entry, in document order
+  levels?: number[]; // nesting level per item (0 = top); omitted for flat lists
+  styles?: ListStyle[]; // style per item; omitted when every item uses `style`
 }
 
 export interface QuizBlock extends BaseBlock {
@@ -93,6 +114,28 @@ export interface FlashcardsBlock extends BaseBlock {
   }>;
 }
 
+export type ClozeSegment =
+  | { type: 'text'; text: string }
+  | { type: 'gap'; gapId: string; answers: string[] }; // first answer is the canonical one
+
+export interface ClozeBlock extends BaseBlock {
+  type: 'cloze';
+  lines: ClozeSegment[][];
+  wordBank?: string[]; // present → learner picks words instead of typing
+}
+
+export interface TableBlock extends BaseBlock {
+  type: 'table';
+  hasHeader: boolean; // first row is the header
+  rows: TextSpan[][][]; // rows → cells → spans
+}
+
+export interface CodeBlock extends BaseBlock {
+  type: 'code';
+  code: string;
+  language?: string; // from the ``` fence, when given
+}
+
 export type ContentBlock = 
   | HeadingBlock 
   | TextBlock 
@@ -102,6 +145,9 @@ export type ContentBlock =
   | ListBlock 
   | QuizBlock
   | FlashcardsBlock
+  | ClozeBlock
+  | TableBlock
+  | CodeBlock
   // Add others later as needed
   | BaseBlock; 
 
@@ -113,14 +159,20 @@ export interface Lesson {
   estimatedDurationMinutes: number;
   premium: boolean;
   learningObjectives: string[];
+  prerequisites?: string[]; // lessonIds to finish first (shown as a warning, never enforced)
+  tags?: string[];
+  aliases?: string[]; // earlier lessonIds; progress stored under them moves to lessonId
   blocks: ContentBlock[];
 }
 
 export interface QuizQuestion {
   questionId: string;
-  type: 'mcq' | 'true_false' | 'short_answer';
+  type: 'mcq' | 'multi_select' | 'ordering' | 'true_false' | 'short_answer';
   prompt: string;
   choices?: string[];
+  // mcq: the correct choice; multi_select: every correct choice;
+  // ordering: the choices in the correct order; true_false: boolean;
+  // short_answer: accepted answers
   correctAnswer: string | boolean | string[];
   explanation: string;
 }
@@ -132,14 +184,52 @@ export interface Quiz {
   questions: QuizQuestion[];
 }
 
+export interface GlossaryEntry {
+  termId: string;
+  term: string;
+  definition: string;
+  /** Other names for the term, e.g. an abbreviation */
+  aliases?: string[];
+}
+
 export interface CourseDetail {
   courseId: string;
   lessons: Lesson[];
   quizzes?: Quiz[];
+  /** In the doc's order */
+  glossary?: GlossaryEntry[];
+}
+
+export interface CourseContentOptions {
+  /**
+   * Preferred language (`es`, `pt-br`). Courses without a translation in it
+   * come in their own language. Translations keep the course's `courseId`
+   * and lesson IDs, so progress is shared between languages.
+   */
+  language?: string;
+}
+
+export type SearchResultKind = 'course' | 'lesson' | 'heading' | 'text' | 'flashcard';
+
+/** A match of `CourseAPI.search`; `lessonId` / `blockId` say where to open it */
+export interface SearchResult {
+  courseId: string;
+  courseTitle: string;
+  lessonId?: string;
+  lessonTitle?: string;
+  blockId?: string;
+  kind: SearchResultKind;
+  /** Start of the matching text */
+  text: string;
+  score: number;
 }
 
 export interface CourseAPI {
-  getCourseSummaries(): Promise<CourseSummary[]>;
-  getCourseSummary(courseId: string): Promise<CourseSummary>;
-  getCourseDetail(courseId: string): Promise<CourseDetail>;
+  getCourseSummaries(options?: CourseContentOptions): Promise<CourseSummary[]>;
+  getCourseSummary(courseId: string, options?: CourseContentOptions): Promise<CourseSummary>;
+  getCourseDetail(courseId: string, options?: CourseContentOptions): Promise<CourseDetail>;
+  // Languages of the published translations, besides the course's own `language`
+  getCourseTranslations(courseId: string): Promise<string[]>;
+  // Best matches first; every word of the query must match a word of the result (as a prefix)
+  search(query: string, options?: CourseContentOptions): Promise<SearchResult[]>;
 }
@@ -1,5 +1,8 @@
-import { CourseAPI, CourseSummary, CourseDetail } from './CourseAPI';
+import { CourseAPI, CourseContentOptions, CourseSummary, CourseDetail, SearchResult } from './CourseAPI';
+import { matchTranslation } from './courseLanguages';
+import { SearchIndex, searchIndex } from './courseSearch';
 import {
+  channelCacheKey,
   getJsonWithOfflineCache,
   readJsonCache,
   writeJsonCache,
@@ -7,28 +10,97 @@ import {
 
 const STORAGE_BASE = 'https://storage.googleapis.com/smiling-memory-427311-h3.firebasestorage.app';
 const COURSE_SUMMARIES_CACHE_KEY = 'courses:summaries';
+const COURSE_INDEX_CACHE_KEY = 'courses:index';
+const SEARCH_INDEX_CACHE_KEY = 'courses:search-index';
 const courseSummaryCacheKey = (courseId: string) => `courses:summary:${courseId}`;
 const courseDetailCacheKey = (courseId: string) => `courses:detail:${courseId}`;
 
+/** courses/index.json; `translations` lists each course's translation languages */
+interface CourseIndex {
+  courses?: string[];
+  translations?: Record<string, string[]>;
+}
+
 export class FirebaseCourseAPI implements CourseAPI {
+  /**
+   * @param channel content channel to read (e.g. `staging`, published under
+   *                `channels/<channel>/`); production when omitted
+   */
+  constructor(private readonly channel?: string) {}
+
+  private cacheKey(key: string): string {
+    return channelCacheKey(this.channel, key);
+  }
+
   private async fetchJson<T>(path: string): Promise<T> {
-    const response = await fetch(`${STORAGE_BASE}/${path}`);
+    const channelPath = this.channel ? `channels/${this.channel}/${path}` : path;
+    const response = await fetch(`${STORAGE_BASE}/${channelPath}`);
     if (!response.ok) {
       throw new Error(`Failed to fetch ${path}: ${response.status}`);
     }
     return await response.json();
   }
 
-  private async fetchCourseSummariesFromNetwork(): Promise<CourseSummary[]> {
-    const index = await this.fetchJson<{ courses?: string[] }>('courses/index.json');
+  /**
+   * Path of a course file in the current release (courses/<id>/manifest.json).
+   * Courses published before releases existed only have the root copies.
+   */
+  private async resolveCoursePath(courseId: string, file: 'summary' | 'detail'): Promise<string> {
+    try {
+      const manifest = await this.fetchJson<{ summaryPath?: string; detailPath?: string }>(
+        `courses/${courseId}/manifest.json`,
+      );
+      const releasePath = file === 'summary' ? manifest.summaryPath : manifest.detailPath;
+      if (releasePath) return releasePath;
+    } catch {
+      // No manifest yet
+    }
+    return `courses/${courseId}/course-${file}.json`;
+  }
+
+  private async fetchCourseFile<T>(courseId: string, file: 'summary' | 'detail'): Promise<T> {
+    return this.fetchJson<T>(await this.resolveCoursePath(courseId, file));
+  }
+
+  private async getCourseIndex(): Promise<CourseIndex> {
+    return getJsonWithOfflineCache(
+      this.cacheKey(COURSE_INDEX_CACHE_KEY),
+      () => this.fetchJson<CourseIndex>('courses/index.json'),
+    );
+  }
+
+  /**
+   * Where the course is published in the preferred language: the
+   * translation's folder (`<courseId>/<language>`), or the course itself
+   * when it has no such translation or the index can't be read.
+   */
+  private async resolveContentId(
+    courseId: string,
+    options?: CourseContentOptions,
+    index?: CourseIndex,
+  ): Promise<string> {
+    if (!options?.language) return courseId;
+    try {
+      const translations = (index ?? await this.getCourseIndex()).translations?.[courseId] || [];
+      const language = matchTranslation(options.language, translations);
+      return language ? `${courseId}/${language}` : courseId;
+    } catch {
+      return courseId;
+    }
+  }
+
+  private async fetchCourseSummariesFromNetwork(options?: CourseContentOptions): Promise<CourseSummary[]> {
+    const index = await this.fetchJson<CourseIndex>('courses/index.json');
+    await writeJsonCache(this.cacheKey(COURSE_INDEX_CACHE_KEY), index);
     const courseIds = index.courses || [];
     if (courseIds.length === 0) return [];
 
     const summaries = await Promise.all(
       courseIds.map(async (courseId) => {
-        const key = courseSummaryCacheKey(courseId);
+        const contentId = await this.resolveContentId(courseId, options, index);
+        const key = this.cacheKey(courseSummaryCacheKey(contentId));
         try {
-          const summary = await this.fetchJson<CourseSummary>(`courses/${courseId}/course-summary.json`);
+          const summary = await this.fetchCourseFile<CourseSummary>(contentId, 'summary');
           await writeJsonCache(key, summary);
           return summary;
         } catch (error) {
@@ -44,11 +116,14 @@ export class FirebaseCourseAPI implements CourseAPI {
     return filtered.sort((a, b) => (a.order || 999) - (b.order || 999));
   }
 
-  async getCourseSummaries(): Promise<CourseSummary[]> {
+  async getCourseSummaries(options?: CourseContentOptions): Promise<CourseSummary[]> {
+    const listKey = options?.language
+      ? `${COURSE_SUMMARIES_CACHE_KEY}:${options.language}`
+      : COURSE_SUMMARIES_CACHE_KEY;
     try {
       return await getJsonWithOfflineCache(
-        COURSE_SUMMARIES_CACHE_KEY,
-        () => this.fetchCourseSummariesFromNetwork(),
+        this.cacheKey(listKey),
+        () => this.fetchCourseSummariesFromNetwork(options),
       );
     } catch (error) {
       console.error('Error loading Firebase course summaries:', error);
@@ -56,11 +131,12 @@ export class FirebaseCourseAPI implements CourseAPI {
     }
   }
 
-  async getCourseSummary(courseId: string): Promise<CourseSummary> {
+  async getCourseSummary(courseId: string, options?: CourseContentOptions): Promise<CourseSummary> {
     try {
+      const contentId = await this.resolveContentId(courseId, options);
       return await getJsonWithOfflineCache(
-        courseSummaryCacheKey(courseId),
-        () => this.fetchJson<CourseSummary>(`courses/${courseId}/course-summary.json`),
+        this.cacheKey(courseSummaryCacheKey(contentId)),
+        () => this.fetchCourseFile<CourseSummary>(contentId, 'summary'),
       );
     } catch (error) {
       console.error(`Error loading course summary ${courseId}:`, error);
@@ -68,15 +144,38 @@ export class FirebaseCourseAPI implements CourseAPI {
     }
   }
 
-  async getCourseDetail(courseId: string): Promise<CourseDetail> {
+  async getCourseDetail(courseId: string, options?: CourseContentOptions): Promise<CourseDetail> {
     try {
+      const contentId = await this.resolveContentId(courseId, options);
       return await getJsonWithOfflineCache(
-        courseDetailCacheKey(courseId),
-        () => this.fetchJson<CourseDetail>(`courses/${courseId}/course-detail.json`),
+        this.cacheKey(courseDetailCacheKey(contentId)),
+        () => this.fetchCourseFile<CourseDetail>(contentId, 'detail'),
       );
     } catch (error) {
       console.error(`Error loading course detail ${courseId}:`, error);
       throw error;
     }
   }
+
+  async getCourseTranslations(courseId: string): Promise<string[]> {
+    try {
+      return (await this.getCourseIndex()).translations?.[courseId] || [];
+    } catch {
+      return [];
+    }
+  }
+
+  // Searches the cached index when there is one, so search works offline
+  async search(query: string, options?: CourseContentOptions): Promise<SearchResult[]> {
+    try {
+      const index = await getJsonWithOfflineCache(
+        this.cacheKey(SEARCH_INDEX_CACHE_KEY),
+        () => this.fetchJson<SearchIndex>('courses/search-index.json'),
+      );
+      return searchIndex(index, query, options);
+    } catch (error) {
+      console.error('Error searching courses:', error);
+      throw error;
+    }
+  }
 }
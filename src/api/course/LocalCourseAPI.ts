@@ -1,5 +1,7 @@
-import { CourseAPI, CourseDetail, CourseSummary, ContentBlock, ImageBlock } from './CourseAPI';
+import { CourseAPI, CourseContentOptions, CourseDetail, CourseSummary, ContentBlock, ImageBlock, SearchResult } from './CourseAPI';
+import { SearchIndex, searchIndex } from './courseSearch';
 import coursesIndexJson from '../../content/local/courses/index.json';
+import searchIndexJson from '../../content/local/courses/search-index.json';
 import testCourseSummaryJson from '../../content/local/courses/test-course/course-summary.json';
 import testCourseDetailJson from '../../content/local/courses/test-course/course-detail.json';
 import { resolveLocalImageToken } from '../../content/local/localImageRegistry';
@@ -77,4 +79,13 @@ export class LocalCourseAPI implements CourseAPI {
     }
     return resolveDetailImages(clone(detail));
   }
+
+  // Bundled content has no translations; the language option is ignored.
+  async getCourseTranslations(): Promise<string[]> {
+    return [];
+  }
+
+  async search(query: string, options?: CourseContentOptions): Promise<SearchResult[]> {
+    return searchIndex(searchIndexJson as SearchIndex, query, options);
+  }
 }
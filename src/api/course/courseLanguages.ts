@@ -0,0 +1,26 @@
+/** `pt_BR` → `pt-br`, the form translation folders use (courses/<id>/<language>/) */
+export function normalizeLanguageCode(language: string): string {
+  return language.trim().toLowerCase().replace(/_/g, '-');
+}
+
+/**
+ * The translation to show for a preferred language: an exact match, else one
+ * in the same base language (`pt` ↔ `pt-br`). Null means the course's own
+ * language.
+ */
+export function matchTranslation(preferred: string | undefined, translations: string[]): string | null {
+  if (!preferred) return null;
+  const language = normalizeLanguageCode(preferred);
+  if (translations.includes(language)) return language;
+  const base = language.split('-')[0];
+  return translations.find((translation) => translation.split('-')[0] === base) ?? null;
+}
+
+/** Language code of the device, e.g. `en` or `pt-br` */
+export function deviceLanguage(): string {
+  try {
+    return normalizeLanguageCode(Intl.DateTimeFormat().resolvedOptions().locale || 'en');
+  } catch {
+    return 'en';
+  }
+}
@@ -0,0 +1,117 @@
+import type { CourseContentOptions, SearchResult, SearchResultKind } from './CourseAPI';
+import { matchTranslation } from './courseLanguages';
+
+/**
+ * courses/search-index.json, written by the publish scripts
+ * (functions/src/searchIndex.ts): searchable pieces of every published
+ * course and translation, with the terms they match.
+ */
+export interface SearchIndex {
+  version: number;
+  generatedAt: string;
+  courses: {
+    courseId: string;
+    language?: string;
+    title: string;
+    lessons: { lessonId: string; title: string }[];
+  }[];
+  entries: {
+    courseId: string;
+    language?: string;
+    lessonId?: string;
+    blockId?: string;
+    kind: SearchResultKind;
+    text: string;
+    terms: string[];
+  }[];
+}
+
+const DEFAULT_RESULT_LIMIT = 50;
+
+/** Titles outrank the text under them */
+const KIND_WEIGHTS: Record<SearchResultKind, number> = {
+  course: 3,
+  lesson: 2.5,
+  heading: 2,
+  flashcard: 1.5,
+  text: 1,
+};
+
+const EXACT_TERM_SCORE = 2;
+const PREFIX_TERM_SCORE = 1;
+
+// Must match the publish side (functions/src/searchIndex.ts) so query words
+// and indexed terms look the same. The functions tests run both copies of
+// tokenize() against functions/test/fixtures/tokenize.json
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'is',
+  'it', 'of', 'on', 'or', 'that', 'the', 'this', 'to', 'with',
+]);
+
+/** Lowercased words without diacritics; single letters and stop words dropped */
+export function tokenize(text: string): string[] {
+  const words = text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u);
+  return [...new Set(words.filter((word) => (word.length > 1 || /\d/.test(word)) && !STOP_WORDS.has(word)))];
+}
+
+/** Score of `terms` for the query words, or 0 when a word matches none of them */
+function scoreTerms(queryWords: string[], terms: string[]): number {
+  let score = 0;
+  for (const word of queryWords) {
+    if (terms.includes(word)) score += EXACT_TERM_SCORE;
+    else if (terms.some((term) => term.startsWith(word))) score += PREFIX_TERM_SCORE;
+    else return 0;
+  }
+  return score;
+}
+
+/**
+ * Search the index. Each course is searched in one language: the
+ * translation `options.language` picks, else the course's own.
+ */
+export function searchIndex(
+  index: SearchIndex,
+  query: string,
+  options?: CourseContentOptions,
+  limit = DEFAULT_RESULT_LIMIT,
+): SearchResult[] {
+  const queryWords = tokenize(query);
+  if (queryWords.length === 0) return [];
+
+  const translations = new Map<string, string[]>();
+  for (const course of index.courses) {
+    if (course.language) translations.set(course.courseId, [...(translations.get(course.courseId) ?? []), course.language]);
+  }
+  const shownLanguage = (courseId: string) => matchTranslation(options?.language, translations.get(courseId) ?? []) ?? undefined;
+  const courseKey = (courseId: string, language?: string) => `${courseId}/${language ?? ''}`;
+  const courses = new Map(index.courses.map((course) => [courseKey(course.courseId, course.language), course]));
+
+  const results: SearchResult[] = [];
+  for (const entry of index.entries) {
+    if (entry.language !== shownLanguage(entry.courseId)) continue;
+    const score = scoreTerms(queryWords, entry.terms) * KIND_WEIGHTS[entry.kind];
+    if (score === 0) continue;
+
+    const course = courses.get(courseKey(entry.courseId, entry.language));
+    const result: SearchResult = {
+      courseId: entry.courseId,
+      courseTitle: course?.title ?? entry.courseId,
+      kind: entry.kind,
+      text: entry.text,
+      score,
+    };
+    if (entry.lessonId) {
+      result.lessonId = entry.lessonId;
+      result.lessonTitle = course?.lessons.find((lesson) => lesson.lessonId === entry.lessonId)?.title;
+    }
+    if (entry.blockId) result.blockId = entry.blockId;
+    results.push(result);
+  }
+
+  // Array.prototype.sort is stable, so equal scores keep course order
+  return results.sort((a, b) => b.score - a.score).slice(0, limit);
+}
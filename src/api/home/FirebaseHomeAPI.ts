@@ -1,12 +1,16 @@
 import { HomeAPI, HomeConfig } from './HomeAPI';
-import { getJsonWithOfflineCache } from '../../utils/offlineJsonCache';
+import { channelCacheKey, getJsonWithOfflineCache } from '../../utils/offlineJsonCache';
 
 const STORAGE_BASE = 'https://storage.googleapis.com/smiling-memory-427311-h3.firebasestorage.app';
 const HOME_CACHE_KEY = 'home:config';
 
 export class FirebaseHomeAPI implements HomeAPI {
+  /** @param channel content channel to read (see FirebaseCourseAPI); production when omitted */
+  constructor(private readonly channel?: string) {}
+
   private async fetchHomeConfig(): Promise<HomeConfig> {
-    const url = `${STORAGE_BASE}/home/home.json`;
+    const channelPath = this.channel ? `channels/${this.channel}/` : '';
+    const url = `${STORAGE_BASE}/${channelPath}home/home.json`;
     const response = await fetch(url);
     if (!response.ok) {
       throw new Error(`Failed to fetch home config: ${response.status} ${response.statusText}`);
@@ -16,7 +20,7 @@ export class FirebaseHomeAPI implements HomeAPI {
 
   async getHomeConfig(): Promise<HomeConfig> {
     try {
-      return await getJsonWithOfflineCache(HOME_CACHE_KEY, () => this.fetchHomeConfig());
+      return await getJsonWithOfflineCache(channelCacheKey(this.channel, HOME_CACHE_KEY), () => this.fetchHomeConfig());
     } catch (error) {
       console.error('[FirebaseHomeAPI] Error loading home config:', error);
       throw error;
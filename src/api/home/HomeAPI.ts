@@ -6,8 +6,62 @@ export interface HomeConfig {
   backgroundImageHash?: string;
   bulkPricingUrl?: string;
   bulkPricingMessage?: string;
+  /** Home layout in display order; the classic layout when absent */
+  sections?: HomeSection[];
 }
 
+/** Where a home button goes: the Courses or Progress tab, a course, or a web page */
+export interface HomeButton {
+  label: string;
+  action: 'courses' | 'progress' | 'course' | 'url';
+  /** courseId for `course`, the address for `url` */
+  target?: string;
+}
+
+export interface HomeHeroSection {
+  type: 'hero';
+  id: string;
+  title?: string;
+  text?: string;
+  /** The home background when omitted */
+  image?: string | number;
+  imageHash?: string;
+  buttons?: HomeButton[];
+}
+
+export interface HomeFeaturedCoursesSection {
+  type: 'featured-courses';
+  id: string;
+  title?: string;
+  courseIds: string[];
+}
+
+export interface HomeAnnouncementSection {
+  type: 'announcement';
+  id: string;
+  title?: string;
+  text?: string;
+  /** `YYYY-MM-DD`; shown from this day */
+  date?: string;
+  /** `YYYY-MM-DD`; hidden after this day */
+  expiresAt?: string;
+  buttons?: HomeButton[];
+}
+
+export interface HomeCallToActionSection {
+  type: 'call-to-action';
+  id: string;
+  title?: string;
+  text?: string;
+  buttons: HomeButton[];
+}
+
+export type HomeSection =
+  | HomeHeroSection
+  | HomeFeaturedCoursesSection
+  | HomeAnnouncementSection
+  | HomeCallToActionSection;
+
 export interface HomeAPI {
   getHomeConfig(): Promise<HomeConfig>;
 }
@@ -4,11 +4,16 @@ import { resolveLocalImageToken } from '../../content/local/localImageRegistry';
 
 export class LocalHomeAPI implements HomeAPI {
   async getHomeConfig(): Promise<HomeConfig> {
+    const config = homeConfigJson as HomeConfig;
     return {
-      ...(homeConfigJson as HomeConfig),
+      ...config,
       backgroundImage:
-        resolveLocalImageToken((homeConfigJson as HomeConfig).backgroundImage)
-        ?? (homeConfigJson as HomeConfig).backgroundImage,
+        resolveLocalImageToken(config.backgroundImage)
+        ?? config.backgroundImage,
+      sections: config.sections?.map((section) =>
+        section.type === 'hero' && section.image !== undefined
+          ? { ...section, image: resolveLocalImageToken(section.image) ?? section.image }
+          : section),
     };
   }
 }
@@ -0,0 +1,27 @@
+import type { HomeConfig, HomeSection } from './HomeAPI';
+
+/** `YYYY-MM-DD` of `date` in the device's time zone */
+export function localDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+/** Announcements show from their `date` through their `expiresAt` day; other sections always */
+export function isHomeSectionVisible(section: HomeSection, today: string): boolean {
+  if (section.type !== 'announcement') return true;
+  if (section.date && today < section.date) return false;
+  if (section.expiresAt && today > section.expiresAt) return false;
+  return true;
+}
+
+/**
+ * Sections to render, in order. A home.json published before sections
+ * existed gets the classic layout: one hero from its title, text and
+ * background.
+ */
+export function resolveHomeSections(config: HomeConfig, now: Date = new Date()): HomeSection[] {
+  if (!config.sections) return [{ type: 'hero', id: 'hero' }];
+  const today = localDateString(now);
+  return config.sections.filter((section) => isHomeSectionVisible(section, today));
+}
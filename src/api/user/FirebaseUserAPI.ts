@@ -24,6 +24,13 @@ import {
   UserAPI,
 } from './UserAPI';
 import { LocalUserAPI } from './LocalUserAPI';
+import {
+  LessonAliasMap,
+  buildLessonAliasMap,
+  migrateLessonRewardStatusMap,
+  migrateLessonStatusMap,
+  migrateRewardEvents,
+} from './lessonAliases';
 
 const PROGRESS_PREFIX = 'progress:';
 const MIGRATION_PREFIX = 'progress:migrated:';
@@ -53,6 +60,8 @@ const REWARDS_BADGES_DOC = 'badges';
 const REWARDS_CERTIFICATES_DOC = 'certificates';
 const REWARDS_LESSON_DOC_PREFIX = 'lesson:';
 const XP_PER_LEVEL = 200;
+/** XP per completed cloze block, as awarded by LocalUserAPI */
+const CLOZE_XP = 10;
 
 export class FirebaseUserAPI implements UserAPI {
   private localUserAPI = new LocalUserAPI();
@@ -60,6 +69,7 @@ export class FirebaseUserAPI implements UserAPI {
   private migrationPromises: Partial<Record<string, Promise<void>>> = {};
   private courseSyncPromises: Partial<Record<string, Promise<void>>> = {};
   private rewardsSyncPromise: Promise<void> | null = null;
+  private lessonAliasMaps: Partial<Record<string, LessonAliasMap>> = {};
   private syncedUserPromise: Promise<User | null> | null = null;
   private localFallbackUntilMs = 0;
   private lastRemoteErrorLogAtMs = 0;
@@ -137,6 +147,37 @@ export class FirebaseUserAPI implements UserAPI {
     return result;
   }
 
+  async markClozeCompleted(
+    courseId: string,
+    lessonId: string,
+    blockId: string,
+    correctGaps: number,
+    totalGaps: number,
+  ): Promise<RewardMutationResult> {
+    const result = await this.localUserAPI.markClozeCompleted(
+      courseId,
+      lessonId,
+      blockId,
+      correctGaps,
+      totalGaps,
+    );
+    void this.syncRewardsInBackground(courseId);
+    return result;
+  }
+
+  async migrateLessonAliases(
+    courseId: string,
+    lessons: Array<{ lessonId: string; aliases?: string[] }>,
+  ): Promise<void> {
+    await this.localUserAPI.migrateLessonAliases(courseId, lessons);
+    const aliasMap = buildLessonAliasMap(lessons);
+    if (Object.keys(aliasMap).length === 0) return;
+    // Remote docs may still hold alias entries; the syncs re-key them too.
+    this.lessonAliasMaps[courseId] = aliasMap;
+    void this.syncCourseInBackground(courseId);
+    void this.syncRewardsInBackground(courseId);
+  }
+
   async getLessonStatus(courseId: string, lessonId: string): Promise<LessonStatus | null> {
     // Serve local immediately, then refresh remote in the background.
     const local = await this.getLocalMap(courseId);
@@ -371,7 +412,13 @@ export class FirebaseUserAPI implements UserAPI {
     }
   }
 
-  private async writeRemoteMap(uid: string, courseId: string, map: LessonStatusMap): Promise<void> {
+  /** `replace` overwrites the doc; a merge write would keep lessons missing from `map`. */
+  private async writeRemoteMap(
+    uid: string,
+    courseId: string,
+    map: LessonStatusMap,
+    replace = false,
+  ): Promise<void> {
     const db = firebaseDb;
     if (!db || this.isInLocalFallbackWindow()) return;
     try {
@@ -379,7 +426,7 @@ export class FirebaseUserAPI implements UserAPI {
         setDoc(
           doc(db, 'users', uid, 'progress', courseId),
           { lessons: map, updatedAt: new Date().toISOString() },
-          { merge: true },
+          { merge: !replace },
         ),
         `writeRemoteMap:${courseId}`,
         undefined,
@@ -416,15 +463,17 @@ export class FirebaseUserAPI implements UserAPI {
       const remote = await this.getRemoteMap(user.uid, courseId);
       if (this.isInLocalFallbackWindow()) return;
 
-      const merged = this.mergeMaps(local, remote);
+      const aliasMap = this.lessonAliasMaps[courseId] ?? {};
+      const merged = migrateLessonStatusMap(this.mergeMaps(local, remote), aliasMap).map;
       const needsLocalWrite = !this.areMapsEqual(local, merged);
       const needsRemoteWrite = !this.areMapsEqual(remote, merged);
+      const remoteHasAliases = Object.keys(remote).some((lessonId) => aliasMap[lessonId]);
 
       if (needsLocalWrite) {
         await this.writeLocalMap(courseId, merged);
       }
       if (needsRemoteWrite) {
-        await this.writeRemoteMap(user.uid, courseId, merged);
+        await this.writeRemoteMap(user.uid, courseId, merged, remoteHasAliases);
       }
     })()
       .catch((error) => {
@@ -448,7 +497,9 @@ export class FirebaseUserAPI implements UserAPI {
 
       const localSnapshot = await this.localUserAPI.getRewardSnapshot();
       const remoteSnapshot = await this.getRemoteRewardSnapshot(user.uid);
-      const mergedSnapshot = this.mergeRewardSnapshots(localSnapshot, remoteSnapshot);
+      const mergedSnapshot = this.migrateAliasedRewardEvents(
+        this.mergeRewardSnapshots(localSnapshot, remoteSnapshot),
+      );
 
       if (!this.areRewardSnapshotsEqual(localSnapshot, mergedSnapshot)) {
         await this.localUserAPI.setRewardSnapshot(mergedSnapshot);
@@ -461,13 +512,19 @@ export class FirebaseUserAPI implements UserAPI {
 
       const localLessonMap = await this.localUserAPI.getLessonRewardStatusMap(courseId);
       const remoteLessonMap = await this.getRemoteLessonRewardMap(user.uid, courseId);
-      const mergedLessonMap = this.mergeLessonRewardMaps(localLessonMap, remoteLessonMap);
+      const aliasMap = this.lessonAliasMaps[courseId] ?? {};
+      const mergedLessonMap = migrateLessonRewardStatusMap(
+        this.mergeLessonRewardMaps(localLessonMap, remoteLessonMap),
+        aliasMap,
+        new Date().toISOString(),
+      ).map;
+      const remoteHasAliases = Object.keys(remoteLessonMap).some((lessonId) => aliasMap[lessonId]);
 
       if (!this.areLessonRewardMapsEqual(localLessonMap, mergedLessonMap)) {
         await this.localUserAPI.setLessonRewardStatusMap(courseId, mergedLessonMap);
       }
       if (!this.areLessonRewardMapsEqual(remoteLessonMap, mergedLessonMap)) {
-        await this.writeRemoteLessonRewardMap(user.uid, courseId, mergedLessonMap);
+        await this.writeRemoteLessonRewardMap(user.uid, courseId, mergedLessonMap, remoteHasAliases);
       }
     })()
       .catch((error) => {
@@ -609,10 +666,12 @@ export class FirebaseUserAPI implements UserAPI {
     }
   }
 
+  /** `replace` overwrites the doc; a merge write would keep lessons missing from `map`. */
   private async writeRemoteLessonRewardMap(
     uid: string,
     courseId: string,
     map: LessonRewardStatusMap,
+    replace = false,
   ): Promise<void> {
     const db = firebaseDb;
     if (!db || this.isInLocalFallbackWindow()) return;
@@ -621,13 +680,22 @@ export class FirebaseUserAPI implements UserAPI {
       setDoc(
         doc(db, 'users', uid, REWARDS_COLLECTION, `${REWARDS_LESSON_DOC_PREFIX}${courseId}`),
         { data: normalizedMap, updatedAt: new Date().toISOString() },
-        { merge: true },
+        { merge: !replace },
       ),
       `writeRemoteLessonRewardMap:${courseId}`,
       undefined,
     );
   }
 
+  /** Re-key events of renamed lessons for every course migrated this session */
+  private migrateAliasedRewardEvents(snapshot: RewardSnapshot): RewardSnapshot {
+    let events = snapshot.events;
+    for (const [courseId, aliasMap] of Object.entries(this.lessonAliasMaps)) {
+      if (aliasMap) events = migrateRewardEvents(events, courseId, aliasMap).events;
+    }
+    return events === snapshot.events ? snapshot : { ...snapshot, events };
+  }
+
   private mergeRewardSnapshots(a: RewardSnapshot, b: RewardSnapshot): RewardSnapshot {
     const summaryA = this.normalizeSummary(a.summary, a.summary.updatedAt);
     const summaryB = this.normalizeSummary(b.summary, b.summary.updatedAt);
@@ -693,9 +761,21 @@ export class FirebaseUserAPI implements UserAPI {
         merged[lessonId] = status;
         continue;
       }
-      if (this.compareIso(status.updatedAt, existing.updatedAt) >= 0) {
-        merged[lessonId] = status;
+      const latest = this.compareIso(status.updatedAt, existing.updatedAt) >= 0 ? status : existing;
+      // Clozes completed on either device stay completed, with the XP they earned
+      const latestClozeIds = latest.clozeCompletedBlockIds ?? [];
+      const clozeIds = Array.from(
+        new Set([...(existing.clozeCompletedBlockIds ?? []), ...(status.clozeCompletedBlockIds ?? [])]),
+      );
+      if (clozeIds.length === latestClozeIds.length) {
+        merged[lessonId] = latest;
+        continue;
       }
+      merged[lessonId] = {
+        ...latest,
+        xpAwarded: latest.xpAwarded + (clozeIds.length - latestClozeIds.length) * CLOZE_XP,
+        clozeCompletedBlockIds: clozeIds,
+      };
     }
     return merged;
   }
@@ -817,6 +897,9 @@ export class FirebaseUserAPI implements UserAPI {
       if (status.flashcardsCompletedAt !== undefined) {
         next.flashcardsCompletedAt = status.flashcardsCompletedAt;
       }
+      if (Array.isArray(status.clozeCompletedBlockIds)) {
+        next.clozeCompletedBlockIds = status.clozeCompletedBlockIds;
+      }
       if (status.quizCompletedAt !== undefined) {
         next.quizCompletedAt = status.quizCompletedAt;
       }
@@ -11,6 +11,12 @@ import {
   RewardEvent,
   RewardsSummary,
 } from './UserAPI';
+import {
+  buildLessonAliasMap,
+  migrateLessonRewardStatusMap,
+  migrateLessonStatusMap,
+  migrateRewardEvents,
+} from './lessonAliases';
 
 const PROGRESS_PREFIX = 'progress:';
 const PREMIUM_KEY = 'user:premium';
@@ -24,6 +30,8 @@ const COURSE_LESSON_COUNT_PREFIX = 'course:lessonCount:';
 
 const XP_PER_LEVEL = 200;
 const QUIZ_PASS_SCORE = 70;
+/** XP per completed cloze block (FirebaseUserAPI merges by the same amount) */
+const CLOZE_XP = 10;
 
 type LessonStatusMap = Record<string, LessonStatus>;
 type LessonRewardStatusMap = Record<string, LessonRewardStatus>;
@@ -353,6 +361,37 @@ export class LocalUserAPI implements UserAPI {
     console.log(`[LocalUserAPI] Cleared progress/rewards keys (${keysToRemove.length})`);
   }
 
+  /**
+   * Re-key progress, lesson reward statuses and reward events stored under a
+   * renamed lesson's old IDs. Safe to call on every course load; it only
+   * writes when an alias entry is found.
+   */
+  async migrateLessonAliases(
+    courseId: string,
+    lessons: Array<{ lessonId: string; aliases?: string[] }>,
+  ): Promise<void> {
+    const aliasMap = buildLessonAliasMap(lessons);
+    if (Object.keys(aliasMap).length === 0) return;
+
+    const now = new Date().toISOString();
+    const [progressMap, rewardMap, state] = await Promise.all([
+      this.readProgressMap(courseId),
+      this.readLessonRewardMap(courseId),
+      this.loadRewardState(),
+    ]);
+
+    const progress = migrateLessonStatusMap(progressMap, aliasMap);
+    const rewards = migrateLessonRewardStatusMap(rewardMap, aliasMap, now);
+    const events = migrateRewardEvents(state.events, courseId, aliasMap);
+
+    if (progress.changed) await this.writeProgressMap(courseId, progress.map);
+    if (rewards.changed) await this.writeLessonRewardMap(courseId, rewards.map);
+    if (events.changed) await this.saveRewardState({ ...state, events: events.events });
+    if (progress.changed || rewards.changed || events.changed) {
+      console.log(`[LocalUserAPI] Migrated renamed lesson IDs for ${courseId}`);
+    }
+  }
+
   // ─── Rewards Tracking ──────────────────────────────────────────────────────
 
   async markFlashcardsCompleted(
@@ -521,6 +560,61 @@ export class LocalUserAPI implements UserAPI {
     });
   }
 
+  async markClozeCompleted(
+    courseId: string,
+    lessonId: string,
+    blockId: string,
+    correctGaps: number,
+    totalGaps: number,
+  ): Promise<RewardMutationResult> {
+    const now = new Date().toISOString();
+    const state = await this.loadRewardState();
+    const existingEventIds = new Set(state.events.map((event) => event.eventId));
+    const lessonMap = await this.getLessonRewardStatusMap(courseId);
+    const lesson = lessonMap[lessonId] ?? this.buildLessonRewardStatus(courseId, lessonId, now);
+
+    // A lesson can hold several cloze exercises; each earns XP once.
+    const completedBlockIds = lesson.clozeCompletedBlockIds ?? [];
+    let xpDelta = 0;
+
+    if (!completedBlockIds.includes(blockId)) {
+      lesson.clozeCompletedBlockIds = [...completedBlockIds, blockId];
+      xpDelta += CLOZE_XP;
+    }
+
+    lesson.xpAwarded += xpDelta;
+    lesson.updatedAt = now;
+    lessonMap[lessonId] = lesson;
+    await this.setLessonRewardStatusMap(courseId, lessonMap);
+
+    if (xpDelta > 0) {
+      this.pushEventIfNew(state.events, {
+        eventId: `xp:${courseId}:${lessonId}:cloze:${blockId}`,
+        type: 'xp_awarded',
+        occurredAt: now,
+        courseId,
+        lessonId,
+        xpDelta,
+        metadata: {
+          source: 'cloze',
+          correctGaps,
+          totalGaps,
+        },
+      });
+      this.applyXpDelta(state.summary, xpDelta, now);
+    }
+
+    await this.reconcileBadgesAndCertificates(state, now);
+    await this.saveRewardState(state);
+    const newEvents = state.events.filter((event) => !existingEventIds.has(event.eventId));
+
+    return this.buildRewardMutationResult({
+      xpAwarded: xpDelta,
+      masteryAwarded: false,
+      newEvents,
+    });
+  }
+
   async getRewardsSummary(): Promise<RewardsSummary> {
     const state = await this.loadRewardState();
     await this.reconcileBadgesAndCertificates(state, new Date().toISOString());
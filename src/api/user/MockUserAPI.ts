@@ -74,6 +74,10 @@ export class MockUserAPI implements UserAPI {
     return [];
   }
   async clearAllProgress(): Promise<void> {}
+  async migrateLessonAliases(
+    _courseId: string,
+    _lessons: Array<{ lessonId: string; aliases?: string[] }>,
+  ): Promise<void> {}
 
   // ─── Rewards (mock no-op) ────────────────────────────────────────────────
 
@@ -91,6 +95,15 @@ export class MockUserAPI implements UserAPI {
   ): Promise<RewardMutationResult> {
     return EMPTY_REWARD_MUTATION_RESULT;
   }
+  async markClozeCompleted(
+    _courseId: string,
+    _lessonId: string,
+    _blockId: string,
+    _correctGaps: number,
+    _totalGaps: number,
+  ): Promise<RewardMutationResult> {
+    return EMPTY_REWARD_MUTATION_RESULT;
+  }
   async getRewardsSummary(): Promise<RewardsSummary> {
     return {
       totalXp: 0,
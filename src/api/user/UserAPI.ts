@@ -69,6 +69,7 @@ export interface LessonRewardStatus {
   lessonId: string;
   courseId: string;
   flashcardsCompletedAt?: string;
+  clozeCompletedBlockIds?: string[];
   quizCompletedAt?: string;
   quizScore?: number;
   xpAwarded: number;
@@ -113,6 +114,11 @@ export interface UserAPI {
   getCourseProgress(courseId: string, totalLessons: number): Promise<CourseProgress>;
   getAllCourseProgress(): Promise<CourseProgress[]>;
   clearAllProgress(): Promise<void>;
+  // Moves progress and lesson rewards stored under old lesson IDs (`Lesson.aliases`)
+  migrateLessonAliases(
+    courseId: string,
+    lessons: Array<{ lessonId: string; aliases?: string[] }>,
+  ): Promise<void>;
 
   // Rewards tracking
   markFlashcardsCompleted(
@@ -125,6 +131,13 @@ export interface UserAPI {
     score: number,
     totalQuestions: number,
   ): Promise<RewardMutationResult>;
+  markClozeCompleted(
+    courseId: string,
+    lessonId: string,
+    blockId: string,
+    correctGaps: number,
+    totalGaps: number,
+  ): Promise<RewardMutationResult>;
   getRewardsSummary(): Promise<RewardsSummary>;
   getRecentRewardEvents(limit?: number): Promise<RewardEvent[]>;
   getBadges(): Promise<BadgeProgress[]>;
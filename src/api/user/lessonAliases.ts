@@ -0,0 +1,159 @@
+import type { LessonRewardStatus, LessonState, LessonStatus, RewardEvent } from './UserAPI';
+
+/** alias (old lesson ID) → current lesson ID */
+export type LessonAliasMap = Record<string, string>;
+
+const STATE_RANK: Record<LessonState, number> = {
+  'not-started': 0,
+  'in-progress': 1,
+  completed: 2,
+};
+
+function earlierIso(a?: string, b?: string): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a.localeCompare(b) <= 0 ? a : b;
+}
+
+function laterIso(a?: string, b?: string): string | undefined {
+  if (!a) return b;
+  if (!b) return a;
+  return a.localeCompare(b) >= 0 ? a : b;
+}
+
+/**
+ * Build the alias map from course lessons (`Lesson.aliases`). Aliases that
+ * are also a current lesson ID are ignored so live progress is never moved.
+ */
+export function buildLessonAliasMap(
+  lessons: Array<{ lessonId: string; aliases?: string[] }>,
+): LessonAliasMap {
+  const currentIds = new Set(lessons.map((lesson) => lesson.lessonId));
+  const aliasMap: LessonAliasMap = {};
+  for (const lesson of lessons) {
+    for (const alias of lesson.aliases ?? []) {
+      if (!currentIds.has(alias) && !aliasMap[alias]) aliasMap[alias] = lesson.lessonId;
+    }
+  }
+  return aliasMap;
+}
+
+function mergeLessonStatus(lessonId: string, a: LessonStatus, b?: LessonStatus): LessonStatus {
+  if (!b) return { ...a, lessonId };
+  const state = STATE_RANK[a.state] >= STATE_RANK[b.state] ? a.state : b.state;
+  const merged: LessonStatus = {
+    lessonId,
+    courseId: a.courseId,
+    state,
+    firstOpenedAt: earlierIso(a.firstOpenedAt, b.firstOpenedAt) ?? a.firstOpenedAt,
+    lastAccessedAt: laterIso(a.lastAccessedAt, b.lastAccessedAt) ?? a.lastAccessedAt,
+  };
+  const completedAt = earlierIso(a.completedAt, b.completedAt);
+  if (state === 'completed' && completedAt) merged.completedAt = completedAt;
+  return merged;
+}
+
+// Optional fields are only set when present; Firestore rejects undefined values.
+function mergeLessonRewardStatus(
+  lessonId: string,
+  a: LessonRewardStatus,
+  b: LessonRewardStatus | undefined,
+  now: string,
+): LessonRewardStatus {
+  if (!b) return { ...a, lessonId, updatedAt: now };
+  const merged: LessonRewardStatus = {
+    lessonId,
+    courseId: a.courseId,
+    // Max, not sum: a remote copy that still has the alias must merge to the same result
+    xpAwarded: Math.max(a.xpAwarded || 0, b.xpAwarded || 0),
+    updatedAt: now,
+  };
+  const flashcardsCompletedAt = earlierIso(a.flashcardsCompletedAt, b.flashcardsCompletedAt);
+  if (flashcardsCompletedAt) merged.flashcardsCompletedAt = flashcardsCompletedAt;
+  const quizCompletedAt = earlierIso(a.quizCompletedAt, b.quizCompletedAt);
+  if (quizCompletedAt) merged.quizCompletedAt = quizCompletedAt;
+  const scores = [a.quizScore, b.quizScore].filter((score): score is number => score !== undefined);
+  if (scores.length > 0) merged.quizScore = Math.max(...scores);
+  const masteryAwardedAt = earlierIso(a.masteryAwardedAt, b.masteryAwardedAt);
+  if (masteryAwardedAt) merged.masteryAwardedAt = masteryAwardedAt;
+  const clozeIds = Array.from(
+    new Set([...(a.clozeCompletedBlockIds ?? []), ...(b.clozeCompletedBlockIds ?? [])]),
+  );
+  if (clozeIds.length > 0) merged.clozeCompletedBlockIds = clozeIds;
+  return merged;
+}
+
+/**
+ * Move progress entries stored under an alias to the current lesson ID,
+ * merging with any progress the current ID already has (furthest state,
+ * first open, last access). Merging is idempotent, so syncing with a copy
+ * that was never migrated gives the same map. Returns the input map when
+ * nothing changed.
+ */
+export function migrateLessonStatusMap(
+  map: Record<string, LessonStatus>,
+  aliasMap: LessonAliasMap,
+): { map: Record<string, LessonStatus>; changed: boolean } {
+  const aliases = Object.keys(map).filter((id) => aliasMap[id]);
+  if (aliases.length === 0) return { map, changed: false };
+
+  const next = { ...map };
+  for (const alias of aliases) {
+    const lessonId = aliasMap[alias];
+    next[lessonId] = mergeLessonStatus(lessonId, next[alias], next[lessonId]);
+    delete next[alias];
+  }
+  return { map: next, changed: true };
+}
+
+/**
+ * Move reward statuses stored under an alias to the current lesson ID.
+ * Migrated entries get `updatedAt = now` so they win later sync merges.
+ */
+export function migrateLessonRewardStatusMap(
+  map: Record<string, LessonRewardStatus>,
+  aliasMap: LessonAliasMap,
+  now: string,
+): { map: Record<string, LessonRewardStatus>; changed: boolean } {
+  const aliases = Object.keys(map).filter((id) => aliasMap[id]);
+  if (aliases.length === 0) return { map, changed: false };
+
+  const next = { ...map };
+  for (const alias of aliases) {
+    const lessonId = aliasMap[alias];
+    next[lessonId] = mergeLessonRewardStatus(lessonId, next[alias], next[lessonId], now);
+    delete next[alias];
+  }
+  return { map: next, changed: true };
+}
+
+/**
+ * Re-key a course's reward events to current lesson IDs. Event IDs embed the
+ * lesson ID (`xp:{courseId}:{lessonId}:quiz`) and are what keeps XP from being
+ * awarded twice, so they move too. When the current ID already has the same
+ * event, the alias copy is dropped.
+ */
+export function migrateRewardEvents(
+  events: RewardEvent[],
+  courseId: string,
+  aliasMap: LessonAliasMap,
+): { events: RewardEvent[]; changed: boolean } {
+  const isAliased = (event: RewardEvent) =>
+    event.courseId === courseId && !!event.lessonId && !!aliasMap[event.lessonId];
+  if (!events.some(isAliased)) return { events, changed: false };
+
+  const existingIds = new Set(events.filter((event) => !isAliased(event)).map((event) => event.eventId));
+  const next: RewardEvent[] = [];
+  for (const event of events) {
+    if (!isAliased(event)) {
+      next.push(event);
+      continue;
+    }
+    const lessonId = aliasMap[event.lessonId!];
+    const eventId = event.eventId.replace(`:${courseId}:${event.lessonId}:`, `:${courseId}:${lessonId}:`);
+    if (existingIds.has(eventId)) continue;
+    existingIds.add(eventId);
+    next.push({ ...event, eventId, lessonId });
+  }
+  return { events: next, changed: true };
+}
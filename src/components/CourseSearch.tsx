@@ -0,0 +1,106 @@
+import React from 'react';
+import { ActivityIndicator, Pressable, TextInput } from 'react-native';
+import { YStack, XStack, Text } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import type { SearchResult, SearchResultKind } from '../api/course/CourseAPI';
+
+const KIND_ICONS: Record<SearchResultKind, React.ComponentProps<typeof Feather>['name']> = {
+  course: 'book',
+  lesson: 'book-open',
+  heading: 'hash',
+  text: 'align-left',
+  flashcard: 'layers',
+};
+
+export function CourseSearchField({ value, onChangeText }: { value: string; onChangeText: (text: string) => void }) {
+  return (
+    <XStack
+      alignItems="center"
+      gap="$2"
+      backgroundColor="white"
+      borderRadius={12}
+      borderWidth={1}
+      borderColor="#E5E7EB"
+      paddingHorizontal="$3"
+    >
+      <Feather name="search" size={16} color="#9CA3AF" />
+      <TextInput
+        value={value}
+        onChangeText={onChangeText}
+        placeholder="Search courses and lessons"
+        placeholderTextColor="#9CA3AF"
+        autoCorrect={false}
+        returnKeyType="search"
+        style={{ flex: 1, paddingVertical: 10, fontSize: 15, color: '#111827' }}
+      />
+      {value.length > 0 && (
+        <Pressable onPress={() => onChangeText('')} hitSlop={10}>
+          <Feather name="x-circle" size={16} color="#9CA3AF" />
+        </Pressable>
+      )}
+    </XStack>
+  );
+}
+
+/** Label above the result: where it is, without repeating its own title */
+function resultLocation(result: SearchResult): string {
+  if (result.kind === 'course') return 'Course';
+  if (result.kind === 'lesson' || !result.lessonTitle) return result.courseTitle;
+  return `${result.courseTitle} · ${result.lessonTitle}`;
+}
+
+function resultTitle(result: SearchResult): string {
+  if (result.kind === 'course') return result.courseTitle;
+  if (result.kind === 'lesson') return result.lessonTitle ?? result.text;
+  return result.text;
+}
+
+export function CourseSearchResults({
+  results,
+  searching,
+  onOpen,
+}: {
+  results: SearchResult[];
+  searching: boolean;
+  onOpen: (result: SearchResult) => void;
+}) {
+  if (searching && results.length === 0) {
+    return <ActivityIndicator color="#111827" style={{ marginTop: 24 }} />;
+  }
+  if (results.length === 0) {
+    return (
+      <Text textAlign="center" color="#6B7280" marginTop="$4">
+        No matches.
+      </Text>
+    );
+  }
+
+  return (
+    <YStack gap="$2">
+      {results.map((result, index) => (
+        <Pressable key={`${result.courseId}:${result.lessonId ?? ''}:${result.blockId ?? result.kind}:${index}`} onPress={() => onOpen(result)}>
+          <XStack
+            backgroundColor="white"
+            borderRadius={12}
+            borderWidth={1}
+            borderColor="#E5E7EB"
+            padding="$3"
+            gap="$3"
+            alignItems="flex-start"
+          >
+            <Feather name={KIND_ICONS[result.kind]} size={16} color="#0D9488" style={{ marginTop: 2 }} />
+            <YStack flex={1} gap="$1">
+              <Text fontSize={12} fontWeight="600" color="#6B7280" numberOfLines={1}>
+                {resultLocation(result)}
+              </Text>
+              <Text fontSize={15} color="#111827" numberOfLines={3}>
+                {resultTitle(result)}
+              </Text>
+            </YStack>
+            <Feather name="chevron-right" size={16} color="#9CA3AF" style={{ marginTop: 2 }} />
+          </XStack>
+        </Pressable>
+      ))}
+    </YStack>
+  );
+}
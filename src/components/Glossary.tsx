@@ -0,0 +1,103 @@
+import React from 'react';
+import { Modal, Pressable } from 'react-native';
+import { YStack, XStack, Text, View } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import type { GlossaryEntry } from '../api/course/CourseAPI';
+
+/** Glossary entries sorted by term, for the glossary screen */
+export function sortGlossary(entries: GlossaryEntry[]): GlossaryEntry[] {
+  return [...entries].sort((a, b) => a.term.localeCompare(b.term, undefined, { sensitivity: 'base' }));
+}
+
+/** Entries whose term, aliases or definition contain `query` */
+export function filterGlossary(entries: GlossaryEntry[], query: string): GlossaryEntry[] {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return entries;
+  return entries.filter((entry) =>
+    [entry.term, entry.definition, ...(entry.aliases ?? [])].some((text) => text.toLowerCase().includes(needle)),
+  );
+}
+
+function GlossaryAliases({ aliases }: { aliases?: string[] }) {
+  if (!aliases || aliases.length === 0) return null;
+  return (
+    <Text fontSize={13} color="#6B7280">
+      Also: {aliases.join(', ')}
+    </Text>
+  );
+}
+
+/**
+ * Definition of a term tapped in lesson text, over the lesson. Tapping
+ * outside the card closes it.
+ */
+export function GlossaryPopover({
+  entry,
+  onClose,
+  onOpenGlossary,
+}: {
+  entry: GlossaryEntry | null;
+  onClose: () => void;
+  onOpenGlossary?: (entry: GlossaryEntry) => void;
+}) {
+  return (
+    <Modal visible={entry !== null} transparent animationType="fade" onRequestClose={onClose}>
+      <Pressable
+        style={{ flex: 1, backgroundColor: 'rgba(17,24,39,0.4)', justifyContent: 'center', padding: 24 }}
+        onPress={onClose}
+      >
+        {entry && (
+          <Pressable onPress={() => undefined}>
+            <YStack backgroundColor="white" borderRadius={16} padding="$4" gap="$2">
+              <XStack alignItems="center" gap="$2">
+                <Feather name="book" size={16} color="#0D9488" />
+                <Text flex={1} fontSize={18} fontWeight="800" color="#111827">
+                  {entry.term}
+                </Text>
+                <Pressable onPress={onClose} hitSlop={10}>
+                  <Feather name="x" size={18} color="#6B7280" />
+                </Pressable>
+              </XStack>
+              <GlossaryAliases aliases={entry.aliases} />
+              <Text fontSize={15} lineHeight={23} color="#374151">
+                {entry.definition}
+              </Text>
+              {onOpenGlossary && (
+                <Pressable onPress={() => onOpenGlossary(entry)}>
+                  <XStack marginTop="$2" alignItems="center" gap="$1">
+                    <Text fontSize={14} fontWeight="700" color="#0D9488">
+                      Course glossary
+                    </Text>
+                    <Feather name="chevron-right" size={16} color="#0D9488" />
+                  </XStack>
+                </Pressable>
+              )}
+            </YStack>
+          </Pressable>
+        )}
+      </Pressable>
+    </Modal>
+  );
+}
+
+/** One entry of the glossary screen; `highlighted` marks the term the learner came from */
+export function GlossaryEntryRow({ entry, highlighted }: { entry: GlossaryEntry; highlighted?: boolean }) {
+  return (
+    <View
+      backgroundColor={highlighted ? '#F0FDFA' : 'white'}
+      borderRadius={12}
+      borderWidth={1}
+      borderColor={highlighted ? '#5EEAD4' : '#E5E7EB'}
+      padding="$3"
+      gap="$1.5"
+    >
+      <Text fontSize={16} fontWeight="700" color="#111827">
+        {entry.term}
+      </Text>
+      <GlossaryAliases aliases={entry.aliases} />
+      <Text fontSize={14} lineHeight={21} color="#4B5563">
+        {entry.definition}
+      </Text>
+    </View>
+  );
+}
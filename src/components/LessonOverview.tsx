@@ -0,0 +1,78 @@
+import React from 'react';
+import { TouchableOpacity } from 'react-native';
+import { YStack, XStack, Text } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import type { Lesson } from '../api/course/CourseAPI';
+import type { LessonState } from '../api/user/UserAPI';
+
+/**
+ * Prerequisite lessons of `lesson` that aren't completed yet, in course order.
+ * Prerequisites that no longer exist in the course are ignored.
+ */
+export function getMissingPrerequisites(
+  lesson: Lesson,
+  lessons: Lesson[],
+  lessonStates: Record<string, LessonState>,
+): Lesson[] {
+  const prerequisites = lesson.prerequisites ?? [];
+  if (prerequisites.length === 0) return [];
+  return lessons.filter(
+    (l) => prerequisites.includes(l.lessonId) && (lessonStates[l.lessonId] ?? 'not-started') !== 'completed',
+  );
+}
+
+/** "What you'll learn" list shown above the lesson content. */
+export function LessonObjectives({ objectives }: { objectives: string[] }) {
+  if (objectives.length === 0) return null;
+
+  return (
+    <YStack backgroundColor="#F8FAFC" borderRadius={12} borderWidth={1} borderColor="#E5E7EB" padding="$3" gap="$2">
+      <Text fontSize={12} color="#6B7280" fontWeight="700" textTransform="uppercase" letterSpacing={1}>
+        What you'll learn
+      </Text>
+      {objectives.map((objective, i) => (
+        <XStack key={i} gap="$2" alignItems="flex-start">
+          <Feather name="check" size={16} color="#0D9488" style={{ marginTop: 2 }} />
+          <Text flex={1} fontSize={14} lineHeight={20} color="#374151">
+            {objective}
+          </Text>
+        </XStack>
+      ))}
+    </YStack>
+  );
+}
+
+/**
+ * Soft warning for unfinished prerequisites. Lessons stay open; the learner
+ * can jump to a prerequisite when `onOpenLesson` is given.
+ */
+export function PrerequisiteNotice({
+  missing,
+  onOpenLesson,
+}: {
+  missing: Lesson[];
+  onOpenLesson?: (lesson: Lesson) => void;
+}) {
+  if (missing.length === 0) return null;
+
+  return (
+    <YStack backgroundColor="#FFFBEB" borderRadius={12} borderWidth={1} borderColor="#FDE68A" padding="$3" gap="$2">
+      <XStack gap="$2" alignItems="center">
+        <Feather name="alert-triangle" size={16} color="#D97706" />
+        <Text fontSize={14} fontWeight="600" color="#92400E">
+          Finish {missing.length === 1 ? 'this lesson' : 'these lessons'} first
+        </Text>
+      </XStack>
+      {missing.map((lesson) => (
+        <TouchableOpacity key={lesson.lessonId} disabled={!onOpenLesson} onPress={() => onOpenLesson?.(lesson)}>
+          <XStack gap="$2" alignItems="center" paddingLeft="$5">
+            <Text flex={1} fontSize={14} color="#92400E" textDecorationLine={onOpenLesson ? 'underline' : 'none'}>
+              Lesson {lesson.order}: {lesson.title}
+            </Text>
+            {onOpenLesson && <Feather name="chevron-right" size={16} color="#D97706" />}
+          </XStack>
+        </TouchableOpacity>
+      ))}
+    </YStack>
+  );
+}
@@ -0,0 +1,212 @@
+import React, { forwardRef, useCallback, useEffect, useImperativeHandle, useMemo, useRef } from 'react';
+import { Platform, View } from 'react-native';
+import { WebView, WebViewMessageEvent } from 'react-native-webview';
+
+/**
+ * The part of a player LessonScreen drives for the mini-player hand-off.
+ * `YoutubeIframeRef` already has this shape, so both players share one ref type.
+ */
+export interface VideoPlayerControls {
+  getCurrentTime: () => Promise<number>;
+  seekTo: (seconds: number, allowSeekAhead: boolean) => void;
+  playVideo?: () => void;
+}
+
+interface WebVideoPlayerProps {
+  provider: 'vimeo' | 'native';
+  videoId?: string; // vimeo
+  src?: string; // native (.mp4 / .m3u8 ...)
+  startSeconds?: number;
+  height: number;
+  play: boolean;
+  onReady?: () => void;
+  /** 'playing' | 'paused' | 'ended', same values as react-native-youtube-iframe */
+  onChangeState?: (state: string) => void;
+}
+
+let nextPlayerId = 1;
+
+/**
+ * Builds the player page. Both variants expose `window.__control` for
+ * play/pause/seek and report state + current time through `send()`, which
+ * posts to React Native (native) or to the parent window (web iframe).
+ */
+function buildPlayerHtml(props: Pick<WebVideoPlayerProps, 'provider' | 'videoId' | 'src' | 'startSeconds'>, playerId: number) {
+  const start = props.startSeconds && props.startSeconds > 0 ? Math.floor(props.startSeconds) : 0;
+  const send = `
+    function send(msg) {
+      var payload = JSON.stringify(Object.assign({ source: 'web-video-player', playerId: ${playerId} }, msg));
+      if (window.ReactNativeWebView) window.ReactNativeWebView.postMessage(payload);
+      else if (window.parent) window.parent.postMessage(payload, '*');
+    }`;
+
+  const body = props.provider === 'vimeo'
+    ? `
+    <iframe id="player" src="https://player.vimeo.com/video/${encodeURIComponent(props.videoId || '')}?playsinline=1#t=${start}s"
+      allow="autoplay; fullscreen; picture-in-picture" allowfullscreen></iframe>
+    <script src="https://player.vimeo.com/api/player.js"></script>
+    <script>
+      ${send}
+      var player = new Vimeo.Player(document.getElementById('player'));
+      window.__control = {
+        play: function () { player.play().catch(function () {}); },
+        pause: function () { player.pause().catch(function () {}); },
+        seek: function (s) { player.setCurrentTime(s).catch(function () {}); },
+      };
+      player.ready().then(function () { send({ event: 'ready' }); });
+      player.on('play', function () { send({ event: 'playing' }); });
+      player.on('pause', function () { send({ event: 'paused' }); });
+      player.on('ended', function () { send({ event: 'ended' }); });
+      player.on('timeupdate', function (d) { send({ event: 'time', time: d.seconds }); });
+    </script>`
+    : `
+    <video id="player" playsinline webkit-playsinline controls preload="metadata"></video>
+    <script>
+      ${send}
+      var video = document.getElementById('player');
+      var ready = false;
+      video.src = ${JSON.stringify(props.src || '')};
+      window.__control = {
+        play: function () { var p = video.play(); if (p && p.catch) p.catch(function () {}); },
+        pause: function () { video.pause(); },
+        seek: function (s) { video.currentTime = s; },
+      };
+      video.addEventListener('loadedmetadata', function () {
+        if (ready) return;
+        ready = true;
+        if (${start} > 0) video.currentTime = ${start};
+        send({ event: 'ready' });
+      });
+      video.addEventListener('playing', function () { send({ event: 'playing' }); });
+      video.addEventListener('pause', function () { if (!video.ended) send({ event: 'paused' }); });
+      video.addEventListener('ended', function () { send({ event: 'ended' }); });
+      video.addEventListener('timeupdate', function () { send({ event: 'time', time: video.currentTime }); });
+    </script>`;
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta name="viewport" content="width=device-width, initial-scale=1, maximum-scale=1" />
+    <style>
+      html, body { margin: 0; padding: 0; height: 100%; background: #000; overflow: hidden; }
+      #player { width: 100%; height: 100%; border: 0; background: #000; }
+    </style>
+  </head>
+  <body>${body}
+  </body>
+</html>`;
+}
+
+/** Vimeo / direct-file video player with the same ref and callbacks as the YouTube player. */
+export const WebVideoPlayer = forwardRef<VideoPlayerControls, WebVideoPlayerProps>(function WebVideoPlayer(
+  { provider, videoId, src, startSeconds, height, play, onReady, onChangeState },
+  ref,
+) {
+  const playerIdRef = useRef(nextPlayerId++);
+  const webViewRef = useRef<WebView>(null);
+  const iframeRef = useRef<any>(null);
+  const readyRef = useRef(false);
+  const currentTimeRef = useRef(startSeconds ?? 0);
+  const playRef = useRef(play);
+  const onReadyRef = useRef(onReady);
+  const onChangeStateRef = useRef(onChangeState);
+  onReadyRef.current = onReady;
+  onChangeStateRef.current = onChangeState;
+
+  // Start time is baked into the page; later seeks go through __control.seek.
+  const html = useMemo(
+    () => buildPlayerHtml({ provider, videoId, src, startSeconds }, playerIdRef.current),
+    [provider, videoId, src],
+  );
+
+  const runCommand = useCallback((name: 'play' | 'pause' | 'seek', arg?: number) => {
+    if (!readyRef.current) return;
+    const argText = typeof arg === 'number' && Number.isFinite(arg) ? String(arg) : '';
+    if (Platform.OS === 'web') {
+      try {
+        iframeRef.current?.contentWindow?.__control?.[name]?.(arg);
+      } catch {
+        // Iframe may not be reachable yet.
+      }
+      return;
+    }
+    webViewRef.current?.injectJavaScript(`window.__control && window.__control.${name}(${argText}); true;`);
+  }, []);
+
+  useImperativeHandle(ref, () => ({
+    getCurrentTime: async () => currentTimeRef.current,
+    seekTo: (seconds: number) => {
+      currentTimeRef.current = seconds;
+      runCommand('seek', seconds);
+    },
+    playVideo: () => runCommand('play'),
+  }), [runCommand]);
+
+  const handleMessage = useCallback((data: unknown) => {
+    let message: any;
+    try {
+      message = typeof data === 'string' ? JSON.parse(data) : data;
+    } catch {
+      return;
+    }
+    if (!message || message.source !== 'web-video-player' || message.playerId !== playerIdRef.current) return;
+
+    switch (message.event) {
+      case 'ready':
+        readyRef.current = true;
+        if (playRef.current) runCommand('play');
+        onReadyRef.current?.();
+        break;
+      case 'time':
+        if (typeof message.time === 'number') currentTimeRef.current = message.time;
+        break;
+      case 'playing':
+      case 'paused':
+      case 'ended':
+        onChangeStateRef.current?.(message.event);
+        break;
+    }
+  }, [runCommand]);
+
+  useEffect(() => {
+    playRef.current = play;
+    runCommand(play ? 'play' : 'pause');
+  }, [play, runCommand]);
+
+  useEffect(() => {
+    if (Platform.OS !== 'web' || typeof window === 'undefined') return;
+    const listener = (event: MessageEvent) => handleMessage(event.data);
+    window.addEventListener('message', listener);
+    return () => window.removeEventListener('message', listener);
+  }, [handleMessage]);
+
+  if (Platform.OS === 'web') {
+    return (
+      <View style={{ height, width: '100%' }}>
+        {React.createElement('iframe', {
+          ref: iframeRef,
+          srcDoc: html,
+          allow: 'autoplay; fullscreen; picture-in-picture',
+          style: { width: '100%', height: '100%', border: 0 },
+        })}
+      </View>
+    );
+  }
+
+  return (
+    <View style={{ height, width: '100%' }}>
+      <WebView
+        ref={webViewRef}
+        source={{ html, baseUrl: 'https://localhost' }}
+        originWhitelist={['*']}
+        allowsInlineMediaPlayback
+        allowsFullscreenVideo
+        mediaPlaybackRequiresUserAction={false}
+        javaScriptEnabled
+        scrollEnabled={false}
+        onMessage={(event: WebViewMessageEvent) => handleMessage(event.nativeEvent.data)}
+        style={{ backgroundColor: '#000', opacity: 0.99 }}
+      />
+    </View>
+  );
+});
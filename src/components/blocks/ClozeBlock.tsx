@@ -0,0 +1,299 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { TouchableOpacity, TextInput, Platform, View as RNView } from 'react-native';
+import { YStack, XStack, Text, View } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import type { ClozeBlock as ClozeBlockData, ClozeSegment } from '../../api/course/CourseAPI';
+import type { RewardCelebrateRect } from '../../context/RewardCelebrateContext';
+import { normalizeText } from './QuizBlock';
+
+type GapSegment = Extract<ClozeSegment, { type: 'gap' }>;
+
+interface ClozeBlockProps {
+  block: ClozeBlockData;
+  onCompleted?: (payload: {
+    correctGaps: number;
+    totalGaps: number;
+    source?: RewardCelebrateRect;
+  }) => void;
+}
+
+function isGapCorrect(gap: GapSegment, value: string | undefined) {
+  if (!value) return false;
+  const normalized = normalizeText(value);
+  return gap.answers.some((answer) => normalizeText(answer) === normalized);
+}
+
+export function ClozeBlock({ block, onCompleted }: ClozeBlockProps) {
+  const isNative = Platform.OS !== 'web';
+  const blockPadding = isNative ? '$4' : '$5';
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [activeGapId, setActiveGapId] = useState<string | null>(null);
+  const [checked, setChecked] = useState(false);
+  const resultCalloutRef = useRef<RNView>(null);
+  const completionNotifiedRef = useRef(false);
+
+  const isPickMode = Array.isArray(block.wordBank) && block.wordBank.length > 0;
+  const gaps = useMemo(
+    () => block.lines.flatMap((line) => line.filter((segment): segment is GapSegment => segment.type === 'gap')),
+    [block.lines],
+  );
+
+  const allFilled = gaps.every((gap) => Boolean(answers[gap.gapId]?.trim()));
+  const correctGaps = gaps.filter((gap) => isGapCorrect(gap, answers[gap.gapId])).length;
+  const allCorrect = checked && correctGaps === gaps.length;
+
+  if (gaps.length === 0) return null;
+
+  const setGapAnswer = (gapId: string, value: string) => {
+    setAnswers((prev) => ({ ...prev, [gapId]: value }));
+  };
+
+  const handleWordPress = (word: string) => {
+    if (checked) return;
+    // Fill the selected gap, or the first empty one when none is selected.
+    const targetGapId = activeGapId ?? gaps.find((gap) => !answers[gap.gapId])?.gapId;
+    if (!targetGapId) return;
+
+    setGapAnswer(targetGapId, word);
+    const nextEmpty = gaps.find((gap) => gap.gapId !== targetGapId && !answers[gap.gapId]);
+    setActiveGapId(nextEmpty?.gapId ?? null);
+  };
+
+  const handleCheck = () => {
+    if (!allFilled) return;
+    setChecked(true);
+    setActiveGapId(null);
+
+    if (completionNotifiedRef.current) return;
+    completionNotifiedRef.current = true;
+    requestAnimationFrame(() => {
+      resultCalloutRef.current?.measureInWindow((x, y, width, height) => {
+        if (width > 0 && height > 0) {
+          onCompleted?.({ correctGaps, totalGaps: gaps.length, source: { x, y, width, height } });
+          return;
+        }
+        onCompleted?.({ correctGaps, totalGaps: gaps.length });
+      });
+    });
+  };
+
+  const handleTryAgain = () => {
+    // Keep the gaps the learner already got right.
+    setAnswers((prev) => {
+      const next: Record<string, string> = {};
+      gaps.forEach((gap) => {
+        if (isGapCorrect(gap, prev[gap.gapId])) next[gap.gapId] = prev[gap.gapId];
+      });
+      return next;
+    });
+    setChecked(false);
+  };
+
+  const renderGap = (gap: GapSegment) => {
+    const value = answers[gap.gapId] ?? '';
+    const isCorrect = checked && isGapCorrect(gap, value);
+    const isWrong = checked && !isCorrect;
+    const borderColor = isCorrect ? '#0D9488' : isWrong ? '#EF4444' : activeGapId === gap.gapId ? '#0D9488' : '#D1D5DB';
+    const backgroundColor = isCorrect ? '#F0FDFA' : isWrong ? '#FEF2F2' : 'white';
+
+    if (isPickMode) {
+      return (
+        <TouchableOpacity
+          key={gap.gapId}
+          disabled={checked}
+          onPress={() => {
+            // Tapping a filled gap clears it so the word can be picked again.
+            if (value) setGapAnswer(gap.gapId, '');
+            setActiveGapId(gap.gapId);
+          }}
+        >
+          <View
+            minWidth={72}
+            paddingHorizontal="$2"
+            paddingVertical="$1"
+            marginHorizontal="$1"
+            borderRadius={6}
+            borderWidth={2}
+            borderColor={borderColor}
+            backgroundColor={backgroundColor}
+            alignItems="center"
+          >
+            <Text fontSize={15} fontWeight="600" color={value ? '#111827' : '#9CA3AF'}>
+              {value || '____'}
+            </Text>
+          </View>
+        </TouchableOpacity>
+      );
+    }
+
+    return (
+      <TextInput
+        key={gap.gapId}
+        value={value}
+        onChangeText={(text) => setGapAnswer(gap.gapId, text)}
+        onFocus={() => setActiveGapId(gap.gapId)}
+        editable={!checked}
+        autoCapitalize="none"
+        autoCorrect={false}
+        style={{
+          minWidth: 80,
+          marginHorizontal: 4,
+          paddingHorizontal: 8,
+          paddingVertical: 4,
+          borderWidth: 2,
+          borderColor,
+          borderRadius: 6,
+          backgroundColor,
+          fontSize: 15,
+          color: '#111827',
+        }}
+      />
+    );
+  };
+
+  const usedWords = Object.values(answers);
+
+  return (
+    <YStack
+      backgroundColor="white"
+      borderRadius={16}
+      padding={blockPadding}
+      borderWidth={1}
+      borderColor="#E5E7EB"
+      shadowColor="#000"
+      shadowOffset={{ width: 0, height: 1 }}
+      shadowOpacity={0.05}
+      shadowRadius={2}
+      gap="$3"
+    >
+      {/* Header */}
+      <XStack alignItems="center" gap="$3" backgroundColor="#F8FAFC" borderRadius={12} padding="$2.5" borderWidth={1} borderColor="#E5E7EB">
+        <View
+          backgroundColor="#0D9488"
+          width={40}
+          height={40}
+          borderRadius={20}
+          justifyContent="center"
+          alignItems="center"
+        >
+          <Feather name="edit-3" size={22} color="white" />
+        </View>
+        <YStack flex={1} minWidth={0}>
+          <Text fontSize={18} fontWeight="700" color="#111827">
+            Fill in the blanks
+          </Text>
+          <Text fontSize={13} color="#6B7280" fontWeight="500">
+            {isPickMode ? 'Tap a blank, then tap a word' : 'Type the missing words'}
+          </Text>
+        </YStack>
+      </XStack>
+
+      {/* Sentences */}
+      <YStack gap="$2.5">
+        {block.lines.map((line, lineIndex) => (
+          <XStack key={lineIndex} flexWrap="wrap" alignItems="center" rowGap="$2">
+            {line.map((segment, segmentIndex) =>
+              segment.type === 'gap'
+                ? renderGap(segment)
+                : segment.text.split(/(\s+)/).filter(Boolean).map((token, tokenIndex) => (
+                    <Text key={`${segmentIndex}-${tokenIndex}`} fontSize={16} lineHeight={26} color="#374151">
+                      {token}
+                    </Text>
+                  )),
+            )}
+          </XStack>
+        ))}
+      </YStack>
+
+      {/* Word bank */}
+      {isPickMode && !checked && (
+        <XStack flexWrap="wrap" gap="$2">
+          {block.wordBank!.map((word) => {
+            const isUsed = usedWords.includes(word);
+            return (
+              <TouchableOpacity key={word} onPress={() => handleWordPress(word)} disabled={isUsed}>
+                <View
+                  paddingHorizontal="$3"
+                  paddingVertical="$2"
+                  borderRadius={20}
+                  borderWidth={1}
+                  borderColor="#99F6E4"
+                  backgroundColor={isUsed ? '#F3F4F6' : '#F0FDFA'}
+                  opacity={isUsed ? 0.4 : 1}
+                >
+                  <Text fontSize={14} fontWeight="600" color="#134E4A">
+                    {word}
+                  </Text>
+                </View>
+              </TouchableOpacity>
+            );
+          })}
+        </XStack>
+      )}
+
+      {!checked && (
+        <TouchableOpacity onPress={handleCheck} disabled={!allFilled}>
+          <View
+            backgroundColor={allFilled ? '#0D9488' : '#D1D5DB'}
+            paddingVertical="$3"
+            borderRadius={10}
+            alignItems="center"
+          >
+            <Text fontSize={15} fontWeight="600" color="white">
+              Check
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
+      {checked && (
+        <RNView ref={resultCalloutRef} collapsable={false}>
+          <YStack
+            backgroundColor={allCorrect ? '#F0FDFA' : '#FFFBEB'}
+            padding="$3"
+            borderRadius={10}
+            borderWidth={1}
+            borderColor={allCorrect ? '#99F6E4' : '#FDE68A'}
+            gap="$2"
+          >
+            <XStack gap="$2.5" alignItems="center">
+              <Feather
+                name={allCorrect ? 'check-circle' : 'alert-circle'}
+                size={18}
+                color={allCorrect ? '#0D9488' : '#D97706'}
+              />
+              <Text fontSize={14} fontWeight="600" color={allCorrect ? '#134E4A' : '#92400E'}>
+                {correctGaps} of {gaps.length} correct
+              </Text>
+            </XStack>
+            {!allCorrect && (
+              <Text fontSize={14} color="#92400E" lineHeight={20}>
+                Answers: {gaps.map((gap) => gap.answers[0]).join(', ')}
+              </Text>
+            )}
+          </YStack>
+        </RNView>
+      )}
+
+      {checked && !allCorrect && (
+        <TouchableOpacity onPress={handleTryAgain}>
+          <XStack
+            backgroundColor="white"
+            paddingVertical="$2.5"
+            borderRadius={10}
+            borderWidth={1}
+            borderColor="#E5E7EB"
+            gap="$2"
+            alignItems="center"
+            justifyContent="center"
+          >
+            <Feather name="rotate-ccw" size={16} color="#6B7280" />
+            <Text fontSize={14} fontWeight="600" color="#6B7280">
+              Try again
+            </Text>
+          </XStack>
+        </TouchableOpacity>
+      )}
+    </YStack>
+  );
+}
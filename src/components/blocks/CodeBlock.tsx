@@ -0,0 +1,75 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ScrollView, TouchableOpacity } from 'react-native';
+import { YStack, XStack, Text } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import * as Clipboard from 'expo-clipboard';
+import type { CodeBlock as CodeBlockData } from '../../api/course/CourseAPI';
+import { codeFontFamily } from './RichText';
+
+const COPIED_FEEDBACK_MS = 2000;
+
+/** Shared "Copy" button for code and table blocks; shows "Copied" for a moment. */
+export function CopyButton({ getText, light = false }: { getText: () => string; light?: boolean }) {
+  const [copied, setCopied] = useState(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  useEffect(() => () => {
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+  }, []);
+
+  const handleCopy = async () => {
+    try {
+      await Clipboard.setStringAsync(getText());
+    } catch (error) {
+      console.warn('[CopyButton] Failed to copy to clipboard', error);
+      return;
+    }
+    setCopied(true);
+    if (timeoutRef.current) clearTimeout(timeoutRef.current);
+    timeoutRef.current = setTimeout(() => setCopied(false), COPIED_FEEDBACK_MS);
+  };
+
+  const color = light ? '#D1D5DB' : '#6B7280';
+
+  return (
+    <TouchableOpacity onPress={handleCopy} hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}>
+      <XStack alignItems="center" gap="$1.5">
+        <Feather name={copied ? 'check' : 'copy'} size={14} color={copied ? '#2DD4BF' : color} />
+        <Text fontSize={12} fontWeight="600" color={copied ? '#2DD4BF' : color}>
+          {copied ? 'Copied' : 'Copy'}
+        </Text>
+      </XStack>
+    </TouchableOpacity>
+  );
+}
+
+export function CodeBlock({ block }: { block: CodeBlockData }) {
+  return (
+    <YStack backgroundColor="#111827" borderRadius={12} overflow="hidden">
+      <XStack
+        justifyContent="space-between"
+        alignItems="center"
+        paddingHorizontal="$3"
+        paddingVertical="$2"
+        backgroundColor="#1F2937"
+      >
+        <Text fontSize={12} fontWeight="600" color="#9CA3AF" style={{ fontFamily: codeFontFamily }}>
+          {block.language || 'code'}
+        </Text>
+        <CopyButton getText={() => block.code} light />
+      </XStack>
+      {/* Long lines scroll sideways instead of wrapping, like an editor */}
+      <ScrollView horizontal showsHorizontalScrollIndicator>
+        <Text
+          padding="$3"
+          fontSize={13}
+          lineHeight={20}
+          color="#F9FAFB"
+          style={{ fontFamily: codeFontFamily }}
+        >
+          {block.code}
+        </Text>
+      </ScrollView>
+    </YStack>
+  );
+}
@@ -0,0 +1,85 @@
+import React from 'react';
+import { YStack, XStack, Text } from 'tamagui';
+import type { ListBlock as ListBlockData, ListStyle } from '../../api/course/CourseAPI';
+import { renderTextSpans } from './RichText';
+
+const INDENT_PER_LEVEL = 20;
+const BULLET_GLYPHS = ['•', '◦', '▪'];
+
+function toAlpha(n: number): string {
+  let result = '';
+  while (n > 0) {
+    const rem = (n - 1) % 26;
+    result = String.fromCharCode(97 + rem) + result;
+    n = Math.floor((n - 1) / 26);
+  }
+  return result;
+}
+
+function toRoman(n: number): string {
+  const numerals: Array<[number, string]> = [
+    [1000, 'm'], [900, 'cm'], [500, 'd'], [400, 'cd'], [100, 'c'], [90, 'xc'],
+    [50, 'l'], [40, 'xl'], [10, 'x'], [9, 'ix'], [5, 'v'], [4, 'iv'], [1, 'i'],
+  ];
+  let result = '';
+  for (const [value, numeral] of numerals) {
+    while (n >= value) {
+      result += numeral;
+      n -= value;
+    }
+  }
+  return result;
+}
+
+/** Numbers cycle 1. → a. → i. by depth, bullets cycle • → ◦ → ▪ (like Google Docs). */
+function formatMarker(style: ListStyle, level: number, count: number): string {
+  if (style === 'bullet') return BULLET_GLYPHS[level % BULLET_GLYPHS.length];
+  switch (level % 3) {
+    case 1: return `${toAlpha(count)}.`;
+    case 2: return `${toRoman(count)}.`;
+    default: return `${count}.`;
+  }
+}
+
+/**
+ * Marker for every item. A counter restarts when a shallower item closes its
+ * level or the style at that level changes.
+ */
+function getListMarkers(block: ListBlockData): string[] {
+  const counters: Array<{ style: ListStyle; count: number }> = [];
+  return block.items.map((_, i) => {
+    const level = block.levels?.[i] ?? 0;
+    const style = block.styles?.[i] ?? block.style;
+    counters.length = Math.min(counters.length, level + 1);
+    const counter = counters[level];
+    counters[level] = counter && counter.style === style
+      ? { style, count: counter.count + 1 }
+      : { style, count: 1 };
+    return formatMarker(style, level, counters[level].count);
+  });
+}
+
+export function ListBlock({ block }: { block: ListBlockData }) {
+  const markers = getListMarkers(block);
+
+  return (
+    <YStack gap="$2" paddingLeft="$2">
+      {block.items.map((item, i) => {
+        const level = block.levels?.[i] ?? 0;
+        // Older content stored plain strings
+        const content = Array.isArray(item) ? renderTextSpans(item) : item;
+
+        return (
+          <XStack key={i} gap="$2" alignItems="flex-start" paddingLeft={level * INDENT_PER_LEVEL}>
+            <Text minWidth={22} textAlign="right" color="#4B5563" fontWeight="700" fontSize={16} lineHeight={24}>
+              {markers[i]}
+            </Text>
+            <Text flex={1} fontSize={16} lineHeight={24} color="#374151">
+              {content}
+            </Text>
+          </XStack>
+        );
+      })}
+    </YStack>
+  );
+}
@@ -14,35 +14,85 @@ interface QuizBlockProps {
   }) => void;
 }
 
-function normalizeText(value: string) {
+export function normalizeText(value: string) {
   return value.trim().toLowerCase();
 }
 
-function isQuestionCorrect(question: QuizQuestion, userAnswer: any): boolean {
-  if (userAnswer === undefined || userAnswer === null) return false;
+function toStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.map((v) => String(v)) : [];
+}
+
+/**
+ * Credit for one answer, from 0 to 1. Multi-select earns a share per correct
+ * pick minus a share per wrong pick; ordering earns a share per item in the
+ * right position. Other question types are all-or-nothing.
+ */
+function getQuestionCredit(question: QuizQuestion, userAnswer: any): number {
+  if (userAnswer === undefined || userAnswer === null) return 0;
+
+  if (question.type === 'multi_select') {
+    const expected = toStringArray(question.correctAnswer);
+    const picked = toStringArray(userAnswer);
+    if (expected.length === 0) return 0;
+    const hits = picked.filter((choice) => expected.includes(choice)).length;
+    const misses = picked.length - hits;
+    return Math.max(0, (hits - misses) / expected.length);
+  }
+
+  if (question.type === 'ordering') {
+    const expected = toStringArray(question.correctAnswer);
+    const ordered = toStringArray(userAnswer);
+    if (expected.length === 0) return 0;
+    const inPlace = expected.filter((item, index) => ordered[index] === item).length;
+    return inPlace / expected.length;
+  }
 
   if (question.type === 'short_answer') {
     const expected = Array.isArray(question.correctAnswer)
       ? question.correctAnswer.map((v) => normalizeText(String(v)))
       : [normalizeText(String(question.correctAnswer))];
-    return expected.includes(normalizeText(String(userAnswer)));
+    return expected.includes(normalizeText(String(userAnswer))) ? 1 : 0;
   }
 
-  return userAnswer === question.correctAnswer;
+  return userAnswer === question.correctAnswer ? 1 : 0;
+}
+
+function isQuestionCorrect(question: QuizQuestion, userAnswer: any): boolean {
+  return getQuestionCredit(question, userAnswer) === 1;
 }
 
 function computeQuizScore(quiz: Quiz, selectedAnswers: Record<string, any>) {
   const totalQuestions = quiz.questions.length;
   if (totalQuestions === 0) return 0;
 
-  let correctCount = 0;
+  let earnedCredit = 0;
   for (const question of quiz.questions) {
-    const userAnswer = selectedAnswers[question.questionId];
-    if (isQuestionCorrect(question, userAnswer)) {
-      correctCount += 1;
-    }
+    earnedCredit += getQuestionCredit(question, selectedAnswers[question.questionId]);
   }
-  return Math.round((correctCount / totalQuestions) * 100);
+  return Math.round((earnedCredit / totalQuestions) * 100);
+}
+
+/**
+ * Deterministic shuffle for ordering questions, seeded by questionId so the
+ * starting order is stable across renders. Never returns the solved order.
+ */
+function scrambleChoices(items: string[], seed: string): string[] {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(state, 31) + seed.charCodeAt(i)) >>> 0;
+  }
+
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    const j = state % (i + 1);
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+
+  if (shuffled.length > 1 && shuffled.every((item, index) => item === items[index])) {
+    shuffled.push(shuffled.shift() as string);
+  }
+  return shuffled;
 }
 
 export function QuizBlock({ quiz, onCompleted }: QuizBlockProps) {
@@ -232,6 +282,10 @@ function QuestionRenderer({ question, selectedAnswer, showExplanation, onAnswerS
   switch (question.type) {
     case 'mcq':
       return <MCQQuestion question={question} selectedAnswer={selectedAnswer} showExplanation={showExplanation} onAnswerSelect={onAnswerSelect} />;
+    case 'multi_select':
+      return <MultiSelectQuestion key={question.questionId} question={question} selectedAnswer={selectedAnswer} showExplanation={showExplanation} onAnswerSelect={onAnswerSelect} />;
+    case 'ordering':
+      return <OrderingQuestion key={question.questionId} question={question} selectedAnswer={selectedAnswer} showExplanation={showExplanation} onAnswerSelect={onAnswerSelect} />;
     case 'true_false':
       return <TrueFalseQuestion question={question} selectedAnswer={selectedAnswer} showExplanation={showExplanation} onAnswerSelect={onAnswerSelect} />;
     case 'short_answer':
@@ -341,6 +395,277 @@ function MCQQuestion({ question, selectedAnswer, showExplanation, onAnswerSelect
   );
 }
 
+function MultiSelectQuestion({ question, selectedAnswer, showExplanation, onAnswerSelect }: QuestionRendererProps) {
+  const isNative = Platform.OS !== 'web';
+  const [picked, setPicked] = useState<string[]>(toStringArray(selectedAnswer));
+  const correctChoices = toStringArray(question.correctAnswer);
+
+  const togglePick = (choice: string) => {
+    if (showExplanation) return;
+    setPicked(prev => (prev.includes(choice) ? prev.filter(c => c !== choice) : [...prev, choice]));
+  };
+
+  const handleSubmit = () => {
+    if (picked.length > 0) {
+      onAnswerSelect(picked);
+    }
+  };
+
+  return (
+    <YStack gap={isNative ? '$3' : '$4'}>
+      <YStack gap="$1">
+        <Text fontSize={isNative ? 17 : 18} fontWeight="600" color="#111827" lineHeight={isNative ? 26 : 28} flexShrink={1}>
+          {question.prompt}
+        </Text>
+        <Text fontSize={13} color="#6B7280" fontWeight="500">
+          Select all that apply
+        </Text>
+      </YStack>
+
+      <YStack gap={isNative ? '$2.5' : '$3'}>
+        {question.choices?.map((choice, index) => {
+          const isPicked = picked.includes(choice);
+          const isCorrect = correctChoices.includes(choice);
+
+          let borderColor = '#E5E7EB';
+          let backgroundColor = 'white';
+          let iconName: any = null;
+          let iconColor = '';
+
+          if (showExplanation && isPicked) {
+            borderColor = isCorrect ? '#0D9488' : '#EF4444';
+            backgroundColor = isCorrect ? '#F0FDFA' : '#FEF2F2';
+            iconName = isCorrect ? 'check-circle' : 'x-circle';
+            iconColor = isCorrect ? '#0D9488' : '#EF4444';
+          } else if (showExplanation && isCorrect) {
+            // Correct choice the learner missed
+            borderColor = '#0D9488';
+            iconName = 'check-circle';
+            iconColor = '#99F6E4';
+          } else if (isPicked) {
+            borderColor = '#0D9488';
+            backgroundColor = '#F0FDFA';
+          }
+
+          return (
+            <TouchableOpacity key={index} onPress={() => togglePick(choice)} activeOpacity={0.7}>
+              <XStack
+                backgroundColor={backgroundColor}
+                padding={isNative ? '$3' : '$4'}
+                borderRadius={12}
+                borderWidth={1}
+                borderColor={borderColor}
+                gap="$3"
+                alignItems="center"
+                minWidth={0}
+              >
+                {/* Checkbox */}
+                <View
+                  width={24}
+                  height={24}
+                  borderRadius={6}
+                  borderWidth={1}
+                  borderColor={isPicked ? '#0D9488' : '#D1D5DB'}
+                  backgroundColor={isPicked ? '#0D9488' : 'white'}
+                  justifyContent="center"
+                  alignItems="center"
+                >
+                  {isPicked && <Feather name="check" size={16} color="white" />}
+                </View>
+
+                <Text flex={1} minWidth={0} flexShrink={1} fontSize={isNative ? 15 : 16} color="#374151" lineHeight={isNative ? 22 : 24}>
+                  {choice}
+                </Text>
+
+                {iconName && (
+                  <Feather name={iconName} size={20} color={iconColor} />
+                )}
+              </XStack>
+            </TouchableOpacity>
+          );
+        })}
+      </YStack>
+
+      {!showExplanation && (
+        <TouchableOpacity onPress={handleSubmit} disabled={picked.length === 0}>
+          <View
+            backgroundColor={picked.length > 0 ? '#0D9488' : '#D1D5DB'}
+            paddingVertical="$3"
+            borderRadius={10}
+            alignItems="center"
+          >
+            <Text fontSize={15} fontWeight="600" color="white">
+              Submit Answer
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
+      {showExplanation && (
+        <XStack
+          backgroundColor="#F0FDFA"
+          padding="$3.5"
+          borderRadius={10}
+          borderWidth={1}
+          borderColor="#99F6E4"
+          gap="$2.5"
+          marginTop="$1"
+        >
+          <Feather name="info" size={18} color="#0D9488" style={{ marginTop: 2 }} />
+          <Text flex={1} fontSize={14} color="#134E4A" lineHeight={21}>
+            {question.explanation}
+          </Text>
+        </XStack>
+      )}
+    </YStack>
+  );
+}
+
+function OrderingQuestion({ question, selectedAnswer, showExplanation, onAnswerSelect }: QuestionRendererProps) {
+  const isNative = Platform.OS !== 'web';
+  const correctOrder = toStringArray(question.correctAnswer);
+  const [order, setOrder] = useState<string[]>(() =>
+    Array.isArray(selectedAnswer)
+      ? toStringArray(selectedAnswer)
+      : scrambleChoices(question.choices ?? [], question.questionId),
+  );
+
+  const moveItem = (index: number, offset: number) => {
+    const target = index + offset;
+    if (showExplanation || target < 0 || target >= order.length) return;
+    setOrder(prev => {
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  return (
+    <YStack gap={isNative ? '$3' : '$4'}>
+      <YStack gap="$1">
+        <Text fontSize={isNative ? 17 : 18} fontWeight="600" color="#111827" lineHeight={isNative ? 26 : 28} flexShrink={1}>
+          {question.prompt}
+        </Text>
+        <Text fontSize={13} color="#6B7280" fontWeight="500">
+          Use the arrows to put these in order
+        </Text>
+      </YStack>
+
+      <YStack gap={isNative ? '$2' : '$2.5'}>
+        {order.map((item, index) => {
+          const isInPlace = correctOrder[index] === item;
+          const borderColor = showExplanation ? (isInPlace ? '#0D9488' : '#EF4444') : '#E5E7EB';
+          const backgroundColor = showExplanation ? (isInPlace ? '#F0FDFA' : '#FEF2F2') : 'white';
+
+          return (
+            <XStack
+              key={item}
+              backgroundColor={backgroundColor}
+              padding={isNative ? '$2.5' : '$3'}
+              borderRadius={12}
+              borderWidth={1}
+              borderColor={borderColor}
+              gap="$3"
+              alignItems="center"
+              minWidth={0}
+            >
+              <View
+                width={28}
+                height={28}
+                borderRadius={14}
+                backgroundColor="#F1F5F9"
+                justifyContent="center"
+                alignItems="center"
+              >
+                <Text fontSize={13} fontWeight="700" color="#475569">
+                  {index + 1}
+                </Text>
+              </View>
+
+              <Text flex={1} minWidth={0} flexShrink={1} fontSize={isNative ? 15 : 16} color="#374151" lineHeight={isNative ? 22 : 24}>
+                {item}
+              </Text>
+
+              {showExplanation ? (
+                <Feather
+                  name={isInPlace ? 'check-circle' : 'x-circle'}
+                  size={20}
+                  color={isInPlace ? '#0D9488' : '#EF4444'}
+                />
+              ) : (
+                <XStack gap="$1">
+                  <TouchableOpacity onPress={() => moveItem(index, -1)} disabled={index === 0} style={{ opacity: index === 0 ? 0.3 : 1, padding: 4 }}>
+                    <Feather name="chevron-up" size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                  <TouchableOpacity onPress={() => moveItem(index, 1)} disabled={index === order.length - 1} style={{ opacity: index === order.length - 1 ? 0.3 : 1, padding: 4 }}>
+                    <Feather name="chevron-down" size={20} color="#6B7280" />
+                  </TouchableOpacity>
+                </XStack>
+              )}
+            </XStack>
+          );
+        })}
+      </YStack>
+
+      {!showExplanation && (
+        <TouchableOpacity onPress={() => onAnswerSelect(order)}>
+          <View
+            backgroundColor="#0D9488"
+            paddingVertical="$3"
+            borderRadius={10}
+            alignItems="center"
+          >
+            <Text fontSize={15} fontWeight="600" color="white">
+              Submit Order
+            </Text>
+          </View>
+        </TouchableOpacity>
+      )}
+
+      {showExplanation && (
+        <YStack gap="$2.5">
+          {!isQuestionCorrect(question, order) && (
+            <XStack
+              backgroundColor="#F0FDFA"
+              padding="$3.5"
+              borderRadius={10}
+              borderWidth={1}
+              borderColor="#99F6E4"
+              gap="$2.5"
+            >
+              <Feather name="check-circle" size={18} color="#0D9488" style={{ marginTop: 2 }} />
+              <YStack flex={1} gap="$1.5">
+                <Text fontSize={14} fontWeight="600" color="#134E4A">
+                  Correct order:
+                </Text>
+                {correctOrder.map((item, index) => (
+                  <Text key={item} fontSize={14} color="#134E4A" lineHeight={20}>
+                    {index + 1}. {item}
+                  </Text>
+                ))}
+              </YStack>
+            </XStack>
+          )}
+
+          <XStack
+            backgroundColor="#F0FDFA"
+            padding="$3.5"
+            borderRadius={10}
+            borderWidth={1}
+            borderColor="#99F6E4"
+            gap="$2.5"
+          >
+            <Feather name="info" size={18} color="#0D9488" style={{ marginTop: 2 }} />
+            <Text flex={1} fontSize={14} color="#134E4A" lineHeight={21}>
+              {question.explanation}
+            </Text>
+          </XStack>
+        </YStack>
+      )}
+    </YStack>
+  );
+}
+
 function TrueFalseQuestion({ question, selectedAnswer, showExplanation, onAnswerSelect }: QuestionRendererProps) {
   const isNative = Platform.OS !== 'web';
   const choices = [
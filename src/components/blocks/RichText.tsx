@@ -0,0 +1,43 @@
+import React from 'react';
+import { Platform } from 'react-native';
+import { Text } from 'tamagui';
+import type { TextSpan } from '../../api/course/CourseAPI';
+
+export const codeFontFamily = Platform.select({
+  ios: 'Menlo',
+  android: 'monospace',
+  default: 'monospace',
+});
+
+/**
+ * Renders rich text spans as nested Text (bold, italic, links, inline code).
+ * Glossary terms get a dotted underline and call `onGlossaryPress` when tapped.
+ */
+export function renderTextSpans(
+  spans: TextSpan[],
+  color = '#374151',
+  onGlossaryPress?: (termId: string) => void,
+) {
+  return spans.map((span, i) => {
+    const termId = onGlossaryPress ? span.glossaryTermId : undefined;
+    return (
+      <Text
+        key={i}
+        fontWeight={span.bold ? '700' : '400'}
+        fontStyle={span.italic ? 'italic' : 'normal'}
+        color={span.link ? '#2563EB' : termId ? '#0F766E' : color}
+        backgroundColor={span.code ? '#F3F4F6' : undefined}
+        textDecorationLine={termId ? 'underline' : undefined}
+        textDecorationStyle={termId ? 'dotted' : undefined}
+        style={span.code ? { fontFamily: codeFontFamily } : undefined}
+        onPress={termId ? () => onGlossaryPress?.(termId) : undefined}
+      >
+        {span.text}
+      </Text>
+    );
+  });
+}
+
+export function spansToPlainText(spans: TextSpan[]) {
+  return spans.map((span) => span.text).join('');
+}
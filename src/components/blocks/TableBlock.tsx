@@ -0,0 +1,79 @@
+import React, { useMemo } from 'react';
+import { ScrollView } from 'react-native';
+import { YStack, XStack, Text, View } from 'tamagui';
+import type { TableBlock as TableBlockData } from '../../api/course/CourseAPI';
+import { renderTextSpans, spansToPlainText } from './RichText';
+import { CopyButton } from './CodeBlock';
+
+const MIN_COLUMN_WIDTH = 96;
+const MAX_COLUMN_WIDTH = 260;
+const APPROX_CHAR_WIDTH = 8;
+const CELL_PADDING = 24;
+
+export function TableBlock({ block }: { block: TableBlockData }) {
+  const columnCount = Math.max(0, ...block.rows.map((row) => row.length));
+
+  // Rows are separate XStacks, so columns get a fixed width from their longest cell.
+  const columnWidths = useMemo(() => {
+    const widths: number[] = [];
+    for (let col = 0; col < columnCount; col++) {
+      const longest = Math.max(
+        0,
+        ...block.rows.map((row) => (row[col] ? spansToPlainText(row[col]).length : 0)),
+      );
+      widths.push(Math.min(MAX_COLUMN_WIDTH, Math.max(MIN_COLUMN_WIDTH, longest * APPROX_CHAR_WIDTH + CELL_PADDING)));
+    }
+    return widths;
+  }, [block.rows, columnCount]);
+
+  // Tab-separated so it pastes into a spreadsheet as a table.
+  const getTableText = () =>
+    block.rows.map((row) => row.map((cell) => spansToPlainText(cell).replace(/\s+/g, ' ')).join('\t')).join('\n');
+
+  if (columnCount === 0) return null;
+
+  return (
+    <YStack gap="$2">
+      <XStack justifyContent="flex-end">
+        <CopyButton getText={getTableText} />
+      </XStack>
+      <View borderRadius={12} borderWidth={1} borderColor="#E5E7EB" overflow="hidden">
+        <ScrollView horizontal showsHorizontalScrollIndicator>
+          <YStack>
+            {block.rows.map((row, rowIndex) => {
+              const isHeader = block.hasHeader && rowIndex === 0;
+              return (
+                <XStack
+                  key={rowIndex}
+                  backgroundColor={isHeader ? '#F8FAFC' : rowIndex % 2 === 0 ? '#FCFCFD' : 'white'}
+                  borderTopWidth={rowIndex === 0 ? 0 : 1}
+                  borderColor="#E5E7EB"
+                >
+                  {columnWidths.map((width, col) => (
+                    <View
+                      key={col}
+                      width={width}
+                      paddingHorizontal="$3"
+                      paddingVertical="$2.5"
+                      borderLeftWidth={col === 0 ? 0 : 1}
+                      borderColor="#E5E7EB"
+                    >
+                      <Text fontSize={14} lineHeight={20} color={isHeader ? '#111827' : '#374151'}>
+                        {row[col]
+                          ? renderTextSpans(
+                              isHeader ? row[col].map((span) => ({ ...span, bold: true })) : row[col],
+                              isHeader ? '#111827' : '#374151',
+                            )
+                          : ''}
+                      </Text>
+                    </View>
+                  ))}
+                </XStack>
+              );
+            })}
+          </YStack>
+        </ScrollView>
+      </View>
+    </YStack>
+  );
+}
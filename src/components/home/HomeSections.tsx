@@ -0,0 +1,188 @@
+import React from 'react';
+import { ImageBackground, ScrollView } from 'react-native';
+import { YStack, XStack, Text, View } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import type {
+  HomeAnnouncementSection,
+  HomeButton,
+  HomeCallToActionSection,
+  HomeFeaturedCoursesSection,
+} from '../../api/home/HomeAPI';
+import type { CourseSummary } from '../../api/course/CourseAPI';
+import { buildVersionedImageUri } from '../../utils/imageCache';
+
+const FEATURED_CARD_WIDTH = 220;
+
+export function HomeButtons({
+  buttons,
+  onPress,
+  tone = 'light',
+}: {
+  buttons: HomeButton[];
+  onPress: (button: HomeButton) => void;
+  /** `dark` on images */
+  tone?: 'light' | 'dark';
+}) {
+  return (
+    <XStack gap="$2" flexWrap="wrap">
+      {buttons.map((button, index) => {
+        const primary = index === 0;
+        const labelColor = primary || tone === 'dark' ? 'white' : '#0F766E';
+        return (
+          <XStack
+            key={`${button.label}-${index}`}
+            backgroundColor={primary ? '#0D9488' : tone === 'dark' ? 'rgba(255,255,255,0.16)' : '#F0FDFA'}
+            borderRadius={20}
+            paddingHorizontal="$3"
+            paddingVertical="$2"
+            alignItems="center"
+            gap="$1.5"
+            pressStyle={{ opacity: 0.85, scale: 0.97 }}
+            cursor="pointer"
+            onPress={() => onPress(button)}
+          >
+            <Text color={labelColor} fontSize={13} fontWeight="700">
+              {button.label}
+            </Text>
+            <Feather name={button.action === 'url' ? 'external-link' : 'arrow-right'} size={13} color={labelColor} />
+          </XStack>
+        );
+      })}
+    </XStack>
+  );
+}
+
+function SectionTitle({ title }: { title?: string }) {
+  if (!title) return null;
+  return (
+    <Text fontSize={17} fontWeight="800" color="#111827">
+      {title}
+    </Text>
+  );
+}
+
+export function FeaturedCoursesSection({
+  section,
+  courses,
+  onOpenCourse,
+}: {
+  section: HomeFeaturedCoursesSection;
+  courses: CourseSummary[];
+  onOpenCourse: (courseId: string) => void;
+}) {
+  // Courses that aren't (or are no longer) published are left out
+  const featured = section.courseIds
+    .map((courseId) => courses.find((course) => course.courseId === courseId))
+    .filter(Boolean) as CourseSummary[];
+  if (featured.length === 0) return null;
+
+  return (
+    <YStack gap="$2.5">
+      <SectionTitle title={section.title} />
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={{ gap: 12 }}>
+        {featured.map((course) => (
+          <View
+            key={course.courseId}
+            width={FEATURED_CARD_WIDTH}
+            backgroundColor="white"
+            borderRadius={14}
+            borderWidth={1}
+            borderColor="#E5E7EB"
+            overflow="hidden"
+            pressStyle={{ scale: 0.98, opacity: 0.9 }}
+            cursor="pointer"
+            onPress={() => onOpenCourse(course.courseId)}
+          >
+            <View height={110} backgroundColor="#F1F5F9">
+              {course.thumbnailUrl ? (
+                <ImageBackground
+                  source={typeof course.thumbnailUrl === 'string'
+                    ? { uri: buildVersionedImageUri(course.thumbnailUrl, course.thumbnailVersion, course.thumbnailHash) }
+                    : course.thumbnailUrl}
+                  style={{ width: '100%', height: '100%' }}
+                  resizeMode="cover"
+                />
+              ) : null}
+            </View>
+            <YStack padding="$3" gap="$1">
+              <Text fontSize={15} fontWeight="700" color="#111827" numberOfLines={2}>
+                {course.title}
+              </Text>
+              <XStack alignItems="center" gap="$1">
+                <Feather name="layers" size={12} color="#94A3B8" />
+                <Text fontSize={12} color="#94A3B8">{course.lessonCount} lessons</Text>
+              </XStack>
+            </YStack>
+          </View>
+        ))}
+      </ScrollView>
+    </YStack>
+  );
+}
+
+function formatAnnouncementDate(date: string): string {
+  const parsed = new Date(`${date}T00:00:00`);
+  if (Number.isNaN(parsed.getTime())) return date;
+  return parsed.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
+
+export function AnnouncementCard({
+  section,
+  onButtonPress,
+}: {
+  section: HomeAnnouncementSection;
+  onButtonPress: (button: HomeButton) => void;
+}) {
+  return (
+    <YStack
+      backgroundColor="white"
+      borderRadius={16}
+      borderWidth={1}
+      borderColor="#E5E7EB"
+      padding="$4"
+      gap="$2"
+    >
+      <XStack alignItems="center" gap="$1.5">
+        <Feather name="bell" size={14} color="#0D9488" />
+        <Text fontSize={12} fontWeight="700" color="#0D9488" letterSpacing={0.5}>
+          {section.date ? formatAnnouncementDate(section.date).toUpperCase() : 'NEWS'}
+        </Text>
+      </XStack>
+      <SectionTitle title={section.title} />
+      {section.text ? (
+        <Text fontSize={14} color="#4B5563" lineHeight={21}>
+          {section.text}
+        </Text>
+      ) : null}
+      {section.buttons && section.buttons.length > 0 && (
+        <View marginTop="$1">
+          <HomeButtons buttons={section.buttons} onPress={onButtonPress} />
+        </View>
+      )}
+    </YStack>
+  );
+}
+
+export function CallToActionCard({
+  section,
+  onButtonPress,
+}: {
+  section: HomeCallToActionSection;
+  onButtonPress: (button: HomeButton) => void;
+}) {
+  return (
+    <YStack backgroundColor="#F0FDFA" borderRadius={16} padding="$4" gap="$2.5">
+      {section.title ? (
+        <Text fontSize={16} fontWeight="800" color="#0F766E">
+          {section.title}
+        </Text>
+      ) : null}
+      {section.text ? (
+        <Text fontSize={14} color="#4B5563" lineHeight={21}>
+          {section.text}
+        </Text>
+      ) : null}
+      <HomeButtons buttons={section.buttons} onPress={onButtonPress} />
+    </YStack>
+  );
+}
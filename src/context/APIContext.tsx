@@ -23,15 +23,17 @@ interface APIProviderProps {
 export const APIProvider: React.FC<APIProviderProps> = ({ children }) => {
   const contentSource = (process.env.EXPO_PUBLIC_CONTENT_SOURCE || 'local').toLowerCase();
   const useLocalContent = contentSource !== 'firebase';
+  // Preview channel published with `parse:all -- --channel <name>`, e.g. staging
+  const contentChannel = process.env.EXPO_PUBLIC_CONTENT_CHANNEL?.trim().toLowerCase() || undefined;
 
   // Use stable instances to avoid recreating API clients on every render.
   const homeAPI = useMemo<HomeAPI>(
-    () => (useLocalContent ? new LocalHomeAPI() : new FirebaseHomeAPI()),
-    [useLocalContent],
+    () => (useLocalContent ? new LocalHomeAPI() : new FirebaseHomeAPI(contentChannel)),
+    [useLocalContent, contentChannel],
   );
   const courseAPI = useMemo<CourseAPI>(
-    () => (useLocalContent ? new LocalCourseAPI() : new FirebaseCourseAPI()),
-    [useLocalContent],
+    () => (useLocalContent ? new LocalCourseAPI() : new FirebaseCourseAPI(contentChannel)),
+    [useLocalContent, contentChannel],
   );
   const userAPI = useMemo<UserAPI>(() => new FirebaseUserAPI(), []);
 
@@ -0,0 +1,47 @@
+import React, { createContext, ReactNode, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { deviceLanguage, normalizeLanguageCode } from '../api/course/courseLanguages';
+
+const LANGUAGE_STORAGE_KEY = 'preferences:language';
+
+interface LanguageContextValue {
+  /** Preferred course language; the device language until the user picks one */
+  language: string;
+  setLanguage: (language: string) => void;
+}
+
+const LanguageContext = createContext<LanguageContextValue | undefined>(undefined);
+
+export const LanguageProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
+  const [language, setLanguageState] = useState(deviceLanguage);
+
+  useEffect(() => {
+    AsyncStorage.getItem(LANGUAGE_STORAGE_KEY)
+      .then((stored) => {
+        if (stored) setLanguageState(stored);
+      })
+      .catch(() => {
+        // Keep the device language
+      });
+  }, []);
+
+  const setLanguage = useCallback((next: string) => {
+    const normalized = normalizeLanguageCode(next);
+    setLanguageState(normalized);
+    AsyncStorage.setItem(LANGUAGE_STORAGE_KEY, normalized).catch((error) => {
+      console.warn('Failed to save language preference:', error);
+    });
+  }, []);
+
+  const value = useMemo(() => ({ language, setLanguage }), [language, setLanguage]);
+
+  return <LanguageContext.Provider value={value}>{children}</LanguageContext.Provider>;
+};
+
+export const useLanguage = () => {
+  const context = useContext(LanguageContext);
+  if (!context) {
+    throw new Error('useLanguage must be used within LanguageProvider');
+  }
+  return context;
+};
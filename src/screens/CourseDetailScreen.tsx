@@ -5,10 +5,13 @@ import { Feather } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import Svg, { Circle } from 'react-native-svg';
 import { useAPI } from '../context/APIContext';
+import { useLanguage } from '../context/LanguageContext';
 import { CourseSummary, CourseDetail, Lesson } from '../api/course/CourseAPI';
 import { CourseProgress, LessonState } from '../api/user/UserAPI';
-import { useNavigation, useRoute, useFocusEffect, RouteProp } from '@react-navigation/native';
-import { buildVersionedImageUri, prefetchImages } from '../utils/imageCache';
+import { useNavigation, useRoute, useFocusEffect, RouteProp, StackActions } from '@react-navigation/native';
+import { buildImageBlockUri, buildVersionedImageUri, prefetchImages } from '../utils/imageCache';
+import { getMissingPrerequisites } from '../components/LessonOverview';
+import { normalizeLanguageCode } from '../api/course/courseLanguages';
 
 type CourseDetailRouteProp = RouteProp<{ params: { courseId: string } }, 'params'>;
 
@@ -28,6 +31,7 @@ const getDifficultyTone = (difficulty?: string) => {
 
 export default function CourseDetailScreen() {
   const { courseAPI, userAPI } = useAPI();
+  const { language, setLanguage } = useLanguage();
   const route = useRoute<CourseDetailRouteProp>();
   const navigation = useNavigation();
   const { courseId } = route.params;
@@ -44,6 +48,8 @@ export default function CourseDetailScreen() {
   const [detail, setDetail] = useState<CourseDetail | null>(null);
   const [progress, setProgress] = useState<CourseProgress | null>(null);
   const [lessonStates, setLessonStates] = useState<Record<string, LessonState>>({});
+  // The course's own language first, then its translations; empty when there are none
+  const [languages, setLanguages] = useState<string[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -51,12 +57,20 @@ export default function CourseDetailScreen() {
     try {
       setLoading(true);
       const [summaryData, detailData] = await Promise.all([
-        courseAPI.getCourseSummary(courseId),
-        courseAPI.getCourseDetail(courseId)
+        courseAPI.getCourseSummary(courseId, { language }),
+        courseAPI.getCourseDetail(courseId, { language })
       ]);
       setSummary(summaryData);
       setDetail(detailData);
 
+      const translations = await courseAPI.getCourseTranslations(courseId);
+      const shownLanguage = normalizeLanguageCode(summaryData.language);
+      const originalLanguage = translations.includes(shownLanguage)
+        ? normalizeLanguageCode((await courseAPI.getCourseSummary(courseId)).language)
+        : shownLanguage;
+      setLanguages(translations.length > 0 ? [originalLanguage, ...translations] : []);
+      await userAPI.migrateLessonAliases(courseId, detailData.lessons);
+
       // Load progress
       const prog = await userAPI.getCourseProgress(courseId, detailData.lessons.length);
       setProgress(prog);
@@ -79,7 +93,7 @@ export default function CourseDetailScreen() {
   useFocusEffect(
     useCallback(() => {
       loadData();
-    }, [courseId])
+    }, [courseId, language])
   );
 
   useEffect(() => {
@@ -103,7 +117,7 @@ export default function CourseDetailScreen() {
       detail.lessons.forEach((lesson) => {
         lesson.blocks.forEach((block: any) => {
           if (block?.type !== 'image' || typeof block.src !== 'string') return;
-          imageUris.push(buildVersionedImageUri(block.src, block.version, block.hash));
+          imageUris.push(buildImageBlockUri(block));
         });
       });
     }
@@ -253,6 +267,30 @@ export default function CourseDetailScreen() {
               <DetailBadge icon="bar-chart-2" text={summary.difficulty} cap />
             </XStack>
 
+            {languages.length > 0 && (
+              <XStack marginTop="$3" alignItems="center" gap="$2" flexWrap="wrap">
+                <Feather name="globe" size={14} color="#6B7280" />
+                {languages.map((code) => {
+                  const selected = code === normalizeLanguageCode(summary.language);
+                  return (
+                    <View
+                      key={code}
+                      backgroundColor={selected ? '#0D9488' : '#F1F5F9'}
+                      borderRadius={999}
+                      paddingHorizontal="$2.5"
+                      paddingVertical="$1"
+                      pressStyle={{ opacity: 0.8 }}
+                      onPress={() => !selected && setLanguage(code)}
+                    >
+                      <Text fontSize={12} fontWeight="700" color={selected ? '#F0FDFA' : '#475569'} textTransform="uppercase">
+                        {code}
+                      </Text>
+                    </View>
+                  );
+                })}
+              </XStack>
+            )}
+
             <Separator marginTop="$3" marginBottom="$3" />
 
             <XStack alignItems="center" gap="$3">
@@ -330,6 +368,30 @@ export default function CourseDetailScreen() {
             ))}
           </XStack>
         )}
+
+        {detail.glossary && detail.glossary.length > 0 && (
+          <XStack
+            marginTop="$3"
+            alignItems="center"
+            gap="$2"
+            backgroundColor="#F0FDFA"
+            borderRadius={10}
+            paddingHorizontal="$3"
+            paddingVertical="$2.5"
+            pressStyle={{ opacity: 0.85 }}
+            cursor="pointer"
+            onPress={() => navigation.dispatch(StackActions.push('Glossary', { courseId }))}
+          >
+            <Feather name="book" size={16} color="#0D9488" />
+            <Text flex={1} fontSize={14} fontWeight="700" color="#0F766E">
+              Glossary
+            </Text>
+            <Text fontSize={13} color="#0F766E">
+              {detail.glossary.length} {detail.glossary.length === 1 ? 'term' : 'terms'}
+            </Text>
+            <Feather name="chevron-right" size={16} color="#0D9488" />
+          </XStack>
+        )}
       </YStack>
 
       {/* Lessons List */}
@@ -358,6 +420,7 @@ export default function CourseDetailScreen() {
                 lesson={lesson} 
                 index={index}
                 state={state}
+                missingPrerequisites={state === 'completed' ? [] : getMissingPrerequisites(lesson, detail.lessons, lessonStates)}
                 isCurrent={isCurrent && (progress?.completedCount ?? 0) > 0}
                 onPress={() => navigation.navigate('Lesson' as never, { 
                   courseId, 
@@ -414,12 +477,14 @@ function LessonItem({
   lesson, 
   index, 
   state,
+  missingPrerequisites,
   isCurrent,
   onPress 
 }: { 
   lesson: Lesson, 
   index: number, 
   state: LessonState,
+  missingPrerequisites: Lesson[],
   isCurrent?: boolean,
   onPress: () => void
 }) {
@@ -432,6 +497,7 @@ function LessonItem({
     'completed':   { bg: '#0D9488', text: '#FFFFFF' },
   }[state];
   const cardPadding = Platform.OS === 'web' ? '$4' : '$3';
+  const objectives = lesson.learningObjectives ?? [];
   const textGap = Platform.OS === 'web' ? '$1' : '$0.5';
 
   return (
@@ -501,6 +567,31 @@ function LessonItem({
               </XStack>
             )}
           </XStack>
+          {!isCompleted && objectives.length > 0 && (
+            <YStack gap="$0.5" marginTop="$1">
+              {objectives.slice(0, 3).map((objective, i) => (
+                <XStack key={i} gap="$1.5" alignItems="center">
+                  <Feather name="target" size={11} color="#94A3B8" />
+                  <Text flex={1} fontSize={12} color="#6B7280" numberOfLines={1}>
+                    {objective}
+                  </Text>
+                </XStack>
+              ))}
+              {objectives.length > 3 && (
+                <Text fontSize={12} color="#94A3B8" paddingLeft="$4">
+                  +{objectives.length - 3} more
+                </Text>
+              )}
+            </YStack>
+          )}
+          {missingPrerequisites.length > 0 && (
+            <XStack gap="$1.5" alignItems="center" marginTop="$1">
+              <Feather name="alert-triangle" size={12} color="#D97706" />
+              <Text flex={1} fontSize={12} color="#D97706" fontWeight="500" numberOfLines={2}>
+                Finish first: {missingPrerequisites.map((l) => `Lesson ${l.order}`).join(', ')}
+              </Text>
+            </XStack>
+          )}
         </YStack>
         <Feather name="chevron-right" size={20} color={isCompleted ? '#E5E7EB' : '#D1D5DB'} />
       </XStack>
@@ -4,10 +4,15 @@ import { YStack, XStack, Text, View } from 'tamagui';
 import { Feather } from '@expo/vector-icons';
 import { LinearGradient } from 'expo-linear-gradient';
 import { useAPI } from '../context/APIContext';
-import { CourseSummary } from '../api/course/CourseAPI';
+import { useLanguage } from '../context/LanguageContext';
+import { CourseSummary, SearchResult } from '../api/course/CourseAPI';
 import { CourseProgress } from '../api/user/UserAPI';
-import { useNavigation, useFocusEffect } from '@react-navigation/native';
+import { useNavigation, useFocusEffect, StackActions } from '@react-navigation/native';
 import { buildVersionedImageUri, prefetchImages } from '../utils/imageCache';
+import { CourseSearchField, CourseSearchResults } from '../components/CourseSearch';
+
+/** Wait for a pause in typing before searching */
+const SEARCH_DEBOUNCE_MS = 200;
 
 const getDifficultyTone = (difficulty?: string) => {
   const value = (difficulty ?? '').toLowerCase();
@@ -32,16 +37,20 @@ const nativeCourseTitleFontFamily = Platform.select({
 
 export default function CoursesScreen() {
   const { courseAPI, userAPI } = useAPI();
+  const { language } = useLanguage();
   const navigation = useNavigation();
   const [courses, setCourses] = useState<CourseSummary[]>([]);
   const [progressMap, setProgressMap] = useState<Record<string, CourseProgress>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [query, setQuery] = useState('');
+  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [searching, setSearching] = useState(false);
 
   const loadCourses = useCallback(async () => {
     try {
       setLoading(true);
-      const data = await courseAPI.getCourseSummaries();
+      const data = await courseAPI.getCourseSummaries({ language });
       setCourses(data.sort((a, b) => (a.order || 999) - (b.order || 999)));
 
       // Load progress for each course
@@ -58,7 +67,7 @@ export default function CoursesScreen() {
     } finally {
       setLoading(false);
     }
-  }, [courseAPI, userAPI]);
+  }, [courseAPI, userAPI, language]);
 
   // Refresh on every focus so progress updates are visible
   useFocusEffect(
@@ -80,6 +89,46 @@ export default function CoursesScreen() {
     prefetchImages(imageUris);
   }, [courses]);
 
+  useEffect(() => {
+    if (!query.trim()) {
+      setSearchResults([]);
+      setSearching(false);
+      return;
+    }
+    let cancelled = false;
+    setSearching(true);
+    const timer = setTimeout(() => {
+      courseAPI.search(query, { language })
+        .then((results) => {
+          if (!cancelled) setSearchResults(results);
+        })
+        .catch(() => {
+          if (!cancelled) setSearchResults([]);
+        })
+        .finally(() => {
+          if (!cancelled) setSearching(false);
+        });
+    }, SEARCH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [courseAPI, query, language]);
+
+  // Lesson results open at the matching block
+  const openSearchResult = (result: SearchResult) => {
+    if (result.lessonId) {
+      navigation.dispatch(StackActions.push('Lesson', {
+        courseId: result.courseId,
+        lessonId: result.lessonId,
+        lessonTitle: result.lessonTitle,
+        blockId: result.blockId,
+      }));
+    } else {
+      navigation.dispatch(StackActions.push('CourseDetail', { courseId: result.courseId, courseTitle: result.courseTitle }));
+    }
+  };
+
   if (loading) {
     return (
       <View flex={1} justifyContent="center" alignItems="center" backgroundColor="#F9FAFB">
@@ -98,9 +147,12 @@ export default function CoursesScreen() {
   }
 
   return (
-    <ScrollView style={{ flex: 1, backgroundColor: '#F9FAFB' }} contentContainerStyle={{ paddingBottom: 20 }}>
+    <ScrollView style={{ flex: 1, backgroundColor: '#F9FAFB' }} contentContainerStyle={{ paddingBottom: 20 }} keyboardShouldPersistTaps="handled">
       <YStack padding="$4" gap="$4">
-        {courses.map((course) => (
+        <CourseSearchField value={query} onChangeText={setQuery} />
+        {query.trim() ? (
+          <CourseSearchResults results={searchResults} searching={searching} onOpen={openSearchResult} />
+        ) : courses.map((course) => (
           <CourseCard 
             key={course.courseId} 
             course={course}
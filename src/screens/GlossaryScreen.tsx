@@ -0,0 +1,96 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ScrollView, ActivityIndicator, TextInput } from 'react-native';
+import { YStack, XStack, Text, View } from 'tamagui';
+import { Feather } from '@expo/vector-icons';
+import { useRoute, RouteProp } from '@react-navigation/native';
+import { useAPI } from '../context/APIContext';
+import { useLanguage } from '../context/LanguageContext';
+import { GlossaryEntry } from '../api/course/CourseAPI';
+import { GlossaryEntryRow, filterGlossary, sortGlossary } from '../components/Glossary';
+
+/** `termId` highlights the term the learner tapped in a lesson */
+type GlossaryRouteProp = RouteProp<{ params: { courseId: string; termId?: string } }, 'params'>;
+
+export default function GlossaryScreen() {
+  const { courseAPI } = useAPI();
+  const { language } = useLanguage();
+  const route = useRoute<GlossaryRouteProp>();
+  const { courseId, termId } = route.params;
+
+  const [entries, setEntries] = useState<GlossaryEntry[]>([]);
+  const [query, setQuery] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        setLoading(true);
+        const detail = await courseAPI.getCourseDetail(courseId, { language });
+        if (!cancelled) setEntries(sortGlossary(detail.glossary ?? []));
+      } catch (err) {
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load glossary');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [courseAPI, courseId, language]);
+
+  const shown = useMemo(() => filterGlossary(entries, query), [entries, query]);
+
+  if (loading) {
+    return (
+      <View flex={1} justifyContent="center" alignItems="center" backgroundColor="white">
+        <ActivityIndicator size="large" color="#111827" />
+      </View>
+    );
+  }
+
+  if (error) {
+    return (
+      <View flex={1} justifyContent="center" alignItems="center" padding="$4">
+        <Text color="#EF4444">{error}</Text>
+      </View>
+    );
+  }
+
+  return (
+    <ScrollView style={{ flex: 1, backgroundColor: '#F9FAFB' }} contentContainerStyle={{ padding: 16 }} keyboardShouldPersistTaps="handled">
+      <XStack
+        alignItems="center"
+        gap="$2"
+        backgroundColor="white"
+        borderRadius={12}
+        borderWidth={1}
+        borderColor="#E5E7EB"
+        paddingHorizontal="$3"
+        marginBottom="$3"
+      >
+        <Feather name="search" size={16} color="#9CA3AF" />
+        <TextInput
+          value={query}
+          onChangeText={setQuery}
+          placeholder="Search terms"
+          placeholderTextColor="#9CA3AF"
+          autoCorrect={false}
+          style={{ flex: 1, paddingVertical: 10, fontSize: 15, color: '#111827' }}
+        />
+      </XStack>
+
+      <YStack gap="$2.5">
+        {shown.map((entry) => (
+          <GlossaryEntryRow key={entry.termId} entry={entry} highlighted={entry.termId === termId} />
+        ))}
+        {shown.length === 0 && (
+          <Text textAlign="center" color="#6B7280" marginTop="$4">
+            {entries.length === 0 ? 'This course has no glossary.' : 'No matching terms.'}
+          </Text>
+        )}
+      </YStack>
+    </ScrollView>
+  );
+}
@@ -3,12 +3,20 @@ import { ScrollView, ActivityIndicator, ImageBackground, StyleSheet, Linking, Pl
 import { YStack, XStack, Text, View } from 'tamagui';
 import { Feather } from '@expo/vector-icons';
 import { useAPI } from '../context/APIContext';
-import { HomeConfig } from '../api/home/HomeAPI';
+import { useLanguage } from '../context/LanguageContext';
+import { HomeButton, HomeConfig, HomeHeroSection, HomeSection } from '../api/home/HomeAPI';
+import { resolveHomeSections } from '../api/home/homeSections';
 import { CourseDetail, CourseSummary } from '../api/course/CourseAPI';
 import { CourseProgress } from '../api/user/UserAPI';
 import { useNavigation, useFocusEffect, StackActions } from '@react-navigation/native';
 import { buildVersionedImageUri, prefetchImages } from '../utils/imageCache';
 import { useRewardCelebrate } from '../context/RewardCelebrateContext';
+import {
+  AnnouncementCard,
+  CallToActionCard,
+  FeaturedCoursesSection,
+  HomeButtons,
+} from '../components/home/HomeSections';
 
 interface CourseWithProgress {
   summary: CourseSummary;
@@ -30,6 +38,7 @@ const nativeHeroHeadingFontFamily = Platform.select({
 
 export default function HomeScreen() {
   const { homeAPI, courseAPI, userAPI } = useAPI();
+  const { language } = useLanguage();
   const { clearAnimationDedupe } = useRewardCelebrate();
   const navigation = useNavigation();
   const [config, setConfig] = useState<HomeConfig | null>(null);
@@ -52,6 +61,8 @@ export default function HomeScreen() {
 
   // Recommended next course
   const [recommendedCourse, setRecommendedCourse] = useState<CourseSummary | null>(null);
+  // All courses, for featured-course sections
+  const [courseSummaries, setCourseSummaries] = useState<CourseSummary[]>([]);
 
   const loadData = useCallback(async () => {
     try {
@@ -59,16 +70,17 @@ export default function HomeScreen() {
 
       const [homeConfig, summaries] = await Promise.all([
         homeAPI.getHomeConfig(),
-        courseAPI.getCourseSummaries(),
+        courseAPI.getCourseSummaries({ language }),
       ]);
       setConfig(homeConfig);
+      setCourseSummaries(summaries);
       setTotalCourses(summaries.length);
 
       // Load course details and progress for all courses so lesson counts match
       // Course Detail screen behavior and resume logic stays consistent.
       const courseProgress: CourseWithProgress[] = await Promise.all(
         summaries.map(async (s) => {
-          const detail = await courseAPI.getCourseDetail(s.courseId).catch(() => null);
+          const detail = await courseAPI.getCourseDetail(s.courseId, { language }).catch(() => null);
           const lessonCount = detail?.lessons.length ?? s.lessonCount;
           const p = await userAPI.getCourseProgress(s.courseId, lessonCount);
           return { summary: s, progress: p, detail };
@@ -108,7 +120,7 @@ export default function HomeScreen() {
           setResumeLessonId(best.currentLessonId);
           setResumeProgress(best);
           setResumeCourseName(courseSummary?.title ?? null);
-          const detail = courseDetail ?? await courseAPI.getCourseDetail(best.courseId).catch(() => null);
+          const detail = courseDetail ?? await courseAPI.getCourseDetail(best.courseId, { language }).catch(() => null);
           const lesson = detail?.lessons.find(l => l.lessonId === best.currentLessonId);
           setResumeLessonTitle(lesson?.title ?? null);
           foundResume = true;
@@ -116,7 +128,7 @@ export default function HomeScreen() {
         }
 
         // No in-progress lesson — find the first unstarted lesson from course detail
-        const detail = courseDetail ?? await courseAPI.getCourseDetail(best.courseId).catch(() => null);
+        const detail = courseDetail ?? await courseAPI.getCourseDetail(best.courseId, { language }).catch(() => null);
         if (!detail) {
           continue;
         }
@@ -160,7 +172,7 @@ export default function HomeScreen() {
     } finally {
       setLoading(false);
     }
-  }, [homeAPI, courseAPI, userAPI]);
+  }, [homeAPI, courseAPI, userAPI, language]);
 
   useFocusEffect(
     useCallback(() => {
@@ -179,6 +191,11 @@ export default function HomeScreen() {
         ),
       );
     }
+    config?.sections?.forEach((section) => {
+      if (section.type === 'hero' && typeof section.image === 'string') {
+        imageUris.push(buildVersionedImageUri(section.image, undefined, section.imageHash));
+      }
+    });
     if (recommendedCourse && typeof recommendedCourse.thumbnailUrl === 'string') {
       imageUris.push(
         buildVersionedImageUri(
@@ -228,21 +245,47 @@ export default function HomeScreen() {
       navigation.dispatch({ ...StackActions.popToTop(), target: coursesStackKey } as any);
     }
   };
+  const openCourse = (courseId: string) => navigation.navigate('Courses' as never, {
+    screen: 'CourseDetail',
+    params: { courseId },
+  } as never);
+  const handleHomeButton = (button: HomeButton) => {
+    if (button.action === 'courses') openCoursesList();
+    else if (button.action === 'progress') navigation.navigate('Progress' as never);
+    else if (button.action === 'course' && button.target) openCourse(button.target);
+    else if (button.action === 'url' && button.target) Linking.openURL(button.target);
+  };
 
-  return (
-    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
-      {/* Hero Section */}
-      <View height={320} width="100%" position="relative">
+  // Learner cards (continue, next course) go right below the first hero
+  const sections = resolveHomeSections(config);
+  const firstHeroIndex = sections.findIndex((section) => section.type === 'hero');
+  const sectionsAbove = sections.slice(0, firstHeroIndex + 1);
+  const sectionsBelow = sections.slice(firstHeroIndex + 1);
+
+  const heroImageSource = (section: HomeHeroSection) => {
+    if (section.image === undefined) {
+      return typeof config.backgroundImage === 'string'
+        ? {
+            uri: buildVersionedImageUri(
+              config.backgroundImage,
+              config.backgroundImageVersion,
+              config.backgroundImageHash,
+            ),
+          }
+        : config.backgroundImage;
+    }
+    return typeof section.image === 'string'
+      ? { uri: buildVersionedImageUri(section.image, undefined, section.imageHash) }
+      : section.image;
+  };
+
+  // The first hero carries the learner's stats and the Courses shortcut
+  const renderHero = (section: HomeHeroSection, primary: boolean) => {
+    const heroHeight = section.buttons && section.buttons.length > 0 ? 372 : 320;
+    return (
+      <View key={section.id} height={heroHeight} width="100%" position="relative">
         <ImageBackground
-          source={typeof config.backgroundImage === 'string' 
-            ? {
-                uri: buildVersionedImageUri(
-                  config.backgroundImage,
-                  config.backgroundImageVersion,
-                  config.backgroundImageHash,
-                ),
-              }
-            : config.backgroundImage}
+          source={heroImageSource(section)}
           style={{ width: '100%', height: '100%' }}
           resizeMode="cover"
         >
@@ -256,7 +299,7 @@ export default function HomeScreen() {
             justifyContent="flex-start"
           >
             <YStack maxWidth={600} gap="$1.5" marginTop="$6">
-              {hasProgress && (
+              {primary && hasProgress && (
                 <Text color="rgba(255,255,255,0.7)" fontSize={13} fontWeight="600" letterSpacing={0.5}>
                   WELCOME BACK
                 </Text>
@@ -269,20 +312,27 @@ export default function HomeScreen() {
                 letterSpacing={-0.5}
                 style={nativeHeroHeadingFontFamily ? { fontFamily: nativeHeroHeadingFontFamily } : undefined}
               >
-                {config.title}
+                {section.title ?? config.title}
               </Text>
-              
+            
               <Text 
                 color="#D1D5DB" 
                 fontSize={14} 
                 lineHeight={20}
                 numberOfLines={5}
               >
-                {config.text}
+                {section.text ?? config.text}
               </Text>
+
+              {section.buttons && section.buttons.length > 0 && (
+                <View marginTop="$2">
+                  <HomeButtons buttons={section.buttons} onPress={handleHomeButton} tone="dark" />
+                </View>
+              )}
             </YStack>
 
             {/* Courses button — top right */}
+            {primary && (
             <XStack
               position="absolute"
               top={12}
@@ -301,8 +351,10 @@ export default function HomeScreen() {
               <Feather name="book-open" size={14} color="white" />
               <Text color="white" fontSize={13} fontWeight="600">Courses</Text>
             </XStack>
+            )}
 
             {/* Hero stats overlay */}
+            {primary && (
             <View
               position="absolute"
               left={16}
@@ -344,9 +396,33 @@ export default function HomeScreen() {
                 </YStack>
               </XStack>
             </View>
+            )}
           </View>
         </ImageBackground>
       </View>
+    );
+  };
+
+  const renderSection = (section: HomeSection, index: number) => {
+    if (section.type === 'hero') return renderHero(section, index === firstHeroIndex);
+    return (
+      <View key={section.id} paddingHorizontal="$4" marginTop="$4">
+        {section.type === 'featured-courses' && (
+          <FeaturedCoursesSection section={section} courses={courseSummaries} onOpenCourse={openCourse} />
+        )}
+        {section.type === 'announcement' && (
+          <AnnouncementCard section={section} onButtonPress={handleHomeButton} />
+        )}
+        {section.type === 'call-to-action' && (
+          <CallToActionCard section={section} onButtonPress={handleHomeButton} />
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={{ paddingBottom: 40 }}>
+      {sectionsAbove.map(renderSection)}
 
       <YStack paddingHorizontal="$4" marginTop="$4" gap="$3">
         {__DEV__ && (
@@ -434,10 +510,7 @@ export default function HomeScreen() {
             elevation={2}
             pressStyle={{ scale: 0.98, backgroundColor: '#FAFAFA' }}
             cursor="pointer"
-            onPress={() => navigation.navigate('Courses' as never, {
-              screen: 'CourseDetail',
-              params: { courseId: recommendedCourse.courseId },
-            } as never)}
+            onPress={() => openCourse(recommendedCourse.courseId)}
           >
             <XStack alignItems="center" gap="$1.5" marginBottom="$2.5">
               <Feather name="compass" size={14} color="#0D9488" />
@@ -541,7 +614,11 @@ export default function HomeScreen() {
             </Text>
           </View>
         )}
+      </YStack>
+
+      {sectionsBelow.map((section, index) => renderSection(section, firstHeroIndex + 1 + index))}
 
+      <YStack paddingHorizontal="$4" marginTop="$4" gap="$3">
         {/* Institutions banner — only if configured */}
         {config.bulkPricingUrl && (
         <XStack
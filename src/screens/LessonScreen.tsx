@@ -4,19 +4,29 @@ import { YStack, Text, View, XStack } from 'tamagui';
 import { Feather } from '@expo/vector-icons';
 import YoutubePlayer, { YoutubeIframeRef } from 'react-native-youtube-iframe';
 import { useAPI } from '../context/APIContext';
-import { CourseDetail, Lesson, ContentBlock, TextSpan } from '../api/course/CourseAPI';
+import { useLanguage } from '../context/LanguageContext';
+import { CourseDetail, Lesson, ContentBlock, TextSpan, CalloutBlock, ClozeBlock as ClozeBlockData, VideoBlock as VideoBlockData, TableBlock as TableBlockData, CodeBlock as CodeBlockData, ListBlock as ListBlockData } from '../api/course/CourseAPI';
 import { LessonState, RewardMutationResult } from '../api/user/UserAPI';
-import { useRoute, RouteProp } from '@react-navigation/native';
+import { useRoute, useNavigation, RouteProp, StackActions } from '@react-navigation/native';
 import { QuizBlock } from '../components/blocks/QuizBlock';
 import { FlashcardsBlock } from '../components/blocks/FlashcardsBlock';
+import { ClozeBlock } from '../components/blocks/ClozeBlock';
+import { TableBlock } from '../components/blocks/TableBlock';
+import { ListBlock } from '../components/blocks/ListBlock';
+import { CodeBlock } from '../components/blocks/CodeBlock';
+import { renderTextSpans } from '../components/blocks/RichText';
 import LockedLessonScreen from '../components/LockedLessonScreen';
-import { buildVersionedImageUri, prefetchImages } from '../utils/imageCache';
+import { LessonObjectives, PrerequisiteNotice, getMissingPrerequisites } from '../components/LessonOverview';
+import { GlossaryPopover } from '../components/Glossary';
+import { WebVideoPlayer, VideoPlayerControls } from '../components/WebVideoPlayer';
+import { buildImageBlockUri, prefetchImages } from '../utils/imageCache';
 import {
   useRewardCelebrate,
 } from '../context/RewardCelebrateContext';
 import type { RewardCelebrateRect } from '../context/RewardCelebrateContext';
 
-type LessonRouteProp = RouteProp<{ params: { courseId: string; lessonId: string } }, 'params'>;
+/** `blockId` (from search results) scrolls to that block once it is laid out */
+type LessonRouteProp = RouteProp<{ params: { courseId: string; lessonId: string; blockId?: string } }, 'params'>;
 
 const nativeLessonTitleFontFamily = Platform.select({
   ios: 'AvenirNext-Heavy',
@@ -30,6 +40,16 @@ const nativeHeadingFontFamily = Platform.select({
   default: undefined,
 });
 
+/**
+ * Key the mini-player state uses to identify a video. YouTube keeps the bare
+ * video ID; other providers are prefixed so IDs can't collide.
+ */
+function getVideoKey(video: VideoBlockData): string | null {
+  if (video.provider === 'youtube') return video.videoId ?? null;
+  if (video.provider === 'vimeo') return video.videoId ? `vimeo:${video.videoId}` : null;
+  return video.src ? `native:${video.src}` : null;
+}
+
 const BADGE_TITLE_BY_ID: Record<string, string> = {
   'first-steps': 'First Steps',
   'card-crusher': 'Card Crusher',
@@ -39,6 +59,8 @@ const BADGE_TITLE_BY_ID: Record<string, string> = {
   'course-finisher': 'Course Finisher',
 };
 const LESSON_COMPLETION_BOTTOM_THRESHOLD_PX = 64;
+/** Space left above a linked block when scrolling to it */
+const LINKED_BLOCK_SCROLL_MARGIN_PX = 16;
 
 function formatBadgeTitle(badgeId: string): string {
   const knownTitle = BADGE_TITLE_BY_ID[badgeId];
@@ -52,9 +74,11 @@ function formatBadgeTitle(badgeId: string): string {
 
 export default function LessonScreen() {
   const { courseAPI, userAPI } = useAPI();
+  const { language } = useLanguage();
   const { emitRewardAnimation } = useRewardCelebrate();
   const route = useRoute<LessonRouteProp>();
-  const { courseId, lessonId } = route.params;
+  const navigation = useNavigation();
+  const { courseId, lessonId, blockId: linkedBlockId } = route.params;
 
   const [lesson, setLesson] = useState<Lesson | null>(null);
   const [courseDetail, setCourseDetail] = useState<CourseDetail | null>(null);
@@ -62,6 +86,8 @@ export default function LessonScreen() {
   const [error, setError] = useState<string | null>(null);
   const [canAccess, setCanAccess] = useState<boolean>(true);
   const [lessonState, setLessonState] = useState<LessonState>('not-started');
+  const [prerequisiteStates, setPrerequisiteStates] = useState<Record<string, LessonState>>({});
+  const [glossaryTermId, setGlossaryTermId] = useState<string | null>(null);
 
   // ─── Floating mini-player state ──────────────────────────────────────────
   const [floatingVideoId, setFloatingVideoId] = useState<string | null>(null);
@@ -75,8 +101,8 @@ export default function LessonScreen() {
   const [resumeInlineToken, setResumeInlineToken] = useState(0);
   const [resumeInlineVideoId, setResumeInlineVideoId] = useState<string | null>(null);
   const [resumeInlineSeekTime, setResumeInlineSeekTime] = useState(0);
-  const activePlayerRef = useRef<YoutubeIframeRef | null>(null);
-  const miniPlayerRef = useRef<YoutubeIframeRef | null>(null);
+  const activePlayerRef = useRef<VideoPlayerControls | null>(null);
+  const miniPlayerRef = useRef<VideoPlayerControls | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   const scrollOffsetRef = useRef(0);
   const showMiniPlayerRef = useRef(false);
@@ -231,15 +257,40 @@ export default function LessonScreen() {
     [tryCompleteByScrollPosition],
   );
 
+  // ─── Scroll to a linked block ────────────────────────────────────────────
+  const blocksYRef = useRef<number | null>(null);
+  const linkedBlockYRef = useRef<number | null>(null);
+  const scrolledToBlockRef = useRef<string | null>(null);
+
+  const scrollToLinkedBlock = useCallback(() => {
+    if (!linkedBlockId || scrolledToBlockRef.current === linkedBlockId) return;
+    if (blocksYRef.current === null || linkedBlockYRef.current === null) return;
+    scrolledToBlockRef.current = linkedBlockId;
+    scrollViewRef.current?.scrollTo({
+      y: Math.max(0, blocksYRef.current + linkedBlockYRef.current - LINKED_BLOCK_SCROLL_MARGIN_PX),
+      animated: true,
+    });
+  }, [linkedBlockId]);
+
+  const handleBlocksLayout = useCallback((e: LayoutChangeEvent) => {
+    blocksYRef.current = e.nativeEvent.layout.y;
+    scrollToLinkedBlock();
+  }, [scrollToLinkedBlock]);
+
+  const handleLinkedBlockLayout = useCallback((e: LayoutChangeEvent) => {
+    linkedBlockYRef.current = e.nativeEvent.layout.y;
+    scrollToLinkedBlock();
+  }, [scrollToLinkedBlock]);
+
   useEffect(() => {
     loadLesson();
-  }, [courseId, lessonId]);
+  }, [courseId, lessonId, language]);
 
   useEffect(() => {
     if (!lesson) return;
     const imageUris = lesson.blocks
       .filter((block: any) => block?.type === 'image' && typeof block.src === 'string')
-      .map((block: any) => buildVersionedImageUri(block.src, block.version, block.hash));
+      .map((block: any) => buildImageBlockUri(block));
     prefetchImages(imageUris);
   }, [lesson]);
 
@@ -283,10 +334,19 @@ export default function LessonScreen() {
       scrollOffsetRef.current = 0;
       setLessonState('not-started');
 
-      const detail = await courseAPI.getCourseDetail(courseId);
-      const lessonData = detail.lessons.find(l => l.lessonId === lessonId);
+      const detail = await courseAPI.getCourseDetail(courseId, { language });
+      await userAPI.migrateLessonAliases(courseId, detail.lessons);
+      const lessonData = detail.lessons.find(l => l.lessonId === lessonId)
+        ?? detail.lessons.find(l => l.aliases?.includes(lessonId));
       
       if (!lessonData) throw new Error('Lesson not found');
+
+      // Opened through an old ID (e.g. "Continue Lesson" saved before a rename):
+      // reload under the current ID so progress is recorded there.
+      if (lessonData.lessonId !== lessonId) {
+        navigation.setParams({ lessonId: lessonData.lessonId } as never);
+        return;
+      }
       
       // Check if user can access this lesson
       const hasAccess = await userAPI.canAccessLesson(
@@ -299,6 +359,13 @@ export default function LessonScreen() {
       setCourseDetail(detail);
       setCanAccess(hasAccess);
 
+      const states: Record<string, LessonState> = {};
+      for (const prerequisiteId of lessonData.prerequisites ?? []) {
+        const status = await userAPI.getLessonStatus(courseId, prerequisiteId);
+        states[prerequisiteId] = status?.state ?? 'not-started';
+      }
+      setPrerequisiteStates(states);
+
       // Mark lesson as opened (in-progress) for progress tracking
       if (hasAccess) {
         await userAPI.markLessonOpened(courseId, lessonId);
@@ -331,7 +398,7 @@ export default function LessonScreen() {
   };
 
   // ─── Mini-player callbacks (must be above early returns for Rules of Hooks) ──
-  const handleVideoPlay = useCallback((videoId: string, _yOffset: number, playerRef: React.RefObject<YoutubeIframeRef | null>) => {
+  const handleVideoPlay = useCallback((videoId: string, _yOffset: number, playerRef: React.RefObject<VideoPlayerControls | null>) => {
     setFloatingVideoId(videoId);
     setVideoBlockY(scrollOffsetRef.current);
     setFloatingPlaying(true);
@@ -411,6 +478,22 @@ export default function LessonScreen() {
     scrollViewRef.current?.scrollTo({ y: Math.max(0, videoBlockY - 10), animated: true });
   }, [videoBlockY]);
 
+  const floatingVideo = floatingVideoId
+    ? (lesson?.blocks.find(
+        (block) => block.type === 'video' && getVideoKey(block as VideoBlockData) === floatingVideoId,
+      ) as VideoBlockData | undefined)
+    : undefined;
+
+  const handleMiniPlayerReady = useCallback(async () => {
+    try {
+      if (floatingSeekTime > 0) {
+        await miniPlayerRef.current?.seekTo(floatingSeekTime, true);
+      }
+    } catch {
+      // Ignore playback/seek failures.
+    }
+  }, [floatingSeekTime]);
+
   useEffect(() => {
     let cancelled = false;
 
@@ -484,6 +567,52 @@ export default function LessonScreen() {
     })();
   }, [courseId, lessonId, emitRewardAnimation, userAPI]);
 
+  const handleClozeCompleted = useCallback((blockId: string, {
+    correctGaps,
+    totalGaps,
+    source,
+  }: {
+    correctGaps: number;
+    totalGaps: number;
+    source?: RewardCelebrateRect;
+  }) => {
+    void (async () => {
+      let result: RewardMutationResult;
+      try {
+        result = await userAPI.markClozeCompleted(courseId, lessonId, blockId, correctGaps, totalGaps);
+      } catch (error) {
+        console.warn('[LessonScreen] Failed to persist cloze reward', error);
+        return;
+      }
+
+      if (result.xpAwarded > 0) {
+        emitRewardAnimation({
+          eventId: `anim:${courseId}:${lessonId}:cloze:${blockId}`,
+          type: 'xp',
+          source,
+          xpDelta: result.xpAwarded,
+        });
+      }
+
+      result.badgeIdsEarned.forEach((badgeId) => {
+        emitRewardAnimation({
+          eventId: `anim:${courseId}:${lessonId}:badge:${badgeId}`,
+          type: 'badge',
+          badgeId,
+          source,
+        });
+      });
+
+      result.certificateIdsIssued.forEach((certificateId) => {
+        emitRewardAnimation({
+          eventId: `anim:${courseId}:${lessonId}:certificate:${certificateId}`,
+          type: 'certificate',
+          source,
+        });
+      });
+    })();
+  }, [courseId, lessonId, emitRewardAnimation, userAPI]);
+
   const handleQuizCompleted = useCallback(({
     score,
     totalQuestions,
@@ -557,6 +686,11 @@ export default function LessonScreen() {
     );
   }
 
+  // Completed lessons don't nag about prerequisites
+  const missingPrerequisites = courseDetail && lessonState !== 'completed'
+    ? getMissingPrerequisites(lesson, courseDetail.lessons, prerequisiteStates)
+    : [];
+
   return (
     <View style={{ flex: 1, backgroundColor: 'white' }}>
       <ScrollView
@@ -600,27 +734,56 @@ export default function LessonScreen() {
              </XStack>
            )}
         </XStack>
+        {missingPrerequisites.length > 0 && (
+          <YStack marginTop="$3">
+            <PrerequisiteNotice
+              missing={missingPrerequisites}
+              onOpenLesson={(prerequisite) => navigation.dispatch(StackActions.push('Lesson', {
+                courseId,
+                lessonId: prerequisite.lessonId,
+                lessonTitle: prerequisite.title,
+              }))}
+            />
+          </YStack>
+        )}
+        {lesson.learningObjectives?.length > 0 && (
+          <YStack marginTop="$3">
+            <LessonObjectives objectives={lesson.learningObjectives} />
+          </YStack>
+        )}
       </YStack>
 
-      <YStack gap="$5">
+      <YStack gap="$5" onLayout={handleBlocksLayout}>
         {lesson.blocks.map((block, index) => (
-          <BlockRenderer
-            key={block.id || index}
-            block={block}
-            courseDetail={courseDetail}
-            onFlashcardsCompleted={handleFlashcardsCompleted}
-            onQuizCompleted={handleQuizCompleted}
-            onVideoPlay={handleVideoPlay}
-            onVideoStateChange={handleVideoStateChange}
-            inlinePlayingVideoId={inlinePlayingVideoId}
-            resumeInlineToken={resumeInlineToken}
-            resumeInlineVideoId={resumeInlineVideoId}
-            resumeInlineSeekTime={resumeInlineSeekTime}
-          />
+          <View key={block.id || index} onLayout={block.id === linkedBlockId ? handleLinkedBlockLayout : undefined}>
+            <BlockRenderer
+              block={block}
+              courseDetail={courseDetail}
+              onFlashcardsCompleted={handleFlashcardsCompleted}
+              onQuizCompleted={handleQuizCompleted}
+              onClozeCompleted={handleClozeCompleted}
+              onVideoPlay={handleVideoPlay}
+              onVideoStateChange={handleVideoStateChange}
+              inlinePlayingVideoId={inlinePlayingVideoId}
+              resumeInlineToken={resumeInlineToken}
+              resumeInlineVideoId={resumeInlineVideoId}
+              resumeInlineSeekTime={resumeInlineSeekTime}
+              onGlossaryPress={setGlossaryTermId}
+            />
+          </View>
         ))}
       </YStack>
     </ScrollView>
 
+    <GlossaryPopover
+      entry={courseDetail?.glossary?.find((entry) => entry.termId === glossaryTermId) ?? null}
+      onClose={() => setGlossaryTermId(null)}
+      onOpenGlossary={(entry) => {
+        setGlossaryTermId(null);
+        navigation.dispatch(StackActions.push('Glossary', { courseId, termId: entry.termId }));
+      }}
+    />
+
     {/* Floating mini-player */}
     {showMiniPlayer && floatingVideoId && (
       <View style={miniPlayerStyles.container}>
@@ -630,25 +793,32 @@ export default function LessonScreen() {
           onPress={scrollToVideo}
         >
           <View style={miniPlayerStyles.player}>
-            <YoutubePlayer
-              ref={miniPlayerRef}
-              height={MINI_PLAYER_HEIGHT}
-              videoId={floatingVideoId}
-              play={miniPlayerPlaying}
-              onReady={async () => {
-                try {
-                  if (floatingSeekTime > 0) {
-                    await miniPlayerRef.current?.seekTo(floatingSeekTime, true);
-                  }
-                } catch {
-                  // Ignore playback/seek failures.
-                }
-              }}
-              onChangeState={(state) => {
-                handleVideoStateChange(floatingVideoId, state, 'mini');
-              }}
-              webViewStyle={{ opacity: 0.99 }}
-            />
+            {floatingVideo && floatingVideo.provider !== 'youtube' ? (
+              <WebVideoPlayer
+                ref={miniPlayerRef}
+                provider={floatingVideo.provider}
+                videoId={floatingVideo.videoId}
+                src={floatingVideo.src}
+                height={MINI_PLAYER_HEIGHT}
+                play={miniPlayerPlaying}
+                onReady={handleMiniPlayerReady}
+                onChangeState={(state) => {
+                  handleVideoStateChange(floatingVideoId, state, 'mini');
+                }}
+              />
+            ) : (
+              <YoutubePlayer
+                ref={miniPlayerRef as React.MutableRefObject<YoutubeIframeRef | null>}
+                height={MINI_PLAYER_HEIGHT}
+                videoId={floatingVideoId}
+                play={miniPlayerPlaying}
+                onReady={handleMiniPlayerReady}
+                onChangeState={(state) => {
+                  handleVideoStateChange(floatingVideoId, state, 'mini');
+                }}
+                webViewStyle={{ opacity: 0.99 }}
+              />
+            )}
           </View>
         </TouchableOpacity>
         <TouchableOpacity
@@ -664,7 +834,7 @@ export default function LessonScreen() {
   );
 }
 
-function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompleted, onVideoPlay, onVideoStateChange, inlinePlayingVideoId, resumeInlineToken, resumeInlineVideoId, resumeInlineSeekTime }: {
+function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompleted, onClozeCompleted, onVideoPlay, onVideoStateChange, inlinePlayingVideoId, resumeInlineToken, resumeInlineVideoId, resumeInlineSeekTime, onGlossaryPress }: {
   block: ContentBlock;
   courseDetail: CourseDetail | null;
   onFlashcardsCompleted?: (payload: { source?: RewardCelebrateRect }) => void;
@@ -673,12 +843,18 @@ function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompl
     totalQuestions: number;
     source?: RewardCelebrateRect;
   }) => void;
-  onVideoPlay?: (videoId: string, yOffset: number, playerRef: React.RefObject<YoutubeIframeRef | null>) => void;
+  onClozeCompleted?: (blockId: string, payload: {
+    correctGaps: number;
+    totalGaps: number;
+    source?: RewardCelebrateRect;
+  }) => void;
+  onVideoPlay?: (videoId: string, yOffset: number, playerRef: React.RefObject<VideoPlayerControls | null>) => void;
   onVideoStateChange?: (videoId: string, state: string) => void;
   inlinePlayingVideoId?: string | null;
   resumeInlineToken?: number;
   resumeInlineVideoId?: string | null;
   resumeInlineSeekTime?: number;
+  onGlossaryPress?: (termId: string) => void;
 }) {
   switch (block.type) {
     case 'heading':
@@ -697,20 +873,12 @@ function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompl
     case 'text':
       return (
         <Text fontSize={16} lineHeight={26} color="#374151">
-          {block.content.map((span, i) => (
-            <Text 
-              key={i} 
-              fontWeight={span.bold ? '700' : '400'} 
-              fontStyle={span.italic ? 'italic' : 'normal'}
-              color={span.link ? '#2563EB' : '#374151'}
-            >
-              {span.text}
-            </Text>
-          ))}
+          {renderTextSpans(block.content, undefined, onGlossaryPress)}
         </Text>
       );
 
     case 'callout':
+      const callout = block as CalloutBlock;
       const colors = {
         tip: { bg: '#F0FDFA', border: '#99F6E4', icon: '#0D9488', iconName: 'info' },
         warning: { bg: '#FFFBEB', border: '#FDE68A', icon: '#D97706', iconName: 'alert-triangle' },
@@ -718,7 +886,7 @@ function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompl
         success: { bg: '#F0FDFA', border: '#99F6E4', icon: '#0D9488', iconName: 'check-circle' },
         info: { bg: '#F1F5F9', border: '#E2E8F0', icon: '#64748B', iconName: 'info' }
       };
-      const theme = colors[block.variant] || colors.info;
+      const theme = colors[callout.variant] || colors.info;
 
       return (
         <XStack 
@@ -730,78 +898,62 @@ function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompl
           gap="$3"
         >
           <Feather name={theme.iconName as any} size={20} color={theme.icon} />
-          <Text flex={1} fontSize={15} color="#374151" lineHeight={22}>
-            {block.text}
-          </Text>
-        </XStack>
-      );
-
-    case 'list':
-      return (
-        <YStack gap="$2" paddingLeft="$2">
-          {block.items.map((item, i) => {
-            // Handle both rich text (array) and plain text (string) formats
-            const content = Array.isArray(item) 
-              ? item.map((span, j) => (
-                  <Text 
-                    key={j} 
-                    fontWeight={span.bold ? '700' : '400'} 
-                    fontStyle={span.italic ? 'italic' : 'normal'}
-                    color={span.link ? '#2563EB' : '#374151'}
-                  >
-                    {span.text}
+          <YStack flex={1} gap="$2">
+            {callout.title ? (
+              <Text fontSize={15} fontWeight="700" color="#111827" lineHeight={22}>
+                {callout.title}
+              </Text>
+            ) : null}
+            {callout.paragraphs && callout.paragraphs.length > 0
+              ? callout.paragraphs.map((spans, i) => (
+                  <Text key={i} fontSize={15} color="#374151" lineHeight={22}>
+                    {renderTextSpans(spans)}
                   </Text>
                 ))
-              : item;
-            
-            return (
-              <XStack key={i} gap="$3" alignItems="flex-start">
-                <Text color="#4B5563" fontWeight="700" fontSize={16} lineHeight={24}>•</Text>
-                <Text flex={1} fontSize={16} lineHeight={24} color="#374151">
-                  {content}
+              : (
+                <Text fontSize={15} color="#374151" lineHeight={22}>
+                  {callout.text}
                 </Text>
-              </XStack>
-            );
-          })}
-        </YStack>
+              )}
+          </YStack>
+        </XStack>
       );
-    
+
+    case 'list':
+      return <ListBlock block={block as ListBlockData} />;
+
     case 'image':
       const imageBlock = block as any;
       const imageSource = typeof imageBlock.src === 'string'
-        ? {
-            uri: buildVersionedImageUri(
-              imageBlock.src,
-              imageBlock.version,
-              imageBlock.hash,
-            ),
-          }
+        ? { uri: buildImageBlockUri(imageBlock) }
         : imageBlock.src;
 
       return (
-        <LessonImage source={imageSource} caption={imageBlock.caption} />
+        <LessonImage source={imageSource} caption={imageBlock.caption} knownAspectRatio={imageBlock.aspectRatio} />
       );
 
     case 'video':
-      if (block.provider === 'youtube' && block.videoId) {
+      const video = block as VideoBlockData;
+      const videoKey = getVideoKey(video);
+      if (videoKey) {
         return (
           <VideoBlock
-            videoId={block.videoId}
-            title={block.title}
+            video={video}
+            videoKey={videoKey}
             onVideoPlay={onVideoPlay}
             onVideoStateChange={onVideoStateChange}
-            shouldPlay={inlinePlayingVideoId === block.videoId}
+            shouldPlay={inlinePlayingVideoId === videoKey}
             resumeInlineToken={resumeInlineToken}
             resumeInlineVideoId={resumeInlineVideoId}
             resumeInlineSeekTime={resumeInlineSeekTime}
           />
         );
       }
-      // Fallback for other video types
+      // Fallback when the block is missing its video ID / source
       return (
         <View height={200} backgroundColor="#1F2937" borderRadius={8} justifyContent="center" alignItems="center">
           <Feather name="play-circle" size={48} color="white" opacity={0.8} />
-          <Text color="white" marginTop="$2" fontSize={12} opacity={0.8}>Video: {block.title}</Text>
+          <Text color="white" marginTop="$2" fontSize={12} opacity={0.8}>Video: {video.title}</Text>
         </View>
       );
 
@@ -815,16 +967,37 @@ function BlockRenderer({ block, courseDetail, onFlashcardsCompleted, onQuizCompl
       if (!block.cards || block.cards.length === 0) return null;
       return <FlashcardsBlock cards={block.cards} onCompleted={onFlashcardsCompleted} />;
 
+    case 'cloze':
+      return <ClozeBlock block={block as ClozeBlockData} onCompleted={(payload) => onClozeCompleted?.(block.id, payload)} />;
+
+    case 'table':
+      return <TableBlock block={block as TableBlockData} />;
+
+    case 'code':
+      return <CodeBlock block={block as CodeBlockData} />;
+
     default:
       return null;
   }
 }
 
-/** Renders a lesson image at its natural aspect ratio (no cropping). */
-function LessonImage({ source, caption }: { source: ImageSourcePropType; caption?: string }) {
-  const [aspectRatio, setAspectRatio] = useState(16 / 9); // fallback
+/**
+ * Renders a lesson image at its natural aspect ratio (no cropping). With the
+ * parser's `knownAspectRatio` the space is reserved before the image loads.
+ */
+function LessonImage({ source, caption, knownAspectRatio }: {
+  source: ImageSourcePropType;
+  caption?: string;
+  knownAspectRatio?: number;
+}) {
+  const [aspectRatio, setAspectRatio] = useState(knownAspectRatio || 16 / 9); // fallback
 
   useEffect(() => {
+    if (knownAspectRatio) {
+      setAspectRatio(knownAspectRatio);
+      return;
+    }
+
     if (typeof source === 'number') {
       const resolved = Image.resolveAssetSource(source);
       if (resolved?.width && resolved?.height) {
@@ -842,7 +1015,7 @@ function LessonImage({ source, caption }: { source: ImageSourcePropType; caption
         () => {},  // keep fallback on error
       );
     }
-  }, [source]);
+  }, [source, knownAspectRatio]);
 
   return (
     <View marginVertical="$2" width="100%">
@@ -871,18 +1044,21 @@ function LessonImage({ source, caption }: { source: ImageSourcePropType; caption
   );
 }
 
-/** YouTube video block — tracks play state and reports to parent for mini-player. */
-function VideoBlock({ videoId, title, onVideoPlay, onVideoStateChange, shouldPlay, resumeInlineToken, resumeInlineVideoId, resumeInlineSeekTime }: {
-  videoId: string;
-  title?: string;
-  onVideoPlay?: (videoId: string, yOffset: number, playerRef: React.RefObject<YoutubeIframeRef | null>) => void;
+/**
+ * Video block (YouTube, Vimeo or a direct file) — tracks play state and
+ * reports to parent for mini-player. `videoKey` identifies it to the parent.
+ */
+function VideoBlock({ video, videoKey: videoId, onVideoPlay, onVideoStateChange, shouldPlay, resumeInlineToken, resumeInlineVideoId, resumeInlineSeekTime }: {
+  video: VideoBlockData;
+  videoKey: string;
+  onVideoPlay?: (videoId: string, yOffset: number, playerRef: React.RefObject<VideoPlayerControls | null>) => void;
   onVideoStateChange?: (videoId: string, state: string) => void;
   shouldPlay?: boolean;
   resumeInlineToken?: number;
   resumeInlineVideoId?: string | null;
   resumeInlineSeekTime?: number;
 }) {
-  const playerRef = useRef<YoutubeIframeRef>(null);
+  const playerRef = useRef<VideoPlayerControls>(null);
   const pendingResumeSeekRef = useRef<number | null>(null);
   const pendingResumePlayRef = useRef(false);
   const [playerInstanceKey, setPlayerInstanceKey] = useState(0);
@@ -890,11 +1066,26 @@ function VideoBlock({ videoId, title, onVideoPlay, onVideoStateChange, shouldPla
 
   const handleStateChange = useCallback((state: string) => {
     if (state === 'playing') {
-      onVideoPlay?.(videoId, 0, playerRef as React.RefObject<YoutubeIframeRef | null>);
+      onVideoPlay?.(videoId, 0, playerRef as React.RefObject<VideoPlayerControls | null>);
     }
     onVideoStateChange?.(videoId, state);
   }, [videoId, onVideoPlay, onVideoStateChange, shouldPlay]);
 
+  const handleReady = useCallback(async () => {
+    if (!pendingResumePlayRef.current) return;
+    try {
+      const pendingSeek = pendingResumeSeekRef.current;
+      if (typeof pendingSeek === 'number' && pendingSeek > 0) {
+        await playerRef.current?.seekTo(pendingSeek, true);
+      }
+      await playerRef.current?.playVideo?.();
+    } catch {
+    } finally {
+      pendingResumePlayRef.current = false;
+      pendingResumeSeekRef.current = null;
+    }
+  }, []);
+
   useEffect(() => {
     if (!resumeInlineToken || resumeInlineVideoId !== videoId) return;
     pendingResumeSeekRef.current =
@@ -918,35 +1109,38 @@ function VideoBlock({ videoId, title, onVideoPlay, onVideoStateChange, shouldPla
         shadowOpacity={0.1}
         shadowRadius={8}
       >
-        <YoutubePlayer
-          key={`${videoId}-${playerInstanceKey}`}
-          ref={playerRef}
-          height={videoHeight}
-          videoId={videoId}
-          play={!!shouldPlay}
-          onReady={async () => {
-            if (!pendingResumePlayRef.current) return;
-            try {
-              const pendingSeek = pendingResumeSeekRef.current;
-              if (typeof pendingSeek === 'number' && pendingSeek > 0) {
-                await playerRef.current?.seekTo(pendingSeek, true);
-              }
-              await (playerRef.current as any)?.playVideo?.();
-            } catch {
-            } finally {
-              pendingResumePlayRef.current = false;
-              pendingResumeSeekRef.current = null;
-            }
-          }}
-          onChangeState={handleStateChange}
-          webViewStyle={{ opacity: 0.99 }}
-        />
+        {video.provider === 'youtube' ? (
+          <YoutubePlayer
+            key={`${videoId}-${playerInstanceKey}`}
+            ref={playerRef as React.MutableRefObject<YoutubeIframeRef | null>}
+            height={videoHeight}
+            videoId={video.videoId}
+            play={!!shouldPlay}
+            initialPlayerParams={video.startSeconds ? { start: video.startSeconds } : undefined}
+            onReady={handleReady}
+            onChangeState={handleStateChange}
+            webViewStyle={{ opacity: 0.99 }}
+          />
+        ) : (
+          <WebVideoPlayer
+            key={`${videoId}-${playerInstanceKey}`}
+            ref={playerRef}
+            provider={video.provider}
+            videoId={video.videoId}
+            src={video.src}
+            startSeconds={video.startSeconds}
+            height={videoHeight}
+            play={!!shouldPlay}
+            onReady={handleReady}
+            onChangeState={handleStateChange}
+          />
+        )}
       </View>
-      {title && (
+      {video.title ? (
         <Text fontSize={13} color="#6B7280" marginTop="$2" textAlign="center" fontStyle="italic">
-          {title}
+          {video.title}
         </Text>
-      )}
+      ) : null}
     </View>
   );
 }
@@ -1,4 +1,5 @@
-import { Image } from 'react-native';
+import { Dimensions, Image, PixelRatio } from 'react-native';
+import type { ImageVariant } from '../api/course/CourseAPI';
 
 export function buildVersionedImageUri(
   uri: string,
@@ -12,6 +13,39 @@ export function buildVersionedImageUri(
   return `${uri}${separator}v=${encodeURIComponent(String(token))}`;
 }
 
+/** Width in physical pixels an image needs to fill the screen width */
+export function screenPixelWidth(): number {
+  return Math.round(Dimensions.get('window').width * PixelRatio.get());
+}
+
+/**
+ * The narrowest variant at least `targetWidth` px wide, else the widest one.
+ * Variants in `format` are preferred; the others are used when there are none.
+ */
+export function pickImageVariant(
+  variants: ImageVariant[] | undefined,
+  targetWidth: number,
+  format: ImageVariant['format'] = 'webp',
+): ImageVariant | undefined {
+  if (!variants?.length) return undefined;
+  const inFormat = variants.filter((variant) => variant.format === format);
+  const byWidth = [...(inFormat.length > 0 ? inFormat : variants)].sort((a, b) => a.width - b.width);
+  return byWidth.find((variant) => variant.width >= targetWidth) ?? byWidth[byWidth.length - 1];
+}
+
+/**
+ * Versioned URI for a lesson image block, using the variant that fits
+ * `targetWidth` when the block has variants. Variants share the original's
+ * version token: their paths are reused when the image changes.
+ */
+export function buildImageBlockUri(
+  block: { src: string; version?: number | string; hash?: string; variants?: ImageVariant[] },
+  targetWidth: number = screenPixelWidth(),
+): string {
+  const variant = pickImageVariant(block.variants, targetWidth);
+  return buildVersionedImageUri(variant?.src ?? block.src, block.version, block.hash);
+}
+
 export function prefetchImage(uri?: string | null): void {
   if (!uri || !uri.startsWith('http')) return;
   void Image.prefetch(uri).catch(() => {
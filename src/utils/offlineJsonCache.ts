@@ -13,6 +13,14 @@ function buildCacheKey(cacheKey: string): string {
   return `${CACHE_PREFIX}${cacheKey}`;
 }
 
+/**
+ * Namespaces a cache key by content channel so a preview channel never
+ * overwrites or serves production data. Production keys stay unchanged.
+ */
+export function channelCacheKey(channel: string | undefined, cacheKey: string): string {
+  return channel ? `channel:${channel}:${cacheKey}` : cacheKey;
+}
+
 export async function readJsonCache<T>(cacheKey: string): Promise<T | null> {
   try {
     const raw = await AsyncStorage.getItem(buildCacheKey(cacheKey));